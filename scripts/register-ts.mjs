@@ -0,0 +1,4 @@
+// Registers ts-loader.mjs; used as `node --import ./scripts/register-ts.mjs`
+import { register } from 'node:module';
+
+register('./ts-loader.mjs', import.meta.url);
@@ -0,0 +1,47 @@
+/**
+ * TS Loader - Module hooks that let `node --test` import the TypeScript sources directly
+ * Resolves the `@/` alias and extensionless imports, and transpiles .ts files on load
+ * (no type checking; `tsc --noEmit` does that)
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import ts from 'typescript';
+
+const SRC = new URL('../src/', import.meta.url);
+const EXTENSIONS = ['.ts', '.tsx', '/index.ts'];
+
+export async function resolve(specifier, context, nextResolve) {
+  const aliased = specifier.startsWith('@/') ? new URL(specifier.slice(2), SRC).href : null;
+  const relative = specifier.startsWith('.') && context.parentURL?.startsWith('file:')
+    ? new URL(specifier, context.parentURL).href
+    : null;
+  const base = aliased ?? relative;
+
+  if (base && !existsSync(fileURLToPath(base))) {
+    const found = EXTENSIONS.map((ext) => `${base}${ext}`).find((url) => existsSync(fileURLToPath(url)));
+    if (found) return { url: found, shortCircuit: true };
+  }
+  try {
+    return await nextResolve(aliased ?? specifier, context);
+  } catch (error) {
+    // CommonJS packages without an exports map (e.g. `next/server`) need the extension in ESM
+    if (error.code !== 'ERR_MODULE_NOT_FOUND' || base || /\.[cm]?js$/.test(specifier)) throw error;
+    return nextResolve(`${specifier}.js`, context);
+  }
+}
+
+export async function load(url, context, nextLoad) {
+  if (!/\.tsx?$/.test(url)) return nextLoad(url, context);
+
+  const { outputText } = ts.transpileModule(readFileSync(fileURLToPath(url), 'utf8'), {
+    fileName: fileURLToPath(url),
+    compilerOptions: {
+      module: ts.ModuleKind.ESNext,
+      target: ts.ScriptTarget.ES2022,
+      jsx: ts.JsxEmit.ReactJSX,
+      esModuleInterop: true,
+    },
+  });
+  return { format: 'module', source: outputText, shortCircuit: true };
+}
@@ -1,17 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
 import fs from "fs";
 import path from "path";
-import { execSync } from "child_process";
-
-function isValidPath(targetPath: string): boolean {
-  try {
-    const resolved = path.resolve(targetPath);
-    fs.accessSync(resolved, fs.constants.R_OK);
-    return true;
-  } catch {
-    return false;
-  }
-}
+import {
+  WorkspaceAccessError,
+  assertFileVersion,
+  getFileVersion,
+  resolveWorkspacePath,
+  workspaceErrorResponse,
+  writeWorkspaceFile,
+} from "@/lib/workspaceSandbox";
+import { GitService, gitErrorResponse } from "@/lib/gitService";
 
 function isTextFile(filePath: string): boolean {
   const textExtensions = [
@@ -25,90 +23,70 @@ function isTextFile(filePath: string): boolean {
   return textExtensions.includes(ext);
 }
 
-// GET - Read file content
+function assertTextFile(filePath: string) {
+  if (!isTextFile(filePath)) {
+    throw new WorkspaceAccessError('UNSUPPORTED_FILE_TYPE', 'Only text files can be edited');
+  }
+}
+
+// GET - Read file content (with its version for later conditional writes)
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
   const filePath = searchParams.get('path');
-  const type = searchParams.get('type'); // 'local' (default) or 'git'
-
-  if (!filePath) {
-    return NextResponse.json({ error: 'Path parameter is required' }, { status: 400 });
-  }
+  const type = searchParams.get('type'); // 'local' (default) or 'git' (optionally with `ref`)
 
-  if (!isValidPath(filePath)) {
-    return NextResponse.json({ error: 'Invalid or inaccessible file path' }, { status: 400 });
-  }
+  try {
+    // For Git version, the file might be deleted locally but exist in git
+    const { resolved } = resolveWorkspacePath(filePath, { mustExist: type !== 'git' });
+    assertTextFile(resolved);
 
-  const resolved = path.resolve(filePath);
-  
-  // For Git version, we don't need to check if file exists locally (it might be deleted locally but exist in git)
-  if (type !== 'git') {
-    const stats = fs.statSync(resolved);
-    if (!stats.isFile()) {
-      return NextResponse.json({ error: 'Path must be a file' }, { status: 400 });
+    if (type === 'git') {
+      const ref = searchParams.get('ref') || 'HEAD';
+      const content = await GitService.show(resolved, ref);
+      return NextResponse.json({ content, ref });
     }
-  }
-
-  if (!isTextFile(resolved)) {
-    return NextResponse.json({ error: 'Only text files can be edited' }, { status: 400 });
-  }
 
-  try {
-    if (type === 'git') {
-      try {
-        // Convert absolute path to relative path for git command
-        const workspaceRoot = process.cwd();
-        const relativePath = path.relative(workspaceRoot, resolved);
-        
-        // Use git show HEAD:path to get content from latest commit
-        const content = execSync(`git show HEAD:"${relativePath}"`, {
-          encoding: 'utf-8',
-          stdio: ['pipe', 'pipe', 'pipe'] // Prevent output to console
-        });
-        return NextResponse.json({ content });
-      } catch (error) {
-        console.warn('Failed to read git content:', error);
-        // If file is not in git (e.g. new file), return empty content or 404
-        return NextResponse.json({ content: '', error: 'File not found in git' }, { status: 404 });
-      }
-    } else {
-      const content = fs.readFileSync(resolved, 'utf-8');
-      return NextResponse.json({ content });
+    if (!fs.statSync(resolved).isFile()) {
+      throw new WorkspaceAccessError('NOT_A_FILE', 'Path must be a file');
     }
-  } catch {
-    return NextResponse.json({ error: 'Failed to read file' }, { status: 500 });
+
+    const content = fs.readFileSync(resolved, 'utf-8');
+    return NextResponse.json({ content, ...getFileVersion(resolved, content) });
+  } catch (error) {
+    return gitErrorResponse(error, 'Failed to read file');
   }
 }
 
-// POST - Write file content
+// POST - Write file content. Send `expectedHash` and/or `expectedMtime` from the
+// last read to get 409 instead of overwriting a file that changed on disk.
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { path: filePath, content } = body;
+    const { path: filePath, content, expectedMtime, expectedHash } = body;
 
-    if (!filePath || content === undefined) {
+    if (!filePath || typeof content !== 'string') {
       return NextResponse.json(
-        { error: 'Path and content are required' },
+        { error: 'Path and content are required', code: 'INVALID_PATH' },
         { status: 400 }
       );
     }
 
-    if (!isValidPath(filePath)) {
-      return NextResponse.json({ error: 'Invalid or inaccessible file path' }, { status: 400 });
-    }
+    const { resolved } = resolveWorkspacePath(filePath, { mustExist: false });
+    assertTextFile(resolved);
 
-    const resolved = path.resolve(filePath);
-
-    if (!isTextFile(resolved)) {
-      return NextResponse.json({ error: 'Only text files can be edited' }, { status: 400 });
+    if (fs.existsSync(resolved) && !fs.statSync(resolved).isFile()) {
+      throw new WorkspaceAccessError('NOT_A_FILE', 'Path must be a file');
     }
 
-    // Write file with backup
-    fs.writeFileSync(resolved, content, 'utf-8');
+    assertFileVersion(resolved, {
+      expectedMtime: typeof expectedMtime === 'number' ? expectedMtime : undefined,
+      expectedHash: typeof expectedHash === 'string' ? expectedHash : undefined,
+    });
+
+    writeWorkspaceFile(resolved, content);
 
-    return NextResponse.json({ success: true });
+    return NextResponse.json({ success: true, ...getFileVersion(resolved, content) });
   } catch (error) {
-    console.error('Error writing file:', error);
-    return NextResponse.json({ error: 'Failed to write file' }, { status: 500 });
+    return workspaceErrorResponse(error, 'Failed to write file');
   }
 }
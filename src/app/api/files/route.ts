@@ -2,18 +2,12 @@ import { NextRequest, NextResponse } from "next/server";
 import fs from "fs";
 import path from "path";
 import { FileNode } from "@/types/file.types";
-
-function isValidPath(targetPath: string): boolean {
-  try {
-    // Resolve to absolute path
-    const resolved = path.resolve(targetPath);
-    // Check if path exists and is accessible
-    fs.accessSync(resolved, fs.constants.R_OK);
-    return true;
-  } catch {
-    return false;
-  }
-}
+import {
+  WorkspaceAccessError,
+  isInsideWorkspace,
+  resolveWorkspacePath,
+  workspaceErrorResponse,
+} from "@/lib/workspaceSandbox";
 
 function buildFileTree(dirPath: string, maxDepth: number = 3, currentDepth: number = 0): FileNode[] {
   if (currentDepth >= maxDepth) return [];
@@ -29,6 +23,16 @@ function buildFileTree(dirPath: string, maxDepth: number = 3, currentDepth: numb
       }
 
       const fullPath = path.join(dirPath, item);
+
+      // Don't follow symlinks that leave the workspace
+      if (fs.lstatSync(fullPath).isSymbolicLink()) {
+        try {
+          if (!isInsideWorkspace(fs.realpathSync(fullPath))) continue;
+        } catch {
+          continue; // Dangling link
+        }
+      }
+
       const stats = fs.statSync(fullPath);
 
       if (stats.isDirectory()) {
@@ -66,22 +70,17 @@ export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
   const targetPath = searchParams.get('path');
 
-  if (!targetPath) {
-    return NextResponse.json({ error: 'Path parameter is required' }, { status: 400 });
-  }
+  try {
+    const { resolved } = resolveWorkspacePath(targetPath);
 
-  if (!isValidPath(targetPath)) {
-    return NextResponse.json({ error: 'Invalid or inaccessible path' }, { status: 400 });
-  }
+    if (!fs.statSync(resolved).isDirectory()) {
+      throw new WorkspaceAccessError('NOT_A_DIRECTORY', 'Path must be a directory');
+    }
 
-  const resolved = path.resolve(targetPath);
-  const stats = fs.statSync(resolved);
+    const files = buildFileTree(resolved);
 
-  if (!stats.isDirectory()) {
-    return NextResponse.json({ error: 'Path must be a directory' }, { status: 400 });
+    return NextResponse.json({ files });
+  } catch (error) {
+    return workspaceErrorResponse(error, 'Failed to read directory');
   }
-
-  const files = buildFileTree(resolved);
-
-  return NextResponse.json({ files });
 }
@@ -1,139 +1,171 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { TextEdit } from '@/types/editor.types';
+import { HunkFailure, TextEdit } from '@/types/editor.types';
+import { EditParser } from '@/lib/editParser';
+import { getProvider, LLMProvider, LLMProviderError } from '@/lib/llmProviders';
+import { ConversationHistory } from '@/lib/conversationHistory';
+import { PromptTemplates } from '@/lib/promptTemplates';
+import { TokenBudget } from '@/lib/tokenBudget';
+import { LLMMessage, LLMRequest, LLMStreamEvent } from '@/types/llm.types';
+import { PromptTemplateId } from '@/types/prompt.types';
+
+// Actions whose prompt is built here from a template; the rest send their prompt as is
+const ACTION_TEMPLATES = new Map<string, PromptTemplateId>([
+  ['explain', 'action.explain'],
+  ['optimize', 'action.optimize'],
+  ['generate', 'action.generate'],
+  ['fix', 'action.fix'],
+  ['edit', 'action.edit'],
+]);
 
 /**
- * Parse SEARCH/REPLACE blocks from AI response into structured edits
+ * Stream model output as SSE, emitting each SEARCH/REPLACE edit as soon as its block completes
  */
-function parseSearchReplaceBlocks(text: string, originalCode: string): TextEdit[] {
-  const edits: TextEdit[] = [];
-  const pattern = /<<<<<<< SEARCH\n([\s\S]*?)\n=======\n([\s\S]*?)\n>>>>>>> REPLACE/g;
-  const lines = originalCode.split('\n');
-  
-  let match;
-  while ((match = pattern.exec(text)) !== null) {
-    const searchText = match[1].trim();
-    const replaceText = match[2].trim();
-    
-    // Find the search text in original code
-    const searchLines = searchText.split('\n');
-    let startLine = -1;
-    
-    for (let i = 0; i < lines.length; i++) {
-      let found = true;
-      for (let j = 0; j < searchLines.length; j++) {
-        if (i + j >= lines.length || lines[i + j].trim() !== searchLines[j].trim()) {
-          found = false;
-          break;
+function streamResponse(
+  provider: LLMProvider,
+  llmRequest: LLMRequest,
+  action: string,
+  code: string | undefined,
+  template: string | undefined,
+  signal: AbortSignal
+): Response {
+  const encoder = new TextEncoder();
+  const upstream = new AbortController();
+  signal.addEventListener('abort', () => upstream.abort());
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: LLMStreamEvent) => {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      };
+
+      let text = '';
+      let completedBlocks = 0;
+      let edits: TextEdit[] = [];
+      let failures: HunkFailure[] = [];
+
+      try {
+        for await (const chunk of provider.stream(llmRequest, upstream.signal)) {
+          text += chunk;
+          send({ type: 'delta', text: chunk });
+
+          // Only re-parse when another block has been closed
+          if (action === 'edit' && code) {
+            const blockCount = (text.match(/>>>>>>> REPLACE/g) || []).length;
+            if (blockCount > completedBlocks) {
+              completedBlocks = blockCount;
+              // Partial diffs/JSON are not parseable yet, so only look at closed blocks
+              const parsed = EditParser.parse(text, code, { formats: ['search-replace'] }).edits;
+              parsed.slice(edits.length).forEach((edit) => send({ type: 'edit', edit }));
+              edits = parsed;
+            }
+          }
         }
+
+        // Final pass picks up diff/JSON formats and reports hunks that could not be located
+        if (action === 'edit' && code) {
+          const result = EditParser.parse(text, code);
+          result.edits.slice(edits.length).forEach((edit) => send({ type: 'edit', edit }));
+          edits = result.edits;
+          failures = result.failures;
+        }
+
+        send({
+          type: 'done',
+          text: action === 'complete' ? text : text || '无法生成回复',
+          edits: edits.length > 0 ? edits : undefined,
+          failures: failures.length > 0 ? failures : undefined,
+          provider: provider.id,
+          model: llmRequest.model || provider.defaultModel,
+          template,
+        });
+      } catch (error) {
+        if (!upstream.signal.aborted) {
+          console.error('Streaming error:', error);
+          send({ type: 'error', error: error instanceof Error ? error.message : 'Unknown error' });
+        }
+      } finally {
+        controller.close();
       }
-      if (found) {
-        startLine = i + 1; // 1-indexed
-        break;
-      }
-    }
-    
-    if (startLine > 0) {
-      edits.push({
-        startLine,
-        endLine: startLine + searchLines.length - 1,
-        oldText: searchText,
-        newText: replaceText
-      });
-    }
-  }
-  
-  return edits;
+    },
+    cancel() {
+      upstream.abort();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
 }
 
 export async function POST(request: NextRequest) {
   try {
-    const { prompt, action, code } = await request.json();
-    const apiKey = process.env.GEMINI_API_KEY;
-
-    if (!apiKey) {
-      return NextResponse.json(
-        { error: 'Gemini API key not configured' },
-        { status: 500 }
-      );
-    }
+    const { prompt, action, code, packed, provider: providerId, model, stream, messages, history, rules, templates } = await request.json();
+    const provider = getProvider(providerId, { scripted: action !== 'complete' });
 
     // 根据不同的 action 构建不同的提示词
-    let fullPrompt = '';
-    
-    switch (action) {
-      case 'chat':
-        fullPrompt = prompt;
-        break;
-      case 'explain':
-        fullPrompt = `请详细解释以下代码的功能和逻辑：\n\n${code}\n\n请用中文回答，包括：\n1. 代码的主要功能\n2. 关键逻辑说明\n3. 使用的技术和模式`;
-        break;
-      case 'optimize':
-        fullPrompt = `请分析以下代码并提供优化建议：\n\n${code}\n\n请用中文回答，包括：\n1. 当前代码的问题\n2. 优化建议\n3. 优化后的代码示例`;
-        break;
-      case 'generate':
-        fullPrompt = `请根据以下需求生成代码：\n\n${prompt}\n\n要求：\n1. 代码要完整可运行\n2. 包含必要的注释\n3. 遵循最佳实践`;
-        break;
-      case 'fix':
-        fullPrompt = `请帮我修复以下代码中的错误：\n\n${code}\n\n${prompt ? `错误信息：${prompt}` : ''}\n\n请提供：\n1. 错误分析\n2. 修复后的代码\n3. 修复说明`;
-        break;
-      case 'edit':
-        fullPrompt = `我需要修改以下代码：\n\n${code}\n\n修改需求：${prompt}\n\n请提供：\n1. 只输出需要修改的部分代码（使用 SEARCH/REPLACE 格式）\n2. 格式如下：\n<<<<<<< SEARCH\n[要替换的原始代码]\n=======\n[替换后的新代码]\n>>>>>>> REPLACE\n\n注意：\n- 只包含需要修改的代码块\n- 保持代码的缩进和格式\n- 可以有多个 SEARCH/REPLACE 块\n- SEARCH 块必须精确匹配原代码`;
-        break;
-      default:
-        fullPrompt = prompt;
-    }
+    // Prompts the client already packed into a token budget (`packed: true`) are sent as is;
+    // wrapping them again would re-embed the whole `code`
+    const templateId = packed === true ? undefined : ACTION_TEMPLATES.get(action);
+    // The workspace's .webagent/templates/, sent by the client since only it can read them
+    const overrides = PromptTemplates.overrides(templates);
+    const fullPrompt = templateId ? PromptTemplates.render(templateId, { code, prompt }, overrides) : prompt;
+    const template = templateId ? PromptTemplates.tag(templateId, overrides) : undefined;
 
-    // 调用 Gemini API (使用免费层的 Gemini 2.5 Flash 模型)
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent?key=${apiKey}`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          contents: [
-            {
-              parts: [
-                {
-                  text: fullPrompt,
-                },
-              ],
-            },
-          ],
-          generationConfig: {
-            temperature: 0.7,
-            topK: 40,
-            topP: 0.95,
-            maxOutputTokens: 2048,
-          },
-        }),
-      }
-    );
+    // Project rules from the workspace's .webagent/rules.md go first, ahead of any other system text
+    const rulesMessages: LLMMessage[] = typeof rules === 'string' && rules.trim()
+      ? [{ role: 'system', content: PromptTemplates.render('project-rules', { rules }, overrides) }]
+      : [];
 
-    if (!response.ok) {
-      const errorData = await response.json();
-      console.error('Gemini API Error:', errorData);
-      return NextResponse.json(
-        { error: 'Failed to call Gemini API', details: errorData },
-        { status: response.status }
-      );
+    // Callers that manage their own conversation (agent mode) send the full message list;
+    // chat requests send earlier turns as `history`, trimmed here to the token budget
+    const earlierTurns = Array.isArray(history) ? ConversationHistory.fit(history as LLMMessage[]).messages : [];
+    const conversation: LLMMessage[] = Array.isArray(messages) && messages.length > 0
+      ? (messages as LLMMessage[])
+      : [...earlierTurns, { role: 'user', content: fullPrompt }];
+    const llmRequest: LLMRequest = {
+      messages: [...rulesMessages, ...conversation],
+      model,
+      // Inline completions are short and should not wander; everything else may need room
+      // for whole-file or multi-file edits, up to what the model can produce
+      ...(action === 'complete'
+        ? { temperature: 0.2, maxOutputTokens: 256 }
+        : { maxOutputTokens: TokenBudget.forModel(provider.id, model || provider.defaultModel).outputTokens }),
+    };
+
+    if (stream) {
+      return streamResponse(provider, llmRequest, action, code, template, request.signal);
     }
 
-    const data = await response.json();
-    const text = data.candidates?.[0]?.content?.parts?.[0]?.text || '无法生成回复';
+    // 通过所选 provider 调用模型（默认 Gemini 2.5 Flash）
+    const result = await provider.generate(llmRequest, request.signal);
+    // An empty completion means "nothing to suggest", not an error to show as ghost text
+    const text = action === 'complete' ? result.text : result.text || '无法生成回复';
 
     // Parse structured edits for 'edit' action
-    let edits = null;
-    if (action === 'edit' && code) {
-      edits = parseSearchReplaceBlocks(text, code);
-    }
+    const { edits, failures } = action === 'edit' && code
+      ? EditParser.parse(text, code)
+      : { edits: [], failures: [] };
 
     return NextResponse.json({ 
       text,
-      edits: edits && edits.length > 0 ? edits : undefined
+      edits: edits.length > 0 ? edits : undefined,
+      failures: failures.length > 0 ? failures : undefined,
+      provider: result.provider,
+      model: result.model,
+      template,
     });
   } catch (error) {
+    if (error instanceof LLMProviderError) {
+      console.error('LLM provider error:', error.message, error.details);
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
     console.error('Error in Gemini API route:', error);
     return NextResponse.json(
       { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { GitService, gitErrorResponse } from "@/lib/gitService";
+import { resolveWorkspacePath } from "@/lib/workspaceSandbox";
+
+// GET /api/git/{status|diff|log|blame|show|refs}?path=...&ref=...
+// Paths are sandboxed to the workspace; the repository is found from the file's directory.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ operation: string }> }
+) {
+  const { operation } = await params;
+  const searchParams = request.nextUrl.searchParams;
+  const ref = searchParams.get('ref') || undefined;
+
+  try {
+    // Files deleted locally can still be inspected at a revision
+    const { resolved } = resolveWorkspacePath(searchParams.get('path'), { mustExist: false });
+
+    switch (operation) {
+      case 'status':
+        return NextResponse.json(await GitService.status(resolved));
+      case 'diff':
+        return NextResponse.json({ ref: ref ?? 'HEAD', diff: await GitService.diff(resolved, ref) });
+      case 'log':
+        return NextResponse.json({ entries: await GitService.log(resolved, Number(searchParams.get('limit')) || undefined) });
+      case 'blame':
+        return NextResponse.json({ ref: ref ?? null, lines: await GitService.blame(resolved, ref) });
+      case 'show':
+        return NextResponse.json({ ref: ref ?? 'HEAD', content: await GitService.show(resolved, ref) });
+      case 'refs':
+        return NextResponse.json({ refs: await GitService.refs(resolved) });
+      default:
+        return NextResponse.json({ error: `Unknown git operation: ${operation}` }, { status: 404 });
+    }
+  } catch (error) {
+    return gitErrorResponse(error, `Failed to run git ${operation}`);
+  }
+}
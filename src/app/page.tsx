@@ -1,42 +1,66 @@
 "use client";
 
-import { useState, useEffect, useCallback, useRef } from "react";
+import { useEffect, useCallback, useRef, useMemo } from "react";
 import toast from "react-hot-toast";
 import FileTree from "@/components/FileTree";
 import CodeEditor from "@/components/CodeEditor";
+import EditorTabs from "@/components/EditorTabs";
 import AIChat from "@/components/AIChat";
+import ModelSelector from "@/components/ModelSelector";
 import { FileNode } from "@/types/file.types";
-import { PendingEdit } from "@/types/editor.types";
-import { saveDirectoryHandle, loadDirectoryHandle, verifyPermission } from "@/utils/storage";
+import { EditorTab, EditorViewState } from "@/types/editor.types";
+import { AIEditOrigin } from "@/types/llm.types";
+import { SymbolIndex } from "@/lib/symbolIndex";
+import { SlashCommands } from "@/lib/slashCommands";
+import { WorkspaceConfig } from "@/lib/workspaceConfig";
+import { MultiFileChange, MultiFileManager } from "@/lib/multiFileManager";
+import { createHandleWorkspace } from "@/lib/agentTools";
+import { appStore, useAppStore } from "@/store/app-store";
+import { selectActiveTab, selectHasUnsavedTabs, selectOpenPathsKey } from "@/store/selectors";
+import {
+  saveDirectoryHandle,
+  loadDirectoryHandle,
+  verifyPermission,
+  saveOpenTabs,
+  loadOpenTabs,
+} from "@/utils/storage";
 
 export default function Home() {
-  const [selectedFile, setSelectedFile] = useState<string | null>(null);
-  const [fileContent, setFileContent] = useState<string>("");
-  const [fileHandle, setFileHandle] = useState<FileSystemFileHandle | null>(null);
-  const [files, setFiles] = useState<FileNode[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [dirHandle, setDirHandle] = useState<FileSystemDirectoryHandle | null>(null);
-  const [fileHandles, setFileHandles] = useState<Map<string, FileSystemFileHandle>>(new Map());
-  const [showAIPanel, setShowAIPanel] = useState(false);
-  const [aiAction, setAiAction] = useState<'chat' | 'explain' | 'optimize' | 'generate' | 'fix' | 'edit'>('chat');
-  const [aiCode, setAiCode] = useState<string>('');
-  const [aiPrompt, setAiPrompt] = useState<string>('');
-  
-  // History tracking for undo functionality
-  const [contentHistory, setContentHistory] = useState<string[]>([]);
-  const [historyIndex, setHistoryIndex] = useState<number>(-1);
-  
-  // Pending edits for Cursor-style preview
-  const [pendingEdits, setPendingEdits] = useState<PendingEdit[]>([]);
-  const editorRef = useRef<unknown>(null);
-  
-  // Editor context for AI
-  const [cursorPosition, setCursorPosition] = useState<{ line: number; column: number } | undefined>();
-  const [selectedText, setSelectedText] = useState<string | undefined>();
+  // Workspace, tabs, pending edits, AI panel and settings live in the app store
+  const files = useAppStore((state) => state.files);
+  const loading = useAppStore((state) => state.loading);
+  const dirHandle = useAppStore((state) => state.dirHandle);
+  const fileHandles = useAppStore((state) => state.fileHandles);
+  const indexStats = useAppStore((state) => state.indexStats);
+  const showAIPanel = useAppStore((state) => state.showAIPanel);
+  const llmSettings = useAppStore((state) => state.llmSettings);
+  const activePath = useAppStore((state) => state.activePath);
+  const activeTab = useAppStore(selectActiveTab);
+  const openPathsKey = useAppStore(selectOpenPathsKey);
+  const hasUnsavedTabs = useAppStore(selectHasUnsavedTabs);
+  const {
+    setDirHandle,
+    setFileTree,
+    setLoading,
+    openTab,
+    renameTab,
+    closeTabsUnder,
+    markSaved,
+    applyWrittenContent,
+    applyContentChange,
+    captureSnapshot,
+    resetTabs,
+    openAIPanel,
+    setLLMSettings,
+  } = appStore.getState(); // Actions never change, so they are read once without subscribing
+
+  const selectedFile = activeTab?.path ?? null;
+  const restoredTabsRef = useRef<string | null>(null); // Workspace whose saved tabs were reopened
 
   // Auto-restore last opened directory on mount
   useEffect(() => {
     const restoreDirectory = async () => {
+      const { setDirHandle, setFileTree, setLoading } = appStore.getState();
       try {
         const savedHandle = await loadDirectoryHandle();
         if (!savedHandle) return;
@@ -53,8 +77,7 @@ export default function Home() {
         setDirHandle(savedHandle);
         const handles = new Map<string, FileSystemFileHandle>();
         const fileTree = await buildFileTree(savedHandle, '', handles);
-        setFileHandles(handles);
-        setFiles(fileTree);
+        setFileTree(fileTree, handles);
       } catch (error) {
         console.error('Failed to restore directory:', error);
       } finally {
@@ -65,6 +88,146 @@ export default function Home() {
     restoreDirectory();
   }, []);
 
+  // Load the provider selection saved for this workspace
+  useEffect(() => {
+    if (!dirHandle) return;
+    appStore.getState().loadWorkspaceSettings(dirHandle.name);
+  }, [dirHandle]);
+
+  // Chat sessions are per workspace; resume the latest one
+  useEffect(() => {
+    if (!dirHandle) return;
+    appStore.getState().loadChatSessions(dirHandle.name);
+  }, [dirHandle]);
+
+  // Custom slash commands, project rules and prompt templates from .webagent/; reloaded on manual refresh
+  const loadWorkspaceConfig = useCallback(async () => {
+    const { dirHandle, setWorkspaceCommands, setProjectRules, setTemplateOverrides } = appStore.getState();
+    if (!dirHandle) {
+      setWorkspaceCommands([]);
+      setProjectRules('');
+      setTemplateOverrides({});
+      return;
+    }
+    const [{ commands, errors }, { rules, truncated }, templates] = await Promise.all([
+      SlashCommands.loadWorkspaceCommands(dirHandle),
+      WorkspaceConfig.loadRules(dirHandle),
+      WorkspaceConfig.loadTemplates(dirHandle),
+    ]);
+    if (appStore.getState().dirHandle !== dirHandle) return;
+    setWorkspaceCommands(commands);
+    setProjectRules(rules);
+    setTemplateOverrides(templates.overrides);
+    if (errors.length > 0) toast.error(`自定义命令配置有误：\n${errors.join('\n')}`);
+    if (truncated) toast.error('项目规则文件过长，只会发送开头部分');
+    if (templates.errors.length > 0) toast.error(`自定义模板有误：\n${templates.errors.join('\n')}`);
+  }, []);
+
+  useEffect(() => {
+    loadWorkspaceConfig();
+  }, [dirHandle, loadWorkspaceConfig]);
+
+  // Open the persisted symbol index for this workspace (rebuilt per directory, updated incrementally)
+  useEffect(() => {
+    if (!dirHandle) return;
+    const { setSymbolIndex, setIndexStats } = appStore.getState();
+    const index = new SymbolIndex(dirHandle.name);
+    setSymbolIndex(index);
+    const unsubscribe = index.subscribe(setIndexStats);
+    index.load();
+    return unsubscribe;
+  }, [dirHandle]);
+
+  // Re-index changed files whenever the handle map is rebuilt (load, refresh, 5s poll)
+  useEffect(() => {
+    const index = appStore.getState().symbolIndex;
+    if (!index || fileHandles.size === 0) return;
+    index.sync(fileHandles).catch((error) => console.error('Symbol index sync failed:', error));
+  }, [fileHandles]);
+
+  // Reopen the previous session's tabs once the workspace's files are known
+  useEffect(() => {
+    if (!dirHandle || fileHandles.size === 0 || restoredTabsRef.current === dirHandle.name) return;
+    restoredTabsRef.current = dirHandle.name;
+    const saved = loadOpenTabs(dirHandle.name);
+    if (!saved) return;
+
+    const restoreTabs = async () => {
+      const restored: EditorTab[] = [];
+      for (const path of saved.paths) {
+        const handle = fileHandles.get(path);
+        if (!handle) continue; // Deleted or renamed since
+        try {
+          const content = await (await handle.getFile()).text();
+          restored.push({ path, content, savedContent: content });
+        } catch (error) {
+          console.warn(`Failed to reopen ${path}:`, error);
+        }
+      }
+
+      appStore.getState().resetTabs(
+        restored,
+        restored.some(tab => tab.path === saved.activePath) ? saved.activePath : restored[0]?.path ?? null,
+        saved.viewStates || {}
+      );
+    };
+
+    restoreTabs();
+  }, [dirHandle, fileHandles]);
+
+  // Persist the open tab set with cursor/scroll positions (also right before unload)
+  useEffect(() => {
+    if (!dirHandle || restoredTabsRef.current !== dirHandle.name) return;
+    const workspace = dirHandle.name;
+
+    const persistTabs = () => {
+      const paths = openPathsKey ? openPathsKey.split('\n') : [];
+      const { viewStates: allViewStates } = appStore.getState();
+      const viewStates: Record<string, EditorViewState> = {};
+      paths.forEach(path => {
+        if (allViewStates[path]) viewStates[path] = allViewStates[path];
+      });
+      saveOpenTabs(workspace, { paths, activePath, viewStates });
+    };
+
+    persistTabs();
+    window.addEventListener('beforeunload', persistTabs);
+    return () => window.removeEventListener('beforeunload', persistTabs);
+  }, [dirHandle, openPathsKey, activePath]);
+
+  // Ask before leaving the page with unsaved tabs
+  useEffect(() => {
+    if (!hasUnsavedTabs) return;
+    const warnUnsaved = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = '';
+    };
+    window.addEventListener('beforeunload', warnUnsaved);
+    return () => window.removeEventListener('beforeunload', warnUnsaved);
+  }, [hasUnsavedTabs]);
+
+  // Compare open tabs with the disk: clean ones reload, edited ones are merged three-way
+  const syncOpenFiles = async (handles: Map<string, FileSystemFileHandle>) => {
+    for (const tab of appStore.getState().tabs) {
+      const handle = handles.get(tab.path);
+      if (!handle) continue; // Deleted files are handled by closeTabsUnder
+      try {
+        const disk = await (await handle.getFile()).text();
+        const alreadyReported = appStore.getState().diskChanges[tab.path]?.disk === disk;
+        const result = appStore.getState().syncFromDisk(tab.path, disk);
+        if (result === 'reloaded') {
+          toast.success(`${tab.path} 已在磁盘上修改，已重新加载`);
+        } else if (result === 'merged') {
+          toast.success(`${tab.path} 已在磁盘上修改，已自动合并到未保存的内容`);
+        } else if (result === 'review' && !alreadyReported) {
+          toast.error(`${tab.path} 已在磁盘上修改，请检查合并结果`);
+        }
+      } catch (error) {
+        console.error('Failed to check file on disk:', tab.path, error);
+      }
+    }
+  };
+
   // Refresh function with optional silent mode for auto-polling
   const handleRefresh = useCallback(async (silent: boolean = false) => {
     if (!dirHandle) {
@@ -78,9 +241,12 @@ export default function Home() {
     try {
       const handles = new Map<string, FileSystemFileHandle>();
       const fileTree = await buildFileTree(dirHandle, '', handles);
-      setFileHandles(handles);
-      setFiles(fileTree);
-      if (!silent) toast.success('项目已刷新！');
+      setFileTree(fileTree, handles);
+      await syncOpenFiles(handles);
+      if (!silent) {
+        await loadWorkspaceConfig();
+        toast.success('项目已刷新！');
+      }
     } catch (error) {
       if (!silent) {
         toast.error('刷新项目失败：' + (error as Error).message);
@@ -90,7 +256,7 @@ export default function Home() {
     } finally {
       if (!silent) setLoading(false);
     }
-  }, [dirHandle, loading]);
+  }, [dirHandle, loading, loadWorkspaceConfig]);
 
   // Auto-refresh on tab/window focus
   useEffect(() => {
@@ -128,27 +294,6 @@ export default function Home() {
     return () => clearInterval(intervalId);
   }, [dirHandle]);
 
-  // Keyboard shortcuts for undo
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      // Ctrl+Z or Cmd+Z for undo
-      if ((e.ctrlKey || e.metaKey) && e.key === 'z' && !e.shiftKey) {
-        e.preventDefault();
-        if (historyIndex >= 0 && historyIndex < contentHistory.length) {
-          const previousContent = contentHistory[historyIndex];
-          setFileContent(previousContent);
-          setHistoryIndex(historyIndex - 1);
-          toast.success('已撤销到上一个版本');
-        } else {
-          toast.info('没有更多历史记录可以撤销');
-        }
-      }
-    };
-
-    window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [historyIndex, contentHistory]);
-
   const isTextFile = (name: string): boolean => {
     const textExtensions = [
       '.txt', '.md', '.json', '.js', '.jsx', '.ts', '.tsx',
@@ -218,6 +363,10 @@ export default function Home() {
       return;
     }
 
+    if (hasUnsavedTabs && !confirm('有未保存的文件，切换项目后这些修改将丢失。确定继续吗？')) {
+      return;
+    }
+
     setLoading(true);
     try {
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -225,11 +374,12 @@ export default function Home() {
         mode: 'readwrite'
       });
 
+      // Tabs belong to the previous workspace; the new one restores its own
+      resetTabs();
       setDirHandle(dirHandle);
       const handles = new Map<string, FileSystemFileHandle>();
       const fileTree = await buildFileTree(dirHandle, '', handles);
-      setFileHandles(handles);
-      setFiles(fileTree);
+      setFileTree(fileTree, handles);
       
       // Save directory handle for future sessions
       await saveDirectoryHandle(dirHandle);
@@ -242,8 +392,13 @@ export default function Home() {
     }
   };
 
+  // Open a file in a new tab, or switch to it if it is already open
   const handleFileSelect = async (path: string) => {
-    setSelectedFile(path);
+    if (appStore.getState().tabs.some(tab => tab.path === path)) {
+      appStore.getState().setActivePath(path);
+      return;
+    }
+
     const handle = fileHandles.get(path);
     if (!handle) {
       toast.error('无法找到文件句柄');
@@ -251,20 +406,25 @@ export default function Home() {
     }
 
     try {
-      setFileHandle(handle);
       const file = await handle.getFile();
       const content = await file.text();
-      setFileContent(content);
+      openTab(path, content);
     } catch (error) {
       toast.error('读取文件失败：' + (error as Error).message);
     }
   };
 
   const handleSave = async (content: string) => {
-    if (!fileHandle) {
+    const path = activePath;
+    const fileHandle = path ? fileHandles.get(path) : undefined;
+    if (!path || !fileHandle) {
       toast.error('没有选中的文件');
       return;
     }
+    if (appStore.getState().diskChanges[path]) {
+      toast.error('文件已在磁盘上修改，请先处理合并');
+      return;
+    }
 
     try {
       // 检查写入权限
@@ -286,6 +446,9 @@ export default function Home() {
       await writable.write(content);
       await writable.close();
       toast.success('文件保存成功！');
+
+      markSaved(path, content);
+      appStore.getState().symbolIndex?.updateFile(path, fileHandle);
     } catch (error) {
       toast.error('保存文件失败：' + (error as Error).message);
     }
@@ -391,11 +554,9 @@ export default function Home() {
 
       toast.success(`重命名成功！`);
       
-      // If renamed file was selected, clear selection
-      if (selectedFile === path) {
-        setSelectedFile(null);
-        setFileContent('');
-      }
+      // Keep an open tab (and its unsaved edits) under the new name
+      const newPath = [...pathParts.slice(0, -1), newName].join('/');
+      renameTab(path, newPath);
       
       await handleRefresh(true);
     } catch (error) {
@@ -427,11 +588,8 @@ export default function Home() {
 
       toast.success(`"${name}" 已删除！`);
       
-      // If deleted file was selected, clear selection
-      if (selectedFile === path || selectedFile?.startsWith(path + '/')) {
-        setSelectedFile(null);
-        setFileContent('');
-      }
+      // Close tabs of the deleted file or of files inside the deleted folder
+      closeTabsUnder(path);
       
       await handleRefresh(true);
     } catch (error) {
@@ -439,100 +597,72 @@ export default function Home() {
     }
   };
 
-  // AI Helper Functions
-  const handleAIExplain = (code: string) => {
-    setAiAction('explain');
-    setAiCode(code);
-    setAiPrompt('');
-    setShowAIPanel(true);
-  };
-
-  const handleAIOptimize = (code: string) => {
-    setAiAction('optimize');
-    setAiCode(code);
-    setAiPrompt('');
-    setShowAIPanel(true);
-  };
-
-  const handleAIEdit = (code: string) => {
-    setAiAction('edit');
-    setAiCode(code);
-    setAiPrompt(''); // User will provide edit instructions in the AI panel
-    setShowAIPanel(true);
-  };
-
-  const handleAIGenerate = () => {
-    setAiAction('generate');
-    setAiCode('');
-    setAiPrompt('');
-    setShowAIPanel(true);
-  };
-
-  const handleAIChat = () => {
-    setAiAction('chat');
-    setAiCode('');
-    setAiPrompt('');
-    setShowAIPanel(true);
-  };
-
-  // Handle structured edits from AI
-  const handleApplyEdits = (edits: PendingEdit[]) => {
-    setPendingEdits(edits);
-    toast.success(`收到 ${edits.length} 个 AI 修改建议，请在编辑器中预览`);
-  };
-
-  const handleAcceptEdit = (editId: string) => {
-    setPendingEdits(prev => prev.filter(e => e.id !== editId));
-  };
-
-  const handleRejectEdit = (editId: string) => {
-    setPendingEdits(prev => prev.filter(e => e.id !== editId));
+  // Workspace view for the agent's list/read/grep tools
+  const agentWorkspace = useMemo(() => createHandleWorkspace(fileHandles), [fileHandles]);
+
+  // Read the files most related to an instruction for cross-file editing
+  const handleGatherFiles = async (instruction: string): Promise<Map<string, string>> => {
+    const paths = MultiFileManager.selectRelatedFiles(
+      selectedFile,
+      instruction,
+      appStore.getState().symbolIndex,
+      Array.from(fileHandles.keys())
+    );
+
+    // Open files are read from their buffers, which is what the user sees and edits
+    const tabs = appStore.getState().tabs;
+    const files = new Map<string, string>();
+    for (const path of paths) {
+      const tab = tabs.find((t) => t.path === path);
+      if (tab) {
+        files.set(path, tab.content);
+        continue;
+      }
+      const handle = fileHandles.get(path);
+      if (!handle) continue;
+      try {
+        files.set(path, await (await handle.getFile()).text());
+      } catch (error) {
+        console.warn(`Failed to read ${path}:`, error);
+      }
+    }
+    return files;
   };
 
-  const handleAcceptAllEdits = useCallback(() => {
-    if (!editorRef.current || pendingEdits.length === 0) return;
+  // Write reviewed cross-file changes all-or-nothing
+  const handleApplyMultiFileChange = async (change: MultiFileChange, origin?: AIEditOrigin): Promise<boolean> => {
+    try {
+      // Keep what each file looked like before the AI touched it
+      await Promise.all(change.files.map(file =>
+        captureSnapshot(file.filePath, file.originalContent, 'AI 跨文件修改', origin)
+      ));
+      // Edits against unsaved buffers are written on top of the saved content
+      const saved = new Map(appStore.getState().tabs
+        .filter(tab => tab.content !== tab.savedContent)
+        .map(tab => [tab.path, tab.savedContent]));
+      const diskChange = MultiFileManager.rebaseOnSaved(change, saved);
+      await MultiFileManager.writeFiles(diskChange, fileHandles);
+
+      // Written content is the new saved state of open tabs; unsaved buffers merge it in
+      const written = new Map(diskChange.files.map(file => [file.filePath, file.modifiedContent]));
+      applyWrittenContent(written);
+      written.forEach((_content, path) => {
+        if (appStore.getState().diskChanges[path]) toast.error(`${path} 的修改与未保存的内容冲突，请检查合并结果`);
+      });
 
-    // Apply all edits using editor helper
-    const editor = editorRef.current;
-    const model = editor.getModel();
-    if (!model) return;
+      // Keep the symbol index in sync with what was written
+      change.files.forEach(file => {
+        const handle = fileHandles.get(file.filePath);
+        if (handle) appStore.getState().symbolIndex?.updateFile(file.filePath, handle);
+      });
 
-    try {
-      // Sort edits by line number (descending) to avoid offset issues
-      const sortedEdits = [...pendingEdits].sort((a, b) => b.startLine - a.startLine);
-
-      // Create Monaco edit operations
-      const editOperations = sortedEdits.map(edit => ({
-        range: new (window as any).monaco.Range(
-          edit.startLine,
-          edit.startColumn || 1,
-          edit.endLine,
-          edit.endColumn || model.getLineMaxColumn(edit.endLine)
-        ),
-        text: edit.newText,
-        forceMoveMarkers: true
-      }));
-
-      // Execute all edits in one operation
-      editor.executeEdits('ai-cursor-edit', editOperations);
-
-      // Update file content
-      const newContent = model.getValue();
-      setFileContent(newContent);
-
-      // Clear pending edits
-      setPendingEdits([]);
-      toast.success('已应用所有 AI 修改');
+      toast.success(`已写入 ${change.files.length} 个文件`);
+      return true;
     } catch (error) {
-      console.error('Failed to apply edits:', error);
-      toast.error('应用修改失败');
+      toast.error('写入失败，未修改任何文件：' + (error as Error).message);
+      return false;
     }
-  }, [pendingEdits]);
-
-  const handleRejectAllEdits = useCallback(() => {
-    setPendingEdits([]);
-    toast.info('已拒绝所有 AI 修改');
-  }, []);
+  };
 
   return (
     <div className="flex flex-col h-screen bg-gray-50">
@@ -541,15 +671,16 @@ export default function Home() {
         <div className="flex items-center justify-between">
           <h1 className="text-xl font-bold text-gray-800">💻 Code Editor</h1>
           <div className="flex gap-2">
+            <ModelSelector settings={llmSettings} onChange={setLLMSettings} />
             <button
-              onClick={handleAIChat}
+              onClick={() => openAIPanel('chat')}
               className="px-4 py-2 bg-gradient-to-r from-blue-500 to-purple-500 text-white rounded-lg hover:from-blue-600 hover:to-purple-600 transition-all shadow-md hover:shadow-lg flex items-center gap-2"
             >
               <span>🤖</span>
               <span>AI 助手</span>
             </button>
             <button
-              onClick={handleAIGenerate}
+              onClick={() => openAIPanel('generate')}
               className="px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-colors shadow-md hover:shadow-lg flex items-center gap-2"
             >
               <span>✨</span>
@@ -569,6 +700,11 @@ export default function Home() {
               <div className="mb-2 px-3 py-2 border border-gray-300 rounded-lg bg-gray-50 text-sm text-gray-600 truncate" title={dirHandle?.name}>
                 {dirHandle ? `📂 ${dirHandle.name}` : '未选择项目'}
               </div>
+              {dirHandle && indexStats && (
+                <div className="mb-2 px-1 text-xs text-gray-400">
+                  🔎 已索引 {indexStats.files} 个文件 · {indexStats.symbols} 个符号
+                </div>
+              )}
               <div className="flex gap-2">
                 <button
                   onClick={loadProject}
@@ -663,26 +799,14 @@ export default function Home() {
         </aside>
 
         {/* Editor Area */}
-        <main className="flex-1 bg-gray-900">
-          {selectedFile ? (
-            <CodeEditor
-              value={fileContent}
-              onChange={setFileContent}
-              onSave={handleSave}
-              fileName={selectedFile}
-              onExplainCode={handleAIExplain}
-              onOptimizeCode={handleAIOptimize}
-              onEditCode={handleAIEdit}
-              pendingEdits={pendingEdits}
-              onAcceptEdit={handleAcceptEdit}
-              onRejectEdit={handleRejectEdit}
-              onAcceptAllEdits={handleAcceptAllEdits}
-              onRejectAllEdits={handleRejectAllEdits}
-              onCursorChange={setCursorPosition}
-              onSelectionChange={setSelectedText}
-            />
+        <main className="flex-1 min-w-0 bg-gray-900 flex flex-col">
+          <EditorTabs />
+          {activeTab ? (
+            <div className="flex-1 min-h-0">
+              <CodeEditor onSave={handleSave} />
+            </div>
           ) : (
-            <div className="flex items-center justify-center h-full text-gray-400">
+            <div className="flex items-center justify-center flex-1 text-gray-400">
               <div className="text-center">
                 <p className="text-lg mb-2">📂 未选择文件</p>
                 <p className="text-sm">点击&ldquo;选择文件夹&rdquo;加载项目，然后选择文件开始编辑</p>
@@ -696,28 +820,18 @@ export default function Home() {
         {showAIPanel && (
           <aside className="w-96 flex-shrink-0">
             <AIChat
-              onClose={() => setShowAIPanel(false)}
-              initialPrompt={aiPrompt}
-              action={aiAction}
-              code={aiCode}
-              fileName={selectedFile || 'untitled.txt'}
-              cursorPosition={cursorPosition}
-              selectedText={selectedText}
-              onApplyCode={(code) => {
-                if (selectedFile) {
-                  // Save current content to history before applying new code
-                  const newHistory = contentHistory.slice(0, historyIndex + 1);
-                  newHistory.push(fileContent);
-                  setContentHistory(newHistory);
-                  setHistoryIndex(newHistory.length - 1);
-                  
-                  setFileContent(code);
-                  toast.success('代码已应用到编辑器！可使用 Ctrl+Z 撤销');
+              onApplyCode={(code, origin) => {
+                if (activeTab) {
+                  captureSnapshot(activeTab.path, activeTab.content, 'AI 应用代码', origin);
+                  applyContentChange(activeTab.path, code, 'ai-edit', 'AI 应用代码');
+                  toast.success('代码已应用到编辑器！可在历史记录中撤销');
                 } else {
                   toast.error('请先选择一个文件');
                 }
               }}
-              onApplyEdits={handleApplyEdits}
+              onGatherFiles={handleGatherFiles}
+              onApplyMultiFileChange={handleApplyMultiFileChange}
+              agentWorkspace={dirHandle ? agentWorkspace : undefined}
             />
           </aside>
         )}
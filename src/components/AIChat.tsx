@@ -1,60 +1,84 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Send, Bot, User, Loader2, X, Minimize2 } from 'lucide-react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import toast from 'react-hot-toast';
+import { Send, Bot, User, Loader2, X, Minimize2, Square, Files, Workflow, MessageSquare, History, Plus, RotateCcw } from 'lucide-react';
 import CodeDiff from './CodeDiff';
-import { TextEdit } from '@/types/editor.types';
+import MarkdownContent from './MarkdownContent';
+import MultiFileReview from './MultiFileReview';
+import AgentStepList from './AgentStepList';
+import ChatSessionList from './ChatSessionList';
+import MentionChips from './MentionChips';
+import MentionMenu from './MentionMenu';
+import SlashCommandMenu from './SlashCommandMenu';
+import { HunkFailure, TextEdit } from '@/types/editor.types';
 import { AIPromptBuilder } from '@/lib/aiPromptBuilder';
+import { CodeContext, CodeParser } from '@/lib/codeParser';
+import { EditParser } from '@/lib/editParser';
+import { ChatHistory } from '@/lib/chatHistory';
+import { ChatMentions, LoadedMention, MentionSources } from '@/lib/chatMentions';
+import { BUILTIN_COMMANDS, SlashCommands, SlashInvocation } from '@/lib/slashCommands';
+import { TokenBudget } from '@/lib/tokenBudget';
+import { MultiFileChange, MultiFileManager } from '@/lib/multiFileManager';
+import { AgentLoop, DEFAULT_AGENT_STEPS } from '@/lib/agentLoop';
+import { requestAIResponse, streamAIResponse } from '@/lib/aiClient';
+import { AgentStep, AgentWorkspace } from '@/types/agent.types';
+import { AIAction, AIEditOrigin, LLMMessage } from '@/types/llm.types';
+import { ChatMention, ChatMessage, CodeChange } from '@/types/chat.types';
+import { SlashCommand } from '@/types/command.types';
+import { ContextReport } from '@/types/context.types';
+import { appStore, useAppStore } from '@/store/app-store';
+import { selectActiveChatMessages } from '@/store/selectors';
 
-interface Message {
-  role: 'user' | 'assistant';
-  content: string;
-  timestamp: Date;
-  codeChanges?: CodeChange[];
-  structuredEdits?: TextEdit[]; // New: structured edits from API
-}
+type ChatMode = 'default' | 'multi-file' | 'agent';
 
-interface CodeChange {
-  search: string;
-  replace: string;
+// A slash command ready to send: its filled-in prompt and how the answer is handled
+interface CommandRequest {
+  prompt: string;
+  action: AIAction;
+  code: string;
+  context?: ContextReport;
 }
 
+// Large diffs are cut so /commit-msg still fits the model's context
+const MAX_DIFF_CHARS = 30000;
+
 interface AIChatProps {
-  onClose?: () => void;
-  initialPrompt?: string;
-  action?: 'chat' | 'explain' | 'optimize' | 'generate' | 'fix' | 'edit';
-  code?: string;
-  fileName?: string; // New: for better context
-  cursorPosition?: { line: number; column: number }; // New: for context-aware editing
-  selectedText?: string; // New: for targeted editing
-  onApplyCode?: (code: string) => void;
-  onApplyEdits?: (edits: TextEdit[]) => void; // New: callback for structured edits
+  onApplyCode?: (code: string, origin?: AIEditOrigin) => void;
+  onGatherFiles?: (instruction: string) => Promise<Map<string, string>>; // Related files for cross-file edits
+  onApplyMultiFileChange?: (change: MultiFileChange, origin?: AIEditOrigin) => Promise<boolean>;
+  agentWorkspace?: AgentWorkspace; // Files the agent's tools can list, read and search
 }
 
 export default function AIChat({ 
-  onClose, 
-  initialPrompt, 
-  action = 'chat', 
-  code, 
-  fileName = 'untitled.txt',
-  cursorPosition,
-  selectedText,
   onApplyCode, 
-  onApplyEdits 
+  onGatherFiles,
+  onApplyMultiFileChange,
+  agentWorkspace,
 }: AIChatProps) {
-  // Parse SEARCH/REPLACE blocks from AI response
-  const parseCodeChanges = (text: string): CodeChange[] => {
-    const changes: CodeChange[] = [];
-    const pattern = /<<<<<<< SEARCH\n([\s\S]*?)\n=======\n([\s\S]*?)\n>>>>>>> REPLACE/g;
-    
-    let match;
-    while ((match = pattern.exec(text)) !== null) {
-      changes.push({
-        search: match[1].trim(),
-        replace: match[2].trim()
-      });
-    }
-    
-    return changes;
-  };
+  // What the panel was opened for, plus editor context and provider selection
+  const initialPrompt = useAppStore((state) => state.aiPrompt);
+  const action = useAppStore((state) => state.aiAction);
+  const code = useAppStore((state) => state.aiCode);
+  const fileName = useAppStore((state) => state.activePath) || 'untitled.txt';
+  const cursorPosition = useAppStore((state) => state.cursorPosition);
+  const selectedText = useAppStore((state) => state.selectedText);
+  const llmSettings = useAppStore((state) => state.llmSettings);
+  const projectRules = useAppStore((state) => state.projectRules);
+  const templateOverrides = useAppStore((state) => state.templateOverrides);
+  // Tokens of code context the selected model can take in one prompt
+  const promptBudget = TokenBudget.forModel(llmSettings.provider, llmSettings.model).promptTokens;
+  const files = useAppStore((state) => state.files);
+  const symbolIndex = useAppStore((state) => state.symbolIndex);
+  const workspaceCommands = useAppStore((state) => state.workspaceCommands);
+  const {
+    closeAIPanel,
+    setPendingEdits,
+    setActivePath,
+    newChatSession,
+    startChatSession,
+    appendChatMessages,
+    updateLastChatMessage,
+    persistChatSession,
+  } = appStore.getState();
 
   // Extract code blocks from markdown text
   const extractCode = (text: string): string | null => {
@@ -70,10 +94,10 @@ export default function AIChat({
     return lastMatch.replace(/```(?:\w+)?\n/, '').replace(/```$/, '').trim();
   };
 
-  const handleApplyCode = (messageContent: string) => {
-    const extractedCode = extractCode(messageContent);
+  const handleApplyCode = (message: ChatMessage) => {
+    const extractedCode = extractCode(message.content);
     if (extractedCode && onApplyCode) {
-      onApplyCode(extractedCode);
+      onApplyCode(extractedCode, message.origin);
     }
   };
 
@@ -92,12 +116,186 @@ export default function AIChat({
     
     return modifiedCode;
   };
-  const [messages, setMessages] = useState<Message[]>([]);
+  const messages = useAppStore(selectActiveChatMessages);
+  const [showSessions, setShowSessions] = useState(false);
   const [input, setInput] = useState(initialPrompt || '');
   const [loading, setLoading] = useState(false);
   const [isMinimized, setIsMinimized] = useState(false);
+  const [mode, setMode] = useState<ChatMode>('default');
+  const [agentStepBudget, setAgentStepBudget] = useState(DEFAULT_AGENT_STEPS);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Set synchronously on send; `loading` only takes effect after the next render
+  const sendingRef = useRef(false);
+
+  // @-mentions picked from the suggestions, with their content once it has been read
+  const [mentions, setMentions] = useState<ChatMention[]>([]);
+  const [loadedMentions, setLoadedMentions] = useState<Record<string, LoadedMention>>({});
+  const [mentionQuery, setMentionQuery] = useState<{ start: number; query: string } | null>(null);
+  const [mentionIndex, setMentionIndex] = useState(0);
+
+  // Open buffers win over disk so unsaved edits are what the model sees
+  const mentionSources: MentionSources = {
+    files,
+    symbolIndex,
+    readFile: async (path) => {
+      const { tabs, fileHandles } = appStore.getState();
+      const tab = tabs.find((item) => item.path === path);
+      if (tab) return tab.content;
+      const handle = fileHandles.get(path);
+      if (!handle) throw new Error(`File not found: ${path}`);
+      return (await handle.getFile()).text();
+    },
+  };
+
+  // Slash command being typed at the start of the input
+  const [commandQuery, setCommandQuery] = useState<string | null>(null);
+  const [commandIndex, setCommandIndex] = useState(0);
+
+  const commands = useMemo(() => SlashCommands.merge(BUILTIN_COMMANDS, workspaceCommands), [workspaceCommands]);
+  const commandSuggestions = useMemo(
+    () => (commandQuery !== null ? SlashCommands.suggest(commandQuery, commands) : []),
+    [commandQuery, commands]
+  );
+
+  const mentionSuggestions = useMemo(
+    () => (mentionQuery ? ChatMentions.suggest(mentionQuery.query, { files, symbolIndex }) : []),
+    [mentionQuery, files, symbolIndex]
+  );
+
+  const loadMention = (mention: ChatMention) =>
+    ChatMentions.load(mention, mentionSources).then((loaded) => {
+      setLoadedMentions((prev) => ({ ...prev, [mention.label]: loaded }));
+      return loaded;
+    });
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setInput(e.target.value);
+    setMentionQuery(ChatMentions.activeQuery(e.target.value, e.target.selectionStart));
+    setMentionIndex(0);
+    setCommandQuery(SlashCommands.activeQuery(e.target.value, e.target.selectionStart));
+    setCommandIndex(0);
+  };
+
+  const handlePickCommand = (command: SlashCommand) => {
+    const text = `/${command.name} `;
+    setInput(text);
+    setCommandQuery(null);
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(text.length, text.length);
+    });
+  };
+
+  // Working tree changes of the whole workspace, for templates that use {{diff}}
+  const fetchWorkspaceDiff = async (): Promise<string> => {
+    const response = await fetch(`/api/git/diff?path=${encodeURIComponent('.')}`);
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || `HTTP ${response.status}`);
+    const diff: string = data.diff || '';
+    return diff.length > MAX_DIFF_CHARS ? `${diff.slice(0, MAX_DIFF_CHARS)}\n… (diff truncated)` : diff;
+  };
+
+  // Fill in the command's template; problems are reported and null is returned
+  const prepareCommand = async (invocation: SlashInvocation): Promise<CommandRequest | null> => {
+    const command = SlashCommands.find(invocation.name, commands);
+    if (!command) {
+      toast.error(`未知命令 /${invocation.name}，输入 / 查看可用命令`);
+      return null;
+    }
+    if (command.requiresArgs && !invocation.args) {
+      toast.error(`用法：/${command.name} ${command.args ?? ''}`.trim());
+      return null;
+    }
+
+    // The active file as currently edited, falling back to what the panel was opened with
+    const fileContent = appStore.getState().tabs.find((tab) => tab.path === fileName)?.content ?? code;
+    if ((command.mode === 'edit' || SlashCommands.uses(command, 'code')) && !fileContent) {
+      toast.error(`/${command.name} 需要先打开一个文件`);
+      return null;
+    }
+
+    let diff: string | undefined;
+    if (SlashCommands.uses(command, 'diff')) {
+      try {
+        diff = await fetchWorkspaceDiff();
+      } catch (error) {
+        toast.error('获取 git 改动失败：' + (error as Error).message);
+        return null;
+      }
+      if (!diff.trim()) {
+        toast.error('工作区没有未提交的改动');
+        return null;
+      }
+    }
+
+    const prompt = SlashCommands.render(command, invocation, {
+      code: selectedText || fileContent,
+      fileName,
+      language: AIPromptBuilder.getLanguage(fileName),
+      diff,
+    });
+
+    if (command.mode === 'edit') {
+      const built = AIPromptBuilder.buildEditPrompt({
+        instruction: prompt,
+        code: fileContent,
+        fileName,
+        cursorPosition,
+        selectedText,
+        budget: promptBudget,
+        symbolIndex,
+      });
+      return { prompt: built.prompt, action: 'edit', code: fileContent, context: built.context };
+    }
+    return { prompt, action: 'chat', code: '' };
+  };
+
+  // Replace the typed @query with the full label and attach the mention
+  const handlePickMention = (mention: ChatMention) => {
+    if (!mentionQuery) return;
+    const caret = mentionQuery.start + 1 + mentionQuery.query.length;
+    const inserted = `@${mention.label} `;
+    setInput(input.slice(0, mentionQuery.start) + inserted + input.slice(caret));
+    setMentionQuery(null);
+
+    if (!mentions.some((item) => item.label === mention.label)) {
+      setMentions((prev) => [...prev, mention]);
+      loadMention(mention).catch((error) => {
+        console.warn(`Failed to read ${mention.path}:`, error);
+        toast.error(`无法读取 ${mention.label}`);
+        handleRemoveMention(mention.label);
+      });
+    }
+
+    const position = mentionQuery.start + inserted.length;
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(position, position);
+    });
+  };
+
+  const handleRemoveMention = (label: string) => {
+    setMentions((prev) => prev.filter((item) => item.label !== label));
+    setLoadedMentions((prev) => {
+      const next = { ...prev };
+      delete next[label];
+      return next;
+    });
+  };
+
+  // Picked mentions plus any typed out in full; unreadable ones are left out
+  const collectMentions = async (text: string): Promise<LoadedMention[]> => {
+    const all = [...mentions];
+    ChatMentions.resolveTyped(text, mentionSources).forEach((mention) => {
+      if (!all.some((item) => item.label === mention.label)) all.push(mention);
+    });
+    const loaded = await Promise.all(
+      all.map((mention) => loadedMentions[mention.label] ?? loadMention(mention).catch(() => null))
+    );
+    return loaded.filter((item): item is LoadedMention => item !== null);
+  };
 
   useEffect(() => {
     if (initialPrompt && action !== 'chat') {
@@ -110,125 +308,425 @@ export default function AIChat({
   }, [messages]);
 
   const handleSend = async () => {
-    if (!input.trim() && !code) return;
+    if (sendingRef.current || (!input.trim() && !code)) return;
+    // Claimed before the first await, so Enter pressed again while a command or mentions load is ignored
+    sendingRef.current = true;
+    setLoading(true);
+    try {
+      await sendMessage();
+    } finally {
+      sendingRef.current = false;
+      setLoading(false);
+    }
+  };
 
-    const userMessage: Message = {
+  const sendMessage = async () => {
+    // Slash commands always run against the active file, whatever the chat mode
+    const invocation = SlashCommands.parse(input);
+    const commandRequest = invocation ? await prepareCommand(invocation) : null;
+    if (invocation && !commandRequest) return;
+
+    const attached = await collectMentions(input);
+    const context = ChatMentions.contextBlock(attached);
+    const withContext = (text: string) => (context ? `${context}\n\n${text}` : text);
+    setMentions([]);
+    setLoadedMentions({});
+    setMentionQuery(null);
+    setCommandQuery(null);
+
+    const userMessage: ChatMessage = {
       role: 'user',
       content: input || '请分析这段代码',
       timestamp: new Date(),
+      attachments: attached.length > 0 ? attached.map((item) => item.attachment) : undefined,
+    };
+
+    const origin: AIEditOrigin = {
+      prompt: userMessage.content,
+      provider: llmSettings.provider,
+      model: llmSettings.model,
     };
 
-    setMessages(prev => [...prev, userMessage]);
+    const assistantPlaceholder: ChatMessage = {
+      role: 'assistant',
+      content: '',
+      timestamp: new Date(),
+      fileName,
+      origin,
+    };
+
+    // Earlier turns of this session, so follow-up questions keep their context
+    const history = ChatHistory.toLLMMessages(messages);
+
+    // The reply belongs to the session it was asked in, even if another one is opened meanwhile
+    const sessionId = appStore.getState().activeChatId ?? startChatSession(userMessage.content);
+    appendChatMessages(sessionId, [userMessage, assistantPlaceholder]);
     setInput('');
-    setLoading(true);
+
+    // Update the in-flight assistant message (always the last one)
+    const updateAssistant = (patch: Partial<ChatMessage>) => updateLastChatMessage(sessionId, patch);
+
+    // Forward edits to the editor preview as soon as each block completes
+    const streamedEdits: TextEdit[] = [];
+    const previewEdits = (edits: TextEdit[]) => {
+      if (edits.length === 0) return;
+      // Ensure each edit has an ID
+      const pendingEdits = edits.map((edit, index) => ({
+        ...edit,
+        id: edit.id || `edit-${Date.now()}-${index}`,
+        applied: false,
+        rejected: false,
+        origin,
+      }));
+      // Edits belong to the file the request was made for, even if another tab is active by now
+      setPendingEdits(fileName, pendingEdits);
+      // Fixed id so streamed updates replace the toast instead of stacking
+      toast.success(`收到 ${edits.length} 个 AI 修改建议，请在编辑器中预览`, { id: 'ai-edits' });
+    };
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    // What the request is for: the command's action and file, or what the panel was opened with
+    const requestAction = commandRequest?.action ?? action;
+    const requestCode = commandRequest?.code ?? code;
 
     try {
+      if (!commandRequest && mode === 'multi-file' && onGatherFiles) {
+        await sendMultiFileEdit(input, context, history, abortController.signal, updateAssistant);
+        return;
+      }
+
+      if (!commandRequest && mode === 'agent' && agentWorkspace) {
+        await sendAgentTask(withContext(input), abortController.signal, updateAssistant);
+        return;
+      }
+
       // Build optimized prompt based on action
       let enhancedPrompt = input;
+      let contextReport: ContextReport | undefined;
+      // Built prompts already carry the code, so the route must not wrap them in a template
+      let packed = true;
       
-      if (action === 'edit' && code) {
+      if (commandRequest) {
+        enhancedPrompt = commandRequest.prompt;
+        contextReport = commandRequest.context;
+      } else if (action === 'edit' && code) {
         // Use AIPromptBuilder for edit actions
-        enhancedPrompt = AIPromptBuilder.buildEditPrompt({
+        const built = AIPromptBuilder.buildEditPrompt({
           instruction: input,
           code,
           fileName,
           cursorPosition,
           selectedText,
+          budget: promptBudget,
+          symbolIndex,
         });
+        enhancedPrompt = built.prompt;
+        contextReport = built.context;
       } else if (action === 'explain' && code) {
-        enhancedPrompt = AIPromptBuilder.buildExplainPrompt(code, fileName);
+        enhancedPrompt = AIPromptBuilder.buildExplainPrompt(code, fileName, templateOverrides);
       } else if (action === 'optimize' && code) {
-        enhancedPrompt = AIPromptBuilder.buildOptimizePrompt(code, fileName);
+        enhancedPrompt = AIPromptBuilder.buildOptimizePrompt(code, fileName, templateOverrides);
+      } else {
+        packed = false;
+      }
+
+      if (contextReport && (contextReport.dropped.length > 0 || contextReport.truncated.length > 0)) {
+        updateAssistant({ contextReport });
       }
 
-      const response = await fetch('/api/gemini', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
+      const result = await streamAIResponse(
+        {
+          prompt: withContext(enhancedPrompt),
+          action: requestAction,
+          code: requestCode,
+          packed,
+          history,
+          rules: projectRules,
+        templates: templateOverrides,
+          provider: llmSettings?.provider,
+          model: llmSettings?.model,
         },
-        body: JSON.stringify({
-          prompt: enhancedPrompt,
-          action,
-          code,
-        }),
-      });
+        {
+          signal: abortController.signal,
+          onDelta: (_chunk, fullText) => updateAssistant({ content: fullText }),
+          onEdit: (edit) => {
+            streamedEdits.push(edit);
+            updateAssistant({ structuredEdits: [...streamedEdits] });
+            previewEdits(streamedEdits);
+          },
+        }
+      );
 
-      if (!response.ok) {
-        throw new Error('API request failed');
+      if (result.aborted) {
+        updateAssistant({ content: `${result.text}\n\n_（已停止生成）_` });
+        return;
       }
 
-      const data = await response.json();
-
-      // Try to parse structured diff response
-      let structuredEdits: TextEdit[] | undefined;
-      let parsedContent = data.text;
+      // Parse every supported edit format and re-anchor hunks against the current code
+      let structuredEdits: TextEdit[] | undefined = result.edits;
+      let editFailures: HunkFailure[] | undefined = result.failures;
+      let parsedContent = result.text;
       
-      if (action === 'edit' || action === 'optimize') {
-        try {
-          // Try to parse AI response as structured diff
-          const diffs = AIPromptBuilder.parseAIResponse(data.text);
-          const pendingEdits = AIPromptBuilder.diffToPendingEdits(diffs);
-          
-          if (pendingEdits.length > 0) {
-            structuredEdits = pendingEdits as TextEdit[];
-            
-            // Extract summary for display
-            const jsonMatch = data.text.match(/```(?:json)?\s*([\s\S]*?)```/);
-            if (jsonMatch) {
-              const parsed = JSON.parse(jsonMatch[1].trim());
-              parsedContent = `✨ **代码修改建议**\n\n${parsed.summary || '已生成结构化编辑'}\n\n查看编辑器中的高亮显示，了解具体修改内容。`;
-            }
-          }
-        } catch (parseError) {
-          console.log('Could not parse as structured diff, falling back to text:', parseError);
-          // Fall back to old behavior
-          const codeChanges = parseCodeChanges(data.text);
-          if (codeChanges.length > 0) {
-            // Keep old code changes format
+      if ((requestAction === 'edit' || requestAction === 'optimize') && requestCode) {
+        // A lone code block answering an edit of the whole file (sent in full) is the new file
+        const fileSent = contextReport !== undefined &&
+          ![...contextReport.dropped, ...contextReport.truncated].some((chunk) => chunk.kind === 'file');
+        const parsed = EditParser.parse(result.text, requestCode, {
+          allowWholeFile: requestAction === 'edit' && fileSent && !selectedText,
+        });
+        structuredEdits = parsed.edits;
+        editFailures = parsed.failures;
+
+        // JSON responses carry a summary; show it instead of the raw payload
+        if (parsed.edits.some(edit => edit.format === 'json')) {
+          try {
+            const jsonMatch = result.text.match(/```(?:json)?\s*([\s\S]*?)```/);
+            const summary = jsonMatch ? JSON.parse(jsonMatch[1].trim()).summary : undefined;
+            parsedContent = `✨ **代码修改建议**\n\n${summary || '已生成结构化编辑'}\n\n查看编辑器中的高亮显示，了解具体修改内容。`;
+          } catch {
+            // Keep the raw text
           }
         }
       }
-      
-      // Check if API returned structured edits directly
-      if (!structuredEdits && data.edits) {
-        structuredEdits = data.edits as TextEdit[];
-      }
 
-      const assistantMessage: Message = {
-        role: 'assistant',
+      updateAssistant({
         content: parsedContent,
-        timestamp: new Date(),
         codeChanges: undefined, // Deprecated in favor of structuredEdits
         structuredEdits: structuredEdits && structuredEdits.length > 0 ? structuredEdits : undefined,
-      };
-
-      setMessages(prev => [...prev, assistantMessage]);
+        editFailures: editFailures && editFailures.length > 0 ? editFailures : undefined,
+      });
       
-      // If we have structured edits and the callback is provided, trigger preview mode
-      if (structuredEdits && structuredEdits.length > 0 && onApplyEdits) {
-        // Ensure each edit has an ID
-        const pendingEdits = structuredEdits.map((edit, index) => ({
-          ...edit,
-          id: edit.id || `edit-${Date.now()}-${index}`,
-          applied: false,
-          rejected: false
-        }));
-        onApplyEdits(pendingEdits);
+      // Streamed SEARCH/REPLACE edits were already previewed; only re-send when more were found
+      if (structuredEdits && structuredEdits.length > streamedEdits.length) {
+        previewEdits(structuredEdits);
       }
     } catch (error) {
-      console.error('Error calling Gemini API:', error);
-      const errorMessage: Message = {
-        role: 'assistant',
+      console.error('Error calling AI API:', error);
+      updateAssistant({
         content: '抱歉，调用 AI 服务时出错了。请稍后重试。',
         timestamp: new Date(),
-      };
-      setMessages(prev => [...prev, errorMessage]);
+      });
     } finally {
-      setLoading(false);
+      abortControllerRef.current = null;
+      persistChatSession(sessionId);
     }
   };
 
+  // "Edit across files": gather related files, send the multi-file prompt, parse a MultiFileChange
+  const sendMultiFileEdit = async (
+    instruction: string,
+    context: string,
+    history: LLMMessage[],
+    signal: AbortSignal,
+    updateAssistant: (patch: Partial<ChatMessage>) => void
+  ) => {
+    const files = await onGatherFiles!(instruction);
+    if (files.size === 0) {
+      updateAssistant({ content: '没有找到可编辑的相关文件，请先打开项目。' });
+      return;
+    }
+
+    const fileContexts = new Map<string, CodeContext>();
+    files.forEach((content, path) => {
+      fileContexts.set(path, CodeParser.parse(content, AIPromptBuilder.getLanguage(path), path));
+    });
+
+    const built = MultiFileManager.buildMultiFilePrompt(
+      context ? `${context}\n\n${instruction}` : instruction,
+      files,
+      fileContexts,
+      promptBudget
+    );
+    if (built.context.dropped.length > 0) updateAssistant({ contextReport: built.context });
+
+    const result = await streamAIResponse(
+      {
+        prompt: built.prompt,
+        action: 'multi-edit',
+        history,
+        rules: projectRules,
+        templates: templateOverrides,
+        provider: llmSettings?.provider,
+        model: llmSettings?.model,
+      },
+      {
+        signal,
+        onDelta: (_chunk, fullText) => updateAssistant({ content: fullText }),
+      }
+    );
+
+    if (result.aborted) {
+      updateAssistant({ content: `${result.text}\n\n_（已停止生成）_` });
+      return;
+    }
+
+    const { change, failures } = MultiFileManager.parseResponse(result.text, files);
+    const fileList = Array.from(files.keys()).map(path => `\`${path}\``).join(', ');
+    updateAssistant({
+      content: change.files.length > 0
+        ? `✨ **跨文件修改建议**\n\n${change.summary}\n\n上下文文件：${fileList}`
+        : result.text,
+      multiFileChange: change.files.length > 0 ? change : undefined,
+      editFailures: failures.length > 0 ? failures : undefined,
+    });
+  };
+
+  // Agent mode: let the model call workspace tools step by step, then review its proposed edits
+  const sendAgentTask = async (
+    task: string,
+    signal: AbortSignal,
+    updateAssistant: (patch: Partial<ChatMessage>) => void
+  ) => {
+    const workspace = agentWorkspace!;
+    const steps: AgentStep[] = [];
+
+    const result = await AgentLoop.run({
+      task,
+      workspace,
+      activeFile: fileName,
+      maxSteps: agentStepBudget,
+      signal,
+      complete: async (messages, stepSignal) => {
+        const response = await requestAIResponse(
+          { action: 'agent', messages, rules: projectRules, templates: templateOverrides, provider: llmSettings?.provider, model: llmSettings?.model },
+          stepSignal
+        );
+        return response.text;
+      },
+      onStep: (step) => {
+        steps.push(step);
+        updateAssistant({ content: `🤖 Agent 执行中（第 ${step.index}/${agentStepBudget} 步）`, agentSteps: [...steps] });
+      },
+    }).catch((error) => {
+      if (signal.aborted) return null;
+      throw error;
+    });
+
+    if (!result || result.status === 'aborted') {
+      updateAssistant({ content: '_（已停止 Agent）_', agentSteps: [...steps] });
+      return;
+    }
+
+    // Resolve proposed edits against the current file contents for review. Files that cannot
+    // be read (e.g. new files the model wants to create) stay out of the map, so their hunks
+    // are reported as failures instead of discarding the finished run
+    const files = new Map<string, string>();
+    for (const proposal of result.toolbox.proposals) {
+      const path = proposal.fileName as string;
+      if (files.has(path)) continue;
+      const content = await workspace.readFile(path).catch(() => null);
+      if (content !== null) files.set(path, content);
+    }
+    const { change, failures } = MultiFileManager.buildChange(result.toolbox.proposals, files, result.answer);
+
+    updateAssistant({
+      content: result.status === 'budget-exhausted'
+        ? `${result.answer}\n\n_（已达到 ${agentStepBudget} 步上限）_`
+        : result.answer || '✅ Agent 已完成',
+      agentSteps: [...steps],
+      multiFileChange: change.files.length > 0 ? change : undefined,
+      editFailures: failures.length > 0 ? failures : undefined,
+    });
+  };
+
+  // Show a saved answer's edits again, re-anchored against the file as it is now
+  const handleRepreviewEdits = (message: ChatMessage) => {
+    const path = message.fileName ?? fileName;
+    const tab = appStore.getState().tabs.find((item) => item.path === path);
+    if (!tab || !message.structuredEdits) {
+      toast.error(`请先打开 ${path}`);
+      return;
+    }
+
+    const { edits, failures } = EditParser.resolveHunks(
+      message.structuredEdits.map((edit) => ({
+        format: 'search-replace' as const,
+        oldText: edit.oldText,
+        newText: edit.newText,
+        lineHint: edit.startLine,
+        description: edit.description,
+      })),
+      tab.content
+    );
+    if (edits.length === 0) {
+      toast.error('这些修改已无法在当前文件中定位');
+      return;
+    }
+
+    setPendingEdits(path, edits.map((edit, index) => ({
+      ...edit,
+      id: `edit-${Date.now()}-${index}`,
+      applied: false,
+      rejected: false,
+      origin: message.origin,
+    })));
+    setActivePath(path);
+    toast.success(
+      failures.length > 0
+        ? `已重新预览 ${edits.length} 个修改，${failures.length} 个已无法定位`
+        : `已重新预览 ${edits.length} 个修改`,
+      { id: 'ai-edits' }
+    );
+  };
+
+  const handleNewSession = () => {
+    newChatSession();
+    setShowSessions(false);
+    inputRef.current?.focus();
+  };
+
+  // Stop generation and abort the upstream model call
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const modeOptions = [
+    { value: 'default' as ChatMode, label: '对话', icon: MessageSquare },
+    ...(onGatherFiles && onApplyMultiFileChange
+      ? [{ value: 'multi-file' as ChatMode, label: '跨文件编辑', icon: Files }]
+      : []),
+    ...(agentWorkspace ? [{ value: 'agent' as ChatMode, label: 'Agent', icon: Workflow }] : []),
+  ];
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (commandQuery !== null && commandSuggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setCommandIndex((commandIndex + step + commandSuggestions.length) % commandSuggestions.length);
+        return;
+      }
+      if (e.key === 'Tab' || (e.key === 'Enter' && commandSuggestions[commandIndex].name !== commandQuery)) {
+        e.preventDefault();
+        handlePickCommand(commandSuggestions[commandIndex]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setCommandQuery(null);
+        return;
+      }
+    }
+    if (mentionQuery && mentionSuggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setMentionIndex((mentionIndex + step + mentionSuggestions.length) % mentionSuggestions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        handlePickMention(mentionSuggestions[mentionIndex]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setMentionQuery(null);
+        return;
+      }
+    }
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSend();
@@ -258,6 +756,21 @@ export default function AIChat({
           <h3 className="font-semibold">AI 编码助手</h3>
         </div>
         <div className="flex gap-2">
+          <button
+            onClick={handleNewSession}
+            disabled={loading}
+            className="p-1 hover:bg-white/20 rounded transition-colors text-white disabled:opacity-50"
+            title="新对话"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setShowSessions(!showSessions)}
+            className={`p-1 hover:bg-white/20 rounded transition-colors text-white ${showSessions ? 'bg-white/20' : ''}`}
+            title="历史对话"
+          >
+            <History className="w-4 h-4" />
+          </button>
           <button
             onClick={() => setIsMinimized(true)}
             className="p-1 hover:bg-white/20 rounded transition-colors text-white"
@@ -265,20 +778,24 @@ export default function AIChat({
           >
             <Minimize2 className="w-4 h-4" />
           </button>
-          {onClose && (
-            <button
-              onClick={onClose}
-              className="p-1 hover:bg-white/20 rounded transition-colors text-white"
-              title="关闭"
-            >
-              <X className="w-4 h-4" />
-            </button>
-          )}
+          <button
+            onClick={closeAIPanel}
+            className="p-1 hover:bg-white/20 rounded transition-colors text-white"
+            title="关闭"
+          >
+            <X className="w-4 h-4" />
+          </button>
         </div>
       </div>
 
-      {/* Messages */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+      {showSessions && (
+        <div className="flex-1 min-h-0">
+          <ChatSessionList onResume={() => setShowSessions(false)} />
+        </div>
+      )}
+
+      {/* Messages (kept mounted while the session list is open) */}
+      <div className={`flex-1 overflow-y-auto p-4 space-y-4 ${showSessions ? 'hidden' : ''}`}>
         {messages.length === 0 ? (
           <div className="flex flex-col items-center justify-center h-full text-center text-gray-400">
             <Bot className="w-16 h-16 mb-4 opacity-50" />
@@ -293,7 +810,7 @@ export default function AIChat({
             </ul>
           </div>
         ) : (
-          messages.map((message, index) => (
+          messages.filter(m => m.role === 'user' || m.content !== '').map((message, index) => (
             <div
               key={index}
               className={`flex gap-3 ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
@@ -310,9 +827,14 @@ export default function AIChat({
                     : 'bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-gray-100'
                 }`}
               >
-                <div className="whitespace-pre-wrap break-words text-sm">
-                  {message.content}
-                </div>
+                {message.role === 'assistant' ? (
+                  <MarkdownContent content={message.content} />
+                ) : (
+                  <div className="whitespace-pre-wrap break-words text-sm">
+                    {message.content}
+                  </div>
+                )}
+                {message.attachments && <MentionChips items={message.attachments} compact />}
                 
                 {/* Show CodeDiff for messages with code changes */}
                 {message.role === 'assistant' && message.codeChanges && message.codeChanges.length > 0 && onApplyCode && (
@@ -320,7 +842,7 @@ export default function AIChat({
                     changes={message.codeChanges}
                     onAccept={() => {
                       const modifiedCode = applyCodeChanges(message.codeChanges!, code || '');
-                      onApplyCode(modifiedCode);
+                      onApplyCode(modifiedCode, message.origin);
                     }}
                     onReject={() => {
                       // Just dismiss, do nothing
@@ -335,6 +857,15 @@ export default function AIChat({
                       <div className="w-2 h-2 bg-blue-500 rounded-full animate-pulse"></div>
                       <span className="font-medium">{message.structuredEdits.length} 个增量编辑已发送到编辑器</span>
                     </div>
+                    <button
+                      onClick={() => handleRepreviewEdits(message)}
+                      disabled={loading}
+                      className="mt-2 text-xs px-2 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-400 transition-colors flex items-center gap-1"
+                      title="按当前文件内容重新定位并预览这些修改"
+                    >
+                      <RotateCcw className="w-3 h-3" />
+                      <span>重新预览{message.fileName ? `（${message.fileName.split('/').pop()}）` : ''}</span>
+                    </button>
                     <div className="mt-2 text-xs text-blue-600 dark:text-blue-400">
                       <div>💡 提示：</div>
                       <div className="ml-4 mt-1">
@@ -346,13 +877,59 @@ export default function AIChat({
                   </div>
                 )}
                 
+                {/* Tool calls made by the agent */}
+                {message.role === 'assistant' && message.agentSteps && message.agentSteps.length > 0 && (
+                  <AgentStepList steps={message.agentSteps} />
+                )}
+                
+                {/* Per-file / per-hunk review for cross-file edits */}
+                {message.role === 'assistant' && message.multiFileChange && onApplyMultiFileChange && (
+                  <MultiFileReview
+                    change={message.multiFileChange}
+                    onApply={(change) => onApplyMultiFileChange(change, message.origin)}
+                  />
+                )}
+                
+                {/* Code context left out to stay within the model's budget */}
+                {message.role === 'assistant' && message.contextReport && (
+                  <div className="mt-3 p-2 text-xs text-gray-600 dark:text-gray-400 bg-gray-100 dark:bg-gray-800 rounded-lg">
+                    <div className="font-medium">
+                      上下文超出预算（约 {message.contextReport.used}/{message.contextReport.budget} tokens），部分代码未发送
+                    </div>
+                    {[
+                      ...message.contextReport.dropped.map((chunk) => ({ ...chunk, note: '已省略' })),
+                      ...message.contextReport.truncated.map((chunk) => ({ ...chunk, note: '已截断' })),
+                    ].map((chunk, i) => (
+                      <div key={i} className="truncate" title={chunk.label}>
+                        • {chunk.note}：{chunk.label}（约 {chunk.tokens} tokens）
+                      </div>
+                    ))}
+                  </div>
+                )}
+                
+                {/* Hunks the parser could not place */}
+                {message.role === 'assistant' && message.editFailures && message.editFailures.length > 0 && (
+                  <div className="mt-3 p-3 bg-yellow-50 dark:bg-yellow-900/20 rounded-lg border border-yellow-200 dark:border-yellow-800">
+                    <div className="text-sm font-medium text-yellow-800 dark:text-yellow-300">
+                      ⚠️ {message.editFailures.length} 个修改块未能应用
+                    </div>
+                    <ul className="mt-2 space-y-1 text-xs text-yellow-700 dark:text-yellow-400">
+                      {message.editFailures.map((failure, i) => (
+                        <li key={i} className="truncate" title={failure.oldText}>
+                          #{failure.index + 1} [{failure.format}] {failure.message}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                
                 <div className="flex items-center justify-between mt-2">
                   <div className="text-xs opacity-70">
                     {message.timestamp.toLocaleTimeString()}
                   </div>
                   {message.role === 'assistant' && !message.codeChanges && extractCode(message.content) && onApplyCode && (
                     <button
-                      onClick={() => handleApplyCode(message.content)}
+                      onClick={() => handleApplyCode(message)}
                       className="text-xs px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors flex items-center gap-1"
                       title="将代码应用到编辑器"
                     >
@@ -370,7 +947,7 @@ export default function AIChat({
             </div>
           ))
         )}
-        {loading && (
+        {loading && messages[messages.length - 1]?.content === '' && (
           <div className="flex gap-3 justify-start">
             <div className="flex-shrink-0 w-8 h-8 rounded-full bg-gradient-to-br from-blue-500 to-purple-500 flex items-center justify-center">
               <Bot className="w-5 h-5 text-white" />
@@ -386,28 +963,88 @@ export default function AIChat({
 
       {/* Input */}
       <div className="p-4 border-t border-gray-200 dark:border-gray-700">
-        <div className="flex gap-2">
+        {((onGatherFiles && onApplyMultiFileChange) || agentWorkspace) && (
+          <div className="mb-2 flex items-center gap-1 text-xs">
+            {modeOptions.map(({ value, label, icon: Icon }) => (
+              <button
+                key={value}
+                onClick={() => setMode(value)}
+                disabled={loading}
+                className={`
+                  px-2 py-1 rounded flex items-center gap-1 transition-colors
+                  ${mode === value
+                    ? 'bg-blue-500 text-white'
+                    : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800'}
+                `}
+              >
+                <Icon className="w-3.5 h-3.5" />
+                <span>{label}</span>
+              </button>
+            ))}
+            {mode === 'agent' && (
+              <label className="ml-auto flex items-center gap-1 text-gray-500" title="Agent 最多执行的工具调用步数">
+                <span>步数上限</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={50}
+                  value={agentStepBudget}
+                  onChange={(e) => setAgentStepBudget(Math.max(1, Number(e.target.value) || DEFAULT_AGENT_STEPS))}
+                  disabled={loading}
+                  className="w-12 px-1 py-0.5 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800"
+                />
+              </label>
+            )}
+          </div>
+        )}
+        <MentionChips
+          items={mentions.map((mention) => loadedMentions[mention.label]?.attachment ?? mention)}
+          onRemove={handleRemoveMention}
+        />
+        <div className="relative flex gap-2">
+          <SlashCommandMenu
+            suggestions={commandSuggestions}
+            activeIndex={commandIndex}
+            onPick={handlePickCommand}
+            onHover={setCommandIndex}
+          />
+          <MentionMenu
+            suggestions={mentionSuggestions}
+            activeIndex={mentionIndex}
+            onPick={handlePickMention}
+            onHover={setMentionIndex}
+          />
           <textarea
             ref={inputRef}
             value={input}
-            onChange={(e) => setInput(e.target.value)}
+            onChange={handleInputChange}
             onKeyDown={handleKeyDown}
-            placeholder="输入你的问题... (Enter 发送, Shift+Enter 换行)"
+            onBlur={() => {
+              setMentionQuery(null);
+              setCommandQuery(null);
+            }}
+            placeholder="输入你的问题，@ 引用文件、文件夹或符号，/ 使用命令... (Enter 发送, Shift+Enter 换行)"
             className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 resize-none"
             rows={3}
             disabled={loading}
           />
-          <button
-            onClick={handleSend}
-            disabled={loading || (!input.trim() && !code)}
-            className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors flex items-center justify-center"
-          >
-            {loading ? (
-              <Loader2 className="w-5 h-5 animate-spin" />
-            ) : (
+          {loading ? (
+            <button
+              onClick={handleStop}
+              className="px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors flex items-center justify-center"
+              title="停止生成"
+            >
+              <Square className="w-5 h-5" />
+            </button>
+          ) : (
+            <button
+              onClick={handleSend}
+              disabled={!input.trim() && !code}
+              className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors flex items-center justify-center"
+            >
               <Send className="w-5 h-5" />
-            )}
-          </button>
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,70 @@
+import React from 'react';
+import { FolderTree, FileText, Search, PenLine, Flag, AlertCircle } from 'lucide-react';
+import { AgentStep, AgentToolName } from '@/types/agent.types';
+
+interface AgentStepListProps {
+  steps: AgentStep[];
+}
+
+const toolIcons: Record<AgentToolName, React.ElementType> = {
+  list_dir: FolderTree,
+  read_file: FileText,
+  grep: Search,
+  propose_edit: PenLine,
+  finish: Flag,
+};
+
+// One-line summary of the interesting arguments
+function summarizeArgs(args: Record<string, unknown>): string {
+  const { path, pattern, startLine, endLine, description } = args;
+  const parts = [
+    typeof pattern === 'string' ? `/${pattern}/` : '',
+    typeof path === 'string' ? path || '/' : '',
+    typeof startLine === 'number' ? `L${startLine}${typeof endLine === 'number' ? `-${endLine}` : ''}` : '',
+    typeof description === 'string' ? description : '',
+  ];
+  return parts.filter(Boolean).join(' ');
+}
+
+export default function AgentStepList({ steps }: AgentStepListProps) {
+  return (
+    <div className="mt-3 space-y-1.5">
+      {steps.map(step => {
+        const Icon = step.error ? AlertCircle : step.call ? toolIcons[step.call.tool] : Flag;
+        return (
+          <div
+            key={step.index}
+            className={`
+              rounded border text-xs
+              ${step.error
+                ? 'border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20'
+                : 'border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900'}
+            `}
+          >
+            <div className="px-2 py-1 flex items-center gap-1.5">
+              <span className="text-gray-400">#{step.index}</span>
+              <Icon className={`w-3.5 h-3.5 ${step.error ? 'text-red-500' : 'text-blue-500'}`} />
+              <span className="font-mono font-medium">{step.call?.tool ?? '回复'}</span>
+              {step.call && (
+                <span className="font-mono text-gray-500 truncate" title={JSON.stringify(step.call.args)}>
+                  {summarizeArgs(step.call.args)}
+                </span>
+              )}
+            </div>
+            {step.thought && (
+              <div className="px-2 pb-1 text-gray-600 dark:text-gray-400 whitespace-pre-wrap">{step.thought}</div>
+            )}
+            {step.observation && (
+              <details className="px-2 pb-1">
+                <summary className="cursor-pointer text-gray-500 select-none">结果</summary>
+                <pre className="mt-1 p-1.5 max-h-48 overflow-auto rounded bg-gray-900 text-gray-100 font-mono">
+                  {step.observation}
+                </pre>
+              </details>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
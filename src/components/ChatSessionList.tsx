@@ -0,0 +1,98 @@
+import React, { useMemo, useState } from 'react';
+import { MessageSquare, Search, Trash2 } from 'lucide-react';
+import { ChatHistory } from '@/lib/chatHistory';
+import { appStore, useAppStore } from '@/store/app-store';
+
+interface ChatSessionListProps {
+  onResume: () => void; // Called after a session was picked, to go back to the conversation
+}
+
+/**
+ * Past chat sessions of the workspace with search across all of their messages
+ */
+export default function ChatSessionList({ onResume }: ChatSessionListProps) {
+  const sessions = useAppStore((state) => state.chatSessions);
+  const activeChatId = useAppStore((state) => state.activeChatId);
+  const { resumeChatSession, deleteChatSession } = appStore.getState();
+  const [query, setQuery] = useState('');
+
+  const hits = useMemo(() => ChatHistory.search(sessions, query), [sessions, query]);
+
+  const handleResume = (id: string) => {
+    resumeChatSession(id);
+    onResume();
+  };
+
+  const handleDelete = (e: React.MouseEvent, id: string, title: string) => {
+    e.stopPropagation();
+    if (!confirm(`删除对话「${title}」？`)) return;
+    deleteChatSession(id);
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-3 border-b border-gray-200 dark:border-gray-700">
+        <div className="flex items-center gap-2 px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800">
+          <Search className="w-4 h-4 text-gray-400" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="搜索历史消息..."
+            className="flex-1 bg-transparent text-sm text-gray-900 dark:text-gray-100 focus:outline-none"
+            autoFocus
+          />
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {query.trim() ? (
+          hits.length === 0 ? (
+            <div className="p-4 text-sm text-center text-gray-400">没有匹配的消息</div>
+          ) : (
+            hits.map((hit) => (
+              <button
+                key={`${hit.sessionId}:${hit.messageIndex}`}
+                onClick={() => handleResume(hit.sessionId)}
+                className="w-full text-left px-4 py-2.5 border-b border-gray-100 dark:border-gray-800 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+              >
+                <div className="text-xs text-gray-500 truncate">
+                  {hit.title} · {hit.role === 'user' ? '我' : 'AI'}
+                </div>
+                <div className="mt-0.5 text-sm text-gray-800 dark:text-gray-200 line-clamp-2">{hit.snippet}</div>
+              </button>
+            ))
+          )
+        ) : sessions.length === 0 ? (
+          <div className="p-4 text-sm text-center text-gray-400">还没有保存的对话</div>
+        ) : (
+          sessions.map((session) => (
+            <div
+              key={session.id}
+              onClick={() => handleResume(session.id)}
+              className={`group flex items-center gap-2 px-4 py-2.5 border-b border-gray-100 dark:border-gray-800 cursor-pointer transition-colors ${
+                session.id === activeChatId
+                  ? 'bg-blue-50 dark:bg-blue-900/20'
+                  : 'hover:bg-gray-50 dark:hover:bg-gray-800'
+              }`}
+            >
+              <MessageSquare className="w-4 h-4 flex-shrink-0 text-gray-400" />
+              <div className="flex-1 min-w-0">
+                <div className="text-sm text-gray-800 dark:text-gray-200 truncate">{session.title}</div>
+                <div className="text-xs text-gray-500">
+                  {new Date(session.updatedAt).toLocaleString()} · {session.messages.length} 条消息
+                </div>
+              </div>
+              <button
+                onClick={(e) => handleDelete(e, session.id, session.title)}
+                className="p-1 opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-500 transition-opacity"
+                title="删除对话"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,122 +1,162 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { Save, ChevronDown, GitCompare } from "lucide-react";
+import { Save, ChevronDown, GitCompare, History, Camera, RotateCcw, X, Sparkles } from "lucide-react";
 import dynamic from "next/dynamic";
-import { PendingEdit } from "@/types/editor.types";
+import toast from "react-hot-toast";
+import { EditorType, EditorViewState } from "@/types/editor.types";
+import { GitRef, GitRefType } from "@/types/git.types";
+import { FileSnapshot } from "@/types/snapshot.types";
+import { DiffHunk, DiffHunks } from "@/lib/diffHunks";
+import { appStore, useAppStore } from "@/store/app-store";
+import { selectActiveTab, selectDiskChangeFor } from "@/store/selectors";
+import HistoryPanel from "./HistoryPanel";
+import SnapshotTimeline from "./SnapshotTimeline";
 
 // Dynamically import editors to avoid SSR issues
 const MonacoEditor = dynamic(() => import("./editors/MonacoEditor"), { ssr: false });
 const CodeMirrorEditor = dynamic(() => import("./editors/CodeMirrorEditor"), { ssr: false });
 const AceEditorComponent = dynamic(() => import("./editors/AceEditor"), { ssr: false });
 const SplitDiffViewer = dynamic(() => import("./editors/SplitDiffViewer"), { ssr: false });
+const UnifiedDiffViewer = dynamic(() => import("./editors/UnifiedDiffViewer"), { ssr: false });
+const MonacoDiffViewer = dynamic(() => import("./editors/MonacoDiffViewer"), { ssr: false });
+const MergeView = dynamic(() => import("./MergeView"), { ssr: false });
 
 interface CodeEditorProps {
-  value: string;
-  onChange: (value: string) => void;
   onSave: (value: string) => void;
-  fileName: string;
-  onExplainCode?: (code: string) => void;
-  onOptimizeCode?: (code: string) => void;
-  onEditCode?: (code: string) => void;
-  pendingEdits?: PendingEdit[];
-  onAcceptEdit?: (editId: string) => void;
-  onRejectEdit?: (editId: string) => void;
-  onAcceptAllEdits?: () => void;
-  onRejectAllEdits?: () => void;
-  onCursorChange?: (position: { line: number; column: number }) => void;
-  onSelectionChange?: (text: string) => void;
 }
 
-type EditorType = "monaco" | "codemirror" | "ace";
-
 const editorOptions = [
   { value: "monaco" as EditorType, label: "Monaco Editor", description: "VSCode 核心引擎" },
   { value: "codemirror" as EditorType, label: "CodeMirror", description: "轻量级高性能" },
   { value: "ace" as EditorType, label: "Ace Editor", description: "经典 Web 编辑器" },
 ];
 
-export default function CodeEditor({ 
-  value, 
-  onChange, 
-  onSave, 
-  fileName, 
-  onExplainCode, 
-  onOptimizeCode, 
-  onEditCode,
-  pendingEdits,
-  onAcceptEdit,
-  onRejectEdit,
-  onAcceptAllEdits,
-  onRejectAllEdits,
-  onCursorChange,
-  onSelectionChange
-}: CodeEditorProps) {
-  const [selectedEditor, setSelectedEditor] = useState<EditorType>("monaco");
+type DiffView = 'split' | 'unified' | 'monaco';
+
+const diffViewOptions: { value: DiffView; label: string }[] = [
+  { value: "split", label: "并排" },
+  { value: "unified", label: "统一" },
+  { value: "monaco", label: "Monaco" },
+];
+
+const gitRefGroups: { type: GitRefType; label: string }[] = [
+  { type: "branch", label: "分支" },
+  { type: "tag", label: "标签" },
+  { type: "commit", label: "最近提交" },
+];
+
+export default function CodeEditor({ onSave }: CodeEditorProps) {
+  // The active tab's buffer; 磁盘上的内容（savedValue）用于未保存标记和本地对比
+  const activeTab = useAppStore(selectActiveTab);
+  const selectedEditor = useAppStore((state) => state.editorType);
+  const inlineCompletionsEnabled = useAppStore((state) => state.inlineCompletions);
+  const { updateContent, setEditorType, openAIPanel, setViewState, setCursorPosition, setSelectedText, restoreSnapshot, applyContentChange, setInlineCompletions } = appStore.getState();
+  const value = activeTab?.content ?? '';
+  const savedValue = activeTab?.savedContent ?? '';
+  const fileName = activeTab?.path ?? '';
+  const diskChange = useAppStore(selectDiskChangeFor(fileName));
   const [showDropdown, setShowDropdown] = useState(false);
   const [currentValue, setCurrentValue] = useState(value);
-  const [originalValue, setOriginalValue] = useState(value); // 保存原始内容用于 diff
   const [isDiffMode, setIsDiffMode] = useState(false);
+  const [diffView, setDiffView] = useState<DiffView>('split');
+  const [sidePanel, setSidePanel] = useState<'history' | 'snapshots' | null>(null);
+  const [snapshotPreview, setSnapshotPreview] = useState<FileSnapshot | null>(null);
+  // Baseline with accepted hunks folded in, so they drop out of the diff (like staging)
+  const [acceptedBase, setAcceptedBase] = useState<string | null>(null);
   
   // Git Diff 相关状态
   const [diffSource, setDiffSource] = useState<'local' | 'git'>('local');
   const [gitOriginalValue, setGitOriginalValue] = useState<string>('');
   const [isLoadingGit, setIsLoadingGit] = useState(false);
+  const [gitLoaded, setGitLoaded] = useState(false);
+  const [gitError, setGitError] = useState<string | null>(null);
+  const [gitRef, setGitRef] = useState('HEAD');
+  const [gitRefs, setGitRefs] = useState<GitRef[]>([]);
 
-  // Sync external value changes and save as original
+  // Sync external value changes (typing, AI edits, switching tabs)
   useEffect(() => {
     setCurrentValue(value);
-    setOriginalValue(value); // 每次加载新文件时保存原始版本
-    setIsDiffMode(false); // 重置 diff 模式
   }, [value]);
 
+  // Diff 模式、Git 对比的内容和可选 ref 都属于当前文件
+  useEffect(() => {
+    setIsDiffMode(false);
+    setDiffSource('local');
+    setGitOriginalValue('');
+    setGitLoaded(false);
+    setGitError(null);
+    setGitRef('HEAD');
+    setGitRefs([]);
+    setSnapshotPreview(null);
+  }, [fileName]);
+
   const handleChange = (newValue: string) => {
     setCurrentValue(newValue);
-    onChange(newValue);
+    updateContent(fileName, newValue);
   };
 
-  const fetchGitContent = async () => {
-    console.log('[DEBUG] fetchGitContent called for:', fileName);
+  const fetchGitContent = async (ref: string = gitRef) => {
     if (!fileName) return;
     
     setIsLoadingGit(true);
+    setGitError(null);
     try {
-      const url = `/api/files/content?path=${encodeURIComponent(fileName)}&type=git`;
-      console.log('[DEBUG] Fetching git content from:', url);
+      const url = `/api/git/show?path=${encodeURIComponent(fileName)}&ref=${encodeURIComponent(ref)}`;
       const response = await fetch(url);
-      console.log('[DEBUG] Git content response status:', response.status);
+      const data = await response.json();
       
       if (response.ok) {
-        const data = await response.json();
-        console.log('[DEBUG] Git content length:', data.content?.length);
         setGitOriginalValue(data.content || '');
       } else {
-        console.error('[DEBUG] Failed to fetch git content, status:', response.status);
+        // e.g. a new file that is not in this revision yet: compare against empty content
         setGitOriginalValue('');
+        setGitError(data.error || `HTTP ${response.status}`);
       }
     } catch (error) {
-      console.error('[DEBUG] Error fetching git content:', error);
+      console.error('Error fetching git content:', error);
+      setGitOriginalValue('');
+      setGitError((error as Error).message);
     } finally {
       setIsLoadingGit(false);
     }
   };
 
-  console.log('[DEBUG] CodeEditor Render: isDiffMode=', isDiffMode, 'diffSource=', diffSource);
+  const fetchGitRefs = async () => {
+    if (!fileName) return;
+    try {
+      const response = await fetch(`/api/git/refs?path=${encodeURIComponent(fileName)}`);
+      if (response.ok) {
+        const data = await response.json();
+        setGitRefs(data.refs || []);
+      }
+    } catch (error) {
+      console.error('Error fetching git refs:', error);
+    }
+  };
+
+  const showGitDiff = () => {
+    setDiffSource('git');
+    if (gitRefs.length === 0) fetchGitRefs();
+    if (!gitLoaded) {
+      setGitLoaded(true);
+      fetchGitContent();
+    }
+  };
+
+  const changeGitRef = (ref: string) => {
+    setGitRef(ref);
+    fetchGitContent(ref);
+  };
 
   const handleSave = () => {
+    // 保存后父组件会把 savedValue 更新为当前版本（新的基准）
     onSave(currentValue);
-    // 保存后更新原始版本为当前版本（新的基准）
-    setOriginalValue(currentValue);
     // 保持 diff 模式，让用户可以看到"已保存，无变化"的状态
     // 用户可以手动退出 diff 模式
   };
 
   const toggleDiffMode = () => {
-    console.log('[DEBUG] Toggle Diff Mode');
-    console.log('[DEBUG] Current isDiffMode:', isDiffMode);
-    console.log('[DEBUG] originalValue length:', originalValue.length);
-    console.log('[DEBUG] currentValue length:', currentValue.length);
-    console.log('[DEBUG] Are they equal?', originalValue === currentValue);
     setIsDiffMode(!isDiffMode);
   };
 
@@ -133,49 +173,129 @@ export default function CodeEditor({
     return () => window.removeEventListener("keydown", handleKeyDown);
   }, [currentValue]);
 
+  const toggleSidePanel = (panel: 'history' | 'snapshots') => {
+    setSidePanel(sidePanel === panel ? null : panel);
+    setSnapshotPreview(null);
+  };
+
+  const handleRestoreSnapshot = (snapshot: FileSnapshot) => {
+    restoreSnapshot(snapshot);
+    setSnapshotPreview(null);
+    toast.success('已恢复快照内容，保存后写入磁盘');
+  };
+
+  const diffBase = diffSource === 'git' ? gitOriginalValue : savedValue;
+  const diffOriginal = acceptedBase ?? diffBase;
+
+  // A new baseline (other file, diff source or ref, or a save) starts the review over
+  useEffect(() => {
+    setAcceptedBase(null);
+  }, [fileName, diffBase]);
+
+  const handleAcceptHunk = (hunk: DiffHunk) => {
+    setAcceptedBase(DiffHunks.accept(diffOriginal, hunk));
+  };
+
+  // Reverting writes the baseline's lines back into the buffer as one history entry
+  const handleRevertHunk = (hunk: DiffHunk) => {
+    const content = DiffHunks.revert(currentValue, hunk);
+    const lines = hunk.oldLines.length > 0
+      ? `第 ${hunk.oldStart}-${hunk.oldStart + hunk.oldLines.length - 1} 行`
+      : `第 ${hunk.newStart} 行`;
+    applyContentChange(fileName, content, 'restore', `还原修改（${lines}）`);
+  };
+
   const renderEditor = () => {
-    // Diff 模式：使用 GitHub 风格的 Unified Diff Viewer
-    if (isDiffMode) {
+    // 文件在磁盘上被修改且与当前内容冲突：先处理三方合并
+    if (diskChange) {
+      return <MergeView key={diskChange.detectedAt} path={fileName} change={diskChange} />;
+    }
+
+    // 快照对比：所选快照（左）与当前内容（右）
+    if (snapshotPreview) {
       return (
-        <SplitDiffViewer
-          original={diffSource === 'git' ? gitOriginalValue : originalValue}
-          modified={currentValue}
-          fileName={fileName}
-        />
+        <div className="flex flex-col h-full">
+          <div className="flex items-center justify-between px-4 py-2 bg-purple-900/30 border-b border-purple-500/30">
+            <span className="text-xs text-purple-200 truncate">
+              快照 {new Date(snapshotPreview.timestamp).toLocaleString()} ↔ 当前内容
+            </span>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => handleRestoreSnapshot(snapshotPreview)}
+                className="px-3 py-1 bg-purple-600 hover:bg-purple-700 text-white rounded text-xs flex items-center gap-1.5"
+              >
+                <RotateCcw className="w-3.5 h-3.5" />
+                恢复此快照
+              </button>
+              <button
+                onClick={() => setSnapshotPreview(null)}
+                className="p-1 rounded text-gray-400 hover:bg-gray-700 hover:text-gray-200"
+                title="关闭对比"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+          <div className="flex-1 min-h-0">
+            <SplitDiffViewer
+              original={snapshotPreview.content}
+              modified={currentValue}
+              fileName={fileName}
+              onRevertHunk={handleRevertHunk}
+            />
+          </div>
+        </div>
       );
     }
 
+    // Diff 模式：并排、统一或 Monaco 视图，都支持逐块接受/还原
+    if (isDiffMode) {
+      const diffProps = {
+        original: diffOriginal,
+        modified: currentValue,
+        fileName,
+        onAcceptHunk: handleAcceptHunk,
+        onRevertHunk: handleRevertHunk,
+      };
+      switch (diffView) {
+        case "unified":
+          return <UnifiedDiffViewer {...diffProps} />;
+        case "monaco":
+          return <MonacoDiffViewer {...diffProps} />;
+        default:
+          return <SplitDiffViewer {...diffProps} />;
+      }
+    }
+
     // 普通编辑模式
     const commonProps = {
       value: currentValue,
       onChange: handleChange,
       fileName,
-      onExplainCode,
-      onOptimizeCode,
-      onEditCode,
-      pendingEdits,
-      onAcceptEdit,
-      onRejectEdit,
-      onAcceptAllEdits,
-      onRejectAllEdits,
-      onCursorChange,
-      onSelectionChange,
+      onExplainCode: (code: string) => openAIPanel('explain', code),
+      onOptimizeCode: (code: string) => openAIPanel('optimize', code),
+      onCursorChange: setCursorPosition,
+      onSelectionChange: setSelectedText,
+      // Read once per render: only used to restore a file's position when it is shown
+      viewState: appStore.getState().viewStates[fileName],
+      onViewStateChange: (state: EditorViewState) => setViewState(fileName, state),
     };
 
     switch (selectedEditor) {
       case "monaco":
         return <MonacoEditor {...commonProps} />;
       case "codemirror":
-        return <CodeMirrorEditor {...commonProps} />;
+        // CodeMirror/Ace keep one document, so remount per file to restore its view state
+        return <CodeMirrorEditor key={fileName} {...commonProps} />;
       case "ace":
-        return <AceEditorComponent {...commonProps} />;
+        return <AceEditorComponent key={fileName} {...commonProps} />;
       default:
         return <MonacoEditor {...commonProps} />;
     }
   };
 
   // 检查是否有未保存的修改
-  const hasChanges = currentValue !== originalValue;
+  const hasChanges = currentValue !== savedValue;
 
   return (
     <div className="flex flex-col h-full">
@@ -227,7 +347,7 @@ export default function CodeEditor({
                       <button
                         key={option.value}
                         onClick={() => {
-                          setSelectedEditor(option.value);
+                          setEditorType(option.value);
                           setShowDropdown(false);
                         }}
                         className={
@@ -257,6 +377,21 @@ export default function CodeEditor({
             </div>
           )}
 
+          {/* Diff View Toggle - 仅在 Diff 模式下显示 */}
+          {isDiffMode && (
+            <div className="flex bg-gray-700 rounded p-0.5 mr-2">
+              {diffViewOptions.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => setDiffView(option.value)}
+                  className={`px-3 py-1 text-xs rounded transition-colors ${diffView === option.value ? 'bg-gray-600 text-white shadow-sm' : 'text-gray-400 hover:text-gray-300'}`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          )}
+
           {/* Diff Source Toggle - 仅在 Diff 模式下显示 */}
           {isDiffMode && (
             <div className="flex bg-gray-700 rounded p-0.5 mr-2">
@@ -267,10 +402,7 @@ export default function CodeEditor({
                 本地对比
               </button>
               <button
-                onClick={() => {
-                  setDiffSource('git');
-                  if (!gitOriginalValue) fetchGitContent();
-                }}
+                onClick={showGitDiff}
                 className={`px-3 py-1 text-xs rounded transition-colors ${diffSource === 'git' ? 'bg-blue-600 text-white shadow-sm' : 'text-gray-400 hover:text-gray-300'}`}
               >
                 {isLoadingGit ? '加载中...' : 'Git 对比'}
@@ -278,6 +410,39 @@ export default function CodeEditor({
             </div>
           )}
 
+          {/* Git Ref Picker - 选择对比的版本 */}
+          {isDiffMode && diffSource === 'git' && (
+            <div className="flex items-center gap-2 mr-2">
+              <select
+                value={gitRef}
+                onChange={(e) => changeGitRef(e.target.value)}
+                disabled={isLoadingGit}
+                title="对比的 Git 版本"
+                className="max-w-[180px] px-2 py-1 text-xs rounded bg-gray-700 text-gray-200 border border-gray-600 focus:outline-none focus:border-blue-500"
+              >
+                <option value="HEAD">HEAD</option>
+                {gitRefGroups.map(({ type, label }) => {
+                  const refs = gitRefs.filter(ref => ref.type === type);
+                  if (refs.length === 0) return null;
+                  return (
+                    <optgroup key={type} label={label}>
+                      {refs.map(ref => (
+                        <option key={`${type}:${ref.name}`} value={ref.name}>
+                          {ref.label ? `${ref.name} ${ref.label}` : ref.name}
+                        </option>
+                      ))}
+                    </optgroup>
+                  );
+                })}
+              </select>
+              {gitError && (
+                <span className="text-xs text-red-400 truncate max-w-[200px]" title={gitError}>
+                  {gitError}
+                </span>
+              )}
+            </div>
+          )}
+
           {/* Diff Mode Toggle - 始终可点击 */}
           <button
             onClick={toggleDiffMode}
@@ -296,6 +461,55 @@ export default function CodeEditor({
               <span className="text-xs text-gray-400">(无修改)</span>
             )}
           </button>
+
+          {/* Inline Completions Toggle - 输入时的 AI 补全（Tab 接受） */}
+          <button
+            onClick={() => setInlineCompletions(!inlineCompletionsEnabled)}
+            className={
+              `flex items-center gap-2 px-3 py-1.5
+              text-sm rounded transition-colors border
+              ${inlineCompletionsEnabled
+                ? "bg-blue-600 hover:bg-blue-700 text-white border-blue-500"
+                : "bg-gray-700 hover:bg-gray-600 text-gray-200 border-gray-600"
+              }`
+            }
+            title="输入时显示 AI 补全建议，按 Tab 接受"
+          >
+            <Sparkles className="w-4 h-4" />
+            AI 补全
+          </button>
+
+          {/* History Toggle - 输入检查点、AI 修改和保存记录 */}
+          <button
+            onClick={() => toggleSidePanel('history')}
+            className={
+              `flex items-center gap-2 px-3 py-1.5
+              text-sm rounded transition-colors border
+              ${sidePanel === 'history'
+                ? "bg-blue-600 hover:bg-blue-700 text-white border-blue-500"
+                : "bg-gray-700 hover:bg-gray-600 text-gray-200 border-gray-600"
+              }`
+            }
+          >
+            <History className="w-4 h-4" />
+            历史记录
+          </button>
+
+          {/* Snapshot Toggle - AI 修改前保存的本地快照（不依赖 Git） */}
+          <button
+            onClick={() => toggleSidePanel('snapshots')}
+            className={
+              `flex items-center gap-2 px-3 py-1.5
+              text-sm rounded transition-colors border
+              ${sidePanel === 'snapshots'
+                ? "bg-purple-600 hover:bg-purple-700 text-white border-purple-500"
+                : "bg-gray-700 hover:bg-gray-600 text-gray-200 border-gray-600"
+              }`
+            }
+          >
+            <Camera className="w-4 h-4" />
+            快照
+          </button>
         </div>
 
         {/* Save Button */}
@@ -316,8 +530,19 @@ export default function CodeEditor({
       </div>
 
       {/* Editor Container */}
-      <div className="flex-1 overflow-hidden">
-        {renderEditor()}
+      <div className="flex-1 flex overflow-hidden">
+        <div className="flex-1 min-w-0">
+          {renderEditor()}
+        </div>
+        {sidePanel === 'history' && <HistoryPanel path={fileName} onClose={() => setSidePanel(null)} />}
+        {sidePanel === 'snapshots' && (
+          <SnapshotTimeline
+            path={fileName}
+            selectedId={snapshotPreview?.id ?? null}
+            onSelect={setSnapshotPreview}
+            onClose={() => toggleSidePanel('snapshots')}
+          />
+        )}
       </div>
     </div>
   );
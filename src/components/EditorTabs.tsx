@@ -0,0 +1,73 @@
+"use client";
+
+import { X } from "lucide-react";
+import { appStore, useAppStore } from "@/store/app-store";
+
+export default function EditorTabs() {
+  const tabs = useAppStore((state) => state.tabs);
+  const activePath = useAppStore((state) => state.activePath);
+  const pendingEdits = useAppStore((state) => state.pendingEdits);
+  const { setActivePath, closeTab } = appStore.getState();
+
+  const handleClose = (path: string) => {
+    const tab = tabs.find(t => t.path === path);
+    if (tab && tab.content !== tab.savedContent) {
+      const name = path.split('/').pop();
+      if (!confirm(`"${name}" 有未保存的修改，关闭后将丢失。确定要关闭吗？`)) return;
+    }
+    closeTab(path);
+  };
+
+  if (tabs.length === 0) return null;
+
+  return (
+    <div className="flex bg-gray-900 border-b border-gray-700 overflow-x-auto">
+      {tabs.map(tab => {
+        const isActive = tab.path === activePath;
+        const isDirty = tab.content !== tab.savedContent;
+        const name = tab.path.split('/').pop() || tab.path;
+
+        return (
+          <div
+            key={tab.path}
+            onClick={() => setActivePath(tab.path)}
+            onAuxClick={(e) => {
+              // Middle click closes, like in browsers and VS Code
+              if (e.button === 1) handleClose(tab.path);
+            }}
+            title={tab.path}
+            className={`
+              group flex items-center gap-2 pl-3 pr-1.5 py-1.5 text-sm cursor-pointer select-none
+              border-r border-gray-700 whitespace-nowrap
+              ${isActive
+                ? 'bg-gray-800 text-gray-100 border-t-2 border-t-blue-500'
+                : 'text-gray-400 hover:bg-gray-800/60 hover:text-gray-200 border-t-2 border-t-transparent'}
+            `}
+          >
+            <span>{name}</span>
+            {(pendingEdits[tab.path]?.length ?? 0) > 0 && (
+              <span className="text-xs text-green-400" title="有待处理的 AI 修改">🤖</span>
+            )}
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                handleClose(tab.path);
+              }}
+              className="w-5 h-5 flex items-center justify-center rounded hover:bg-gray-700"
+              title={isDirty ? '未保存 - 关闭' : '关闭'}
+            >
+              {isDirty ? (
+                <>
+                  <span className="w-2 h-2 rounded-full bg-yellow-500 group-hover:hidden" />
+                  <X className="w-3.5 h-3.5 hidden group-hover:block" />
+                </>
+              ) : (
+                <X className={`w-3.5 h-3.5 ${isActive ? '' : 'opacity-0 group-hover:opacity-100'}`} />
+              )}
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
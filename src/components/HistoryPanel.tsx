@@ -0,0 +1,117 @@
+"use client";
+
+import React from "react";
+import { X, Undo2, Redo2, FolderOpen, Keyboard, Sparkles, Save, RotateCcw, HardDrive } from "lucide-react";
+import { HistoryEntryKind } from "@/types/editor.types";
+import { appStore, useAppStore } from "@/store/app-store";
+import { selectHistoryFor } from "@/store/selectors";
+
+interface HistoryPanelProps {
+  path: string;
+  onClose: () => void;
+}
+
+const kindIcons: Record<HistoryEntryKind, React.ElementType> = {
+  open: FolderOpen,
+  typing: Keyboard,
+  'ai-edit': Sparkles,
+  save: Save,
+  restore: RotateCcw,
+  external: HardDrive,
+};
+
+const kindColors: Record<HistoryEntryKind, string> = {
+  open: 'text-gray-400',
+  typing: 'text-blue-400',
+  'ai-edit': 'text-green-400',
+  save: 'text-yellow-400',
+  restore: 'text-purple-400',
+  external: 'text-orange-400',
+};
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+}
+
+export default function HistoryPanel({ path, onClose }: HistoryPanelProps) {
+  const history = useAppStore(selectHistoryFor(path));
+  const { undoHistory, redoHistory, jumpToHistory } = appStore.getState();
+
+  if (!history) return null;
+
+  const canUndo = history.index > 0;
+  const canRedo = history.index < history.entries.length - 1;
+
+  return (
+    <div className="w-72 flex-shrink-0 flex flex-col border-l border-gray-700 bg-gray-800">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-700">
+        <span className="text-sm font-medium text-gray-200">历史记录</span>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => undoHistory(path)}
+            disabled={!canUndo}
+            className="p-1 rounded text-gray-300 hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed"
+            title="撤销到上一个记录"
+          >
+            <Undo2 className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => redoHistory(path)}
+            disabled={!canRedo}
+            className="p-1 rounded text-gray-300 hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed"
+            title="重做"
+          >
+            <Redo2 className="w-4 h-4" />
+          </button>
+          <button
+            onClick={onClose}
+            className="p-1 rounded text-gray-400 hover:bg-gray-700 hover:text-gray-200"
+            title="关闭"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {/* Newest first; entries after the current one are the redo branch */}
+      <div className="flex-1 overflow-y-auto py-1">
+        {history.entries.map((entry, index) => ({ entry, index })).reverse().map(({ entry, index }) => {
+          const Icon = kindIcons[entry.kind];
+          const isCurrent = index === history.index;
+          const isRedo = index > history.index;
+          const previous = history.entries[index - 1];
+
+          return (
+            <div
+              key={entry.id}
+              onClick={() => jumpToHistory(path, entry.id)}
+              className={`
+                group px-3 py-1.5 cursor-pointer text-xs border-l-2
+                ${isCurrent ? 'bg-gray-700 border-l-blue-500' : 'border-l-transparent hover:bg-gray-700/60'}
+                ${isRedo ? 'opacity-50' : ''}
+              `}
+              title="回到此版本"
+            >
+              <div className="flex items-center gap-2">
+                <Icon className={`w-3.5 h-3.5 flex-shrink-0 ${kindColors[entry.kind]}`} />
+                <span className="flex-1 truncate text-gray-200" title={entry.label}>{entry.label}</span>
+                <span className="text-gray-500">{formatTime(entry.timestamp)}</span>
+              </div>
+              {entry.kind === 'ai-edit' && previous && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    jumpToHistory(path, previous.id);
+                  }}
+                  className="mt-1 ml-5 text-green-400 hover:text-green-300 hidden group-hover:inline"
+                >
+                  回到此修改之前
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+"use client";
+
+import React from "react";
+
+interface MarkdownContentProps {
+  content: string;
+  className?: string;
+}
+
+type Block =
+  | { kind: "code"; language: string; code: string }
+  | { kind: "text"; text: string };
+
+// Split into fenced code blocks and text; an unclosed fence (still streaming) becomes a code block
+function splitBlocks(content: string): Block[] {
+  const blocks: Block[] = [];
+  const lines = content.split("\n");
+  let textLines: string[] = [];
+  let codeLines: string[] | null = null;
+  let language = "";
+
+  const flushText = () => {
+    if (textLines.length > 0) blocks.push({ kind: "text", text: textLines.join("\n") });
+    textLines = [];
+  };
+
+  for (const line of lines) {
+    const fence = /^\s*```(\S*)/.exec(line);
+    if (fence && codeLines === null) {
+      flushText();
+      language = fence[1];
+      codeLines = [];
+    } else if (fence && codeLines !== null) {
+      blocks.push({ kind: "code", language, code: codeLines.join("\n") });
+      codeLines = null;
+    } else if (codeLines !== null) {
+      codeLines.push(line);
+    } else {
+      textLines.push(line);
+    }
+  }
+
+  if (codeLines !== null) blocks.push({ kind: "code", language, code: codeLines.join("\n") });
+  flushText();
+  return blocks;
+}
+
+// Inline `code` and **bold**
+function renderInline(text: string, keyPrefix: string): React.ReactNode[] {
+  return text.split(/(`[^`]+`|\*\*[^*]+\*\*)/g).map((part, i) => {
+    const key = `${keyPrefix}-${i}`;
+    if (part.startsWith("`") && part.endsWith("`") && part.length > 1) {
+      return (
+        <code key={key} className="px-1 py-0.5 rounded bg-black/10 dark:bg-white/10 font-mono text-xs">
+          {part.slice(1, -1)}
+        </code>
+      );
+    }
+    if (part.startsWith("**") && part.endsWith("**") && part.length > 3) {
+      return <strong key={key}>{part.slice(2, -2)}</strong>;
+    }
+    return <React.Fragment key={key}>{part}</React.Fragment>;
+  });
+}
+
+function renderText(text: string, blockIndex: number): React.ReactNode[] {
+  return text.split("\n").map((line, i) => {
+    const key = `${blockIndex}-${i}`;
+    const heading = /^(#{1,3})\s+(.*)$/.exec(line);
+    if (heading) {
+      const size = heading[1].length === 1 ? "text-base" : "text-sm";
+      return (
+        <div key={key} className={`${size} font-semibold mt-2`}>
+          {renderInline(heading[2], key)}
+        </div>
+      );
+    }
+    const listItem = /^\s*(?:[-*]|\d+\.)\s+(.*)$/.exec(line);
+    if (listItem) {
+      return (
+        <div key={key} className="pl-4 -indent-3">
+          • {renderInline(listItem[1], key)}
+        </div>
+      );
+    }
+    return (
+      <div key={key} className="min-h-[1.25em]">
+        {renderInline(line, key)}
+      </div>
+    );
+  });
+}
+
+export default function MarkdownContent({ content, className = "" }: MarkdownContentProps) {
+  return (
+    <div className={`break-words text-sm ${className}`}>
+      {splitBlocks(content).map((block, index) =>
+        block.kind === "code" ? (
+          <pre
+            key={index}
+            className="
+              my-2 p-2 rounded overflow-x-auto
+              bg-gray-900 text-gray-100 text-xs font-mono
+            "
+            title={block.language || undefined}
+          >
+            <code>{block.code}</code>
+          </pre>
+        ) : (
+          <React.Fragment key={index}>{renderText(block.text, index)}</React.Fragment>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import React from 'react';
+import { FileText, Folder, Braces, X } from 'lucide-react';
+import { ChatMention, ChatMentionKind } from '@/types/chat.types';
+
+type ChipItem = ChatMention & { tokens?: number; truncated?: boolean };
+
+interface MentionChipsProps {
+  items: ChipItem[];              // Tokens stay undefined while the content is being read
+  onRemove?: (label: string) => void;
+  compact?: boolean;              // Smaller chips inside a sent message
+}
+
+export const mentionIcons: Record<ChatMentionKind, React.ElementType> = {
+  file: FileText,
+  folder: Folder,
+  symbol: Braces,
+};
+
+// Attached @-mentions with their approximate token cost
+export default function MentionChips({ items, onRemove, compact }: MentionChipsProps) {
+  if (items.length === 0) return null;
+
+  return (
+    <div className={`flex flex-wrap gap-1 ${compact ? 'mt-2' : 'mb-2'}`}>
+      {items.map((item) => {
+        const Icon = mentionIcons[item.kind];
+        return (
+          <span
+            key={item.label}
+            className={`
+              inline-flex items-center gap-1 rounded border text-xs max-w-full
+              ${compact
+                ? 'px-1.5 py-0.5 border-white/30 bg-white/10'
+                : 'px-2 py-0.5 border-blue-200 dark:border-blue-800 bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300'}
+            `}
+            title={item.kind === 'symbol' ? `${item.path}:${item.startLine}-${item.endLine}` : item.path}
+          >
+            <Icon className="w-3 h-3 flex-shrink-0" />
+            <span className="truncate">{item.label}</span>
+            <span className="opacity-60 flex-shrink-0">
+              {item.tokens === undefined ? '…' : `~${item.tokens} tokens${item.truncated ? '（已截断）' : ''}`}
+            </span>
+            {onRemove && (
+              <button onClick={() => onRemove(item.label)} className="hover:text-red-500" title="移除">
+                <X className="w-3 h-3" />
+              </button>
+            )}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
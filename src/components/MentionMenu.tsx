@@ -0,0 +1,43 @@
+import React from 'react';
+import { ChatMention } from '@/types/chat.types';
+import { mentionIcons } from './MentionChips';
+
+interface MentionMenuProps {
+  suggestions: ChatMention[];
+  activeIndex: number;
+  onPick: (mention: ChatMention) => void;
+  onHover: (index: number) => void;
+}
+
+// Autocomplete for the @-mention being typed, shown above the chat input
+export default function MentionMenu({ suggestions, activeIndex, onPick, onHover }: MentionMenuProps) {
+  if (suggestions.length === 0) return null;
+
+  return (
+    <div className="absolute bottom-full left-0 right-0 mb-1 max-h-64 overflow-y-auto rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 shadow-lg z-10">
+      {suggestions.map((mention, index) => {
+        const Icon = mentionIcons[mention.kind];
+        return (
+          <button
+            key={`${mention.kind}:${mention.label}:${mention.path}`}
+            // Keep focus in the textarea
+            onMouseDown={(e) => {
+              e.preventDefault();
+              onPick(mention);
+            }}
+            onMouseEnter={() => onHover(index)}
+            className={`w-full text-left px-3 py-1.5 flex items-center gap-2 text-sm ${
+              index === activeIndex ? 'bg-blue-50 dark:bg-blue-900/30' : ''
+            }`}
+          >
+            <Icon className="w-3.5 h-3.5 flex-shrink-0 text-gray-400" />
+            <span className="truncate text-gray-800 dark:text-gray-200">{mention.label}</span>
+            {mention.kind === 'symbol' && (
+              <span className="ml-auto truncate text-xs text-gray-400">{mention.path}:{mention.startLine}</span>
+            )}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
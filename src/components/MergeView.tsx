@@ -0,0 +1,93 @@
+"use client";
+
+import { useState } from "react";
+import { AlertTriangle, Check, HardDrive, FileText } from "lucide-react";
+import toast from "react-hot-toast";
+import { DiskChange } from "@/types/editor.types";
+import { ThreeWayMerge } from "@/lib/threeWayMerge";
+import { appStore, useAppStore } from "@/store/app-store";
+import { selectPendingEditsFor } from "@/store/selectors";
+import MonacoDiffEditor from "./editors/MonacoDiffEditor";
+
+interface MergeViewProps {
+  path: string;
+  change: DiskChange;
+}
+
+// 磁盘版本（左）与可编辑的三方合并结果（右）；冲突块需要手动解决后才能使用合并结果
+export default function MergeView({ path, change }: MergeViewProps) {
+  const { resolveDiskChange, keepBufferOverDisk } = appStore.getState();
+  const [result, setResult] = useState(change.merged);
+  const remaining = ThreeWayMerge.countConflicts(result);
+  const hasPendingEdits = useAppStore(selectPendingEditsFor(path)).length > 0;
+
+  const applyMerged = () => {
+    resolveDiskChange(path, result);
+    toast.success('已使用合并结果，保存后写入磁盘');
+  };
+
+  const takeDisk = () => {
+    const discarded = hasPendingEdits ? '未保存的修改和待审核的 AI 修改' : '未保存的修改';
+    if (!confirm(`使用磁盘上的版本会丢弃${discarded}。确定继续吗？`)) return;
+    resolveDiskChange(path, change.disk);
+    toast.success('已加载磁盘上的版本');
+  };
+
+  const keepBuffer = () => {
+    keepBufferOverDisk(path);
+    toast.success('已保留当前内容，保存后将覆盖磁盘上的版本');
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="px-4 py-2 bg-orange-900/30 border-b border-orange-500/30">
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-2 min-w-0 text-xs text-orange-200">
+            <AlertTriangle className="w-4 h-4 flex-shrink-0 text-orange-400" />
+            <span className="truncate">
+              文件已在磁盘上修改
+              {remaining > 0 ? `，还有 ${remaining} 处冲突` : '，合并无冲突'}
+              {hasPendingEdits && '（合并结果包含待审核的 AI 修改）'}
+            </span>
+          </div>
+          <div className="flex items-center gap-2 flex-shrink-0">
+            <button
+              onClick={applyMerged}
+              disabled={remaining > 0}
+              className="px-3 py-1 bg-green-600 hover:bg-green-700 text-white rounded text-xs flex items-center gap-1.5 disabled:opacity-50 disabled:cursor-not-allowed"
+              title={remaining > 0 ? '请先在右侧解决所有冲突标记' : '将合并结果放入编辑器'}
+            >
+              <Check className="w-3.5 h-3.5" />
+              使用合并结果
+            </button>
+            <button
+              onClick={takeDisk}
+              className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded text-xs flex items-center gap-1.5"
+            >
+              <HardDrive className="w-3.5 h-3.5" />
+              使用磁盘版本
+            </button>
+            <button
+              onClick={keepBuffer}
+              className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded text-xs flex items-center gap-1.5"
+            >
+              <FileText className="w-3.5 h-3.5" />
+              保留当前内容
+            </button>
+          </div>
+        </div>
+        <div className="mt-1 ml-6 text-xs text-gray-400">
+          左侧为磁盘上的版本，右侧为合并结果，可直接编辑；冲突以 &lt;&lt;&lt;&lt;&lt;&lt;&lt; / ======= / &gt;&gt;&gt;&gt;&gt;&gt;&gt; 标记
+        </div>
+      </div>
+      <div className="flex-1 min-h-0">
+        <MonacoDiffEditor
+          original={change.disk}
+          modified={change.merged}
+          fileName={path}
+          onModifiedChange={setResult}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+"use client";
+
+import { LLMProviderId, LLMSettings } from "@/types/llm.types";
+
+interface ModelSelectorProps {
+  settings: LLMSettings;
+  onChange: (settings: LLMSettings) => void;
+}
+
+const providerOptions: { value: LLMProviderId; label: string; placeholder: string }[] = [
+  { value: "gemini", label: "Gemini", placeholder: "gemini-2.5-flash" },
+  { value: "openai", label: "OpenAI 兼容", placeholder: "gpt-4o-mini" },
+  { value: "anthropic", label: "Anthropic", placeholder: "claude-sonnet-4-5" },
+  { value: "ollama", label: "本地 Ollama", placeholder: "qwen2.5-coder" },
+  { value: "mock", label: "Mock (离线)", placeholder: "mock-1" },
+];
+
+export default function ModelSelector({ settings, onChange }: ModelSelectorProps) {
+  const current = providerOptions.find((opt) => opt.value === settings.provider);
+
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        value={settings.provider}
+        onChange={(e) => onChange({ provider: e.target.value as LLMProviderId })}
+        className="
+          px-2 py-2 text-sm rounded-lg
+          border border-gray-300 bg-white text-gray-700
+        "
+        title="选择模型提供方（按工作区保存）"
+      >
+        {providerOptions.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <input
+        value={settings.model || ""}
+        onChange={(e) => onChange({ ...settings, model: e.target.value || undefined })}
+        placeholder={current?.placeholder}
+        className="
+          w-40 px-2 py-2 text-sm rounded-lg
+          border border-gray-300 bg-white text-gray-700
+        "
+        title="模型名称（留空使用默认模型）"
+      />
+    </div>
+  );
+}
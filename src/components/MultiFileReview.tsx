@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { Check, X, ChevronDown, ChevronRight, FileCode } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { MultiFileChange, MultiFileManager } from '@/lib/multiFileManager';
+
+interface MultiFileReviewProps {
+  change: MultiFileChange;
+  onApply: (change: MultiFileChange) => Promise<boolean>;
+}
+
+type ReviewStatus = 'pending' | 'applying' | 'applied' | 'discarded';
+
+export default function MultiFileReview({ change, onApply }: MultiFileReviewProps) {
+  const [rejected, setRejected] = useState<Set<string>>(new Set());
+  const [expanded, setExpanded] = useState<Set<string>>(new Set(change.files.map(f => f.filePath)));
+  const [status, setStatus] = useState<ReviewStatus>('pending');
+
+  const toggle = (set: Set<string>, ids: string[], on: boolean) => {
+    const next = new Set(set);
+    ids.forEach(id => (on ? next.add(id) : next.delete(id)));
+    return next;
+  };
+
+  const setHunks = (ids: string[], accepted: boolean) => {
+    setRejected(prev => toggle(prev, ids, !accepted));
+  };
+
+  const toggleExpanded = (filePath: string) => {
+    setExpanded(prev => toggle(prev, [filePath], !prev.has(filePath)));
+  };
+
+  const acceptedCount = change.files.reduce(
+    (count, file) => count + file.edits.filter(edit => !rejected.has(edit.id)).length,
+    0
+  );
+
+  // Keep only accepted hunks and recompute each file's content from its original
+  const buildAcceptedChange = (): MultiFileChange => ({
+    ...change,
+    files: change.files
+      .map(file => {
+        const edits = file.edits.filter(edit => !rejected.has(edit.id));
+        return {
+          ...file,
+          edits,
+          modifiedContent: MultiFileManager.applyEdits(file.originalContent, edits),
+        };
+      })
+      .filter(file => file.edits.length > 0),
+  });
+
+  const handleApply = async () => {
+    const accepted = buildAcceptedChange();
+    const validation = MultiFileManager.validateChanges(accepted);
+    if (!validation.valid) {
+      toast.error(validation.errors[0]);
+      return;
+    }
+
+    setStatus('applying');
+    const ok = await onApply(accepted);
+    setStatus(ok ? 'applied' : 'pending');
+  };
+
+  const locked = status !== 'pending';
+
+  return (
+    <div className="border border-gray-300 dark:border-gray-600 rounded-lg overflow-hidden my-2">
+      <div className="bg-gray-100 dark:bg-gray-800 px-3 py-2 flex items-center justify-between gap-2">
+        <span className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+          📂 跨文件修改 ({change.files.length} 个文件，已选 {acceptedCount} 处)
+        </span>
+        {status === 'pending' && (
+          <div className="flex gap-2">
+            <button
+              onClick={handleApply}
+              disabled={acceptedCount === 0}
+              className="px-3 py-1 bg-green-500 text-white rounded hover:bg-green-600 disabled:bg-gray-400 transition-colors flex items-center gap-1 text-sm"
+              title="写入所有已接受的修改"
+            >
+              <Check className="w-4 h-4" />
+              <span>应用</span>
+            </button>
+            <button
+              onClick={() => setStatus('discarded')}
+              className="px-3 py-1 bg-red-500 text-white rounded hover:bg-red-600 transition-colors flex items-center gap-1 text-sm"
+              title="放弃全部修改"
+            >
+              <X className="w-4 h-4" />
+              <span>放弃</span>
+            </button>
+          </div>
+        )}
+        {status === 'applying' && <span className="text-xs text-gray-500">写入中...</span>}
+        {status === 'applied' && <span className="text-xs text-green-600">✅ 已写入</span>}
+        {status === 'discarded' && <span className="text-xs text-gray-500">已放弃</span>}
+      </div>
+
+      <div className="max-h-96 overflow-y-auto">
+        {change.files.map(file => {
+          const ids = file.edits.map(edit => edit.id);
+          const fileAccepted = ids.filter(id => !rejected.has(id)).length;
+          const isExpanded = expanded.has(file.filePath);
+
+          return (
+            <div key={file.filePath} className="border-t border-gray-300 dark:border-gray-600">
+              <div className="px-3 py-2 flex items-center gap-2 bg-white dark:bg-gray-900">
+                <button onClick={() => toggleExpanded(file.filePath)} className="text-gray-500">
+                  {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                </button>
+                <input
+                  type="checkbox"
+                  checked={fileAccepted === ids.length}
+                  ref={el => {
+                    if (el) el.indeterminate = fileAccepted > 0 && fileAccepted < ids.length;
+                  }}
+                  onChange={e => setHunks(ids, e.target.checked)}
+                  disabled={locked}
+                  title="接受/拒绝该文件的全部修改"
+                />
+                <FileCode className="w-4 h-4 text-blue-500" />
+                <span className="flex-1 text-sm font-mono truncate" title={file.filePath}>
+                  {file.filePath}
+                </span>
+                <span className="text-xs text-gray-500">
+                  {fileAccepted}/{ids.length}
+                </span>
+              </div>
+
+              {isExpanded && file.edits.map(edit => {
+                const isRejected = rejected.has(edit.id);
+                return (
+                  <div
+                    key={edit.id}
+                    className={`border-t border-gray-200 dark:border-gray-700 ${isRejected ? 'opacity-50' : ''}`}
+                  >
+                    <div className="px-3 py-1 flex items-center justify-between text-xs bg-gray-50 dark:bg-gray-800">
+                      <span className="text-gray-600 dark:text-gray-400 truncate">
+                        第 {edit.startLine}-{edit.endLine} 行{edit.description ? ` · ${edit.description}` : ''}
+                      </span>
+                      <div className="flex gap-1">
+                        <button
+                          onClick={() => setHunks([edit.id], true)}
+                          disabled={locked}
+                          className={`p-0.5 rounded ${!isRejected ? 'bg-green-500 text-white' : 'text-green-600 hover:bg-green-100'}`}
+                          title="接受此处修改"
+                        >
+                          <Check className="w-3 h-3" />
+                        </button>
+                        <button
+                          onClick={() => setHunks([edit.id], false)}
+                          disabled={locked}
+                          className={`p-0.5 rounded ${isRejected ? 'bg-red-500 text-white' : 'text-red-600 hover:bg-red-100'}`}
+                          title="拒绝此处修改"
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                      </div>
+                    </div>
+                    <pre className="px-3 py-1 text-xs bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-300 overflow-x-auto">
+                      <code>{edit.oldCode.split('\n').map(line => `- ${line}`).join('\n')}</code>
+                    </pre>
+                    <pre className="px-3 py-1 text-xs bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-300 overflow-x-auto">
+                      <code>{edit.newCode.split('\n').map(line => `+ ${line}`).join('\n')}</code>
+                    </pre>
+                  </div>
+                );
+              })}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import React from 'react';
+import { SlashCommand } from '@/types/command.types';
+
+interface SlashCommandMenuProps {
+  suggestions: SlashCommand[];
+  activeIndex: number;
+  onPick: (command: SlashCommand) => void;
+  onHover: (index: number) => void;
+}
+
+// Autocomplete for the /command being typed, shown above the chat input
+export default function SlashCommandMenu({ suggestions, activeIndex, onPick, onHover }: SlashCommandMenuProps) {
+  if (suggestions.length === 0) return null;
+
+  return (
+    <div className="absolute bottom-full left-0 right-0 mb-1 max-h-64 overflow-y-auto rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 shadow-lg z-10">
+      {suggestions.map((command, index) => (
+        <button
+          key={command.name}
+          // Keep focus in the textarea
+          onMouseDown={(e) => {
+            e.preventDefault();
+            onPick(command);
+          }}
+          onMouseEnter={() => onHover(index)}
+          className={`w-full text-left px-3 py-1.5 flex items-baseline gap-2 text-sm ${
+            index === activeIndex ? 'bg-blue-50 dark:bg-blue-900/30' : ''
+          }`}
+        >
+          <span className="font-mono text-gray-800 dark:text-gray-200">/{command.name}</span>
+          {command.args && <span className="font-mono text-xs text-gray-400">{command.args}</span>}
+          <span className="truncate text-xs text-gray-500">{command.description}</span>
+          {command.source === 'workspace' && (
+            <span className="ml-auto flex-shrink-0 text-xs text-blue-500" title=".webagent/commands.json">
+              自定义
+            </span>
+          )}
+        </button>
+      ))}
+    </div>
+  );
+}
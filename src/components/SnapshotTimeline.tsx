@@ -0,0 +1,87 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { X, Camera } from "lucide-react";
+import { FileSnapshot } from "@/types/snapshot.types";
+import { useAppStore } from "@/store/app-store";
+import { loadFileSnapshots } from "@/utils/storage";
+
+interface SnapshotTimelineProps {
+  path: string;
+  selectedId: number | null;
+  onSelect: (snapshot: FileSnapshot) => void;
+  onClose: () => void;
+}
+
+export default function SnapshotTimeline({ path, selectedId, onSelect, onClose }: SnapshotTimelineProps) {
+  const workspace = useAppStore((state) => state.dirHandle?.name ?? null);
+  const revision = useAppStore((state) => state.snapshotRevision);
+  const [snapshots, setSnapshots] = useState<FileSnapshot[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  // Reload when the file changes or a new snapshot was taken
+  useEffect(() => {
+    if (!workspace) return;
+    let cancelled = false;
+    setLoading(true);
+    loadFileSnapshots(workspace, path).then((result) => {
+      if (cancelled) return;
+      setSnapshots(result);
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [workspace, path, revision]);
+
+  return (
+    <div className="w-72 flex-shrink-0 flex flex-col border-l border-gray-700 bg-gray-800">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-700">
+        <span className="text-sm font-medium text-gray-200">本地快照</span>
+        <button
+          onClick={onClose}
+          className="p-1 rounded text-gray-400 hover:bg-gray-700 hover:text-gray-200"
+          title="关闭"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto py-1">
+        {loading && snapshots.length === 0 && (
+          <p className="px-3 py-2 text-xs text-gray-400">加载中...</p>
+        )}
+        {!loading && snapshots.length === 0 && (
+          <p className="px-3 py-2 text-xs text-gray-400">
+            暂无快照。每次接受 AI 修改前，文件的原内容都会保存在这里。
+          </p>
+        )}
+        {snapshots.map((snapshot) => (
+          <div
+            key={snapshot.id}
+            onClick={() => onSelect(snapshot)}
+            className={`
+              px-3 py-2 cursor-pointer text-xs border-l-2
+              ${snapshot.id === selectedId ? 'bg-gray-700 border-l-blue-500' : 'border-l-transparent hover:bg-gray-700/60'}
+            `}
+            title="与当前内容对比"
+          >
+            <div className="flex items-center gap-2">
+              <Camera className="w-3.5 h-3.5 flex-shrink-0 text-purple-400" />
+              <span className="flex-1 truncate text-gray-200" title={snapshot.label}>{snapshot.label}</span>
+            </div>
+            <div className="ml-5 mt-0.5 text-gray-500">
+              {new Date(snapshot.timestamp).toLocaleString()}
+              {snapshot.origin && ` · ${snapshot.origin.model || snapshot.origin.provider}`}
+            </div>
+            {snapshot.origin && (
+              <div className="ml-5 mt-0.5 text-gray-400 truncate" title={snapshot.origin.prompt}>
+                “{snapshot.origin.prompt}”
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
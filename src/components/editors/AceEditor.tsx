@@ -1,5 +1,6 @@
 "use client";
 
+import { useEffect, useRef, useState } from "react";
 import AceEditor from "react-ace";
 
 // Import Ace modes and themes
@@ -17,6 +18,12 @@ import "ace-builds/src-noconflict/mode-sql";
 import "ace-builds/src-noconflict/mode-sh";
 import "ace-builds/src-noconflict/theme-monokai";
 import "ace-builds/src-noconflict/ext-language_tools";
+import type { Ace } from "ace-builds";
+import { EditorAdapter, EditorViewState } from "@/types/editor.types";
+import PendingEditPreview from "./PendingEditPreview";
+import InlineEditPrompt from "./InlineEditPrompt";
+import { createAceAdapter } from "./adapters/aceAdapter";
+import { attachAceInlineCompletions } from "./completions/aceCompletions";
 
 interface AceEditorComponentProps {
   value: string;
@@ -24,10 +31,17 @@ interface AceEditorComponentProps {
   fileName: string;
   onExplainCode?: (code: string) => void;
   onOptimizeCode?: (code: string) => void;
-  onEditCode?: (code: string) => void;
+  onCursorChange?: (position: { line: number; column: number }) => void;
+  onSelectionChange?: (text: string) => void;
+  viewState?: EditorViewState;
+  onViewStateChange?: (state: EditorViewState) => void;
 }
 
-export default function AceEditorComponent({ value, onChange, fileName, onExplainCode, onOptimizeCode, onEditCode }: AceEditorComponentProps) {
+export default function AceEditorComponent({ value, onChange, fileName, onExplainCode, onOptimizeCode, onCursorChange, onSelectionChange, viewState, onViewStateChange }: AceEditorComponentProps) {
+  const [adapter, setAdapter] = useState<EditorAdapter | null>(null);
+  const detachCompletionsRef = useRef<(() => void) | null>(null);
+  useEffect(() => () => detachCompletionsRef.current?.(), []);
+
   // Detect mode from file extension
   const getMode = (fileName: string) => {
     const ext = fileName.split(".").pop()?.toLowerCase();
@@ -51,28 +65,63 @@ export default function AceEditorComponent({ value, onChange, fileName, onExplai
     return modeMap[ext || ""] || "text";
   };
 
+  // Mounted once per file (keyed by the parent), so the saved state is applied on load
+  const handleLoad = (editor: Ace.Editor) => {
+    const editorAdapter = createAceAdapter(editor);
+    setAdapter(editorAdapter);
+    detachCompletionsRef.current = attachAceInlineCompletions(editor, () => fileName);
+    if (viewState) {
+      editor.gotoLine(viewState.line, viewState.column - 1, false);
+      editor.session.setScrollTop(viewState.scrollTop);
+    }
+
+    const reportViewState = () => {
+      const cursor = editor.getCursorPosition();
+      onViewStateChange?.({
+        line: cursor.row + 1,
+        column: cursor.column + 1,
+        scrollTop: editor.session.getScrollTop(),
+      });
+    };
+    editor.selection.on('changeCursor', () => {
+      reportViewState();
+      const cursor = editor.getCursorPosition();
+      onCursorChange?.({ line: cursor.row + 1, column: cursor.column + 1 });
+    });
+    editor.selection.on('changeSelection', () => onSelectionChange?.(editorAdapter.getSelection().text));
+    editor.session.on('changeScrollTop', reportViewState);
+  };
+
   return (
-    <AceEditor
-      mode={getMode(fileName)}
-      theme="monokai"
-      value={value}
-      onChange={onChange}
-      name="ace-editor"
-      width="100%"
-      height="100%"
-      fontSize={14}
-      showPrintMargin={false}
-      showGutter={true}
-      highlightActiveLine={true}
-      setOptions={{
-        enableBasicAutocompletion: true,
-        enableLiveAutocompletion: true,
-        enableSnippets: true,
-        showLineNumbers: true,
-        tabSize: 2,
-        useWorker: false,
-      }}
-      editorProps={{ $blockScrolling: true }}
-    />
+    <div className="relative h-full flex flex-col">
+      <PendingEditPreview adapter={adapter} fileName={fileName} />
+      <InlineEditPrompt adapter={adapter} fileName={fileName} />
+
+      <div className="flex-1 min-h-0">
+        <AceEditor
+          mode={getMode(fileName)}
+          theme="monokai"
+          value={value}
+          onChange={onChange}
+          onLoad={handleLoad}
+          name="ace-editor"
+          width="100%"
+          height="100%"
+          fontSize={14}
+          showPrintMargin={false}
+          showGutter={true}
+          highlightActiveLine={true}
+          setOptions={{
+            enableBasicAutocompletion: true,
+            enableLiveAutocompletion: true,
+            enableSnippets: true,
+            showLineNumbers: true,
+            tabSize: 2,
+            useWorker: false,
+          }}
+          editorProps={{ $blockScrolling: true }}
+        />
+      </div>
+    </div>
   );
 }
@@ -1,12 +1,18 @@
 "use client";
 
-import CodeMirror from "@uiw/react-codemirror";
+import { useState } from "react";
+import CodeMirror, { type EditorView, type ViewUpdate } from "@uiw/react-codemirror";
 import { javascript } from "@codemirror/lang-javascript";
 import { python } from "@codemirror/lang-python";
 import { html } from "@codemirror/lang-html";
 import { css } from "@codemirror/lang-css";
 import { json } from "@codemirror/lang-json";
 import { oneDark } from "@codemirror/theme-one-dark";
+import { EditorAdapter, EditorViewState } from "@/types/editor.types";
+import PendingEditPreview from "./PendingEditPreview";
+import InlineEditPrompt from "./InlineEditPrompt";
+import { codeMirrorAdapterExtension, createCodeMirrorAdapter } from "./adapters/codeMirrorAdapter";
+import { codeMirrorInlineCompletions } from "./completions/codeMirrorCompletions";
 
 interface CodeMirrorEditorProps {
   value: string;
@@ -14,10 +20,15 @@ interface CodeMirrorEditorProps {
   fileName: string;
   onExplainCode?: (code: string) => void;
   onOptimizeCode?: (code: string) => void;
-  onEditCode?: (code: string) => void;
+  onCursorChange?: (position: { line: number; column: number }) => void;
+  onSelectionChange?: (text: string) => void;
+  viewState?: EditorViewState;
+  onViewStateChange?: (state: EditorViewState) => void;
 }
 
-export default function CodeMirrorEditor({ value, onChange, fileName, onExplainCode, onOptimizeCode, onEditCode }: CodeMirrorEditorProps) {
+export default function CodeMirrorEditor({ value, onChange, fileName, onExplainCode, onOptimizeCode, onCursorChange, onSelectionChange, viewState, onViewStateChange }: CodeMirrorEditorProps) {
+  const [adapter, setAdapter] = useState<EditorAdapter | null>(null);
+
   // Detect language extension from file name
   const getLanguageExtension = (fileName: string) => {
     const ext = fileName.split(".").pop()?.toLowerCase();
@@ -41,37 +52,80 @@ export default function CodeMirrorEditor({ value, onChange, fileName, onExplainC
     }
   };
 
+  const cursorOf = (view: EditorView) => {
+    const head = view.state.selection.main.head;
+    const line = view.state.doc.lineAt(head);
+    return { line: line.number, column: head - line.from + 1 };
+  };
+
+  const reportViewState = (view: EditorView) => {
+    onViewStateChange?.({ ...cursorOf(view), scrollTop: view.scrollDOM.scrollTop });
+  };
+
+  // Mounted once per file (keyed by the parent), so the saved state is applied on creation
+  const handleCreateEditor = (view: EditorView) => {
+    setAdapter(createCodeMirrorAdapter(view));
+    if (viewState) {
+      const line = view.state.doc.line(Math.min(Math.max(1, viewState.line), view.state.doc.lines));
+      const anchor = Math.min(line.from + viewState.column - 1, line.to);
+      view.dispatch({ selection: { anchor } });
+      // Wait for the first layout before scrolling
+      requestAnimationFrame(() => {
+        view.scrollDOM.scrollTop = viewState.scrollTop;
+      });
+    }
+    if (onViewStateChange) {
+      view.scrollDOM.addEventListener('scroll', () => reportViewState(view), { passive: true });
+    }
+  };
+
+  const handleUpdate = (update: ViewUpdate) => {
+    if (!update.selectionSet) return;
+    reportViewState(update.view);
+    onCursorChange?.(cursorOf(update.view));
+    if (adapter) onSelectionChange?.(adapter.getSelection().text);
+  };
+
   return (
-    <CodeMirror
-      value={value}
-      height="100%"
-      theme={oneDark}
-      extensions={getLanguageExtension(fileName)}
-      onChange={(value) => onChange(value)}
-      style={{ height: "100%" }}
-      basicSetup={{
-        lineNumbers: true,
-        highlightActiveLineGutter: true,
-        highlightSpecialChars: true,
-        foldGutter: true,
-        drawSelection: true,
-        dropCursor: true,
-        allowMultipleSelections: true,
-        indentOnInput: true,
-        syntaxHighlighting: true,
-        bracketMatching: true,
-        closeBrackets: true,
-        autocompletion: true,
-        rectangularSelection: true,
-        crosshairCursor: true,
-        highlightActiveLine: true,
-        highlightSelectionMatches: true,
-        closeBracketsKeymap: true,
-        searchKeymap: true,
-        foldKeymap: true,
-        completionKeymap: true,
-        lintKeymap: true,
-      }}
-    />
+    <div className="relative h-full flex flex-col">
+      <PendingEditPreview adapter={adapter} fileName={fileName} />
+      <InlineEditPrompt adapter={adapter} fileName={fileName} />
+
+      <div className="flex-1 min-h-0">
+        <CodeMirror
+          value={value}
+          height="100%"
+          theme={oneDark}
+          extensions={[...getLanguageExtension(fileName), codeMirrorAdapterExtension, codeMirrorInlineCompletions(fileName)]}
+          onChange={(value) => onChange(value)}
+          onCreateEditor={handleCreateEditor}
+          onUpdate={handleUpdate}
+          style={{ height: "100%" }}
+          basicSetup={{
+            lineNumbers: true,
+            highlightActiveLineGutter: true,
+            highlightSpecialChars: true,
+            foldGutter: true,
+            drawSelection: true,
+            dropCursor: true,
+            allowMultipleSelections: true,
+            indentOnInput: true,
+            syntaxHighlighting: true,
+            bracketMatching: true,
+            closeBrackets: true,
+            autocompletion: true,
+            rectangularSelection: true,
+            crosshairCursor: true,
+            highlightActiveLine: true,
+            highlightSelectionMatches: true,
+            closeBracketsKeymap: true,
+            searchKeymap: true,
+            foldKeymap: true,
+            completionKeymap: true,
+            lintKeymap: true,
+          }}
+        />
+      </div>
+    </div>
   );
 }
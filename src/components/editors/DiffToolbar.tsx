@@ -0,0 +1,39 @@
+"use client";
+
+interface DiffToolbarProps {
+  ignoreWhitespace: boolean;
+  onIgnoreWhitespaceChange: (value: boolean) => void;
+  collapseUnchanged: boolean;
+  onCollapseUnchangedChange: (value: boolean) => void;
+}
+
+// View options shared by the split and unified diff viewers
+export default function DiffToolbar({
+  ignoreWhitespace,
+  onIgnoreWhitespaceChange,
+  collapseUnchanged,
+  onCollapseUnchangedChange,
+}: DiffToolbarProps) {
+  return (
+    <div className="sticky top-0 z-10 flex items-center gap-4 px-3 py-1.5 bg-gray-800 border-b border-gray-700 text-xs text-gray-300">
+      <label className="flex items-center gap-1.5 cursor-pointer select-none">
+        <input
+          type="checkbox"
+          checked={ignoreWhitespace}
+          onChange={(e) => onIgnoreWhitespaceChange(e.target.checked)}
+          className="accent-blue-500"
+        />
+        忽略空白
+      </label>
+      <label className="flex items-center gap-1.5 cursor-pointer select-none">
+        <input
+          type="checkbox"
+          checked={collapseUnchanged}
+          onChange={(e) => onCollapseUnchangedChange(e.target.checked)}
+          className="accent-blue-500"
+        />
+        折叠未修改区域
+      </label>
+    </div>
+  );
+}
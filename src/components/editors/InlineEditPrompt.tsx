@@ -0,0 +1,263 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { createPortal } from "react-dom";
+import toast from "react-hot-toast";
+import { Loader2, Sparkles } from "lucide-react";
+import { EditorAdapter, TextEdit } from "@/types/editor.types";
+import { AIEditOrigin } from "@/types/llm.types";
+import { AIPromptBuilder } from "@/lib/aiPromptBuilder";
+import { EditParser } from "@/lib/editParser";
+import { streamAIResponse } from "@/lib/aiClient";
+import { TokenBudget } from "@/lib/tokenBudget";
+import { appStore, useAppStore } from "@/store/app-store";
+import { selectInlineEditFor, selectPendingEditsFor } from "@/store/selectors";
+
+interface InlineEditPromptProps {
+  adapter: EditorAdapter | null;
+  fileName: string;
+}
+
+const WIDGET_OWNER = 'inline-edit';
+const WIDGET_HEIGHT = 40;
+
+/**
+ * Cmd+K style prompt below the selection: sends the instruction with the selected code and
+ * streams the answer in as pending edits. Also binds the review keys inside the editor:
+ * Mod+K opens the prompt, Mod+Enter accepts all pending edits, Mod+Backspace rejects them
+ */
+export default function InlineEditPrompt({ adapter, fileName }: InlineEditPromptProps) {
+  const target = useAppStore(selectInlineEditFor(fileName));
+  const llmSettings = useAppStore((state) => state.llmSettings);
+  const projectRules = useAppStore((state) => state.projectRules);
+  const templateOverrides = useAppStore((state) => state.templateOverrides);
+  const [instruction, setInstruction] = useState('');
+  const [loading, setLoading] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const nodeRef = useRef<HTMLElement | null>(null);
+  // Keys typed into the prompt, read through a ref by the node's native listener
+  const promptKeyRef = useRef<(event: KeyboardEvent) => void>(() => {});
+
+  // Created once and handed to the editor as a widget. Keys and clicks stop at the node,
+  // so the engine underneath does not treat them as its own (Monaco grabs focus on mousedown)
+  const widgetNode = () => {
+    if (!nodeRef.current) {
+      const node = document.createElement('div');
+      node.className = 'inline-edit-widget-host';
+      node.addEventListener('keydown', (event) => {
+        event.stopPropagation();
+        promptKeyRef.current(event);
+      });
+      node.addEventListener('mousedown', (event) => event.stopPropagation());
+      nodeRef.current = node;
+    }
+    return nodeRef.current;
+  };
+
+  const handleClose = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setInstruction('');
+    setLoading(false);
+    appStore.getState().closeInlineEdit();
+    adapter?.focus();
+  };
+
+  const handleSubmit = async () => {
+    if (!adapter || !target || !instruction.trim() || loading) return;
+
+    const code = adapter.getValue();
+    const { path, selection } = target;
+    const origin: AIEditOrigin = {
+      prompt: instruction,
+      provider: llmSettings.provider,
+      model: llmSettings.model,
+    };
+    const { setPendingEdits, closeInlineEdit } = appStore.getState();
+
+    const previewEdits = (edits: TextEdit[]) => {
+      setPendingEdits(path, edits.map((edit, index) => ({
+        ...edit,
+        id: `edit-${Date.now()}-${index}`,
+        applied: false,
+        rejected: false,
+        origin,
+      })));
+    };
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setLoading(true);
+    const streamedEdits: TextEdit[] = [];
+
+    try {
+      const built = AIPromptBuilder.buildEditPrompt({
+        instruction,
+        code,
+        fileName: path,
+        cursorPosition: { line: selection.startLine, column: selection.startColumn },
+        selectedText: selection.text || undefined,
+        budget: TokenBudget.forModel(llmSettings.provider, llmSettings.model).promptTokens,
+        symbolIndex: appStore.getState().symbolIndex,
+      });
+      const omittedFile = built.context.dropped.find((chunk) => chunk.kind === 'file');
+      if (omittedFile) {
+        toast(`文件过大（约 ${omittedFile.tokens} tokens），只发送了选区附近的代码`, { id: 'ai-context' });
+      }
+
+      const result = await streamAIResponse(
+        {
+          prompt: built.prompt,
+          action: 'edit',
+          code,
+          packed: true,
+          rules: projectRules,
+          templates: templateOverrides,
+          provider: llmSettings.provider,
+          model: llmSettings.model,
+        },
+        {
+          signal: abortController.signal,
+          onEdit: (edit) => {
+            streamedEdits.push(edit);
+            previewEdits([...streamedEdits]);
+          },
+        }
+      );
+      if (result.aborted) return;
+
+      // Streamed SEARCH/REPLACE edits are already shown; other formats only parse at the end
+      const { edits } = EditParser.parse(result.text, code);
+      if (edits.length > streamedEdits.length) previewEdits(edits);
+      if (edits.length === 0 && streamedEdits.length === 0) {
+        toast.error('AI 没有返回可应用的修改，请换个说法试试');
+        return;
+      }
+
+      // Hand the keyboard back to the editor for Mod+Enter / Mod+Backspace
+      setInstruction('');
+      closeInlineEdit();
+      adapter.focus();
+    } catch (error) {
+      if (!abortController.signal.aborted) {
+        console.error('Inline edit failed:', error);
+        toast.error('AI 编辑失败，请稍后重试');
+      }
+    } finally {
+      if (abortControllerRef.current === abortController) abortControllerRef.current = null;
+      setLoading(false);
+    }
+  };
+
+  promptKeyRef.current = (event) => {
+    if (event.key === 'Enter' && !event.isComposing) {
+      event.preventDefault();
+      handleSubmit();
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      handleClose();
+    }
+  };
+
+  // Editor keys; the prompt's own input is left to the listener above
+  useEffect(() => {
+    if (!adapter) return;
+    return adapter.onKeyDown((event) => {
+      if (nodeRef.current?.contains(event.target as Node)) return false;
+      const state = appStore.getState();
+      const mod = event.metaKey || event.ctrlKey;
+      const hasEdits = selectPendingEditsFor(fileName)(state).length > 0;
+
+      if (mod && event.key.toLowerCase() === 'k') {
+        state.openInlineEdit({ path: fileName, selection: adapter.getSelection() });
+        return true;
+      }
+      if (mod && event.key === 'Enter' && hasEdits) {
+        state.acceptAllPendingEdits(fileName);
+        toast.success('已应用所有 AI 修改');
+        return true;
+      }
+      if (mod && event.key === 'Backspace' && hasEdits) {
+        state.clearPendingEdits(fileName);
+        toast('已拒绝所有 AI 修改');
+        return true;
+      }
+      if (event.key === 'Escape' && selectInlineEditFor(fileName)(state)) {
+        abortControllerRef.current?.abort();
+        state.closeInlineEdit();
+        return true;
+      }
+      return false;
+    });
+  }, [adapter, fileName]);
+
+  // Show the prompt below the last selected line
+  useEffect(() => {
+    if (!adapter) return;
+    adapter.setInlineWidgets(WIDGET_OWNER, target
+      ? [{ id: WIDGET_OWNER, afterLine: target.selection.endLine, heightInPx: WIDGET_HEIGHT, node: widgetNode() }]
+      : []);
+    if (target) requestAnimationFrame(() => inputRef.current?.focus());
+  }, [adapter, target]);
+
+  // Nothing keeps streaming into a file whose editor is gone
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  return (
+    <>
+      {adapter && target && createPortal(
+        <div className="inline-edit-widget">
+          {loading
+            ? <Loader2 className="w-3.5 h-3.5 text-blue-400 animate-spin shrink-0" />
+            : <Sparkles className="w-3.5 h-3.5 text-blue-400 shrink-0" />}
+          <input
+            ref={inputRef}
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+            readOnly={loading}
+            placeholder={target.selection.text ? '描述如何修改选中的代码…' : '描述要在此处生成的代码…'}
+            className="inline-edit-input"
+          />
+          <span className="inline-edit-hint">
+            {loading ? '生成中… Esc 取消' : 'Enter 提交 · Esc 关闭'}
+          </span>
+        </div>,
+        widgetNode()
+      )}
+
+      <style jsx global>{`
+        .inline-edit-widget-host {
+          z-index: 6;
+        }
+        .inline-edit-widget {
+          height: 100%;
+          display: flex;
+          align-items: center;
+          gap: 8px;
+          margin: 4px 0;
+          padding: 0 8px;
+          border: 1px solid rgba(96, 165, 250, 0.5);
+          border-radius: 6px;
+          background: #1f2937;
+          font-family: system-ui, sans-serif;
+          font-size: 12px;
+          pointer-events: auto;
+          box-sizing: border-box;
+          max-height: ${WIDGET_HEIGHT - 8}px;
+        }
+        .inline-edit-input {
+          flex: 1;
+          min-width: 0;
+          background: transparent;
+          color: #e5e7eb;
+          outline: none;
+        }
+        .inline-edit-hint {
+          color: #6b7280;
+          white-space: nowrap;
+        }
+      `}</style>
+    </>
+  );
+}
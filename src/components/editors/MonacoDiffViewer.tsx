@@ -1,9 +1,10 @@
 "use client";
 
-import { useRef } from "react";
+import { useMemo, useRef } from "react";
 import { DiffEditor } from "@monaco-editor/react";
-import { Check, X, ChevronDown } from "lucide-react";
+import { Check, X, ChevronDown, Undo2 } from "lucide-react";
 import { PendingEdit } from "@/types/editor.types";
+import { DiffHunk, DiffHunks } from "@/lib/diffHunks";
 import type { editor } from "monaco-editor";
 
 interface MonacoDiffViewerProps {
@@ -15,6 +16,8 @@ interface MonacoDiffViewerProps {
   onRejectEdit?: (editId: string) => void;
   onAcceptAllEdits?: () => void;
   onRejectAllEdits?: () => void;
+  onAcceptHunk?: (hunk: DiffHunk) => void;  // Fold the hunk into the baseline
+  onRevertHunk?: (hunk: DiffHunk) => void;  // Put the original lines back into the buffer
 }
 
 export default function MonacoDiffViewer({
@@ -26,9 +29,16 @@ export default function MonacoDiffViewer({
   onRejectEdit,
   onAcceptAllEdits,
   onRejectAllEdits,
+  onAcceptHunk,
+  onRevertHunk,
 }: MonacoDiffViewerProps) {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const diffEditorRef = useRef<any>(null);
+  const hasHunkActions = Boolean(onAcceptHunk || onRevertHunk);
+  const hunks = useMemo(
+    () => (hasHunkActions ? DiffHunks.hunks(original, modified) : []),
+    [original, modified, hasHunkActions]
+  );
 
   // Detect language from file extension
   const getLanguage = (fileName: string) => {
@@ -90,21 +100,21 @@ export default function MonacoDiffViewer({
     });
   };
 
-  // Navigate to specific change
-  const navigateToEdit = (edit: PendingEdit) => {
+  // Navigate to a line of the modified side
+  const navigateToLine = (lineNumber: number, column = 1) => {
     if (!diffEditorRef.current) return;
 
     const modifiedEditor = diffEditorRef.current.getModifiedEditor();
     if (modifiedEditor) {
-      modifiedEditor.revealLineInCenter(edit.startLine);
-      modifiedEditor.setPosition({
-        lineNumber: edit.startLine,
-        column: edit.startColumn || 1,
-      });
+      modifiedEditor.revealLineInCenter(lineNumber);
+      modifiedEditor.setPosition({ lineNumber, column });
       modifiedEditor.focus();
     }
   };
 
+  // Navigate to specific change
+  const navigateToEdit = (edit: PendingEdit) => navigateToLine(edit.startLine, edit.startColumn || 1);
+
   return (
     <div className="relative h-full flex flex-col">
       {/* Control Bar */}
@@ -203,6 +213,60 @@ export default function MonacoDiffViewer({
         </div>
       )}
 
+      {/* Hunk Controls - 逐块接受或还原 */}
+      {hunks.length > 0 && (
+        <div className="bg-gray-900/50 border-b border-gray-700 px-4 py-2 max-h-32 overflow-y-auto">
+          <div className="space-y-1">
+            {hunks.map((hunk) => (
+              <div
+                key={hunk.index}
+                className="flex items-center justify-between p-1.5 hover:bg-gray-800/50 rounded group cursor-pointer"
+                onClick={() => navigateToLine(Math.max(hunk.newStart, 1))}
+              >
+                <div className="flex items-center gap-3 flex-1 min-w-0">
+                  <span className="text-xs text-gray-500 font-mono w-8">
+                    #{hunk.index + 1}
+                  </span>
+                  <span className="text-xs font-mono text-gray-400">
+                    -{hunk.oldLines.length} +{hunk.newLines.length}
+                  </span>
+                  <span className="text-xs font-mono text-gray-300 truncate flex-1">
+                    {(hunk.newLines[0] ?? hunk.oldLines[0] ?? '').trim() || `L${hunk.newStart}`}
+                  </span>
+                </div>
+
+                <div className="flex items-center gap-1">
+                  {onAcceptHunk && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onAcceptHunk(hunk);
+                      }}
+                      className="p-1.5 hover:bg-green-500/20 rounded transition-colors"
+                      title="接受此修改块"
+                    >
+                      <Check className="w-3.5 h-3.5 text-green-400" />
+                    </button>
+                  )}
+                  {onRevertHunk && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onRevertHunk(hunk);
+                      }}
+                      className="p-1.5 hover:bg-red-500/20 rounded transition-colors"
+                      title="将此修改块还原为原始内容"
+                    >
+                      <Undo2 className="w-3.5 h-3.5 text-red-400" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Diff Editor */}
       <div className="flex-1">
         <DiffEditor
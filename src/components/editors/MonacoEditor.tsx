@@ -2,9 +2,13 @@
 
 import { useRef, useEffect, useState } from "react";
 import Editor from "@monaco-editor/react";
-import { PendingEdit } from "@/types/editor.types";
-import { Check, X, CheckCheck, XCircle } from "lucide-react";
+import { EditorAdapter, EditorViewState } from "@/types/editor.types";
 import type { editor } from "monaco-editor";
+import { appStore } from "@/store/app-store";
+import PendingEditPreview from "./PendingEditPreview";
+import InlineEditPrompt from "./InlineEditPrompt";
+import { createMonacoAdapter } from "./adapters/monacoAdapter";
+import { registerMonacoInlineCompletions } from "./completions/monacoCompletions";
 
 interface MonacoEditorProps {
   value: string;
@@ -12,14 +16,10 @@ interface MonacoEditorProps {
   fileName: string;
   onExplainCode?: (code: string) => void;
   onOptimizeCode?: (code: string) => void;
-  onEditCode?: (code: string) => void;
-  pendingEdits?: PendingEdit[];
-  onAcceptEdit?: (editId: string) => void;
-  onRejectEdit?: (editId: string) => void;
-  onAcceptAllEdits?: () => void;
-  onRejectAllEdits?: () => void;
   onCursorChange?: (position: { line: number; column: number }) => void;
   onSelectionChange?: (text: string) => void;
+  viewState?: EditorViewState;
+  onViewStateChange?: (state: EditorViewState) => void;
 }
 
 export default function MonacoEditor({ 
@@ -28,69 +28,43 @@ export default function MonacoEditor({
   fileName, 
   onExplainCode, 
   onOptimizeCode, 
-  onEditCode,
-  pendingEdits = [],
-  onAcceptEdit,
-  onRejectEdit,
-  onAcceptAllEdits,
-  onRejectAllEdits,
   onCursorChange,
-  onSelectionChange
+  onSelectionChange,
+  viewState,
+  onViewStateChange
 }: MonacoEditorProps) {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const editorRef = useRef<any>(null);
-  const decorationsRef = useRef<string[]>([]);
-  const [isPreviewMode, setIsPreviewMode] = useState(false);
-
-  // Apply decorations for pending edits
-  useEffect(() => {
-    if (!editorRef.current || !pendingEdits || pendingEdits.length === 0) {
-      // Clear decorations if no pending edits
-      if (decorationsRef.current.length > 0) {
-        editorRef.current?.deltaDecorations(decorationsRef.current, []);
-        decorationsRef.current = [];
-      }
-      setIsPreviewMode(false);
-      return;
-    }
-
-    setIsPreviewMode(true);
-
+  const [adapter, setAdapter] = useState<EditorAdapter | null>(null);
+
+  // Each file gets its own model (via `path`), which keeps undo stacks and view state
+  // while the page is open; saved view states are only applied the first time a file is shown
+  const restoredPathsRef = useRef<Set<string>>(new Set());
+  const viewStateRef = useRef(viewState);
+  const onViewStateChangeRef = useRef(onViewStateChange);
+  const fileNameRef = useRef(fileName);
+  viewStateRef.current = viewState;
+  onViewStateChangeRef.current = onViewStateChange;
+  fileNameRef.current = fileName;
+
+  // The completion provider is registered with Monaco globally, so it goes with the editor
+  const completionsRef = useRef<{ dispose: () => void } | null>(null);
+  useEffect(() => () => completionsRef.current?.dispose(), []);
+
+  const restoreViewState = (path: string) => {
     const editor = editorRef.current;
-    const monaco = (window as any).monaco;
-
-    if (!monaco) return;
+    const saved = viewStateRef.current;
+    if (!editor || restoredPathsRef.current.has(path)) return;
+    restoredPathsRef.current.add(path);
+    if (!saved) return;
 
-    // Create decorations for each pending edit
-    const newDecorations = pendingEdits.map(edit => ({
-      range: new monaco.Range(
-        edit.startLine,
-        edit.startColumn || 1,
-        edit.endLine,
-        edit.endColumn || 999
-      ),
-      options: {
-        isWholeLine: false,
-        className: 'pending-edit-decoration',
-        glyphMarginClassName: 'pending-edit-glyph',
-        glyphMarginHoverMessage: { value: '🤖 AI 建议修改' },
-        hoverMessage: {
-          value: `**AI 修改建议**\n\n${edit.description || '点击接受或拒绝此修改'}`
-        },
-        inlineClassName: 'pending-edit-inline',
-        minimap: {
-          color: '#4ade80',
-          position: monaco.editor.MinimapPosition.Inline
-        }
-      }
-    }));
+    editor.setPosition({ lineNumber: saved.line, column: saved.column });
+    editor.setScrollTop(saved.scrollTop);
+  };
 
-    // Apply decorations
-    decorationsRef.current = editor.deltaDecorations(
-      decorationsRef.current,
-      newDecorations
-    );
-  }, [pendingEdits]);
+  useEffect(() => {
+    restoreViewState(fileName);
+  }, [fileName]);
 
   // Detect language from file extension
   const getLanguage = (fileName: string) => {
@@ -122,6 +96,22 @@ export default function MonacoEditor({
 
   const handleEditorDidMount = (editor: editor.IStandaloneCodeEditor, monaco: typeof import('monaco-editor')) => {
     editorRef.current = editor;
+    const editorAdapter = createMonacoAdapter(editor, monaco);
+    setAdapter(editorAdapter);
+    completionsRef.current = registerMonacoInlineCompletions(monaco, editor, () => fileNameRef.current);
+    restoreViewState(fileName);
+
+    const reportViewState = () => {
+      const position = editor.getPosition();
+      if (!position) return;
+      onViewStateChangeRef.current?.({
+        line: position.lineNumber,
+        column: position.column,
+        scrollTop: editor.getScrollTop(),
+      });
+    };
+    editor.onDidChangeCursorPosition(reportViewState);
+    editor.onDidScrollChange(reportViewState);
 
     // Add AI context menu actions
     if (onExplainCode) {
@@ -164,25 +154,16 @@ export default function MonacoEditor({
       });
     }
 
-    if (onEditCode) {
-      editor.addAction({
-        id: 'ai-edit-code',
-        label: '✏️ AI 编辑代码',
-        contextMenuGroupId: 'ai',
-        contextMenuOrder: 3,
-        run: (ed: editor.IStandaloneCodeEditor) => {
-          const selection = ed.getSelection();
-          const model = ed.getModel();
-          const selectedText = model ? model.getValueInRange(selection!) : '';
-          if (selectedText) {
-            onEditCode(selectedText);
-          } else {
-            // If no selection, use entire file content
-            onEditCode(ed.getValue());
-          }
-        },
-      });
-    }
+    // Same as Mod+K: opens the inline edit prompt below the selection
+    editor.addAction({
+      id: 'ai-edit-code',
+      label: '✏️ AI 编辑代码 (⌘K)',
+      contextMenuGroupId: 'ai',
+      contextMenuOrder: 3,
+      run: () => {
+        appStore.getState().openInlineEdit({ path: fileNameRef.current, selection: editorAdapter.getSelection() });
+      },
+    });
 
     // Track cursor position changes
     if (onCursorChange) {
@@ -208,67 +189,14 @@ export default function MonacoEditor({
 
   return (
     <div className="relative h-full flex flex-col">
-      {/* Preview Mode Control Bar */}
-      {isPreviewMode && pendingEdits && pendingEdits.length > 0 && (
-        <div className="bg-gradient-to-r from-green-900/40 to-blue-900/40 border-b border-green-500/30 px-4 py-2.5 flex items-center justify-between">
-          <div className="flex items-center gap-3">
-            <div className="flex items-center gap-2">
-              <div className="w-2 h-2 bg-green-400 rounded-full animate-pulse" />
-              <span className="text-sm font-medium text-green-400">
-                预览模式
-              </span>
-            </div>
-            <span className="text-xs text-gray-400">
-              {pendingEdits.length} 个 AI 修改建议
-            </span>
-          </div>
-          
-          <div className="flex items-center gap-2">
-            {/* Individual edit controls - shown when hovering over decorations */}
-            {pendingEdits.map((edit) => (
-              <div key={edit.id} className="flex items-center gap-1">
-                <button
-                  onClick={() => onAcceptEdit?.(edit.id)}
-                  className="p-1.5 hover:bg-green-500/20 rounded transition-colors group"
-                  title="接受此修改"
-                >
-                  <Check className="w-4 h-4 text-green-400 group-hover:text-green-300" />
-                </button>
-                <button
-                  onClick={() => onRejectEdit?.(edit.id)}
-                  className="p-1.5 hover:bg-red-500/20 rounded transition-colors group"
-                  title="拒绝此修改"
-                >
-                  <X className="w-4 h-4 text-red-400 group-hover:text-red-300" />
-                </button>
-              </div>
-            ))}
-            
-            {/* Batch controls */}
-            <div className="ml-2 pl-2 border-l border-gray-600 flex items-center gap-2">
-              <button
-                onClick={onAcceptAllEdits}
-                className="px-3 py-1.5 bg-green-500/20 hover:bg-green-500/30 text-green-400 rounded text-xs font-medium transition-colors flex items-center gap-1.5"
-              >
-                <CheckCheck className="w-3.5 h-3.5" />
-                全部接受
-              </button>
-              <button
-                onClick={onRejectAllEdits}
-                className="px-3 py-1.5 bg-red-500/20 hover:bg-red-500/30 text-red-400 rounded text-xs font-medium transition-colors flex items-center gap-1.5"
-              >
-                <XCircle className="w-3.5 h-3.5" />
-                全部拒绝
-              </button>
-            </div>
-          </div>
-        </div>
-      )}
+      <PendingEditPreview adapter={adapter} fileName={fileName} />
+      <InlineEditPrompt adapter={adapter} fileName={fileName} />
 
       {/* Monaco Editor */}
       <div className="flex-1">
         <Editor
           height="100%"
+          path={fileName}
           language={getLanguage(fileName)}
           theme="vs-dark"
           value={value}
@@ -282,26 +210,9 @@ export default function MonacoEditor({
             automaticLayout: true,
             tabSize: 2,
             insertSpaces: true,
-            readOnly: isPreviewMode, // Make read-only in preview mode
           }}
         />
       </div>
-
-      {/* Custom CSS for decorations */}
-      <style jsx global>{`
-        .pending-edit-decoration {
-          background-color: rgba(74, 222, 128, 0.15);
-          border: 1px solid rgba(74, 222, 128, 0.3);
-        }
-        .pending-edit-inline {
-          background-color: rgba(74, 222, 128, 0.1);
-        }
-        .pending-edit-glyph {
-          background-color: rgba(74, 222, 128, 0.8);
-          width: 4px !important;
-          margin-left: 3px;
-        }
-      `}</style>
     </div>
   );
 }
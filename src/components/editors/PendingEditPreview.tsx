@@ -0,0 +1,224 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { createPortal } from "react-dom";
+import toast from "react-hot-toast";
+import { Check, X, CheckCheck, XCircle } from "lucide-react";
+import { EditorAdapter, PendingEdit } from "@/types/editor.types";
+import { appStore, useAppStore } from "@/store/app-store";
+import { selectPendingEditsFor } from "@/store/selectors";
+
+interface PendingEditPreviewProps {
+  adapter: EditorAdapter | null;
+  fileName: string;
+}
+
+// Widget layout, kept in sync with the CSS below so editors can reserve the space up front
+const WIDGET_LINE_HEIGHT = 19;
+const WIDGET_CHROME_HEIGHT = 34;
+
+function widgetHeight(edit: PendingEdit): number {
+  return edit.newText.split('\n').length * WIDGET_LINE_HEIGHT + WIDGET_CHROME_HEIGHT;
+}
+
+/**
+ * Cursor-style preview of the AI edits waiting for review: highlights the affected lines,
+ * shows each proposed replacement below them and keeps the editor read-only until all
+ * are accepted or rejected. Works on any editor through its adapter
+ */
+export default function PendingEditPreview({ adapter, fileName }: PendingEditPreviewProps) {
+  const pendingEdits = useAppStore(selectPendingEditsFor(fileName));
+  const { acceptPendingEdit, acceptAllPendingEdits, removePendingEdit, clearPendingEdits } = appStore.getState();
+  // One DOM node per edit, reused across renders so the editors keep their widgets in place
+  const nodesRef = useRef<Map<string, HTMLElement>>(new Map());
+
+  const widgetNode = (editId: string) => {
+    let node = nodesRef.current.get(editId);
+    if (!node) {
+      node = document.createElement('div');
+      node.className = 'pending-edit-widget-host';
+      nodesRef.current.set(editId, node);
+    }
+    return node;
+  };
+
+  useEffect(() => {
+    if (!adapter) return;
+    const ids = new Set(pendingEdits.map((edit) => edit.id));
+    nodesRef.current.forEach((_, id) => {
+      if (!ids.has(id)) nodesRef.current.delete(id);
+    });
+
+    adapter.setReadOnly(pendingEdits.length > 0);
+    adapter.setDecorations(pendingEdits.map((edit) => ({
+      startLine: edit.startLine,
+      endLine: edit.endLine,
+      startColumn: edit.startColumn,
+      endColumn: edit.endColumn,
+      className: 'pending-edit-decoration',
+      hoverMessage: `AI 修改建议：${edit.description || '接受或拒绝此修改'}`,
+    })));
+    adapter.setInlineWidgets('pending-edits', pendingEdits.map((edit) => ({
+      id: edit.id,
+      afterLine: edit.endLine,
+      heightInPx: widgetHeight(edit),
+      node: widgetNode(edit.id),
+    })));
+  }, [adapter, pendingEdits]);
+
+  // Leave a clean, editable editor behind (another file or editor takes over)
+  useEffect(() => {
+    if (!adapter) return;
+    return () => adapter.dispose();
+  }, [adapter]);
+
+  const handleAcceptAllEdits = () => {
+    if (pendingEdits.length === 0) return;
+    acceptAllPendingEdits(fileName);
+    toast.success('已应用所有 AI 修改');
+  };
+
+  const handleRejectAllEdits = () => {
+    clearPendingEdits(fileName);
+    toast('已拒绝所有 AI 修改');
+  };
+
+  return (
+    <>
+      {pendingEdits.length > 0 && (
+        <div className="bg-gradient-to-r from-green-900/40 to-blue-900/40 border-b border-green-500/30 px-4 py-2.5 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="flex items-center gap-2">
+              <div className="w-2 h-2 bg-green-400 rounded-full animate-pulse" />
+              <span className="text-sm font-medium text-green-400">
+                预览模式
+              </span>
+            </div>
+            <span className="text-xs text-gray-400">
+              {pendingEdits.length} 个 AI 修改建议
+            </span>
+          </div>
+
+          <div className="flex items-center gap-2">
+            {/* Jump to an edit; accept and reject also sit next to each proposal in the editor */}
+            {pendingEdits.map((edit) => (
+              <button
+                key={edit.id}
+                onClick={() => adapter?.revealLine(edit.startLine)}
+                className="px-2 py-1 text-xs text-gray-300 hover:bg-gray-700/60 rounded transition-colors"
+                title={edit.description || '跳转到此修改'}
+              >
+                L{edit.startLine}
+              </button>
+            ))}
+
+            {/* Batch controls */}
+            <div className="ml-2 pl-2 border-l border-gray-600 flex items-center gap-2">
+              <button
+                onClick={handleAcceptAllEdits}
+                title="全部接受 (⌘Enter)"
+                className="px-3 py-1.5 bg-green-500/20 hover:bg-green-500/30 text-green-400 rounded text-xs font-medium transition-colors flex items-center gap-1.5"
+              >
+                <CheckCheck className="w-3.5 h-3.5" />
+                全部接受
+              </button>
+              <button
+                onClick={handleRejectAllEdits}
+                title="全部拒绝 (⌘Backspace)"
+                className="px-3 py-1.5 bg-red-500/20 hover:bg-red-500/30 text-red-400 rounded text-xs font-medium transition-colors flex items-center gap-1.5"
+              >
+                <XCircle className="w-3.5 h-3.5" />
+                全部拒绝
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Proposed replacement below each edit, rendered into the editor's widget nodes */}
+      {adapter && pendingEdits.map((edit) =>
+        createPortal(
+          <div className="pending-edit-widget">
+            <pre className="pending-edit-widget-code">{edit.newText}</pre>
+            <div className="pending-edit-widget-actions">
+              <span className="truncate">{edit.description || `AI 修改（第 ${edit.startLine}-${edit.endLine} 行）`}</span>
+              <button onClick={() => acceptPendingEdit(fileName, edit.id)} className="pending-edit-accept" title="接受此修改">
+                <Check className="w-3.5 h-3.5" />
+                接受
+              </button>
+              <button onClick={() => removePendingEdit(fileName, edit.id)} className="pending-edit-reject" title="拒绝此修改">
+                <X className="w-3.5 h-3.5" />
+                拒绝
+              </button>
+            </div>
+          </div>,
+          widgetNode(edit.id),
+          edit.id
+        )
+      )}
+
+      <style jsx global>{`
+        .pending-edit-decoration {
+          background-color: rgba(248, 113, 113, 0.15);
+          text-decoration: line-through rgba(248, 113, 113, 0.6);
+        }
+        .pending-edit-decoration-glyph {
+          background-color: rgba(74, 222, 128, 0.8);
+          width: 4px !important;
+          margin-left: 3px;
+        }
+        .pending-edit-widget-host {
+          z-index: 5;
+        }
+        .pending-edit-widget {
+          height: 100%;
+          display: flex;
+          flex-direction: column;
+          border-left: 3px solid rgba(74, 222, 128, 0.8);
+          background: rgba(74, 222, 128, 0.1);
+          font-family: Menlo, Monaco, 'Courier New', monospace;
+          font-size: 13px;
+        }
+        .pending-edit-widget-code {
+          margin: 0;
+          padding: 0 8px;
+          line-height: ${WIDGET_LINE_HEIGHT}px;
+          color: #bbf7d0;
+          white-space: pre;
+          overflow: hidden;
+        }
+        .pending-edit-widget-actions {
+          display: flex;
+          align-items: center;
+          gap: 6px;
+          height: ${WIDGET_CHROME_HEIGHT}px;
+          padding: 0 8px;
+          font-family: system-ui, sans-serif;
+          font-size: 12px;
+          color: #9ca3af;
+        }
+        .pending-edit-widget-actions span {
+          flex: 1;
+          min-width: 0;
+        }
+        .pending-edit-accept,
+        .pending-edit-reject {
+          display: flex;
+          align-items: center;
+          gap: 4px;
+          padding: 2px 8px;
+          border-radius: 4px;
+          pointer-events: auto;
+        }
+        .pending-edit-accept {
+          color: #4ade80;
+          background: rgba(74, 222, 128, 0.2);
+        }
+        .pending-edit-reject {
+          color: #f87171;
+          background: rgba(248, 113, 113, 0.2);
+        }
+      `}</style>
+    </>
+  );
+}
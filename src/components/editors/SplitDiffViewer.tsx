@@ -1,25 +1,43 @@
 "use client";
 
-import { useMemo } from "react";
-import { diffLines, Change } from "diff";
+import { useMemo, useState } from "react";
+import { Check, Undo2, ChevronsUpDown } from "lucide-react";
+import { DiffHunk, DiffHunks, InlinePart } from "@/lib/diffHunks";
+import DiffToolbar from "./DiffToolbar";
 
 interface SplitDiffViewerProps {
   original: string;
   modified: string;
   fileName: string;
+  onAcceptHunk?: (hunk: DiffHunk) => void;  // Fold the hunk into the baseline
+  onRevertHunk?: (hunk: DiffHunk) => void;  // Put the original lines back into the buffer
 }
 
 interface DiffLine {
-  type: 'add' | 'delete' | 'normal';
+  type: 'add' | 'delete' | 'normal' | 'hunk' | 'collapsed';
   oldLineNumber?: number;
   newLineNumber?: number;
   content: string;
+  parts?: InlinePart[];   // Intraline highlighting for a paired removed/added line
+  hunk?: DiffHunk;        // Set on the action row above each changed hunk
+  hiddenKey?: string;     // Set on the placeholder row of a collapsed unchanged region
+  hiddenCount?: number;
 }
 
+// Unchanged lines kept visible around each hunk when regions are collapsed
+const CONTEXT_LINES = 3;
+
 export default function SplitDiffViewer({
   original,
   modified,
+  onAcceptHunk,
+  onRevertHunk,
 }: SplitDiffViewerProps) {
+  const hasHunkActions = Boolean(onAcceptHunk || onRevertHunk);
+  const [ignoreWhitespace, setIgnoreWhitespace] = useState(false);
+  const [collapseUnchanged, setCollapseUnchanged] = useState(false);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
   const { leftLines, rightLines, isEmpty, isGitEmpty } = useMemo(() => {
     try {
       // 检查原始内容是否为空（可能是 Git 未提交或加载失败）
@@ -27,68 +45,60 @@ export default function SplitDiffViewer({
         return { leftLines: [], rightLines: [], isEmpty: false, isGitEmpty: true };
       }
       
-      const changes = diffLines(original, modified);
+      const segments = DiffHunks.segments(original, modified, { ignoreWhitespace });
       
       // 检查是否有变更
-      const hasChanges = changes.some(change => change.added || change.removed);
+      const hasChanges = segments.some(segment => segment.type === 'hunk');
       if (!hasChanges) {
         return { leftLines: [], rightLines: [], isEmpty: true, isGitEmpty: false };
       }
 
       const left: DiffLine[] = [];
       const right: DiffLine[] = [];
-      let oldLineNum = 1;
-      let newLineNum = 1;
 
-      changes.forEach((change: Change) => {
-        const lines = change.value.split('\n');
-        // 移除最后一个空行（split 产生的）
-        if (lines[lines.length - 1] === '') {
-          lines.pop();
+      segments.forEach((segment, segmentIndex) => {
+        if (segment.type === 'unchanged') {
+          // 未修改的行：两侧都显示；折叠时只保留修改块附近的几行
+          const key = `${segment.oldStart}:${segment.newStart}`;
+          const range = collapseUnchanged && !expanded.has(key)
+            ? DiffHunks.collapsedRange(segment.oldLines.length, segmentIndex > 0, segmentIndex < segments.length - 1, CONTEXT_LINES)
+            : null;
+          segment.oldLines.forEach((line, i) => {
+            if (range && i === range.head) {
+              const hiddenCount = segment.oldLines.length - range.head - range.tail;
+              left.push({ type: 'collapsed', content: '', hiddenKey: key, hiddenCount });
+              right.push({ type: 'collapsed', content: '', hiddenKey: key, hiddenCount });
+            }
+            if (range && i >= range.head && i < segment.oldLines.length - range.tail) return;
+            left.push({ type: 'normal', oldLineNumber: segment.oldStart + i, content: line });
+            right.push({ type: 'normal', newLineNumber: segment.newStart + i, content: segment.newLines[i] });
+          });
+          return;
         }
 
-        if (change.removed) {
-          // 删除的行：只在左侧显示（红色）
-          lines.forEach(line => {
-            left.push({
-              type: 'delete',
-              oldLineNumber: oldLineNum++,
-              content: line,
-            });
-            // 右侧占位（空行）
-            right.push({
-              type: 'delete',
-              content: '',
-            });
-          });
-        } else if (change.added) {
-          // 添加的行：只在右侧显示（绿色）
-          lines.forEach(line => {
-            // 左侧占位（空行）
-            left.push({
-              type: 'add',
-              content: '',
-            });
-            right.push({
-              type: 'add',
-              newLineNumber: newLineNum++,
-              content: line,
-            });
-          });
-        } else {
-          // 未修改的行：两侧都显示
-          lines.forEach(line => {
-            left.push({
-              type: 'normal',
-              oldLineNumber: oldLineNum++,
-              content: line,
-            });
-            right.push({
-              type: 'normal',
-              newLineNumber: newLineNum++,
-              content: line,
-            });
-          });
+        const { hunk } = segment;
+        if (hasHunkActions) {
+          // 操作行：两侧等高，保持左右对齐
+          left.push({ type: 'hunk', content: '', hunk });
+          right.push({ type: 'hunk', content: '', hunk });
+        }
+
+        // 成对的删除/添加行并排显示，并高亮行内修改的词或字符
+        const rows = Math.max(hunk.oldLines.length, hunk.newLines.length);
+        for (let i = 0; i < rows; i++) {
+          const oldLine = hunk.oldLines[i];
+          const newLine = hunk.newLines[i];
+          const inline = oldLine !== undefined && newLine !== undefined
+            ? DiffHunks.intraline(oldLine, newLine, { ignoreWhitespace })
+            : null;
+
+          // 删除的行在左侧（红色），添加的行在右侧（绿色），缺少的一侧用空行占位
+          left.push(oldLine !== undefined
+            ? { type: 'delete', oldLineNumber: hunk.oldStart + i, content: oldLine, parts: inline?.old }
+            : { type: 'add', content: '' });
+          right.push(newLine !== undefined
+            ? { type: 'add', newLineNumber: hunk.newStart + i, content: newLine, parts: inline?.new }
+            : { type: 'delete', content: '' });
         }
       });
 
@@ -97,7 +107,81 @@ export default function SplitDiffViewer({
       console.error("Failed to generate diff:", error);
       return { leftLines: [], rightLines: [], isEmpty: false, isGitEmpty: false };
     }
-  }, [original, modified]);
+  }, [original, modified, hasHunkActions, ignoreWhitespace, collapseUnchanged, expanded]);
+
+  const toggleCollapse = (value: boolean) => {
+    setCollapseUnchanged(value);
+    setExpanded(new Set());
+  };
+
+  const expandRegion = (key: string) => {
+    setExpanded(prev => new Set(prev).add(key));
+  };
+
+  const toolbar = (
+    <DiffToolbar
+      ignoreWhitespace={ignoreWhitespace}
+      onIgnoreWhitespaceChange={setIgnoreWhitespace}
+      collapseUnchanged={collapseUnchanged}
+      onCollapseUnchangedChange={toggleCollapse}
+    />
+  );
+
+  // 折叠的未修改区域：点击展开
+  const renderCollapsedRow = (line: DiffLine, side: 'left' | 'right', index: number) => (
+    <div
+      key={`${side}-${index}`}
+      className="split-diff-line split-diff-line-collapsed"
+      onClick={() => expandRegion(line.hiddenKey!)}
+      title="展开未修改的行"
+    >
+      <div className="split-diff-gutter">
+        <ChevronsUpDown className="w-3 h-3 inline" />
+      </div>
+      <div className="split-diff-content">展开 {line.hiddenCount} 行</div>
+    </div>
+  );
+
+  // 行内容：有行内 diff 时逐段高亮
+  const renderContent = (line: DiffLine, changedClass: string) => {
+    if (!line.parts) return line.content || ' ';
+    return line.parts.map((part, i) => (
+      <span key={i} className={part.changed ? changedClass : undefined}>{part.value}</span>
+    ));
+  };
+
+  // 每个修改块上方的操作按钮（只在右侧显示按钮）
+  const renderHunkRow = (line: DiffLine, side: 'left' | 'right', index: number) => (
+    <div key={`${side}-${index}`} className="split-diff-line split-diff-line-hunk">
+      <div className="split-diff-gutter" />
+      <div className="split-diff-hunk-actions">
+        {side === 'right' && line.hunk && (
+          <>
+            {onAcceptHunk && (
+              <button
+                onClick={() => onAcceptHunk(line.hunk!)}
+                className="split-diff-hunk-button text-green-400 hover:bg-green-500/20"
+                title="接受此修改块"
+              >
+                <Check className="w-3 h-3" />
+                接受
+              </button>
+            )}
+            {onRevertHunk && (
+              <button
+                onClick={() => onRevertHunk(line.hunk!)}
+                className="split-diff-hunk-button text-red-400 hover:bg-red-500/20"
+                title="将此修改块还原为原始内容"
+              >
+                <Undo2 className="w-3 h-3" />
+                还原
+              </button>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
 
   // 处理 Git 内容为空的情况
   if (isGitEmpty) {
@@ -118,13 +202,16 @@ export default function SplitDiffViewer({
     );
   }
 
-  // 处理空 diff（无变更）
+  // 处理空 diff（无变更）；忽略空白时仍显示工具栏，以便关闭该选项
   if (isEmpty) {
     return (
-      <div className="flex flex-col items-center justify-center h-full text-gray-400 gap-2">
-        <div className="text-6xl">✓</div>
-        <div className="text-lg">文件无修改</div>
-        <div className="text-sm">当前内容与原始版本相同</div>
+      <div className="flex flex-col h-full">
+        {ignoreWhitespace && toolbar}
+        <div className="flex flex-col items-center justify-center flex-1 text-gray-400 gap-2">
+          <div className="text-6xl">✓</div>
+          <div className="text-lg">文件无修改</div>
+          <div className="text-sm">{ignoreWhitespace ? '忽略空白后内容相同' : '当前内容与原始版本相同'}</div>
+        </div>
       </div>
     );
   }
@@ -200,6 +287,48 @@ export default function SplitDiffViewer({
           opacity: 0.5;
         }
         
+        .split-diff-inline-delete {
+          background: rgba(244, 135, 113, 0.35);
+          border-radius: 2px;
+        }
+        
+        .split-diff-inline-add {
+          background: rgba(78, 201, 176, 0.35);
+          border-radius: 2px;
+        }
+        
+        .split-diff-line-collapsed {
+          background: #252a33;
+          color: #8b9bb4;
+          cursor: pointer;
+        }
+        
+        .split-diff-line-collapsed:hover {
+          background: #2d3542;
+        }
+        
+        .split-diff-line-hunk {
+          background: #1f2a3a;
+        }
+        
+        .split-diff-hunk-actions {
+          display: flex;
+          align-items: center;
+          gap: 4px;
+          padding: 0 8px;
+          flex: 1;
+          font-family: system-ui, sans-serif;
+          font-size: 11px;
+        }
+        
+        .split-diff-hunk-button {
+          display: flex;
+          align-items: center;
+          gap: 3px;
+          padding: 0 6px;
+          border-radius: 3px;
+        }
+        
         .split-diff-divider {
           width: 1px;
           background: #3e3e3e;
@@ -207,10 +336,14 @@ export default function SplitDiffViewer({
         }
       `}</style>
       
+      {toolbar}
+      
       <div className="split-diff-wrapper">
         {/* 左侧：原始版本 */}
         <div className="split-diff-side">
           {leftLines.map((line, index) => {
+            if (line.type === 'hunk') return renderHunkRow(line, 'left', index);
+            if (line.type === 'collapsed') return renderCollapsedRow(line, 'left', index);
             const lineClass = line.content === '' 
               ? 'split-diff-line-empty'
               : line.type === 'delete'
@@ -225,7 +358,7 @@ export default function SplitDiffViewer({
                   {line.oldLineNumber || ''}
                 </div>
                 <div className="split-diff-content">
-                  {line.content || ' '}
+                  {renderContent(line, 'split-diff-inline-delete')}
                 </div>
               </div>
             );
@@ -238,6 +371,8 @@ export default function SplitDiffViewer({
         {/* 右侧：修改后版本 */}
         <div className="split-diff-side">
           {rightLines.map((line, index) => {
+            if (line.type === 'hunk') return renderHunkRow(line, 'right', index);
+            if (line.type === 'collapsed') return renderCollapsedRow(line, 'right', index);
             const lineClass = line.content === ''
               ? 'split-diff-line-empty'
               : line.type === 'add'
@@ -252,7 +387,7 @@ export default function SplitDiffViewer({
                   {line.newLineNumber || ''}
                 </div>
                 <div className="split-diff-content">
-                  {line.content || ' '}
+                  {renderContent(line, 'split-diff-inline-add')}
                 </div>
               </div>
             );
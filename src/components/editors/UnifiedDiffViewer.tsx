@@ -1,104 +1,126 @@
 "use client";
 
-import { useMemo } from "react";
-import { structuredPatch } from "diff";
+import { useMemo, useState } from "react";
+import { Check, Undo2, ChevronsUpDown } from "lucide-react";
+import { DiffHunk, DiffHunks, InlinePart } from "@/lib/diffHunks";
+import DiffToolbar from "./DiffToolbar";
 import "react-diff-view/style/index.css";
 
 interface UnifiedDiffViewerProps {
   original: string;
   modified: string;
   fileName: string;
+  onAcceptHunk?: (hunk: DiffHunk) => void;  // Fold the hunk into the baseline
+  onRevertHunk?: (hunk: DiffHunk) => void;  // Put the original lines back into the buffer
 }
 
 interface DiffLine {
-  type: 'add' | 'delete' | 'normal';
+  type: 'add' | 'delete' | 'normal' | 'header' | 'collapsed';
   oldLineNumber?: number;
   newLineNumber?: number;
   content: string;
+  parts?: InlinePart[];   // Intraline highlighting for a paired removed/added line
+  hunk?: DiffHunk;        // Set on the header row of each changed hunk
+  hiddenKey?: string;     // Set on the placeholder row of a collapsed unchanged region
 }
 
+// Unchanged lines kept visible around each hunk when regions are collapsed (jsdiff's default patch context)
+const CONTEXT_LINES = 4;
+
 export default function UnifiedDiffViewer({
   original,
   modified,
-  fileName,
+  onAcceptHunk,
+  onRevertHunk,
 }: UnifiedDiffViewerProps) {
+  const [ignoreWhitespace, setIgnoreWhitespace] = useState(false);
+  const [collapseUnchanged, setCollapseUnchanged] = useState(true);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
   const diffData = useMemo(() => {
     try {
-      // 使用 structuredPatch 获取结构化的 diff 数据
-      const patch = structuredPatch(
-        fileName,
-        fileName,
-        original,
-        modified,
-        "Original",
-        "Modified"
-      );
-
-      console.log("[DEBUG] Structured patch:", patch);
+      const segments = DiffHunks.segments(original, modified, { ignoreWhitespace });
 
       // 检查是否有变更
-      if (!patch.hunks || patch.hunks.length === 0) {
-        console.log("[DEBUG] No changes detected");
+      if (!segments.some(segment => segment.type === 'hunk')) {
         return { lines: [], isEmpty: true, error: null };
       }
 
-      // 将 hunks 转换为行数据
+      // 将 hunks 转换为行数据；未修改的区域只保留前后几行上下文
       const lines: DiffLine[] = [];
-      let oldLineNum = 1;
-      let newLineNum = 1;
-
-      patch.hunks.forEach((hunk) => {
-        // 添加 hunk 头部信息
-        lines.push({
-          type: 'normal',
-          content: `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`,
-        });
-
-        oldLineNum = hunk.oldStart;
-        newLineNum = hunk.newStart;
-
-        hunk.lines.forEach((line) => {
-          const firstChar = line[0];
-          const content = line.substring(1);
 
-          if (firstChar === '-') {
-            lines.push({
-              type: 'delete',
-              oldLineNumber: oldLineNum++,
-              content,
-            });
-          } else if (firstChar === '+') {
-            lines.push({
-              type: 'add',
-              newLineNumber: newLineNum++,
-              content,
-            });
-          } else {
+      segments.forEach((segment, segmentIndex) => {
+        if (segment.type === 'unchanged') {
+          const key = `${segment.oldStart}:${segment.newStart}`;
+          const range = collapseUnchanged && !expanded.has(key)
+            ? DiffHunks.collapsedRange(segment.newLines.length, segmentIndex > 0, segmentIndex < segments.length - 1, CONTEXT_LINES)
+            : null;
+          segment.newLines.forEach((content, i) => {
+            if (range && i === range.head) {
+              const hidden = segment.newLines.length - range.head - range.tail;
+              lines.push({ type: 'collapsed', content: `⋯ 展开 ${hidden} 行未修改`, hiddenKey: key });
+            }
+            if (range && i >= range.head && i < segment.newLines.length - range.tail) return;
             lines.push({
               type: 'normal',
-              oldLineNumber: oldLineNum++,
-              newLineNumber: newLineNum++,
+              oldLineNumber: segment.oldStart + i,
+              newLineNumber: segment.newStart + i,
               content,
             });
-          }
+          });
+          return;
+        }
+
+        const { hunk } = segment;
+        // 添加 hunk 头部信息
+        lines.push({
+          type: 'header',
+          content: `@@ -${hunk.oldStart},${hunk.oldLines.length} +${hunk.newStart},${hunk.newLines.length} @@`,
+          hunk,
+        });
+        // 成对的删除/添加行高亮行内修改的词或字符
+        const inline = hunk.oldLines.map((oldLine, i) =>
+          i < hunk.newLines.length ? DiffHunks.intraline(oldLine, hunk.newLines[i], { ignoreWhitespace }) : null
+        );
+        hunk.oldLines.forEach((content, i) => {
+          lines.push({ type: 'delete', oldLineNumber: hunk.oldStart + i, content, parts: inline[i]?.old });
+        });
+        hunk.newLines.forEach((content, i) => {
+          lines.push({ type: 'add', newLineNumber: hunk.newStart + i, content, parts: inline[i]?.new });
         });
       });
 
-      console.log("[DEBUG] Processed lines:", lines.length);
       return { lines, isEmpty: false, error: null };
     } catch (error) {
       console.error("Failed to generate diff:", error);
       return { lines: [], isEmpty: false, error: String(error) };
     }
-  }, [original, modified, fileName]);
+  }, [original, modified, ignoreWhitespace, collapseUnchanged, expanded]);
+
+  const toggleCollapse = (value: boolean) => {
+    setCollapseUnchanged(value);
+    setExpanded(new Set());
+  };
 
-  // 处理空 diff（无变更）
+  const toolbar = (
+    <DiffToolbar
+      ignoreWhitespace={ignoreWhitespace}
+      onIgnoreWhitespaceChange={setIgnoreWhitespace}
+      collapseUnchanged={collapseUnchanged}
+      onCollapseUnchangedChange={toggleCollapse}
+    />
+  );
+
+  // 处理空 diff（无变更）；忽略空白时仍显示工具栏，以便关闭该选项
   if (diffData.isEmpty) {
     return (
-      <div className="flex flex-col items-center justify-center h-full text-gray-400 gap-2">
-        <div className="text-6xl">✓</div>
-        <div className="text-lg">文件无修改</div>
-        <div className="text-sm">当前内容与原始版本相同</div>
+      <div className="flex flex-col h-full">
+        {ignoreWhitespace && toolbar}
+        <div className="flex flex-col items-center justify-center flex-1 text-gray-400 gap-2">
+          <div className="text-6xl">✓</div>
+          <div className="text-lg">文件无修改</div>
+          <div className="text-sm">{ignoreWhitespace ? '忽略空白后内容相同' : '当前内容与原始版本相同'}</div>
+        </div>
       </div>
     );
   }
@@ -186,10 +208,52 @@ export default function UnifiedDiffViewer({
           color: #d4d4d4;
           font-weight: 500;
         }
+        
+        .diff-line-collapsed {
+          background: #252a33;
+          cursor: pointer;
+        }
+        
+        .diff-line-collapsed:hover {
+          background: #2d3542;
+        }
+        
+        .diff-line-collapsed .diff-code {
+          color: #8b9bb4;
+        }
+        
+        .diff-inline-delete {
+          background: rgba(244, 135, 113, 0.35);
+          border-radius: 2px;
+        }
+        
+        .diff-inline-add {
+          background: rgba(78, 201, 176, 0.35);
+          border-radius: 2px;
+        }
       `}</style>
       
+      {toolbar}
+      
       {diffData.lines.map((line, index) => {
-        const isHeader = line.content.startsWith('@@');
+        if (line.type === 'collapsed') {
+          return (
+            <div
+              key={index}
+              className="diff-line diff-line-collapsed"
+              onClick={() => setExpanded(prev => new Set(prev).add(line.hiddenKey!))}
+              title="展开未修改的行"
+            >
+              <div className="diff-gutter diff-gutter-old">
+                <ChevronsUpDown className="w-3 h-3 inline" />
+              </div>
+              <div className="diff-gutter diff-gutter-new" />
+              <div className="diff-code">{line.content}</div>
+            </div>
+          );
+        }
+
+        const isHeader = line.type === 'header';
         const lineClass = isHeader
           ? 'diff-line-header'
           : line.type === 'add'
@@ -210,7 +274,42 @@ export default function UnifiedDiffViewer({
                 </div>
               </>
             )}
-            <div className="diff-code">{line.content}</div>
+            <div className="diff-code">
+              {line.parts
+                ? line.parts.map((part, i) => (
+                    <span
+                      key={i}
+                      className={part.changed ? (line.type === 'add' ? 'diff-inline-add' : 'diff-inline-delete') : undefined}
+                    >
+                      {part.value}
+                    </span>
+                  ))
+                : line.content}
+            </div>
+            {isHeader && line.hunk && (
+              <div className="flex items-center gap-1 px-2 text-xs">
+                {onAcceptHunk && (
+                  <button
+                    onClick={() => onAcceptHunk(line.hunk!)}
+                    className="flex items-center gap-1 px-1.5 rounded text-green-400 hover:bg-green-500/20"
+                    title="接受此修改块"
+                  >
+                    <Check className="w-3 h-3" />
+                    接受
+                  </button>
+                )}
+                {onRevertHunk && (
+                  <button
+                    onClick={() => onRevertHunk(line.hunk!)}
+                    className="flex items-center gap-1 px-1.5 rounded text-red-400 hover:bg-red-500/20"
+                    title="将此修改块还原为原始内容"
+                  >
+                    <Undo2 className="w-3 h-3" />
+                    还原
+                  </button>
+                )}
+              </div>
+            )}
           </div>
         );
       })}
@@ -0,0 +1,103 @@
+import { Range, type Ace } from "ace-builds";
+import { EditorAdapter } from "@/types/editor.types";
+import { listenKeyDown } from "./keyboard";
+
+// Ace: text markers plus gutter decorations, line widgets, session edits for undo.
+// Ace has no hover messages on markers, so EditorDecoration.hoverMessage is not shown
+export function createAceAdapter(editor: Ace.Editor): EditorAdapter {
+  let markerIds: number[] = [];
+  let gutterRows: { row: number; className: string }[] = [];
+  const lineWidgets = new Map<string, Ace.LineWidget[]>(); // Owner -> widgets
+
+  const session = () => editor.session;
+  const lastRow = () => session().getLength() - 1;
+  const clampRow = (line: number) => Math.min(Math.max(0, line - 1), lastRow());
+
+  const clearDecorations = () => {
+    markerIds.forEach((id) => session().removeMarker(id));
+    gutterRows.forEach(({ row, className }) => session().removeGutterDecoration(row, className));
+    markerIds = [];
+    gutterRows = [];
+  };
+
+  const clearWidgets = (owner: string) => {
+    lineWidgets.get(owner)?.forEach((widget) => session().widgetManager.removeLineWidget(widget));
+    lineWidgets.delete(owner);
+  };
+
+  return {
+    getValue: () => editor.getValue(),
+
+    getSelection: () => {
+      const range = editor.getSelectionRange();
+      return {
+        startLine: range.start.row + 1,
+        startColumn: range.start.column + 1,
+        endLine: range.end.row + 1,
+        endColumn: range.end.column + 1,
+        text: editor.getSelectedText(),
+      };
+    },
+
+    // Session edits are not blocked by read-only mode, which only guards commands
+    applyEdit: (edit) => {
+      const endRow = clampRow(edit.endLine);
+      const range = new Range(
+        clampRow(edit.startLine),
+        (edit.startColumn ?? 1) - 1,
+        endRow,
+        edit.endColumn !== undefined ? edit.endColumn - 1 : session().getLine(endRow).length
+      );
+      session().replace(range, edit.newText);
+    },
+
+    revealLine: (line) => {
+      editor.scrollToLine(line, true, true, () => {});
+      editor.gotoLine(line, 0, false);
+    },
+
+    focus: () => editor.focus(),
+
+    setDecorations: (decorations) => {
+      clearDecorations();
+      decorations.forEach((item) => {
+        const endRow = clampRow(item.endLine);
+        const range = new Range(
+          clampRow(item.startLine),
+          (item.startColumn ?? 1) - 1,
+          endRow,
+          item.endColumn !== undefined ? item.endColumn - 1 : session().getLine(endRow).length
+        );
+        markerIds.push(session().addMarker(range, item.className, 'text', false));
+        for (let row = range.start.row; row <= endRow; row++) {
+          const className = `${item.className}-glyph`;
+          session().addGutterDecoration(row, className);
+          gutterRows.push({ row, className });
+        }
+      });
+    },
+
+    setInlineWidgets: (owner, widgets) => {
+      clearWidgets(owner);
+      lineWidgets.set(owner, widgets.map((widget) =>
+        session().widgetManager.addLineWidget({
+          row: clampRow(widget.afterLine),
+          pixelHeight: widget.heightInPx,
+          el: widget.node,
+          fixedWidth: true,
+        })
+      ));
+    },
+
+    setReadOnly: (readOnly) => editor.setReadOnly(readOnly),
+
+    onKeyDown: (handler) => listenKeyDown(editor.container, handler),
+
+    dispose: () => {
+      // The editor may already be destroyed when its component unmounts first
+      if (!editor.container.isConnected) return;
+      clearDecorations();
+      [...lineWidgets.keys()].forEach(clearWidgets);
+    },
+  };
+}
@@ -0,0 +1,178 @@
+import {
+  Decoration,
+  DecorationSet,
+  EditorState,
+  EditorView,
+  Extension,
+  RangeSet,
+  StateEffect,
+  StateField,
+  Text,
+  WidgetType,
+} from "@uiw/react-codemirror";
+import { EditorAdapter, EditorDecoration, EditorInlineWidget } from "@/types/editor.types";
+import { listenKeyDown } from "./keyboard";
+
+// Shows a node owned by the caller (who renders into it) as a block between lines
+class NodeWidget extends WidgetType {
+  constructor(readonly id: string, readonly node: HTMLElement, readonly heightInPx: number) {
+    super();
+  }
+
+  eq(other: NodeWidget): boolean {
+    return other.node === this.node;
+  }
+
+  toDOM(): HTMLElement {
+    return this.node;
+  }
+
+  get estimatedHeight(): number {
+    return this.heightInPx;
+  }
+}
+
+const setDecorationsEffect = StateEffect.define<EditorDecoration[]>();
+const setWidgetsEffect = StateEffect.define<{ owner: string; widgets: EditorInlineWidget[] }>();
+const setReadOnlyEffect = StateEffect.define<boolean>();
+
+function linePosition(doc: Text, line: number, column: number | undefined, atEnd: boolean): number {
+  const info = doc.line(Math.min(Math.max(1, line), doc.lines));
+  if (column === undefined) return atEnd ? info.to : info.from;
+  return Math.min(info.from + column - 1, info.to);
+}
+
+function buildDecorations(doc: Text, items: EditorDecoration[]): DecorationSet {
+  const ranges = items
+    .map((item) => ({
+      from: linePosition(doc, item.startLine, item.startColumn, false),
+      to: linePosition(doc, item.endLine, item.endColumn, true),
+      item,
+    }))
+    .filter(({ from, to }) => to > from)
+    .map(({ from, to, item }) =>
+      Decoration.mark({
+        class: item.className,
+        attributes: item.hoverMessage ? { title: item.hoverMessage } : undefined,
+      }).range(from, to)
+    );
+  return Decoration.set(ranges, true);
+}
+
+function buildWidgets(doc: Text, widgets: EditorInlineWidget[]): DecorationSet {
+  const ranges = widgets.map((widget) => {
+    const position = doc.line(Math.min(Math.max(1, widget.afterLine), doc.lines)).to;
+    return Decoration.widget({
+      widget: new NodeWidget(widget.id, widget.node, widget.heightInPx),
+      block: true,
+      side: 1,
+    }).range(position);
+  });
+  return Decoration.set(ranges, true);
+}
+
+// Fields (not compartments) so their values survive the reconfiguration the React wrapper
+// does whenever its `extensions` prop changes
+const decorationsField = StateField.define<DecorationSet>({
+  create: () => Decoration.none,
+  update(value, tr) {
+    for (const effect of tr.effects) {
+      if (effect.is(setDecorationsEffect)) return buildDecorations(tr.state.doc, effect.value);
+    }
+    return value.map(tr.changes);
+  },
+  provide: (field) => EditorView.decorations.from(field),
+});
+
+// Widget decorations per owner
+const widgetsField = StateField.define<Record<string, DecorationSet>>({
+  create: () => ({}),
+  update(value, tr) {
+    const next: Record<string, DecorationSet> = {};
+    Object.entries(value).forEach(([owner, set]) => {
+      next[owner] = set.map(tr.changes);
+    });
+    for (const effect of tr.effects) {
+      if (effect.is(setWidgetsEffect)) next[effect.value.owner] = buildWidgets(tr.state.doc, effect.value.widgets);
+    }
+    return next;
+  },
+  provide: (field) => EditorView.decorations.from(field, (sets) => RangeSet.join(Object.values(sets))),
+});
+
+const readOnlyField = StateField.define<boolean>({
+  create: () => false,
+  update(value, tr) {
+    for (const effect of tr.effects) {
+      if (effect.is(setReadOnlyEffect)) return effect.value;
+    }
+    return value;
+  },
+  provide: (field) => EditorState.readOnly.from(field),
+});
+
+// Must be part of the editor's extensions for the adapter to work
+export const codeMirrorAdapterExtension: Extension = [decorationsField, widgetsField, readOnlyField];
+
+// CodeMirror: state fields for decorations, block widgets and read-only, transactions for edits
+export function createCodeMirrorAdapter(view: EditorView): EditorAdapter {
+  return {
+    getValue: () => view.state.doc.toString(),
+
+    getSelection: () => {
+      const { from, to } = view.state.selection.main;
+      const start = view.state.doc.lineAt(from);
+      const end = view.state.doc.lineAt(to);
+      return {
+        startLine: start.number,
+        startColumn: from - start.from + 1,
+        endLine: end.number,
+        endColumn: to - end.from + 1,
+        text: view.state.sliceDoc(from, to),
+      };
+    },
+
+    // Transactions bypass the read-only facet, which only blocks user input
+    applyEdit: (edit) => {
+      const { doc } = view.state;
+      view.dispatch({
+        changes: {
+          from: linePosition(doc, edit.startLine, edit.startColumn, false),
+          to: linePosition(doc, edit.endLine, edit.endColumn, true),
+          insert: edit.newText,
+        },
+      });
+    },
+
+    revealLine: (line) => {
+      const position = view.state.doc.line(Math.min(Math.max(1, line), view.state.doc.lines)).from;
+      view.dispatch({
+        selection: { anchor: position },
+        effects: EditorView.scrollIntoView(position, { y: 'center' }),
+      });
+    },
+
+    focus: () => view.focus(),
+
+    setDecorations: (decorations) => view.dispatch({ effects: setDecorationsEffect.of(decorations) }),
+
+    setInlineWidgets: (owner, widgets) => view.dispatch({ effects: setWidgetsEffect.of({ owner, widgets }) }),
+
+    setReadOnly: (readOnly) => view.dispatch({ effects: setReadOnlyEffect.of(readOnly) }),
+
+    onKeyDown: (handler) => listenKeyDown(view.dom, handler),
+
+    dispose: () => {
+      // The view may already be destroyed when its component unmounts first
+      if (!view.dom.isConnected) return;
+      const owners = Object.keys(view.state.field(widgetsField, false) ?? {});
+      view.dispatch({
+        effects: [
+          setDecorationsEffect.of([]),
+          ...owners.map((owner) => setWidgetsEffect.of({ owner, widgets: [] })),
+          setReadOnlyEffect.of(false),
+        ],
+      });
+    },
+  };
+}
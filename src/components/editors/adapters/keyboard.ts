@@ -0,0 +1,10 @@
+// Capture-phase listener on the editor's root node, so it sees keys before the engine does
+export function listenKeyDown(node: HTMLElement, handler: (event: KeyboardEvent) => boolean): () => void {
+  const listener = (event: KeyboardEvent) => {
+    if (!handler(event)) return;
+    event.preventDefault();
+    event.stopPropagation();
+  };
+  node.addEventListener('keydown', listener, true);
+  return () => node.removeEventListener('keydown', listener, true);
+}
@@ -0,0 +1,89 @@
+import type { editor } from "monaco-editor";
+import { EditorAdapter } from "@/types/editor.types";
+import { listenKeyDown } from "./keyboard";
+
+type Monaco = typeof import("monaco-editor");
+
+// Monaco: decorations collection, view zones for widgets, model edits for undo
+export function createMonacoAdapter(codeEditor: editor.IStandaloneCodeEditor, monaco: Monaco): EditorAdapter {
+  const decorations = codeEditor.createDecorationsCollection();
+  const zoneIds = new Map<string, string[]>(); // Owner -> view zone ids
+
+  const model = () => codeEditor.getModel();
+
+  return {
+    getValue: () => codeEditor.getValue(),
+
+    getSelection: () => {
+      const selection = codeEditor.getSelection();
+      const current = model();
+      if (!selection || !current) return { startLine: 1, startColumn: 1, endLine: 1, endColumn: 1, text: '' };
+      return {
+        startLine: selection.startLineNumber,
+        startColumn: selection.startColumn,
+        endLine: selection.endLineNumber,
+        endColumn: selection.endColumn,
+        text: current.getValueInRange(selection),
+      };
+    },
+
+    // Model edits also work while the editor is read-only (preview mode)
+    applyEdit: (edit) => {
+      const current = model();
+      if (!current) return;
+      const range = new monaco.Range(
+        edit.startLine,
+        edit.startColumn ?? 1,
+        edit.endLine,
+        edit.endColumn ?? current.getLineMaxColumn(Math.min(edit.endLine, current.getLineCount()))
+      );
+      codeEditor.pushUndoStop();
+      current.pushEditOperations([], [{ range, text: edit.newText }], () => null);
+      codeEditor.pushUndoStop();
+    },
+
+    revealLine: (line) => {
+      codeEditor.revealLineInCenter(line);
+      codeEditor.setPosition({ lineNumber: line, column: 1 });
+    },
+
+    focus: () => codeEditor.focus(),
+
+    setDecorations: (items) => {
+      decorations.set(items.map((item) => ({
+        range: new monaco.Range(item.startLine, item.startColumn ?? 1, item.endLine, item.endColumn ?? Number.MAX_SAFE_INTEGER),
+        options: {
+          className: item.className,
+          glyphMarginClassName: `${item.className}-glyph`,
+          hoverMessage: item.hoverMessage ? { value: item.hoverMessage } : undefined,
+          minimap: { color: '#4ade80', position: monaco.editor.MinimapPosition.Inline },
+        },
+      })));
+    },
+
+    setInlineWidgets: (owner, widgets) => {
+      codeEditor.changeViewZones((accessor) => {
+        zoneIds.get(owner)?.forEach((id) => accessor.removeZone(id));
+        zoneIds.set(owner, widgets.map((widget) =>
+          accessor.addZone({ afterLineNumber: widget.afterLine, heightInPx: widget.heightInPx, domNode: widget.node })
+        ));
+      });
+    },
+
+    setReadOnly: (readOnly) => codeEditor.updateOptions({ readOnly }),
+
+    onKeyDown: (handler) => {
+      const node = codeEditor.getDomNode();
+      if (!node) return () => {};
+      return listenKeyDown(node, handler);
+    },
+
+    dispose: () => {
+      // The editor may already be disposed when its component unmounts first
+      if (!codeEditor.getModel()) return;
+      decorations.clear();
+      codeEditor.changeViewZones((accessor) => zoneIds.forEach((ids) => ids.forEach((id) => accessor.removeZone(id))));
+      zoneIds.clear();
+    },
+  };
+}
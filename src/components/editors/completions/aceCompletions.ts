@@ -0,0 +1,84 @@
+import type { Ace } from "ace-builds";
+import { inlineCompletions } from "./inlineCompletions";
+
+// Commands after which a completion is requested
+const TYPING_COMMANDS = new Set(['insertstring', 'backspace', 'del']);
+
+// Ghost-text completions for Ace, accepted with Tab and dismissed with Escape.
+// Returns a function that detaches them
+export function attachAceInlineCompletions(editor: Ace.Editor, getFileName: () => string): () => void {
+  let ghost: { text: string; row: number; column: number } | null = null;
+  let requestId = 0;
+
+  const clear = () => {
+    if (!ghost) return;
+    ghost = null;
+    editor.removeGhostText();
+  };
+
+  const request = () => {
+    const id = ++requestId;
+    const cursor = editor.getCursorPosition();
+    if (!editor.selection.isEmpty() || editor.getReadOnly()) return;
+
+    inlineCompletions
+      .complete({ code: editor.getValue(), fileName: getFileName(), line: cursor.row + 1, column: cursor.column + 1 })
+      .then((text) => {
+        const now = editor.getCursorPosition();
+        // Only show it if nothing was typed and the cursor did not move meanwhile
+        if (!text || id !== requestId || now.row !== cursor.row || now.column !== cursor.column) return;
+        ghost = { text, row: cursor.row, column: cursor.column };
+        editor.setGhostText(text, cursor);
+      });
+  };
+
+  // Tab indents as usual when there is nothing to accept (false falls through to it)
+  editor.commands.addCommand({
+    name: 'acceptInlineCompletion',
+    bindKey: { win: 'Tab', mac: 'Tab' },
+    exec: () => {
+      if (!ghost) return false;
+      const { text, row, column } = ghost;
+      clear();
+      editor.session.insert({ row, column }, text);
+      return true;
+    },
+  });
+  editor.commands.addCommand({
+    name: 'dismissInlineCompletion',
+    bindKey: { win: 'Esc', mac: 'Esc' },
+    exec: () => {
+      if (!ghost) return false;
+      clear();
+      return true;
+    },
+  });
+
+  const handleAfterExec = (e: { command: { name?: string } }) => {
+    if (e.command.name === 'acceptInlineCompletion' || e.command.name === 'dismissInlineCompletion') return;
+    clear();
+    if (TYPING_COMMANDS.has(e.command.name ?? '')) {
+      request();
+    } else {
+      requestId++;
+      inlineCompletions.cancel();
+    }
+  };
+  const handleCursorChange = () => {
+    const cursor = editor.getCursorPosition();
+    if (ghost && (cursor.row !== ghost.row || cursor.column !== ghost.column)) clear();
+  };
+
+  editor.commands.on('afterExec', handleAfterExec);
+  editor.selection.on('changeCursor', handleCursorChange);
+
+  return () => {
+    requestId++;
+    inlineCompletions.cancel();
+    clear();
+    editor.commands.off('afterExec', handleAfterExec);
+    editor.selection.off('changeCursor', handleCursorChange);
+    editor.commands.removeCommand('acceptInlineCompletion');
+    editor.commands.removeCommand('dismissInlineCompletion');
+  };
+}
@@ -0,0 +1,130 @@
+import {
+  Decoration,
+  EditorView,
+  Extension,
+  Facet,
+  Prec,
+  StateEffect,
+  StateField,
+  ViewPlugin,
+  ViewUpdate,
+  WidgetType,
+  keymap,
+} from "@uiw/react-codemirror";
+import { inlineCompletions } from "./inlineCompletions";
+
+interface Ghost {
+  text: string;
+  position: number;
+}
+
+class GhostTextWidget extends WidgetType {
+  constructor(readonly text: string) {
+    super();
+  }
+
+  eq(other: GhostTextWidget): boolean {
+    return other.text === this.text;
+  }
+
+  toDOM(): HTMLElement {
+    const span = document.createElement('span');
+    span.className = 'cm-inline-completion';
+    span.textContent = this.text;
+    return span;
+  }
+}
+
+const setGhostEffect = StateEffect.define<Ghost | null>();
+
+const fileNameFacet = Facet.define<string, string>({
+  combine: (values) => values[0] ?? '',
+});
+
+// The suggestion shown at the cursor; any edit or cursor move drops it
+const ghostField = StateField.define<Ghost | null>({
+  create: () => null,
+  update(value, tr) {
+    for (const effect of tr.effects) {
+      if (effect.is(setGhostEffect)) return effect.value;
+    }
+    return tr.docChanged || tr.selection ? null : value;
+  },
+  provide: (field) =>
+    EditorView.decorations.from(field, (ghost) =>
+      ghost
+        ? Decoration.set([Decoration.widget({ widget: new GhostTextWidget(ghost.text), side: 1 }).range(ghost.position)])
+        : Decoration.none
+    ),
+});
+
+// Ask for a completion after the user types; stale answers are dropped
+const requestPlugin = ViewPlugin.fromClass(
+  class {
+    update(update: ViewUpdate) {
+      const typed = update.transactions.some((tr) => tr.isUserEvent('input') || tr.isUserEvent('delete'));
+      if (!typed) {
+        if (update.selectionSet) inlineCompletions.cancel();
+        return;
+      }
+
+      const { state, view } = update;
+      const { main } = state.selection;
+      if (!main.empty || state.readOnly) return;
+
+      const doc = state.doc;
+      const line = doc.lineAt(main.head);
+      inlineCompletions
+        .complete({
+          code: doc.toString(),
+          fileName: state.facet(fileNameFacet),
+          line: line.number,
+          column: main.head - line.from + 1,
+        })
+        .then((text) => {
+          // Only show it if nothing changed while the request was running
+          if (!text || view.state.doc !== doc || view.state.selection.main.head !== main.head) return;
+          view.dispatch({ effects: setGhostEffect.of({ text, position: main.head }) });
+        });
+    }
+
+    destroy() {
+      inlineCompletions.cancel();
+    }
+  }
+);
+
+const acceptKeymap = Prec.highest(
+  keymap.of([
+    {
+      key: 'Tab',
+      run: (view) => {
+        const ghost = view.state.field(ghostField, false);
+        if (!ghost) return false;
+        view.dispatch({
+          changes: { from: ghost.position, insert: ghost.text },
+          selection: { anchor: ghost.position + ghost.text.length },
+          userEvent: 'input.complete',
+        });
+        return true;
+      },
+    },
+    {
+      key: 'Escape',
+      run: (view) => {
+        if (!view.state.field(ghostField, false)) return false;
+        view.dispatch({ effects: setGhostEffect.of(null) });
+        return true;
+      },
+    },
+  ])
+);
+
+const ghostTheme = EditorView.baseTheme({
+  '.cm-inline-completion': { opacity: '0.45', whiteSpace: 'pre' },
+});
+
+// Ghost-text completions for CodeMirror, accepted with Tab and dismissed with Escape
+export function codeMirrorInlineCompletions(fileName: string): Extension {
+  return [fileNameFacet.of(fileName), ghostField, requestPlugin, acceptKeymap, ghostTheme];
+}
@@ -0,0 +1,9 @@
+import { InlineCompletionService } from "@/lib/inlineCompletion";
+import { appStore } from "@/store/app-store";
+
+// One service for whichever editor is mounted, so switching engines keeps the cache.
+// Returns no settings (and so no completions) while the feature is switched off
+export const inlineCompletions = new InlineCompletionService(() => {
+  const { inlineCompletions: enabled, llmSettings } = appStore.getState();
+  return enabled ? llmSettings : null;
+});
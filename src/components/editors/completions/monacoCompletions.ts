@@ -0,0 +1,36 @@
+import type { editor, IDisposable } from "monaco-editor";
+import { inlineCompletions } from "./inlineCompletions";
+
+type Monaco = typeof import("monaco-editor");
+
+// Monaco shows the result as ghost text and accepts it with Tab on its own
+export function registerMonacoInlineCompletions(
+  monaco: Monaco,
+  codeEditor: editor.IStandaloneCodeEditor,
+  getFileName: () => string
+): IDisposable {
+  return monaco.languages.registerInlineCompletionsProvider('*', {
+    provideInlineCompletions: async (model, position, _context, token) => {
+      // Providers are global; only complete in this editor, and not while previewing AI edits
+      if (model !== codeEditor.getModel() || codeEditor.getOption(monaco.editor.EditorOption.readOnly)) {
+        return { items: [] };
+      }
+
+      const controller = new AbortController();
+      token.onCancellationRequested(() => controller.abort());
+      const text = await inlineCompletions.complete(
+        { code: model.getValue(), fileName: getFileName(), line: position.lineNumber, column: position.column },
+        controller.signal
+      );
+      if (!text || token.isCancellationRequested) return { items: [] };
+
+      return {
+        items: [{
+          insertText: text,
+          range: new monaco.Range(position.lineNumber, position.column, position.lineNumber, position.column),
+        }],
+      };
+    },
+    disposeInlineCompletions: () => {},
+  });
+}
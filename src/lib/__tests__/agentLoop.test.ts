@@ -0,0 +1,99 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AgentWorkspace } from '@/types/agent.types';
+import { AgentLoop } from '../agentLoop';
+import { AgentToolbox } from '../agentTools';
+import { MockProvider } from '../llmProviders';
+import { MultiFileManager } from '../multiFileManager';
+
+const toolCall = (tool: string, args: Record<string, unknown>, thought = '') =>
+  `${thought}\n\`\`\`tool\n${JSON.stringify({ tool, args })}\n\`\`\``;
+
+const SCRIPT = [
+  toolCall('grep', { pattern: 'greet' }, 'Find the greeting.'),
+  toolCall('read_file', { path: 'src/greet.ts' }),
+  toolCall('propose_edit', { path: 'src/greet.ts', search: "  return 'hello ' + name;", replace: '  return `hello, ${name}`;' }),
+  toolCall('finish', { answer: 'Switched to a template literal.' }),
+];
+
+function memoryWorkspace(files: Record<string, string>): AgentWorkspace {
+  return {
+    listFiles: () => Object.keys(files),
+    readFile: async (path) => {
+      if (!(path in files)) throw new Error(`File not found: ${path}`);
+      return files[path];
+    },
+  };
+}
+
+const files = {
+  'src/greet.ts': "export function greet(name: string) {\n  return 'hello ' + name;\n}\n",
+  'src/index.ts': "import { greet } from './greet';\n\nconsole.log(greet('world'));\n",
+};
+
+test('replays a scripted run against the mock provider and collects the proposed edit', async () => {
+  const workspace = memoryWorkspace(files);
+  const result = await AgentLoop.run({
+    task: 'Use a template literal in greet',
+    workspace,
+    complete: AgentLoop.completeWith(new MockProvider(SCRIPT)),
+  });
+
+  assert.equal(result.status, 'finished');
+  assert.equal(result.answer, 'Switched to a template literal.');
+  assert.deepEqual(result.steps.map((step) => step.call?.tool), ['grep', 'read_file', 'propose_edit', 'finish']);
+  assert.ok(result.steps.every((step) => !step.error));
+  assert.match(result.steps[0].observation ?? '', /src\/greet\.ts:1:/);
+
+  const originals = new Map([['src/greet.ts', files['src/greet.ts']]]);
+  const { change, failures } = MultiFileManager.buildChange(result.toolbox.proposals, originals, result.answer);
+  assert.deepEqual(failures, []);
+  assert.equal(change.files[0].modifiedContent, 'export function greet(name: string) {\n  return `hello, ${name}`;\n}\n');
+});
+
+test('every run starts the script from the first response', async () => {
+  const provider = new MockProvider(SCRIPT);
+  const run = () => AgentLoop.run({ task: 'task', workspace: memoryWorkspace(files), complete: AgentLoop.completeWith(provider) });
+
+  const first = await run();
+  const second = await run();
+  assert.deepEqual(second.steps, first.steps);
+});
+
+test('feeds tool errors back to the model and stops at the step budget', async () => {
+  const result = await AgentLoop.run({
+    task: 'task',
+    workspace: memoryWorkspace(files),
+    complete: AgentLoop.completeWith(new MockProvider([toolCall('read_file', { path: 'missing.ts' })])),
+    maxSteps: 2,
+  });
+
+  assert.equal(result.status, 'budget-exhausted');
+  assert.equal(result.steps.length, 2);
+  assert.ok(result.steps.every((step) => step.error));
+  assert.match(result.messages[3].content, /^Observation from read_file:\nError: File not found/);
+});
+
+test('proposals store the workspace path even when the model writes ./path', async () => {
+  const toolbox = new AgentToolbox(memoryWorkspace(files));
+  await toolbox.run({
+    tool: 'propose_edit',
+    args: { path: './src/greet.ts', search: "  return 'hello ' + name;", replace: "  return 'hi ' + name;" },
+  });
+
+  assert.equal(toolbox.proposals[0].fileName, 'src/greet.ts');
+  const originals = new Map([['src/greet.ts', files['src/greet.ts']]]);
+  const { change, failures } = MultiFileManager.buildChange(toolbox.proposals, originals, '');
+  assert.deepEqual(failures, []);
+  assert.equal(change.files[0].filePath, 'src/greet.ts');
+});
+
+test('grep refuses patterns that can backtrack catastrophically', async () => {
+  const toolbox = new AgentToolbox(memoryWorkspace(files));
+
+  await assert.rejects(toolbox.run({ tool: 'grep', args: { pattern: '(a+)+$' } }), /nested quantifiers/);
+  await assert.rejects(toolbox.run({ tool: 'grep', args: { pattern: '(\\w*)*x' } }), /nested quantifiers/);
+  await assert.rejects(toolbox.run({ tool: 'grep', args: { pattern: 'a'.repeat(300) } }), /longer than/);
+  assert.equal(await toolbox.run({ tool: 'grep', args: { pattern: 'greet\\(', path: './src' } }),
+    "src/greet.ts:1: export function greet(name: string) {\nsrc/index.ts:3: console.log(greet('world'));");
+});
@@ -0,0 +1,126 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { FileNode } from '@/types/file.types';
+import { IndexedFile, IndexedSymbol } from '@/types/symbol.types';
+import { ChatMentions, MentionSources } from '../chatMentions';
+import type { SymbolIndex } from '../symbolIndex';
+
+const files: FileNode[] = [
+  {
+    name: 'src',
+    path: 'src',
+    type: 'directory',
+    children: [
+      { name: 'app.ts', path: 'src/app.ts', type: 'file' },
+      { name: 'parser.ts', path: 'src/parser.ts', type: 'file' },
+    ],
+  },
+  { name: 'README.md', path: 'README.md', type: 'file' },
+];
+
+const parserFile: IndexedFile = {
+  workspace: 'ws',
+  path: 'src/parser.ts',
+  version: 1,
+  lastModified: 1,
+  size: 1,
+  context: {
+    symbols: [
+      { name: 'Parser', type: 'class', startLine: 2, endLine: 4, content: '' },
+      { name: 'parse', type: 'method', startLine: 3, endLine: 3, content: '', scope: 'Parser' },
+      { name: 'limit', type: 'variable', startLine: 1, endLine: 1, content: '' },
+    ],
+    imports: [],
+    exports: [],
+    dependencies: [],
+    language: 'typescript',
+  },
+};
+
+// Only what ChatMentions reads from the index
+const symbolIndex = {
+  getFiles: () => [parserFile],
+  findDefinition: (name: string): IndexedSymbol[] => {
+    const [symbolName, scope] = name.split('.').reverse();
+    return parserFile.context.symbols
+      .filter((symbol) => symbol.name === symbolName && (!scope || symbol.scope === scope))
+      .map((symbol) => ({ ...symbol, filePath: parserFile.path }));
+  },
+} as unknown as SymbolIndex;
+
+const contents: Record<string, string> = {
+  'src/app.ts': 'import { Parser } from "./parser";',
+  'src/parser.ts': 'const limit = 1;\nclass Parser {\n  parse() {}\n}',
+};
+
+const sources: MentionSources = {
+  files,
+  symbolIndex,
+  readFile: async (path) => {
+    if (!(path in contents)) throw new Error(`missing ${path}`);
+    return contents[path];
+  },
+};
+
+test('finds the mention being typed at the caret', () => {
+  assert.deepEqual(ChatMentions.activeQuery('look at @src/pa', 15), { start: 8, query: 'src/pa' });
+  assert.deepEqual(ChatMentions.activeQuery('@', 1), { start: 0, query: '' });
+  assert.equal(ChatMentions.activeQuery('mail me@example', 15), null);
+  assert.equal(ChatMentions.activeQuery('@src done', 9), null);
+});
+
+test('suggests files, folders and symbols, name matches first', () => {
+  const labels = ChatMentions.suggest('pars', sources).map((mention) => `${mention.kind}:${mention.label}`);
+  // All three match on their short name, so shorter labels go first
+  assert.deepEqual(labels, ['symbol:Parser', 'symbol:Parser.parse', 'file:src/parser.ts']);
+  assert.deepEqual(ChatMentions.suggest('src/app', sources).map((mention) => mention.label), ['src/app.ts']);
+  // Plain variables are not offered
+  assert.equal(ChatMentions.suggest('limit', sources).length, 0);
+  // Without a query, shallow paths come first and symbols are left out
+  assert.deepEqual(ChatMentions.suggest('', sources).map((mention) => mention.label).slice(0, 2), ['src/', 'README.md']);
+});
+
+test('resolves mentions typed out in full', () => {
+  const mentions = ChatMentions.resolveTyped('Compare @src/app.ts with @src/ and @Parser.parse. Ignore @nothing', sources);
+  assert.deepEqual(mentions, [
+    { kind: 'file', label: 'src/app.ts', path: 'src/app.ts' },
+    { kind: 'folder', label: 'src/', path: 'src' },
+    { kind: 'symbol', label: 'Parser.parse', path: 'src/parser.ts', startLine: 3, endLine: 3 },
+  ]);
+  assert.deepEqual(ChatMentions.resolveTyped('email a@b.c or @limit', sources), []);
+});
+
+test('loads a symbol as its own lines and a folder as its readable files', async () => {
+  const symbol = await ChatMentions.load(
+    { kind: 'symbol', label: 'Parser', path: 'src/parser.ts', startLine: 2, endLine: 4 },
+    sources
+  );
+  assert.equal(symbol.content, 'class Parser {\n  parse() {}\n}');
+  assert.equal(symbol.attachment.truncated, false);
+
+  const folder = await ChatMentions.load({ kind: 'folder', label: 'src/', path: 'src' }, sources);
+  assert.match(folder.content, /^Files:\nsrc\/app\.ts\nsrc\/parser\.ts/);
+  assert.match(folder.content, /--- src\/app\.ts ---\nimport/);
+});
+
+test('cuts long attachments to the token limit', async () => {
+  const long = await ChatMentions.load(
+    { kind: 'file', label: 'big.ts', path: 'big.ts' },
+    { ...sources, readFile: async () => 'x'.repeat(100000) }
+  );
+  assert.equal(long.attachment.truncated, true);
+  assert.ok(long.content.endsWith('… (truncated)'));
+  assert.ok(long.content.length < 100000);
+});
+
+test('builds labelled context blocks', async () => {
+  const loaded = [
+    await ChatMentions.load({ kind: 'file', label: 'src/app.ts', path: 'src/app.ts' }, sources),
+    await ChatMentions.load({ kind: 'symbol', label: 'Parser', path: 'src/parser.ts', startLine: 2, endLine: 4 }, sources),
+  ];
+  const block = ChatMentions.contextBlock(loaded);
+
+  assert.ok(block.startsWith('## Referenced context\n\n### File: src/app.ts\n```typescript\nimport'));
+  assert.match(block, /### Symbol: Parser \(src\/parser\.ts:2-4\)/);
+  assert.equal(ChatMentions.contextBlock([]), '');
+});
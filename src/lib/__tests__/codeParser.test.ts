@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CodeParser } from '../codeParser';
+
+// parse() uses the regex fallback until the TypeScript compiler has loaded; this file never loads it
+const source = [
+  "import { a } from './a';",
+  'export default function main() {}',
+  'export async function load() {}',
+  'export abstract class Shape {}',
+  'export const LIMIT = 10;',
+  'export interface Options {}',
+  'export type Id = string;',
+  'export enum Mode { On, Off }',
+  'export { helper, internal as external };',
+  "export * from './all';",
+  "export * as ns from './ns';",
+  'const local = 1;',
+].join('\n');
+
+test('the regex fallback lists export names, not export lines', () => {
+  const context = CodeParser.parse(source, 'typescript', 'index.ts');
+
+  assert.deepEqual(context.exports, [
+    'default',
+    'load',
+    'Shape',
+    'LIMIT',
+    'Options',
+    'Id',
+    'Mode',
+    'helper',
+    'external',
+    "* from './all'",
+    'ns',
+  ]);
+  assert.deepEqual(context.imports, ['./a']);
+});
+
+test('the regex fallback still finds the declared symbols', () => {
+  const names = CodeParser.parse(source, 'typescript').symbols.map((s) => `${s.type} ${s.name}`);
+  assert.ok(names.includes('function main'));
+  assert.ok(names.includes('class Shape'));
+  assert.ok(names.includes('variable local'));
+});
@@ -0,0 +1,73 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ContextChunk } from '@/types/context.types';
+import { CodeParser } from '../codeParser';
+import { ContextPacker } from '../contextPacker';
+import { TokenBudget } from '../tokenBudget';
+
+const chunk = (label: string, tokens: number, priority: number, required = false): ContextChunk => ({
+  kind: 'surrounding',
+  label,
+  content: 'abcd'.repeat(tokens),
+  priority,
+  required,
+});
+
+test('packs chunks by priority and reports the ones that do not fit', () => {
+  const { chunks, report } = ContextPacker.pack(
+    [chunk('low', 40, 3), chunk('high', 50, 1), chunk('mid', 30, 2)],
+    100
+  );
+
+  assert.deepEqual(chunks.map((c) => c.label), ['high', 'mid']);
+  assert.equal(report.used, 80);
+  assert.deepEqual(report.dropped, [{ kind: 'surrounding', label: 'low', tokens: 40 }]);
+  assert.deepEqual(report.truncated, []);
+});
+
+test('cuts a required chunk to the remaining budget instead of dropping it', () => {
+  const lines = Array.from({ length: 100 }, (_, i) => `line ${i}`).join('\n');
+  const { chunks, report } = ContextPacker.pack(
+    [{ kind: 'file', label: 'a.ts', content: lines, priority: 1, required: true }],
+    50
+  );
+
+  assert.equal(chunks.length, 1);
+  assert.ok(chunks[0].content.endsWith('(truncated)'));
+  assert.ok(report.used <= 50);
+  assert.equal(report.truncated[0].label, 'a.ts');
+});
+
+test('sends the enclosing function and referenced definitions when the file is too large', async () => {
+  await CodeParser.load();
+  const code = [
+    "import { x } from './x';",
+    '',
+    'function helper(n: number) {',
+    '  return n * 2;',
+    '}',
+    '',
+    'function unrelated() {',
+    '  return 0;',
+    '}',
+    '',
+    'export function target(n: number) {',
+    '  const doubled = helper(n);',
+    '  return doubled + 1;',
+    '}',
+  ].join('\n');
+  const context = CodeParser.parse(code, 'typescript', 'a.ts');
+
+  const chunks = ContextPacker.editChunks({ code, fileName: 'a.ts', context, cursorLine: 12 }, false);
+  const byKind = (kind: string) => chunks.filter((c) => c.kind === kind);
+
+  assert.equal(byKind('file').length, 0);
+  assert.match(byKind('enclosing-symbol')[0].content, /^export function target/);
+  assert.equal(byKind('imports')[0].content, "import { x } from './x';");
+  assert.deepEqual(byKind('definition').map((c) => c.content), ['function helper(n: number) {\n  return n * 2;\n}']);
+});
+
+test('estimates CJK text at about one token per character', () => {
+  assert.equal(TokenBudget.estimate('abcdefgh'), 2);
+  assert.equal(TokenBudget.estimate('中文注释'), 4);
+});
@@ -0,0 +1,90 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ChatMessage } from '@/types/chat.types';
+import { LLMMessage } from '@/types/llm.types';
+import { ChatHistory } from '../chatHistory';
+import { ConversationHistory } from '../conversationHistory';
+
+const user = (content: string): LLMMessage => ({ role: 'user', content });
+const assistant = (content: string): LLMMessage => ({ role: 'assistant', content });
+
+// About `tokens` tokens at four characters each
+const text = (label: string, tokens: number) => `${label} ${'abcd'.repeat(tokens)}`;
+
+test('keeps a history that fits the budget unchanged, minus system and empty messages', () => {
+  const history: LLMMessage[] = [
+    { role: 'system', content: 'rules' },
+    user('first question'),
+    assistant('first answer'),
+    user('   '),
+    user('second question'),
+  ];
+
+  assert.deepEqual(ConversationHistory.fit(history), {
+    messages: [user('first question'), assistant('first answer'), user('second question')],
+    dropped: 0,
+  });
+});
+
+test('folds older turns into a summary and keeps the newest within the budget', () => {
+  const history = [
+    user(text('q1', 50)),
+    assistant(text('a1', 50)),
+    user(text('q2', 50)),
+    assistant(text('a2', 50)),
+  ];
+
+  const { messages, dropped } = ConversationHistory.fit(history, 120);
+  assert.equal(dropped, 2);
+  assert.equal(messages.length, 3);
+  assert.equal(messages[0].role, 'system');
+  assert.match(messages[0].content, /^Summary of the earlier conversation/);
+  assert.match(messages[0].content, /- User: q1 abcd/);
+  assert.match(messages[0].content, /- Assistant: a1 abcd.*…/);
+  assert.deepEqual(messages.slice(1), history.slice(2));
+});
+
+test('does not open with an answer whose question was cut off', () => {
+  const history = [user(text('q1', 100)), assistant(text('a1', 20)), user(text('q2', 20))];
+
+  const { messages, dropped } = ConversationHistory.fit(history, 60);
+  assert.equal(dropped, 2);
+  assert.deepEqual(messages.slice(1), [history[2]]);
+});
+
+test('summarizes everything when even the last message is over budget', () => {
+  const { messages, dropped } = ConversationHistory.fit([user('short'), assistant(text('long', 200))], 50);
+  assert.equal(dropped, 2);
+  assert.equal(messages.length, 1);
+  assert.equal(messages[0].role, 'system');
+});
+
+test('alternates roles starting with the user', () => {
+  assert.deepEqual(
+    ConversationHistory.alternate([
+      assistant('greeting'),
+      user('one'),
+      user('two'),
+      assistant(''),
+      assistant('answer'),
+      assistant('more'),
+      user('three'),
+    ]),
+    [user('one\n\ntwo'), assistant('answer\n\nmore'), user('three')]
+  );
+  assert.deepEqual(ConversationHistory.alternate([assistant('only')]), []);
+});
+
+test('saved chat messages become model turns, skipping unanswered ones', () => {
+  const messages: ChatMessage[] = [
+    { role: 'user', content: 'question', timestamp: new Date(), fileName: 'a.ts' },
+    { role: 'assistant', content: 'answer', timestamp: new Date() },
+    { role: 'user', content: 'follow-up', timestamp: new Date() },
+    { role: 'assistant', content: '', timestamp: new Date() },
+  ];
+
+  const turns = ChatHistory.toLLMMessages(messages);
+  assert.deepEqual(turns, [user('question'), assistant('answer'), user('follow-up')]);
+  // Restored sessions go through the same budget as live ones
+  assert.deepEqual(ConversationHistory.fit(turns).messages, turns);
+});
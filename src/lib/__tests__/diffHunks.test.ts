@@ -0,0 +1,39 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DiffHunks } from '../diffHunks';
+
+const original = 'a\nb\nc\nd\ne\n';
+const modified = 'a\nB\nc\nd\ne\nf\n';
+
+test('splits a diff into hunks with their line positions', () => {
+  const hunks = DiffHunks.hunks(original, modified);
+
+  assert.equal(hunks.length, 2);
+  assert.deepEqual(
+    hunks.map(({ oldStart, newStart, oldLines, newLines }) => ({ oldStart, newStart, oldLines, newLines })),
+    [
+      { oldStart: 2, newStart: 2, oldLines: ['b'], newLines: ['B'] },
+      { oldStart: 6, newStart: 6, oldLines: [], newLines: ['f'] },
+    ]
+  );
+});
+
+test('reverting a hunk restores only its lines', () => {
+  const [changed, added] = DiffHunks.hunks(original, modified);
+
+  assert.equal(DiffHunks.revert(modified, changed), 'a\nb\nc\nd\ne\nf\n');
+  assert.equal(DiffHunks.revert(modified, added), 'a\nB\nc\nd\ne\n');
+});
+
+test('accepting every hunk turns the original into the modified text', () => {
+  const hunks = DiffHunks.hunks(original, modified);
+  // Later hunks first, so earlier positions stay valid
+  const accepted = [...hunks].reverse().reduce((text, hunk) => DiffHunks.accept(text, hunk), original);
+
+  assert.equal(accepted, modified);
+  assert.deepEqual(DiffHunks.hunks(accepted, modified), []);
+});
+
+test('ignores whitespace-only changes when asked to', () => {
+  assert.equal(DiffHunks.hunks('a\n  b\n', 'a\nb  \n', { ignoreWhitespace: true }).length, 0);
+});
@@ -0,0 +1,103 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { EditParser } from '../editParser';
+
+const block = (search: string, replace: string) =>
+  `<<<<<<< SEARCH\n${search}\n=======\n${replace}\n>>>>>>> REPLACE`;
+
+test('applies an exact SEARCH/REPLACE block', () => {
+  const code = 'const a = 1;\nconst b = 2;\n';
+  const { edits, failures } = EditParser.parse(block('const b = 2;', 'const b = 3;'), code);
+
+  assert.deepEqual(failures, []);
+  assert.equal(edits.length, 1);
+  assert.equal(edits[0].startLine, 2);
+  assert.equal(EditParser.applyEdits(code, edits), 'const a = 1;\nconst b = 3;\n');
+});
+
+test('matches search text with different indentation and reindents the replacement', () => {
+  const code = 'function f() {\n    return 1;\n}';
+  const { edits } = EditParser.parse(block('return 1;', 'return 2;'), code);
+
+  assert.equal(edits[0].match, 'indentation');
+  assert.equal(EditParser.applyEdits(code, edits), 'function f() {\n    return 2;\n}');
+});
+
+test('reports search text that is not in the code', () => {
+  const { edits, failures } = EditParser.parse(block('missing()', 'found()'), 'const a = 1;');
+
+  assert.equal(edits.length, 0);
+  assert.equal(failures[0].reason, 'not-found');
+});
+
+test('reports search text with several matches and no line number as ambiguous', () => {
+  const code = 'x = 1\ny = 2\nx = 1';
+  const { edits, failures } = EditParser.parse(block('x = 1', 'x = 3'), code);
+
+  assert.equal(edits.length, 0);
+  assert.equal(failures[0].reason, 'ambiguous');
+});
+
+test('uses the hunk line number to pick between several matches', () => {
+  const code = 'x = 1\ny = 2\nx = 1';
+  const diff = '```diff\n--- a/f.py\n+++ b/f.py\n@@ -3,1 +3,1 @@\n-x = 1\n+x = 3\n```';
+  const { edits, failures } = EditParser.parse(diff, code);
+
+  assert.deepEqual(failures, []);
+  assert.equal(EditParser.applyEdits(code, edits), 'x = 1\ny = 2\nx = 3');
+});
+
+test('inserts a @@ -0,0 hunk before the first line', () => {
+  const diff = '```diff\n--- a/f.ts\n+++ b/f.ts\n@@ -0,0 +1,1 @@\n+// header\n```';
+
+  const existing = EditParser.parse(diff, 'const a = 1;');
+  assert.equal(EditParser.applyEdits('const a = 1;', existing.edits), '// header\nconst a = 1;');
+
+  const empty = EditParser.parse(diff, '');
+  assert.equal(EditParser.applyEdits('', empty.edits), '// header');
+});
+
+test('takes a lone code block as the whole new file only when allowed', () => {
+  const code = 'const a = 1;\nconst b = 2;';
+  const answer = 'Here is the updated file:\n\n```ts\nconst a = 1;\nconst b = 3;\n```';
+
+  assert.deepEqual(EditParser.parse(answer, code).edits, []);
+
+  const { edits } = EditParser.parse(answer, code, { allowWholeFile: true });
+  assert.equal(edits[0].format, 'whole-file');
+  assert.equal(EditParser.applyEdits(code, edits), 'const a = 1;\nconst b = 3;');
+
+  // Diffs and several blocks are not whole files
+  const twoBlocks = `${answer}\n\n\`\`\`ts\nother();\n\`\`\``;
+  assert.deepEqual(EditParser.parse(twoBlocks, code, { allowWholeFile: true }).edits, []);
+});
+
+test('diff lines starting with ++ or -- inside a hunk are content, not file headers', () => {
+  const code = 'let i = 0;\n-- old comment\ni--;';
+  const diff = [
+    '```diff',
+    '--- a/f.lua',
+    '+++ b/f.lua',
+    '@@ -1,3 +1,3 @@',
+    ' let i = 0;',
+    '--- old comment',
+    '+++ new comment',
+    ' i--;',
+    '--- a/g.lua',
+    '+++ b/g.lua',
+    '@@ -1,1 +1,1 @@',
+    '-x',
+    '+y',
+    '```',
+  ].join('\n');
+
+  const hunks = EditParser.extractUnifiedDiff(diff);
+  assert.equal(hunks.length, 2);
+  assert.equal(hunks[0].fileName, 'f.lua');
+  assert.equal(hunks[0].oldText, 'let i = 0;\n-- old comment\ni--;');
+  assert.equal(hunks[0].newText, 'let i = 0;\n++ new comment\ni--;');
+  assert.equal(hunks[1].fileName, 'g.lua');
+
+  const { edits } = EditParser.parse(diff, code, { fileName: 'f.lua' });
+  assert.equal(EditParser.applyEdits(code, edits), 'let i = 0;\n++ new comment\ni--;');
+});
@@ -0,0 +1,83 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { execFileSync } from 'child_process';
+import { GitError, GitService } from '../gitService';
+
+let repo: string;
+
+const git = (...args: string[]) =>
+  execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], { cwd: repo, encoding: 'utf-8' });
+
+const fails = (code: string) => (error: unknown) => error instanceof GitError && error.code === code;
+
+before(() => {
+  repo = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'git-service-')));
+  git('init', '-q', '-b', 'main');
+  fs.mkdirSync(path.join(repo, 'pages'));
+  // Both names match the glob `[id].tsx`; only the first is meant
+  fs.writeFileSync(path.join(repo, 'pages', '[id].tsx'), 'one\n');
+  fs.writeFileSync(path.join(repo, 'pages', 'i.tsx'), 'other\n');
+  git('add', '-A');
+  git('commit', '-q', '-m', 'first');
+  fs.writeFileSync(path.join(repo, 'pages', '[id].tsx'), 'one\ntwo\n');
+  fs.writeFileSync(path.join(repo, 'pages', 'i.tsx'), 'other\nchanged\n');
+});
+
+after(() => {
+  fs.rmSync(repo, { recursive: true, force: true });
+});
+
+test('rejects refs that could be read as options, ranges or paths without running git', async () => {
+  for (const ref of ['', '--output=/tmp/x', '-p', 'main..HEAD', 'HEAD:pages/i.tsx', 'main; rm -rf /', 'a b']) {
+    await assert.rejects(GitService.verifyRef(repo, ref), fails('INVALID_REF'), ref);
+  }
+});
+
+test('resolves valid refs and reports unknown ones', async () => {
+  const head = git('rev-parse', 'HEAD').trim();
+  assert.equal(await GitService.verifyRef(repo, 'main'), head);
+  assert.equal(await GitService.verifyRef(repo, 'HEAD'), head);
+  await assert.rejects(GitService.verifyRef(repo, 'no-such-branch'), fails('UNKNOWN_REVISION'));
+  await assert.rejects(GitService.verifyRef(repo, 'HEAD~5'), fails('UNKNOWN_REVISION'));
+});
+
+test('treats file names as literal pathspecs, not globs', async () => {
+  const file = path.join(repo, 'pages', '[id].tsx');
+
+  const diff = await GitService.diff(file);
+  assert.match(diff, /\+two/);
+  assert.doesNotMatch(diff, /i\.tsx|changed/);
+
+  const status = await GitService.status(file);
+  assert.deepEqual(status.entries.map((entry) => entry.path), ['pages/[id].tsx']);
+  assert.equal(status.branch, 'main');
+
+  assert.equal(await GitService.show(file), 'one\n');
+  assert.deepEqual((await GitService.log(file)).map((entry) => entry.subject), ['first']);
+});
+
+test('reports files outside a repository and missing directories', async () => {
+  const outside = fs.mkdtempSync(path.join(os.tmpdir(), 'git-outside-'));
+  try {
+    await assert.rejects(GitService.status(path.join(outside, 'a.ts')), fails('NOT_A_REPOSITORY'));
+  } finally {
+    fs.rmSync(outside, { recursive: true, force: true });
+  }
+
+  await assert.rejects(GitService.status(path.join(repo, 'gone', 'deeper', 'a.ts')), fails('PATH_NOT_FOUND'));
+});
+
+test('reports a missing git executable as such', async () => {
+  const savedPath = process.env.PATH;
+  process.env.PATH = path.join(repo, 'no-bin');
+  try {
+    await assert.rejects(GitService.status(path.join(repo, 'pages', 'i.tsx')), (error: unknown) =>
+      fails('GIT_FAILED')(error) && /not installed/.test((error as GitError).message)
+    );
+  } finally {
+    process.env.PATH = savedPath;
+  }
+});
@@ -0,0 +1,55 @@
+import { afterEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { InlineCompletionService } from '../inlineCompletion';
+
+const realFetch = globalThis.fetch;
+afterEach(() => {
+  globalThis.fetch = realFetch;
+});
+
+// Answer every /api/gemini request with `text`, counting the requests
+function serve(text: string) {
+  const calls: unknown[] = [];
+  globalThis.fetch = (async (_url: string, init?: RequestInit) => {
+    calls.push(JSON.parse(String(init?.body)));
+    return new Response(JSON.stringify({ text }), { status: 200 });
+  }) as typeof fetch;
+  return calls;
+}
+
+const service = () => new InlineCompletionService(() => ({ provider: 'mock' }));
+const at = (code: string, column: number) => ({ code, fileName: 'a.ts', line: 1, column });
+
+test('strips code fences and the echoed rest of the line', async () => {
+  serve('```ts\nvalue + 1);\n```');
+  assert.equal(await service().complete(at('print();', 7)), 'value + 1');
+});
+
+test('an empty or whitespace-only answer is no completion', async () => {
+  serve('  \n');
+  assert.equal(await service().complete(at('const a = ', 11)), '');
+  serve('');
+  assert.equal(await service().complete(at('const a = ', 11)), '');
+});
+
+test('typing along a shown completion is served from the cache', async () => {
+  const calls = serve('foo(bar)');
+  const completions = service();
+
+  assert.equal(await completions.complete(at('x = ', 5)), 'foo(bar)');
+  assert.equal(await completions.complete(at('x = fo', 7)), 'o(bar)');
+  assert.equal(await completions.complete(at('x = ', 5)), 'foo(bar)');
+  assert.equal(calls.length, 1);
+
+  // Diverging from the suggestion asks again
+  assert.equal(await completions.complete(at('x = z', 6)), 'foo(bar)');
+  assert.equal(calls.length, 2);
+});
+
+test('requests are sent as completions and nothing is returned without settings', async () => {
+  const calls = serve('1');
+  await service().complete(at('x = ', 5));
+  assert.equal((calls[0] as { action: string }).action, 'complete');
+
+  assert.equal(await new InlineCompletionService(() => null).complete(at('x = ', 5)), '');
+});
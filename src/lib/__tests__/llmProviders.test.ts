@@ -0,0 +1,64 @@
+import { afterEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { LLMProviderError, OllamaProvider } from '../llmProviders';
+
+const realFetch = globalThis.fetch;
+const realWarn = console.warn;
+afterEach(() => {
+  globalThis.fetch = realFetch;
+  console.warn = realWarn;
+});
+
+// Stream the body in the given byte chunks, however they split lines or characters
+function serveChunks(chunks: (string | Uint8Array)[]) {
+  const encoder = new TextEncoder();
+  globalThis.fetch = (async () => new Response(new ReadableStream({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(typeof chunk === 'string' ? encoder.encode(chunk) : chunk));
+      controller.close();
+    },
+  }), { status: 200 })) as typeof fetch;
+}
+
+const line = (content: string, done = false) => `${JSON.stringify({ message: { content }, done })}\n`;
+
+const collect = async () => {
+  const parts: string[] = [];
+  for await (const part of new OllamaProvider().stream({ messages: [{ role: 'user', content: 'hi' }] })) {
+    parts.push(part);
+  }
+  return parts;
+};
+
+test('joins JSON lines split across chunks', async () => {
+  const body = line('Hello') + line(', world') + line('', true);
+  serveChunks([body.slice(0, 10), body.slice(10, 45), body.slice(45)]);
+  assert.deepEqual(await collect(), ['Hello', ', world']);
+});
+
+test('keeps multi-byte characters split across chunks', async () => {
+  const bytes = new TextEncoder().encode(line('你好') + line('', true));
+  serveChunks([bytes.slice(0, 28), bytes.slice(28)]);
+  assert.deepEqual(await collect(), ['你好']);
+});
+
+test('reads a last line without a trailing newline', async () => {
+  serveChunks([line('a'), JSON.stringify({ message: { content: 'b' }, done: true })]);
+  assert.deepEqual(await collect(), ['a', 'b']);
+});
+
+test('skips a malformed line and keeps streaming', async () => {
+  const warnings: unknown[] = [];
+  console.warn = (...args: unknown[]) => warnings.push(args);
+  serveChunks([line('a'), '{"message": {"content": \n', '\r\n', line('b'), line('', true)]);
+
+  assert.deepEqual(await collect(), ['a', 'b']);
+  assert.equal(warnings.length, 1);
+});
+
+test('reports an error line as a provider error', async () => {
+  serveChunks([line('a'), '{"error":"model crashed"}\n']);
+  await assert.rejects(collect(), (error: unknown) =>
+    error instanceof LLMProviderError && error.status === 502 && error.details === 'model crashed'
+  );
+});
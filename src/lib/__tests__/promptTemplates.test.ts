@@ -0,0 +1,77 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PROMPT_TEMPLATES, PromptTemplates } from '../promptTemplates';
+import { WorkspaceConfig } from '../workspaceConfig';
+
+// Just enough of the File System Access API for WorkspaceConfig: nested folders of text files
+type Tree = { [name: string]: string | Tree };
+
+const notFound = () => Object.assign(new Error('not found'), { name: 'NotFoundError' });
+
+const dirHandle = (tree: Tree): FileSystemDirectoryHandle => ({
+  async getDirectoryHandle(name: string) {
+    const entry = tree[name];
+    if (typeof entry !== 'object') throw notFound();
+    return dirHandle(entry);
+  },
+  async getFileHandle(name: string) {
+    const entry = tree[name];
+    if (typeof entry !== 'string') throw notFound();
+    return { getFile: async () => ({ text: async () => entry }) };
+  },
+}) as unknown as FileSystemDirectoryHandle;
+
+test('renders the built-in template and tags it with its version', () => {
+  const text = PromptTemplates.render('action.fix', { code: 'x = 1', prompt: '' });
+  assert.match(text, /x = 1/);
+  assert.doesNotMatch(text, /错误信息/);
+  assert.equal(PromptTemplates.tag('action.fix'), `action.fix@${PROMPT_TEMPLATES['action.fix'].version}`);
+});
+
+test('a workspace override replaces the wording and the version tag', () => {
+  const overrides = { 'action.edit': 'Change {{code}} so that {{prompt}}' };
+  assert.equal(
+    PromptTemplates.render('action.edit', { code: 'a()', prompt: 'it returns 1' }, overrides),
+    'Change a() so that it returns 1'
+  );
+  assert.equal(PromptTemplates.tag('action.edit', overrides), 'action.edit@workspace');
+  // Other templates keep the built-in text
+  assert.equal(PromptTemplates.tag('action.fix', overrides), `action.fix@${PROMPT_TEMPLATES['action.fix'].version}`);
+});
+
+test('keeps only known ids with non-empty text from a request body', () => {
+  assert.deepEqual(
+    PromptTemplates.overrides({ 'action.edit': 'mine', 'action.nope': 'x', 'action.fix': '  ', 'project-rules': 3 }),
+    { 'action.edit': 'mine' }
+  );
+  assert.deepEqual(PromptTemplates.overrides(undefined), {});
+  assert.deepEqual(PromptTemplates.overrides('action.edit'), {});
+});
+
+test('loads .webagent/templates/<id>.md, skipping unknown, empty and oversized files', async () => {
+  const handle = dirHandle({
+    '.webagent': {
+      'rules.md': 'Use tabs',
+      templates: {
+        'action.edit.md': '  Edit {{code}}\n',
+        'builder.explain.md': '   ',
+        'builder.optimize.md': 'x'.repeat(9000),
+        'action.unknown.md': 'ignored',
+      },
+    },
+  });
+
+  const { overrides, errors } = await WorkspaceConfig.loadTemplates(handle);
+  assert.deepEqual(overrides, { 'action.edit': 'Edit {{code}}' });
+  assert.equal(errors.length, 1);
+  assert.match(errors[0], /builder\.optimize\.md/);
+  assert.equal(await WorkspaceConfig.readFile(handle, 'rules.md'), 'Use tabs');
+});
+
+test('a workspace without templates falls back to the built-ins', async () => {
+  assert.deepEqual(await WorkspaceConfig.loadTemplates(dirHandle({})), { overrides: {}, errors: [] });
+  assert.deepEqual(
+    await WorkspaceConfig.loadTemplates(dirHandle({ '.webagent': { 'rules.md': '' } })),
+    { overrides: {}, errors: [] }
+  );
+});
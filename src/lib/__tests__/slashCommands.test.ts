@@ -0,0 +1,100 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SlashCommand } from '@/types/command.types';
+import { BUILTIN_COMMANDS, SlashCommands } from '../slashCommands';
+
+const command = (name: string, template: string, source: SlashCommand['source'] = 'workspace'): SlashCommand => ({
+  name,
+  description: '',
+  mode: 'chat',
+  template,
+  source,
+});
+
+const context = { code: 'const a = 1;', fileName: 'src/a.ts', language: 'typescript' };
+
+test('parses a command name and its arguments', () => {
+  assert.deepEqual(SlashCommands.parse('  /Fix  TypeError: x is undefined '), {
+    name: 'fix',
+    args: 'TypeError: x is undefined',
+    argv: ['TypeError:', 'x', 'is', 'undefined'],
+  });
+  assert.deepEqual(SlashCommands.parse('/doc'), { name: 'doc', args: '', argv: [] });
+  assert.equal(SlashCommands.parse('explain /fix'), null);
+  assert.equal(SlashCommands.parse('/ fix'), null);
+});
+
+test('quoted arguments stay together', () => {
+  assert.deepEqual(
+    SlashCommands.parse(`/test "node test" 'with mocks' fast`)?.argv,
+    ['node test', 'with mocks', 'fast']
+  );
+  assert.deepEqual(SlashCommands.parse('/test ""')?.argv, ['']);
+});
+
+test('finds the command being typed at the caret', () => {
+  assert.equal(SlashCommands.activeQuery('/re', 3), 're');
+  assert.equal(SlashCommands.activeQuery('/review it', 10), null);
+  assert.equal(SlashCommands.activeQuery('see /re', 7), null);
+});
+
+test('suggests prefix matches before inner matches', () => {
+  const names = SlashCommands.suggest('e', BUILTIN_COMMANDS).map((c) => c.name);
+  assert.equal(names[0], 'explain');
+  assert.ok(names.includes('test'));
+  assert.ok(names.indexOf('explain') < names.indexOf('test'));
+});
+
+test('workspace commands override built-ins in place and follow them otherwise', () => {
+  const builtin = [command('explain', 'built-in', 'builtin'), command('fix', 'built-in', 'builtin')];
+  const merged = SlashCommands.merge(builtin, [command('deploy', 'ship it'), command('explain', 'ours')]);
+
+  assert.deepEqual(merged.map((c) => `${c.name}:${c.template}`), ['explain:ours', 'fix:built-in', 'deploy:ship it']);
+  assert.equal(SlashCommands.find('EXPLAIN', merged)?.source, 'workspace');
+});
+
+test('renders placeholders, numbered arguments and leaves unknown ones as typed', () => {
+  const template = command('t', '{{arg1}} then {{arg2}} then [{{arg3}}] in {{fileName}} ({{language}}) {{unknown}}\n{{code}}\n{{diff}}');
+  const invocation = SlashCommands.parse('/t "first one" second')!;
+
+  assert.equal(
+    SlashCommands.render(template, invocation, context),
+    'first one then second then [] in src/a.ts (typescript) {{unknown}}\nconst a = 1;'
+  );
+  assert.equal(
+    SlashCommands.render(command('d', '{{args}}\n{{diff}}'), SlashCommands.parse('/d short')!, { ...context, diff: '+x' }),
+    'short\n+x'
+  );
+});
+
+test('tells which placeholders a template uses', () => {
+  const commitMsg = SlashCommands.find('commit-msg', BUILTIN_COMMANDS)!;
+  assert.equal(SlashCommands.uses(commitMsg, 'diff'), true);
+  assert.equal(SlashCommands.uses(commitMsg, 'code'), false);
+});
+
+test('validates workspace commands, keeping the valid ones', () => {
+  const { commands, errors } = SlashCommands.validate({
+    commands: [
+      { name: 'Deploy', template: 'ship {{args}}', mode: 'edit', requiresArgs: true },
+      { name: '1bad', template: 'x' },
+      { name: 'empty', template: '  ' },
+      { name: 'odd', template: 'x', mode: 'shell' },
+      { name: 'deploy', template: 'again' },
+      null,
+    ],
+  });
+
+  assert.deepEqual(commands, [{
+    name: 'deploy',
+    description: '',
+    args: undefined,
+    requiresArgs: true,
+    mode: 'edit',
+    template: 'ship {{args}}',
+    source: 'workspace',
+  }]);
+  assert.equal(errors.length, 5);
+  assert.match(errors[4], /第 6 项/);
+  assert.equal(SlashCommands.validate({}).errors.length, 1);
+});
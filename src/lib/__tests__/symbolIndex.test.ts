@@ -0,0 +1,142 @@
+import { beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { IndexedFile } from '@/types/symbol.types';
+import { INDEX_VERSION, SymbolIndex } from '../symbolIndex';
+
+// In-memory stand-in for the symbol-index object store; the database is already "upgraded"
+let records: Map<string, IndexedFile>;
+const key = (workspace: string, path: string) => `${workspace}\0${path}`;
+
+const later = (callback: () => void) => setTimeout(callback, 0);
+
+const fakeIndexedDB = {
+  open() {
+    const request: Record<string, unknown> = {};
+    later(() => {
+      request.result = {
+        transaction() {
+          const transaction: Record<string, unknown> = {};
+          later(() => (transaction.oncomplete as () => void)?.());
+          transaction.objectStore = () => ({
+            put: (file: IndexedFile) => records.set(key(file.workspace, file.path), structuredClone(file)),
+            delete: ([workspace, path]: [string, string]) => records.delete(key(workspace, path)),
+            index: () => ({
+              getAll(workspace: string) {
+                const getAll: Record<string, unknown> = {};
+                later(() => {
+                  getAll.result = Array.from(records.values()).filter((file) => file.workspace === workspace);
+                  (getAll.onsuccess as () => void)();
+                });
+                return getAll;
+              },
+            }),
+          });
+          return transaction;
+        },
+      };
+      (request.onsuccess as () => void)();
+    });
+    return request;
+  },
+};
+(globalThis as Record<string, unknown>).indexedDB = fakeIndexedDB;
+
+// File handles whose content and mtime the test can change
+const handle = (content: string, lastModified = 1, size = content.length) => ({
+  getFile: async () => ({ lastModified, size, text: async () => content }),
+}) as unknown as FileSystemFileHandle;
+
+const unreadable = () => ({
+  getFile: async () => {
+    throw new Error('NotReadableError');
+  },
+}) as unknown as FileSystemFileHandle;
+
+const quietly = async <T>(run: () => Promise<T>): Promise<T> => {
+  const warn = console.warn;
+  console.warn = () => {};
+  try {
+    return await run();
+  } finally {
+    console.warn = warn;
+  }
+};
+
+beforeEach(() => {
+  records = new Map();
+});
+
+test('indexes source files and persists them with the index version', async () => {
+  const index = new SymbolIndex('ws');
+  await index.sync(new Map([
+    ['src/a.ts', handle('export function parse() {}')],
+    ['README.md', handle('# readme')],
+  ]));
+
+  assert.deepEqual(index.getFiles().map((file) => file.path), ['src/a.ts']);
+  assert.equal(index.findDefinition('parse')[0]?.filePath, 'src/a.ts');
+  assert.equal(records.get(key('ws', 'src/a.ts'))?.version, INDEX_VERSION);
+});
+
+test('drops a file that grew too large to index', async () => {
+  const index = new SymbolIndex('ws');
+  await index.sync(new Map([['src/a.ts', handle('export const a = 1;')]]));
+  assert.equal(index.getStats().files, 1);
+
+  await index.sync(new Map([['src/a.ts', handle('export const a = 1;', 2, 1024 * 1024)]]));
+  assert.equal(index.getFile('src/a.ts'), undefined);
+  assert.equal(records.has(key('ws', 'src/a.ts')), false);
+});
+
+test('drops a file that became unreadable, on sync and on a single update', async () => {
+  const index = new SymbolIndex('ws');
+  await index.sync(new Map([
+    ['src/a.ts', handle('export const a = 1;')],
+    ['src/b.ts', handle('export const b = 1;')],
+  ]));
+
+  await quietly(() => index.sync(new Map([['src/a.ts', unreadable()], ['src/b.ts', handle('export const b = 1;')]])));
+  assert.deepEqual(index.getFiles().map((file) => file.path), ['src/b.ts']);
+
+  await quietly(() => index.updateFile('src/b.ts', unreadable()));
+  assert.equal(index.getStats().files, 0);
+  assert.equal(records.size, 0);
+});
+
+test('keeps unchanged files without parsing them again', async () => {
+  const index = new SymbolIndex('ws');
+  await index.sync(new Map([['src/a.ts', handle('export const a = 1;')]]));
+  const first = index.getFile('src/a.ts');
+
+  await index.sync(new Map([['src/a.ts', handle('export const a = 1;')]]));
+  assert.equal(index.getFile('src/a.ts'), first);
+});
+
+test('ignores records from another index version and parses those files again', async () => {
+  const stale: IndexedFile = {
+    workspace: 'ws',
+    path: 'src/old.ts',
+    version: INDEX_VERSION - 1,
+    lastModified: 1,
+    size: 19,
+    context: { symbols: [], imports: [], exports: ['export const old = 1;'], dependencies: [], language: 'typescript' },
+  };
+  records.set(key('ws', stale.path), stale);
+  records.set(key('ws', 'src/gone.ts'), { ...stale, path: 'src/gone.ts' });
+
+  const index = new SymbolIndex('ws');
+  await index.load();
+  assert.equal(index.getStats().files, 0);
+  assert.equal(records.size, 0);
+
+  await index.sync(new Map([['src/old.ts', handle('export const old = 1;')]]));
+  assert.deepEqual(index.getFile('src/old.ts')?.context.exports, ['old']);
+});
+
+test('restores current records without re-parsing them', async () => {
+  await new SymbolIndex('ws').sync(new Map([['src/a.ts', handle('export const a = 1;')]]));
+
+  const restored = new SymbolIndex('ws');
+  await restored.load();
+  assert.equal(restored.listExports('src/a')[0]?.name, 'a');
+});
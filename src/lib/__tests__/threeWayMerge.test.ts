@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CONFLICT_END, CONFLICT_SEPARATOR, CONFLICT_START, ThreeWayMerge } from '../threeWayMerge';
+
+const base = 'one\ntwo\nthree\nfour\nfive\n';
+
+test('takes changes made on only one side', () => {
+  assert.deepEqual(ThreeWayMerge.merge(base, base, 'ONE\n' + base.slice(4)), {
+    content: 'ONE\ntwo\nthree\nfour\nfive\n',
+    conflicts: 0,
+  });
+});
+
+test('combines changes to separate regions', () => {
+  const ours = 'ONE\ntwo\nthree\nfour\nfive\n';
+  const theirs = 'one\ntwo\nthree\nfour\nFIVE\n';
+
+  assert.deepEqual(ThreeWayMerge.merge(base, ours, theirs), {
+    content: 'ONE\ntwo\nthree\nfour\nFIVE\n',
+    conflicts: 0,
+  });
+});
+
+test('wraps overlapping changes in conflict markers', () => {
+  const ours = 'one\nTWO (buffer)\nthree\nfour\nfive\n';
+  const theirs = 'one\nTWO (disk)\nthree\nfour\nfive\n';
+  const result = ThreeWayMerge.merge(base, ours, theirs);
+
+  assert.equal(result.conflicts, 1);
+  assert.equal(
+    result.content,
+    `one\n${CONFLICT_START}\nTWO (buffer)\n${CONFLICT_SEPARATOR}\nTWO (disk)\n${CONFLICT_END}\nthree\nfour\nfive\n`
+  );
+  assert.equal(ThreeWayMerge.countConflicts(result.content), 1);
+});
+
+test('identical changes on both sides are not a conflict', () => {
+  const both = 'one\n2\nthree\nfour\nfive\n';
+  assert.deepEqual(ThreeWayMerge.merge(base, both, both), { content: both, conflicts: 0 });
+});
@@ -0,0 +1,104 @@
+import { before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CodeSymbol } from '../codeParser';
+import { TSAstParser } from '../tsAstParser';
+
+before(async () => {
+  assert.equal(await TSAstParser.load(), true);
+});
+
+const parse = (code: string, fileName = 'file.ts') => {
+  const context = TSAstParser.parse(code, 'typescript', fileName);
+  assert.ok(context);
+  return context;
+};
+
+const find = (symbols: CodeSymbol[], name: string, scope?: string) =>
+  symbols.find((s) => s.name === name && s.scope === scope);
+
+test('arrow functions and function expressions become functions spanning their body', () => {
+  const { symbols, exports } = parse([
+    'export const add = (a: number, b: number) => {',
+    '  const inner = () => a;',
+    '  return inner() + b;',
+    '};',
+    'const twice = function (n: number) { return n * 2; };',
+    'const plain = 1;',
+  ].join('\n'));
+
+  assert.deepEqual(find(symbols, 'add'), {
+    name: 'add',
+    type: 'function',
+    startLine: 1,
+    endLine: 4,
+    content: 'export const add = (a: number, b: number) => {',
+    scope: undefined,
+    exported: true,
+  });
+  assert.equal(find(symbols, 'inner', 'add')?.type, 'function');
+  assert.equal(find(symbols, 'twice')?.type, 'function');
+  assert.equal(find(symbols, 'plain')?.type, 'variable');
+  assert.deepEqual(exports, ['add']);
+});
+
+test('class members are scoped to the class', () => {
+  const { symbols } = parse([
+    'class Counter {',
+    '  private count = 0;',
+    '  constructor(start: number) { this.count = start; }',
+    '  get value() { return this.count; }',
+    '  increment = () => { this.count++; };',
+    '  reset() {',
+    '    this.count = 0;',
+    '  }',
+    '}',
+  ].join('\n'));
+
+  assert.equal(find(symbols, 'Counter')?.type, 'class');
+  assert.equal(find(symbols, 'count', 'Counter')?.type, 'property');
+  assert.equal(find(symbols, 'constructor', 'Counter')?.type, 'method');
+  assert.equal(find(symbols, 'value', 'Counter')?.type, 'method');
+  assert.equal(find(symbols, 'increment', 'Counter')?.type, 'method');
+  const reset = find(symbols, 'reset', 'Counter');
+  assert.equal(reset?.startLine, 6);
+  assert.equal(reset?.endLine, 8);
+});
+
+test('re-exports record their names and modules', () => {
+  const { exports, dependencies, symbols } = parse([
+    "export { a, b as c } from './letters';",
+    "export * from './all';",
+    "export * as ns from './ns';",
+    'const local = 1;',
+    'export { local as renamed };',
+  ].join('\n'));
+
+  assert.deepEqual(exports, ['a', 'c', "* from './all'", 'ns', 'renamed']);
+  assert.deepEqual(dependencies, ['./letters', './all', './ns']);
+  assert.equal(find(symbols, 'local')?.exported, undefined);
+});
+
+test('default exports are recorded as default', () => {
+  assert.deepEqual(parse('export default function main() {}').exports, ['default']);
+  assert.deepEqual(parse('export default class {}').exports, ['default']);
+
+  const arrow = parse('export default () => {\n  return 1;\n};');
+  assert.deepEqual(arrow.exports, ['default']);
+  assert.equal(find(arrow.symbols, 'default')?.type, 'function');
+  assert.equal(find(arrow.symbols, 'default')?.endLine, 3);
+
+  assert.deepEqual(parse('const value = 1;\nexport default value;').exports, ['default']);
+});
+
+test('braces inside strings and templates do not end blocks early', () => {
+  const { symbols } = parse([
+    'function render() {',
+    "  const open = '{';",
+    '  return `${open}}}`;',
+    '}',
+    'function after() {}',
+  ].join('\n'));
+
+  assert.equal(find(symbols, 'render')?.endLine, 4);
+  assert.equal(find(symbols, 'after')?.startLine, 5);
+});
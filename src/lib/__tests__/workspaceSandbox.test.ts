@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  WorkspaceAccessError,
+  assertFileVersion,
+  getFileVersion,
+  resolveWorkspacePath,
+  writeWorkspaceFile,
+} from '../workspaceSandbox';
+
+let root: string;
+let outside: string;
+
+const rejects = (code: string) => (error: unknown) =>
+  error instanceof WorkspaceAccessError && error.code === code;
+
+beforeEach(() => {
+  const base = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'sandbox-')));
+  root = path.join(base, 'ws');
+  outside = path.join(base, 'outside');
+  fs.mkdirSync(path.join(root, 'src'), { recursive: true });
+  fs.mkdirSync(outside);
+  fs.writeFileSync(path.join(root, 'src', 'a.ts'), 'a');
+  fs.writeFileSync(path.join(outside, 'secret.ts'), 'secret');
+  process.env.WORKSPACE_ROOTS = root;
+});
+
+afterEach(() => {
+  fs.rmSync(path.dirname(root), { recursive: true, force: true });
+  delete process.env.WORKSPACE_ROOTS;
+});
+
+test('resolves relative and absolute paths inside the root', () => {
+  assert.equal(resolveWorkspacePath('src/a.ts').resolved, path.join(root, 'src', 'a.ts'));
+  assert.equal(resolveWorkspacePath(path.join(root, 'src', 'a.ts')).root, root);
+});
+
+test('rejects .. traversal and absolute paths outside the root', () => {
+  assert.throws(() => resolveWorkspacePath('../outside/secret.ts'), rejects('OUTSIDE_WORKSPACE'));
+  assert.throws(() => resolveWorkspacePath('src/../../outside/secret.ts'), rejects('OUTSIDE_WORKSPACE'));
+  assert.throws(() => resolveWorkspacePath(path.join(outside, 'secret.ts')), rejects('OUTSIDE_WORKSPACE'));
+  assert.throws(() => resolveWorkspacePath('src/a.ts\0'), rejects('INVALID_PATH'));
+});
+
+test('rejects symlinks that point outside the root', () => {
+  fs.symlinkSync(path.join(outside, 'secret.ts'), path.join(root, 'link.ts'));
+  fs.symlinkSync(outside, path.join(root, 'linked-dir'));
+
+  assert.throws(() => resolveWorkspacePath('link.ts'), rejects('OUTSIDE_WORKSPACE'));
+  assert.throws(() => resolveWorkspacePath('linked-dir/new.ts', { mustExist: false }), rejects('OUTSIDE_WORKSPACE'));
+});
+
+test('rejects writes through a dangling symlink', () => {
+  const target = path.join(outside, 'created.ts');
+  fs.symlinkSync(target, path.join(root, 'evil.ts'));
+
+  assert.throws(() => resolveWorkspacePath('evil.ts', { mustExist: false }), rejects('OUTSIDE_WORKSPACE'));
+  assert.throws(() => writeWorkspaceFile(path.join(root, 'evil.ts'), 'x'), rejects('OUTSIDE_WORKSPACE'));
+  assert.equal(fs.existsSync(target), false);
+});
+
+test('allows new files in existing directories only', () => {
+  const { resolved } = resolveWorkspacePath('src/new.ts', { mustExist: false });
+  writeWorkspaceFile(resolved, 'new');
+  assert.equal(fs.readFileSync(path.join(root, 'src', 'new.ts'), 'utf-8'), 'new');
+
+  assert.throws(() => resolveWorkspacePath('src/new.ts.missing'), rejects('NOT_FOUND'));
+  assert.throws(() => resolveWorkspacePath('missing/new.ts', { mustExist: false }), rejects('NOT_FOUND'));
+});
+
+test('conditional writes conflict when the hash or mtime no longer match', () => {
+  const file = path.join(root, 'src', 'a.ts');
+  const version = getFileVersion(file);
+
+  assert.doesNotThrow(() => assertFileVersion(file, { expectedHash: version.hash }));
+  assert.doesNotThrow(() => assertFileVersion(file, { expectedMtime: version.mtime }));
+  assert.doesNotThrow(() => assertFileVersion(file, {}));
+
+  fs.writeFileSync(file, 'changed');
+  fs.utimesSync(file, new Date(), new Date(Date.now() + 10000));
+  assert.throws(() => assertFileVersion(file, { expectedHash: version.hash }), (error: unknown) =>
+    rejects('CONFLICT')(error) && (error as WorkspaceAccessError).status === 409
+  );
+  assert.throws(() => assertFileVersion(file, { expectedMtime: version.mtime }), rejects('CONFLICT'));
+
+  fs.rmSync(file);
+  assert.throws(() => assertFileVersion(file, { expectedHash: version.hash }), rejects('CONFLICT'));
+});
+
+test('the hash wins over the mtime: touching an unchanged file is not a conflict', () => {
+  const file = path.join(root, 'src', 'a.ts');
+  const version = getFileVersion(file);
+  fs.utimesSync(file, new Date(), new Date(Date.now() + 10000));
+
+  assert.doesNotThrow(() => assertFileVersion(file, { expectedHash: version.hash, expectedMtime: version.mtime }));
+});
@@ -0,0 +1,149 @@
+/**
+ * Agent Loop - Lets the model explore the workspace through tool calls
+ * Each turn the model replies with one ```tool block; the observation is fed back
+ * until it calls `finish`, answers without a tool call, or the step budget runs out
+ */
+
+import { AgentToolbox } from './agentTools';
+import type { LLMProvider } from './llmProviders';
+import { LLMMessage } from '@/types/llm.types';
+import { AgentResult, AgentStep, AgentToolCall, AgentWorkspace } from '@/types/agent.types';
+
+export type AgentCompletion = (messages: LLMMessage[], signal?: AbortSignal) => Promise<string>;
+
+export interface AgentRunOptions {
+  task: string;
+  workspace: AgentWorkspace;
+  complete: AgentCompletion;
+  maxSteps?: number;
+  activeFile?: string;
+  signal?: AbortSignal;
+  onStep?: (step: AgentStep) => void;
+}
+
+export const DEFAULT_AGENT_STEPS = 8;
+
+const TOOL_BLOCK_PATTERN = /```tool\s*\n([\s\S]*?)```/;
+
+/**
+ * Run the tool-calling loop
+ */
+export class AgentLoop {
+  /**
+   * Run until the model finishes or the step budget is spent.
+   * Returns the toolbox too so callers can review proposed edits.
+   */
+  static async run(options: AgentRunOptions): Promise<AgentResult & { toolbox: AgentToolbox }> {
+    const { task, workspace, complete, signal, onStep } = options;
+    const maxSteps = Math.max(1, options.maxSteps ?? DEFAULT_AGENT_STEPS);
+    const toolbox = new AgentToolbox(workspace);
+    const steps: AgentStep[] = [];
+    const messages: LLMMessage[] = [
+      { role: 'system', content: this.buildSystemPrompt(maxSteps) },
+      { role: 'user', content: this.buildTaskPrompt(task, options.activeFile) },
+    ];
+
+    const record = (step: AgentStep) => {
+      steps.push(step);
+      onStep?.(step);
+    };
+
+    for (let index = 1; index <= maxSteps; index++) {
+      if (signal?.aborted) {
+        return { status: 'aborted', answer: '', steps, messages, toolbox };
+      }
+
+      const reply = await complete(messages, signal);
+      messages.push({ role: 'assistant', content: reply });
+
+      const { thought, call, error } = this.parseReply(reply);
+
+      if (error) {
+        record({ index, thought, observation: error, error: true });
+        messages.push({ role: 'user', content: `Error: ${error}` });
+        continue;
+      }
+
+      // Plain text or an explicit finish ends the run
+      if (!call || call.tool === 'finish') {
+        const answer = typeof call?.args.answer === 'string' ? call.args.answer : thought;
+        record({ index, thought: call ? thought : undefined, call });
+        return { status: 'finished', answer, steps, messages, toolbox };
+      }
+
+      let observation: string;
+      let failed = false;
+      try {
+        observation = await toolbox.run(call);
+      } catch (toolError) {
+        observation = `Error: ${(toolError as Error).message}`;
+        failed = true;
+      }
+
+      record({ index, thought, call, observation, error: failed || undefined });
+      messages.push({ role: 'user', content: `Observation from ${call.tool}:\n${observation}` });
+    }
+
+    return {
+      status: 'budget-exhausted',
+      answer: `Stopped after ${maxSteps} steps without finishing.`,
+      steps,
+      messages,
+      toolbox,
+    };
+  }
+
+  /**
+   * Completion function backed directly by a provider (e.g. a scripted MockProvider)
+   */
+  static completeWith(provider: LLMProvider, model?: string): AgentCompletion {
+    return async (messages, signal) => (await provider.generate({ messages, model }, signal)).text;
+  }
+
+  /**
+   * Split a reply into free text and at most one tool call
+   */
+  static parseReply(reply: string): { thought: string; call?: AgentToolCall; error?: string } {
+    const match = TOOL_BLOCK_PATTERN.exec(reply);
+    const thought = reply.replace(TOOL_BLOCK_PATTERN, '').trim();
+    if (!match) return { thought };
+
+    let parsed;
+    try {
+      parsed = JSON.parse(match[1]);
+    } catch (error) {
+      return { thought, error: `Tool call is not valid JSON: ${(error as Error).message}` };
+    }
+
+    if (!AgentToolbox.isToolName(parsed?.tool)) {
+      return { thought, error: `Unknown tool: ${parsed?.tool}` };
+    }
+
+    return { thought, call: { tool: parsed.tool, args: parsed.args ?? {} } };
+  }
+
+  private static buildSystemPrompt(maxSteps: number): string {
+    return `You are a coding agent working inside the user's workspace. You cannot see any file until you read it.
+
+## TOOLS:
+
+${AgentToolbox.describe()}
+
+## PROTOCOL:
+
+1. Call exactly ONE tool per reply using a fenced block:
+
+\`\`\`tool
+{ "tool": "read_file", "args": { "path": "src/app.ts" } }
+\`\`\`
+
+2. You may write a short thought before the block; the tool result comes back as the next message
+3. Use propose_edit for every change; copy the search text exactly from read_file output (without line numbers)
+4. You have at most ${maxSteps} steps. Call finish with a concise answer as soon as you are done
+`;
+  }
+
+  private static buildTaskPrompt(task: string, activeFile?: string): string {
+    return activeFile ? `${task}\n\n(The user currently has ${activeFile} open.)` : task;
+  }
+}
@@ -0,0 +1,234 @@
+/**
+ * Agent Tools - Workspace tools the agent loop exposes to the model
+ * list_dir, read_file, grep and propose_edit run against an AgentWorkspace;
+ * proposed edits are collected for review instead of being written directly
+ */
+
+import { EditParser, ParsedHunk } from './editParser';
+import { AgentToolCall, AgentToolName, AgentWorkspace } from '@/types/agent.types';
+
+interface ToolSpec {
+  name: AgentToolName;
+  description: string;
+  args: string;
+}
+
+const TOOL_SPECS: ToolSpec[] = [
+  {
+    name: 'list_dir',
+    description: 'List files and folders directly under a directory ("" for the workspace root)',
+    args: '{ "path": string }',
+  },
+  {
+    name: 'read_file',
+    description: 'Read a file with line numbers; optionally a 1-indexed inclusive line range',
+    args: '{ "path": string, "startLine"?: number, "endLine"?: number }',
+  },
+  {
+    name: 'grep',
+    description: 'Search file contents with a JavaScript regular expression, optionally under a path prefix',
+    args: '{ "pattern": string, "path"?: string }',
+  },
+  {
+    name: 'propose_edit',
+    description: 'Propose replacing an exact snippet of a file; the user reviews all proposals at the end',
+    args: '{ "path": string, "search": string, "replace": string, "description"?: string }',
+  },
+  {
+    name: 'finish',
+    description: 'Stop and give the final answer to the user',
+    args: '{ "answer": string }',
+  },
+];
+
+const MAX_OBSERVATION_CHARS = 8000;
+const MAX_GREP_MATCHES = 50;
+// grep runs model-written regexes on the main thread, so both the pattern and the work are bounded
+const MAX_GREP_PATTERN = 200;
+const MAX_GREP_LINE = 1000;
+const GREP_TIME_BUDGET_MS = 1000;
+// A quantified group that itself contains a quantifier, e.g. (a+)+ or (\w*)*: catastrophic backtracking
+const NESTED_QUANTIFIER = /\((?:[^()\\]|\\.)*[+*}](?:[^()\\]|\\.)*\)[+*{]/;
+
+/**
+ * Executes tool calls for one agent run and keeps its proposed edits
+ */
+export class AgentToolbox {
+  readonly proposals: ParsedHunk[] = [];
+
+  constructor(private workspace: AgentWorkspace) {}
+
+  /**
+   * Tool list in the format used by the agent system prompt
+   */
+  static describe(): string {
+    return TOOL_SPECS.map((spec) => `- ${spec.name} ${spec.args}: ${spec.description}`).join('\n');
+  }
+
+  static isToolName(name: unknown): name is AgentToolName {
+    return TOOL_SPECS.some((spec) => spec.name === name);
+  }
+
+  /**
+   * Run a tool and return its observation. Throws on invalid arguments or missing files.
+   */
+  async run(call: AgentToolCall): Promise<string> {
+    let output: string;
+    switch (call.tool) {
+      case 'list_dir':
+        output = this.listDir(this.optionalString(call.args.path));
+        break;
+      case 'read_file':
+        output = await this.readFile(
+          this.requireString(call.args.path, 'path'),
+          this.optionalNumber(call.args.startLine),
+          this.optionalNumber(call.args.endLine)
+        );
+        break;
+      case 'grep':
+        output = await this.grep(this.requireString(call.args.pattern, 'pattern'), this.optionalString(call.args.path));
+        break;
+      case 'propose_edit':
+        output = await this.proposeEdit(
+          this.requireString(call.args.path, 'path'),
+          this.requireString(call.args.search, 'search'),
+          typeof call.args.replace === 'string' ? call.args.replace : '',
+          this.optionalString(call.args.description)
+        );
+        break;
+      default:
+        throw new Error(`Unknown tool: ${call.tool}`);
+    }
+
+    return output.length > MAX_OBSERVATION_CHARS
+      ? `${output.slice(0, MAX_OBSERVATION_CHARS)}\n... (truncated)`
+      : output;
+  }
+
+  private listDir(dir: string = ''): string {
+    const prefix = dir.replace(/^\.?\/+|\/+$/g, '');
+    const entries = new Set<string>();
+
+    this.workspace.listFiles().forEach((path) => {
+      if (prefix && !path.startsWith(`${prefix}/`)) return;
+      const rest = prefix ? path.slice(prefix.length + 1) : path;
+      const [head, ...tail] = rest.split('/');
+      entries.add(tail.length > 0 ? `${head}/` : head);
+    });
+
+    if (entries.size === 0) throw new Error(`Directory not found or empty: ${dir || '/'}`);
+    return Array.from(entries).sort().join('\n');
+  }
+
+  private async readFile(path: string, startLine?: number, endLine?: number): Promise<string> {
+    const lines = (await this.read(path)).split('\n');
+    const start = Math.max(1, startLine ?? 1);
+    const end = Math.min(lines.length, endLine ?? lines.length);
+
+    return lines
+      .slice(start - 1, end)
+      .map((line, i) => `${String(start + i).padStart(4)} | ${line}`)
+      .join('\n');
+  }
+
+  private async grep(pattern: string, dir?: string): Promise<string> {
+    if (pattern.length > MAX_GREP_PATTERN) {
+      throw new Error(`Pattern is longer than ${MAX_GREP_PATTERN} characters`);
+    }
+    if (NESTED_QUANTIFIER.test(pattern)) {
+      throw new Error('Pattern has nested quantifiers like (a+)+; use a simpler pattern');
+    }
+
+    let regex: RegExp;
+    try {
+      regex = new RegExp(pattern);
+    } catch (error) {
+      throw new Error(`Invalid pattern: ${(error as Error).message}`);
+    }
+
+    const prefix = dir?.replace(/^\.?\/+|\/+$/g, '');
+    const matches: string[] = [];
+    const deadline = Date.now() + GREP_TIME_BUDGET_MS;
+    let timedOut = false;
+
+    for (const path of this.workspace.listFiles()) {
+      if (prefix && path !== prefix && !path.startsWith(`${prefix}/`)) continue;
+      const content = await this.workspace.readFile(path).catch(() => '');
+      content.split('\n').forEach((line, i) => {
+        if (matches.length < MAX_GREP_MATCHES && regex.test(line.slice(0, MAX_GREP_LINE))) {
+          matches.push(`${path}:${i + 1}: ${line.trim()}`);
+        }
+      });
+      if (matches.length >= MAX_GREP_MATCHES) break;
+      if (Date.now() > deadline) {
+        timedOut = true;
+        break;
+      }
+    }
+
+    if (timedOut) {
+      const found = matches.length > 0 ? `${matches.join('\n')}\n` : '';
+      return `${found}... (search stopped after ${GREP_TIME_BUDGET_MS / 1000}s; narrow the path or pattern)`;
+    }
+    if (matches.length === 0) return 'No matches';
+    return matches.length >= MAX_GREP_MATCHES
+      ? `${matches.join('\n')}\n... (first ${MAX_GREP_MATCHES} matches)`
+      : matches.join('\n');
+  }
+
+  private async proposeEdit(path: string, search: string, replace: string, description?: string): Promise<string> {
+    const content = await this.read(path);
+    const location = EditParser.locate(content.split('\n'), search);
+    if (!location) {
+      throw new Error(`Search text not found in ${path}; read the file and copy the exact lines`);
+    }
+    if (location.candidates > 1) {
+      throw new Error(`Search text matches ${location.candidates} places in ${path}; include more surrounding lines`);
+    }
+
+    // Store the workspace path, which is what callers look files up by
+    const fileName = AgentToolbox.normalize(path);
+    this.proposals.push({ format: 'search-replace', oldText: search, newText: replace, fileName, description });
+    return `Proposed edit #${this.proposals.length} for ${fileName} at lines ${location.startLine}-${location.endLine}`;
+  }
+
+  private async read(path: string): Promise<string> {
+    const normalized = AgentToolbox.normalize(path);
+    if (!this.workspace.listFiles().includes(normalized)) {
+      throw new Error(`File not found: ${path}`);
+    }
+    return this.workspace.readFile(normalized);
+  }
+
+  // Workspace paths are relative without a leading "./" or "/"
+  private static normalize(path: string): string {
+    return path.replace(/^\.?\/+/, '');
+  }
+
+  private requireString(value: unknown, name: string): string {
+    if (typeof value !== 'string' || value === '') throw new Error(`Missing argument: ${name}`);
+    return value;
+  }
+
+  private optionalString(value: unknown): string | undefined {
+    return typeof value === 'string' ? value : undefined;
+  }
+
+  private optionalNumber(value: unknown): number | undefined {
+    return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+  }
+}
+
+/**
+ * Workspace backed by the File System Access handles collected for the file tree
+ */
+export function createHandleWorkspace(handles: Map<string, FileSystemFileHandle>): AgentWorkspace {
+  return {
+    listFiles: () => Array.from(handles.keys()),
+    readFile: async (path) => {
+      const handle = handles.get(path);
+      if (!handle) throw new Error(`File not found: ${path}`);
+      return (await handle.getFile()).text();
+    },
+  };
+}
@@ -0,0 +1,141 @@
+/**
+ * AI Client - Browser-side helpers for calling /api/gemini
+ * Reads the SSE stream and dispatches deltas and completed edits as they arrive
+ */
+
+import { HunkFailure, TextEdit } from '@/types/editor.types';
+import { LLMProviderId, LLMStreamEvent } from '@/types/llm.types';
+
+export interface StreamResult {
+  text: string;
+  edits?: TextEdit[];
+  failures?: HunkFailure[];
+  provider?: LLMProviderId;
+  model?: string;
+  template?: string;        // Built-in prompt template used, as `id@version`
+  aborted: boolean;
+}
+
+export interface StreamHandlers {
+  onDelta?: (chunk: string, fullText: string) => void;
+  onEdit?: (edit: TextEdit) => void;
+  signal?: AbortSignal;
+}
+
+export interface AIResponse {
+  text: string;
+  edits?: TextEdit[];
+  failures?: HunkFailure[];
+  provider: LLMProviderId;
+  model: string;
+  template?: string;
+}
+
+/**
+ * POST a non-streaming request and return the parsed JSON response
+ */
+export async function requestAIResponse(
+  body: Record<string, unknown>,
+  signal?: AbortSignal
+): Promise<AIResponse> {
+  const response = await fetch('/api/gemini', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ ...body, stream: false }),
+    signal,
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || 'API request failed');
+  }
+  return data as AIResponse;
+}
+
+/**
+ * POST a request with `stream: true` and resolve once the stream ends.
+ * If the caller aborts, resolves with the text received so far; a stream that ends
+ * early for any other reason rejects.
+ */
+export async function streamAIResponse(
+  body: Record<string, unknown>,
+  { onDelta, onEdit, signal }: StreamHandlers = {}
+): Promise<StreamResult> {
+  let response: Response;
+  try {
+    response = await fetch('/api/gemini', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ ...body, stream: true }),
+      signal,
+    });
+  } catch (error) {
+    // Stopped before the response started
+    if (signal?.aborted) return { text: '', aborted: true };
+    throw error;
+  }
+
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'API request failed');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+  let result: StreamResult | null = null;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      // SSE events are separated by a blank line
+      let boundary;
+      while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+        const raw = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        if (!raw.startsWith('data:')) continue;
+
+        const event = JSON.parse(raw.slice(5).trim()) as LLMStreamEvent;
+        switch (event.type) {
+          case 'delta':
+            text += event.text;
+            onDelta?.(event.text, text);
+            break;
+          case 'edit':
+            onEdit?.(event.edit);
+            break;
+          case 'done':
+            result = {
+              text: event.text,
+              edits: event.edits,
+              failures: event.failures,
+              provider: event.provider,
+              model: event.model,
+              template: event.template,
+              aborted: false,
+            };
+            break;
+          case 'error':
+            throw new Error(event.error);
+        }
+      }
+    }
+  } catch (error) {
+    if (!signal?.aborted) throw error;
+  } finally {
+    reader.releaseLock();
+  }
+
+  if (result) return result;
+  if (signal?.aborted) return { text, aborted: true };
+  // The stream ended without a `done` event: the connection dropped
+  throw new Error('Connection closed before the response finished');
+}
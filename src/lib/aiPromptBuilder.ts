@@ -4,7 +4,14 @@
  */
 
 import { CodeParser } from './codeParser';
-import { PendingEdit } from '@/types/editor.types';
+import { ContextPacker } from './contextPacker';
+import { EditParser } from './editParser';
+import { PromptTemplates } from './promptTemplates';
+import { DEFAULT_PROMPT_TOKENS, TokenBudget } from './tokenBudget';
+import type { SymbolIndex } from './symbolIndex';
+import { BuiltPrompt, ContextChunk } from '@/types/context.types';
+import { HunkFailure, PendingEdit } from '@/types/editor.types';
+import { PromptTemplateOverrides } from '@/types/prompt.types';
 
 export interface EditRequest {
   instruction: string;
@@ -12,6 +19,15 @@ export interface EditRequest {
   fileName: string;
   cursorPosition?: { line: number; column: number };
   selectedText?: string;
+  budget?: number;                  // Prompt tokens for code context (TokenBudget.forModel)
+  symbolIndex?: SymbolIndex | null; // Looks up definitions the edited code refers to
+}
+
+export interface CompletionRequest {
+  code: string;
+  fileName: string;
+  line: number;           // 1-indexed cursor line
+  column: number;         // 1-indexed cursor column
 }
 
 export interface EditResponse {
@@ -42,18 +58,43 @@ export interface UnifiedDiff {
 /**
  * Build optimized prompts for AI code editing
  */
+// Code around the cursor sent with a completion request
+const COMPLETION_PREFIX_LINES = 60;
+const COMPLETION_SUFFIX_LINES = 20;
+export const COMPLETION_CURSOR = '<CURSOR>';
+
 export class AIPromptBuilder {
   /**
-   * Build a comprehensive prompt with context
+   * Build a comprehensive prompt with context, packed into the request's token budget
    */
-  static buildEditPrompt(request: EditRequest): string {
+  static buildEditPrompt(request: EditRequest): BuiltPrompt {
     const { instruction, code, fileName, cursorPosition, selectedText } = request;
 
     // Extract language from filename
     const language = this.getLanguage(fileName);
 
     // Parse code to get context
-    const context = CodeParser.parse(code, language);
+    const context = CodeParser.parse(code, language, fileName);
+
+    // Code context gets what the instruction leaves of the budget; the whole file is sent
+    // when it fits, otherwise the most relevant excerpts
+    const budget = Math.max(0, (request.budget ?? DEFAULT_PROMPT_TOKENS) - TokenBudget.estimate(instruction));
+    const fileTokens = TokenBudget.estimate(code);
+    const wholeFile = fileTokens + TokenBudget.estimate(selectedText ?? '') <= budget;
+    const focus = { code, fileName, context, cursorLine: cursorPosition?.line, selectedText, symbolIndex: request.symbolIndex };
+    const candidates = ContextPacker.editChunks(focus, wholeFile);
+    if (wholeFile && cursorPosition) {
+      candidates.push({
+        kind: 'surrounding',
+        label: `${fileName}:${cursorPosition.line}`,
+        content: CodeParser.extractContext(code, cursorPosition.line, language, 15, fileName),
+        priority: 2,
+      });
+    }
+    const { chunks, report } = ContextPacker.pack(candidates, budget);
+    if (!wholeFile) report.dropped.unshift({ kind: 'file', label: fileName, tokens: fileTokens });
+    const chunkOf = (kind: ContextChunk['kind']) => chunks.find((chunk) => chunk.kind === kind);
+    const block = (chunk: ContextChunk) => `### ${chunk.label}\n\`\`\`${language}\n${chunk.content}\n\`\`\`\n`;
 
     // Build the prompt
     let prompt = `You are an expert code editor assistant. Your task is to modify code according to user instructions.
@@ -79,18 +120,31 @@ export class AIPromptBuilder {
       prompt += `\n**Cursor Position**: Line ${cursorPosition.line}, Column ${cursorPosition.column}`;
     }
 
-    if (selectedText) {
-      prompt += `\n\n**Selected Code**:\n\`\`\`${language}\n${selectedText}\n\`\`\`\n`;
+    const selection = chunkOf('selection');
+    if (selection) {
+      prompt += `\n\n**Selected Code**:\n\`\`\`${language}\n${selection.content}\n\`\`\`\n`;
     }
 
-    // Add relevant code context
-    if (cursorPosition) {
-      const contextCode = CodeParser.extractContext(code, cursorPosition.line, language, 15);
-      prompt += `\n\n**Surrounding Context**:\n${contextCode}\n`;
+    if (wholeFile) {
+      // Add relevant code context
+      const surrounding = chunkOf('surrounding');
+      if (surrounding) {
+        prompt += `\n\n**Surrounding Context**:\n${surrounding.content}\n`;
+      }
+
+      // Add the full code
+      prompt += `\n## CURRENT CODE:\n\n\`\`\`${language}\n${chunkOf('file')?.content ?? code}\n\`\`\`\n`;
+    } else {
+      const excerpts = chunks.filter((chunk) => chunk.kind !== 'selection' && chunk.kind !== 'definition');
+      prompt += `\n## CODE EXCERPTS:\n\nThe file is too large to include in full (about ${fileTokens} tokens). These excerpts are exact copies of the current code, labelled with their line ranges; copy oldCode from them.\n\n`;
+      prompt += excerpts.map(block).join('\n');
     }
 
-    // Add the full code
-    prompt += `\n## CURRENT CODE:\n\n\`\`\`${language}\n${code}\n\`\`\`\n`;
+    // Definitions the edited code uses, so signatures and types do not have to be guessed
+    const definitions = chunks.filter((chunk) => chunk.kind === 'definition');
+    if (definitions.length > 0) {
+      prompt += `\n## REFERENCED DEFINITIONS (read-only):\n\n${definitions.map(block).join('\n')}`;
+    }
 
     // Add user instruction
     prompt += `\n## USER INSTRUCTION:\n\n${instruction}\n`;
@@ -153,48 +207,36 @@ If changing line 10 from \`const x = 1;\` to \`const x = 2;\`:
 Now, please analyze the code and provide the necessary edits in the specified JSON format.
 `;
 
-    return prompt;
+    return { prompt, context: report };
   }
 
   /**
    * Parse AI response to extract structured edits
    */
   static parseAIResponse(response: string): UnifiedDiff[] {
-    try {
-      // Extract JSON from response (handle markdown code blocks)
-      let jsonStr = response.trim();
-      
-      // Remove markdown code blocks if present
-      const jsonMatch = jsonStr.match(/```(?:json)?\s*([\s\S]*?)```/);
-      if (jsonMatch) {
-        jsonStr = jsonMatch[1].trim();
-      }
-
-      // Parse JSON
-      const parsed = JSON.parse(jsonStr);
-
-      if (!parsed.edits || !Array.isArray(parsed.edits)) {
-        throw new Error('Invalid response format: missing edits array');
-      }
+    const failures: HunkFailure[] = [];
+    const hunks = EditParser.extractJSON(response, failures);
 
-      // Convert to UnifiedDiff format
-      return parsed.edits.map((edit: EditResponse) => ({
-        fileName: edit.fileName,
-        description: edit.description || 'Code modification',
-        hunks: [
-          {
-            oldStart: edit.oldStart,
-            oldLines: edit.oldLines,
-            newStart: edit.newStart,
-            newLines: edit.newLines,
-            lines: this.createDiffLines(edit.oldCode, edit.newCode),
-          },
-        ],
-      }));
-    } catch (error) {
-      console.error('Failed to parse AI response:', error);
-      throw new Error(`Invalid AI response format: ${error}`);
+    if (hunks.length === 0) {
+      const reason = failures[0]?.message || 'missing edits array';
+      console.error('Failed to parse AI response:', reason);
+      throw new Error(`Invalid AI response format: ${reason}`);
     }
+
+    // Convert to UnifiedDiff format
+    return hunks.map((hunk) => ({
+      fileName: hunk.fileName || '',
+      description: hunk.description || 'Code modification',
+      hunks: [
+        {
+          oldStart: hunk.lineHint ?? 1,
+          oldLines: hunk.oldText.split('\n').length,
+          newStart: hunk.lineHint ?? 1,
+          newLines: hunk.newText.split('\n').length,
+          lines: this.createDiffLines(hunk.oldText, hunk.newText),
+        },
+      ],
+    }));
   }
 
   /**
@@ -289,7 +331,7 @@ Now, please analyze the code and provide the necessary edits in the specified JS
   /**
    * Get language from filename
    */
-  private static getLanguage(fileName: string): string {
+  static getLanguage(fileName: string): string {
     const ext = fileName.split('.').pop()?.toLowerCase();
     const languageMap: Record<string, string> = {
       js: 'javascript',
@@ -319,44 +361,66 @@ Now, please analyze the code and provide the necessary edits in the specified JS
   /**
    * Build prompt for explaining code
    */
-  static buildExplainPrompt(code: string, fileName: string): string {
+  static buildExplainPrompt(code: string, fileName: string, overrides?: PromptTemplateOverrides): string {
     const language = this.getLanguage(fileName);
-    const context = CodeParser.parse(code, language);
-
-    return `Explain the following ${language} code in detail:
-
-**File**: ${fileName}
-**Symbols**: ${context.symbols.map((s) => `${s.type} ${s.name}`).join(', ')}
-
-\`\`\`${language}\n${code}\n\`\`\`
-
-Provide:
-1. Overall purpose and functionality
-2. Key components and their roles
-3. Important algorithms or patterns used
-4. Potential issues or improvements
-`;
+    const context = CodeParser.parse(code, language, fileName);
+
+    return PromptTemplates.render('builder.explain', {
+      language,
+      fileName,
+      symbols: context.symbols.map((s) => `${s.type} ${s.name}`).join(', '),
+      code,
+    }, overrides);
   }
 
   /**
    * Build prompt for optimizing code
    */
-  static buildOptimizePrompt(code: string, fileName: string): string {
+  static buildOptimizePrompt(code: string, fileName: string, overrides?: PromptTemplateOverrides): string {
+    return PromptTemplates.render('builder.optimize', {
+      language: this.getLanguage(fileName),
+      fileName,
+      code,
+    }, overrides);
+  }
+
+  /**
+   * Build prompt for an inline completion at the cursor; the model answers with the
+   * inserted text only
+   */
+  static buildCompletionPrompt(request: CompletionRequest): string {
+    const { code, fileName, line, column } = request;
     const language = this.getLanguage(fileName);
+    const lines = code.split('\n');
+    const currentLine = lines[line - 1] ?? '';
+
+    const before = [
+      ...lines.slice(Math.max(0, line - 1 - COMPLETION_PREFIX_LINES), line - 1),
+      currentLine.slice(0, column - 1),
+    ].join('\n');
+    const after = [
+      currentLine.slice(column - 1),
+      ...lines.slice(line, line + COMPLETION_SUFFIX_LINES),
+    ].join('\n');
+    const context = CodeParser.extractContext(code, line, language, 15, fileName);
 
-    return `Optimize the following ${language} code for performance, readability, and best practices:
+    return `You are a code completion engine. Continue the ${language} code at ${COMPLETION_CURSOR}.
 
 **File**: ${fileName}
 
-\`\`\`${language}\n${code}\n\`\`\`
+**Surrounding Context**:
+${context}
 
-Provide optimized code with:
-1. Performance improvements
-2. Better code structure
-3. Modern ${language} patterns
-4. Comments explaining key changes
+**Code**:
+\`\`\`${language}
+${before}${COMPLETION_CURSOR}${after}
+\`\`\`
 
-Use the same JSON format as code editing with precise diffs.
+Rules:
+1. Output ONLY the text to insert at ${COMPLETION_CURSOR}, without markdown fences or explanations
+2. Do not repeat code that is already before or after the cursor
+3. Prefer completing the current statement or block; at most 10 lines
+4. Output nothing if no completion makes sense
 `;
   }
 }
@@ -0,0 +1,64 @@
+/**
+ * Chat History - Titles and full-text search for saved AI chat sessions
+ * Matching is case-insensitive substring search over every message of every session
+ */
+
+import { ChatMessage, ChatSearchHit, ChatSession } from '@/types/chat.types';
+import { LLMMessage } from '@/types/llm.types';
+
+const TITLE_LENGTH = 40;
+const SNIPPET_RADIUS = 40;
+const MAX_HITS = 50;
+
+export class ChatHistory {
+  /**
+   * Session title from its first question: the first non-empty line, shortened
+   */
+  static title(content: string): string {
+    const line = content.split('\n').map((l) => l.trim()).find(Boolean) ?? '';
+    if (!line) return '新对话';
+    return line.length > TITLE_LENGTH ? `${line.slice(0, TITLE_LENGTH)}…` : line;
+  }
+
+  /**
+   * Messages containing the query, newest sessions first, at most one hit per message
+   */
+  static search(sessions: ChatSession[], query: string): ChatSearchHit[] {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return [];
+
+    const hits: ChatSearchHit[] = [];
+    for (const session of sessions) {
+      session.messages.forEach((message, messageIndex) => {
+        const at = message.content.toLowerCase().indexOf(needle);
+        if (at === -1) return;
+        hits.push({
+          sessionId: session.id,
+          title: session.title,
+          messageIndex,
+          role: message.role,
+          snippet: this.snippet(message.content, at, needle.length),
+          updatedAt: session.updatedAt,
+        });
+      });
+      if (hits.length >= MAX_HITS) break;
+    }
+    return hits.slice(0, MAX_HITS);
+  }
+
+  /**
+   * Earlier turns as sent to the model; unanswered or empty messages are skipped
+   */
+  static toLLMMessages(messages: ChatMessage[]): LLMMessage[] {
+    return messages
+      .filter((message) => message.content.trim() !== '')
+      .map((message) => ({ role: message.role, content: message.content }));
+  }
+
+  private static snippet(content: string, at: number, length: number): string {
+    const start = Math.max(0, at - SNIPPET_RADIUS);
+    const end = Math.min(content.length, at + length + SNIPPET_RADIUS);
+    const text = content.slice(start, end).replace(/\s+/g, ' ');
+    return `${start > 0 ? '…' : ''}${text}${end < content.length ? '…' : ''}`;
+  }
+}
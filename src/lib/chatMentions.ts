@@ -0,0 +1,168 @@
+/**
+ * Chat Mentions - @file, @folder/ and @Symbol references in the chat input
+ * Suggests workspace paths and indexed symbols while typing, and turns the chosen
+ * mentions into labelled context blocks for the prompt
+ */
+
+import { ChatAttachment, ChatMention } from '@/types/chat.types';
+import { FileNode } from '@/types/file.types';
+import { AIPromptBuilder } from './aiPromptBuilder';
+import { TokenBudget } from './tokenBudget';
+import type { SymbolIndex } from './symbolIndex';
+
+export interface MentionSources {
+  files: FileNode[];
+  symbolIndex: SymbolIndex | null;
+  readFile: (path: string) => Promise<string>; // Open buffers should win over disk
+}
+
+// What suggestions and typed mentions are looked up in
+export type MentionIndex = Pick<MentionSources, 'files' | 'symbolIndex'>;
+
+export interface LoadedMention {
+  attachment: ChatAttachment;
+  content: string;
+}
+
+const MAX_SUGGESTIONS = 8;
+const MAX_ATTACHMENT_TOKENS = 4000;
+const MAX_FOLDER_FILES = 50;
+
+// Symbols worth referencing on their own (imports and plain variables are too noisy)
+const MENTIONABLE_SYMBOLS = new Set(['function', 'class', 'method', 'interface', 'type', 'enum', 'namespace']);
+
+// `@` at the start or after whitespace, followed by path/identifier characters
+const MENTION_PATTERN = /(^|\s)@([\w./-]+)/g;
+
+export class ChatMentions {
+  /**
+   * The mention being typed at the caret, if any
+   */
+  static activeQuery(text: string, caret: number): { start: number; query: string } | null {
+    const match = text.slice(0, caret).match(/(^|\s)@([\w./-]*)$/);
+    if (!match) return null;
+    return { start: caret - match[2].length - 1, query: match[2] };
+  }
+
+  /**
+   * Files, folders and symbols matching what was typed so far, best matches first
+   */
+  static suggest(query: string, sources: MentionIndex): ChatMention[] {
+    const needle = query.toLowerCase();
+    const scored: { mention: ChatMention; score: number }[] = [];
+
+    const score = (candidate: string, short: string) => {
+      const text = candidate.toLowerCase();
+      if (short.toLowerCase().startsWith(needle)) return 0;
+      if (text.startsWith(needle)) return 1;
+      if (text.includes(needle)) return 2;
+      return -1;
+    };
+
+    this.flatten(sources.files).forEach((node) => {
+      const label = node.type === 'directory' ? `${node.path}/` : node.path;
+      const value = needle ? score(label, node.name) : node.path.split('/').length;
+      if (value < 0) return;
+      scored.push({ mention: { kind: node.type === 'directory' ? 'folder' : 'file', label, path: node.path }, score: value });
+    });
+
+    if (needle && sources.symbolIndex) {
+      sources.symbolIndex.getFiles().forEach((file) => {
+        file.context.symbols.forEach((symbol) => {
+          if (!MENTIONABLE_SYMBOLS.has(symbol.type)) return;
+          const label = symbol.scope ? `${symbol.scope}.${symbol.name}` : symbol.name;
+          const value = score(label, symbol.name);
+          if (value < 0) return;
+          scored.push({
+            mention: { kind: 'symbol', label, path: file.path, startLine: symbol.startLine, endLine: symbol.endLine },
+            score: value,
+          });
+        });
+      });
+    }
+
+    return scored
+      .sort((a, b) => a.score - b.score || a.mention.label.length - b.mention.label.length)
+      .slice(0, MAX_SUGGESTIONS)
+      .map(({ mention }) => mention);
+  }
+
+  /**
+   * Mentions typed out in full without picking a suggestion: exact paths or symbol names
+   */
+  static resolveTyped(text: string, sources: MentionIndex): ChatMention[] {
+    const nodes = new Map(this.flatten(sources.files).map((node) => [node.path, node]));
+    const mentions: ChatMention[] = [];
+
+    for (const [, , raw] of text.matchAll(MENTION_PATTERN)) {
+      const label = raw.replace(/\.+$/, ''); // Sentence punctuation after the mention
+      const path = label.replace(/\/$/, '');
+      const node = nodes.get(path);
+      if (node) {
+        mentions.push({ kind: node.type === 'directory' ? 'folder' : 'file', label, path });
+        continue;
+      }
+      const symbol = sources.symbolIndex?.findDefinition(label)[0];
+      if (symbol && MENTIONABLE_SYMBOLS.has(symbol.type)) {
+        mentions.push({ kind: 'symbol', label, path: symbol.filePath, startLine: symbol.startLine, endLine: symbol.endLine });
+      }
+    }
+    return mentions;
+  }
+
+  /**
+   * Read what a mention refers to, cut to the per-attachment token limit
+   */
+  static async load(mention: ChatMention, sources: MentionSources): Promise<LoadedMention> {
+    let content: string;
+
+    if (mention.kind === 'folder') {
+      const prefix = `${mention.path}/`;
+      const paths = this.flatten(sources.files)
+        .filter((node) => node.type === 'file' && node.path.startsWith(prefix))
+        .map((node) => node.path);
+      const parts = [`Files:\n${paths.slice(0, MAX_FOLDER_FILES).join('\n')}`];
+      for (const path of paths.slice(0, MAX_FOLDER_FILES)) {
+        const text = await sources.readFile(path).catch(() => null);
+        if (text !== null) parts.push(`--- ${path} ---\n${text}`);
+        if (TokenBudget.estimate(parts.join('\n\n')) > MAX_ATTACHMENT_TOKENS) break;
+      }
+      content = parts.join('\n\n');
+    } else {
+      content = await sources.readFile(mention.path);
+      if (mention.kind === 'symbol' && mention.startLine && mention.endLine) {
+        content = content.split('\n').slice(mention.startLine - 1, mention.endLine).join('\n');
+      }
+    }
+
+    const tokens = TokenBudget.estimate(content);
+    const truncated = tokens > MAX_ATTACHMENT_TOKENS;
+    if (truncated) {
+      content = `${TokenBudget.truncate(content, MAX_ATTACHMENT_TOKENS)}\n… (truncated)`;
+    }
+
+    return {
+      attachment: { ...mention, tokens: Math.min(tokens, MAX_ATTACHMENT_TOKENS), truncated },
+      content,
+    };
+  }
+
+  /**
+   * Labelled blocks placed in front of the prompt
+   */
+  static contextBlock(loaded: LoadedMention[]): string {
+    if (loaded.length === 0) return '';
+    const blocks = loaded.map(({ attachment, content }) => {
+      const heading = attachment.kind === 'symbol'
+        ? `Symbol: ${attachment.label} (${attachment.path}:${attachment.startLine}-${attachment.endLine})`
+        : `${attachment.kind === 'folder' ? 'Folder' : 'File'}: ${attachment.path}`;
+      const language = attachment.kind === 'folder' ? '' : AIPromptBuilder.getLanguage(attachment.path);
+      return `### ${heading}\n\`\`\`${language}\n${content}\n\`\`\``;
+    });
+    return `## Referenced context\n\n${blocks.join('\n\n')}`;
+  }
+
+  private static flatten(nodes: FileNode[]): FileNode[] {
+    return nodes.flatMap((node) => [node, ...this.flatten(node.children ?? [])]);
+  }
+}
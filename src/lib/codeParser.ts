@@ -3,19 +3,33 @@
  * Provides code understanding capabilities similar to Tree-sitter
  */
 
+import { TSAstParser } from './tsAstParser';
+
 export interface CodeSymbol {
   name: string;
-  type: 'function' | 'class' | 'variable' | 'import' | 'export' | 'interface' | 'type';
+  type:
+    | 'function'
+    | 'class'
+    | 'method'
+    | 'property'
+    | 'variable'
+    | 'import'
+    | 'export'
+    | 'interface'
+    | 'type'
+    | 'enum'
+    | 'namespace';
   startLine: number;
   endLine: number;
   content: string;
-  scope?: string;
+  scope?: string;     // Dotted path of enclosing symbols, e.g. "MyClass.method"
+  exported?: boolean;
 }
 
 export interface CodeContext {
   symbols: CodeSymbol[];
   imports: string[];
-  exports: string[];
+  exports: string[];   // Exported names ('default' for default exports)
   dependencies: string[];
   language: string;
 }
@@ -24,10 +38,29 @@ export interface CodeContext {
  * Parse code to extract symbols and structure
  */
 export class CodeParser {
+  /**
+   * Load the TypeScript compiler used for JS/TS; until it is loaded, parse() falls back
+   * to the regex parser
+   */
+  static async load(): Promise<void> {
+    await TSAstParser.load();
+  }
+
   /**
    * Extract all symbols from code
    */
-  static parse(code: string, language: string): CodeContext {
+  static parse(code: string, language: string, fileName?: string): CodeContext {
+    // JS/TS goes through the TypeScript compiler API for accurate ranges
+    if (this.isJavaScriptLike(language)) {
+      try {
+        const context = TSAstParser.parse(code, language, fileName);
+        if (context) return context;
+        void TSAstParser.load();
+      } catch (error) {
+        console.warn('TypeScript parse failed, falling back to regex parser:', error);
+      }
+    }
+
     const lines = code.split('\n');
     const symbols: CodeSymbol[] = [];
     const imports: string[] = [];
@@ -62,7 +95,14 @@ export class CodeParser {
   }
 
   /**
-   * Parse JavaScript/TypeScript code
+   * Whether the language is handled by the TypeScript AST backend
+   */
+  static isJavaScriptLike(language: string): boolean {
+    return ['javascript', 'jsx', 'typescript', 'tsx'].includes(language.toLowerCase());
+  }
+
+  /**
+   * Parse JavaScript/TypeScript code (regex fallback)
    */
   private static parseJavaScriptLike(
     lines: string[],
@@ -72,9 +112,8 @@ export class CodeParser {
     dependencies: Set<string>
   ) {
     const importRegex = /^\s*import\s+(?:{[^}]+}|\*\s+as\s+\w+|\w+)\s+from\s+['"]([^'"]+)['"]/;
-    const exportRegex = /^\s*export\s+(default\s+)?(function|class|const|let|var|interface|type|enum)/;
-    const functionRegex = /^\s*(export\s+)?(async\s+)?function\s+(\w+)/;
-    const classRegex = /^\s*(export\s+)?(abstract\s+)?class\s+(\w+)/;
+    const functionRegex = /^\s*(export\s+(?:default\s+)?)?(async\s+)?function\s+(\w+)/;
+    const classRegex = /^\s*(export\s+(?:default\s+)?)?(abstract\s+)?class\s+(\w+)/;
     const constRegex = /^\s*(export\s+)?const\s+(\w+)/;
     const interfaceRegex = /^\s*(export\s+)?interface\s+(\w+)/;
     const typeRegex = /^\s*(export\s+)?type\s+(\w+)/;
@@ -98,9 +137,7 @@ export class CodeParser {
       }
 
       // Parse exports
-      if (exportRegex.test(line)) {
-        exports.push(trimmed);
-      }
+      exports.push(...this.exportNames(trimmed));
 
       // Parse functions
       const functionMatch = functionRegex.exec(line);
@@ -179,6 +216,34 @@ export class CodeParser {
     });
   }
 
+  /**
+   * Names exported by one line, in the AST parser's form: 'default', the declared name,
+   * the names of `export { a, b as c }`, or `* from '<module>'`
+   */
+  private static exportNames(trimmed: string): string[] {
+    if (!trimmed.startsWith('export')) return [];
+
+    if (/^export\s+(default\b|=)/.test(trimmed)) {
+      return [trimmed.startsWith('export =') ? '=' : 'default'];
+    }
+
+    const declaration = /^export\s+(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(?:function\*?|class|const|let|var|interface|type|enum|namespace)\s*(\w+)/.exec(trimmed);
+    if (declaration) return [declaration[1]];
+
+    const list = /^export\s+(?:type\s+)?{([^}]*)}/.exec(trimmed);
+    if (list) {
+      return list[1]
+        .split(',')
+        .map((item) => item.trim().split(/\s+as\s+/).pop()!.replace(/^type\s+/, ''))
+        .filter(Boolean);
+    }
+
+    const star = /^export\s+\*\s+(?:as\s+(\w+)\s+)?from\s+['"]([^'"]+)['"]/.exec(trimmed);
+    if (star) return [star[1] ?? `* from '${star[2]}'`];
+
+    return [];
+  }
+
   /**
    * Parse Python code
    */
@@ -378,9 +443,10 @@ export class CodeParser {
     code: string,
     targetLine: number,
     language: string,
-    contextLines: number = 20
+    contextLines: number = 20,
+    fileName?: string
   ): string {
-    const context = this.parse(code, language);
+    const context = this.parse(code, language, fileName);
     const lines = code.split('\n');
 
     // Find symbols that contain or are near the target line
@@ -0,0 +1,215 @@
+/**
+ * Context Packer - Fit code context into a prompt's token budget
+ * Candidate chunks (selection, enclosing symbol, imports, surrounding lines, referenced
+ * definitions) are ranked and packed greedily; whatever does not fit is reported
+ */
+
+import { ContextChunk, ContextChunkSummary, ContextReport } from '@/types/context.types';
+import { CodeContext, CodeSymbol } from './codeParser';
+import { TokenBudget } from './tokenBudget';
+import type { SymbolIndex } from './symbolIndex';
+
+export interface PackedContext {
+  chunks: ContextChunk[];   // Included chunks, highest priority first
+  report: ContextReport;
+}
+
+export interface EditFocus {
+  code: string;
+  fileName: string;
+  context: CodeContext;
+  cursorLine?: number;      // 1-indexed
+  selectedText?: string;
+  symbolIndex?: SymbolIndex | null;
+}
+
+const SURROUNDING_LINES = 15;
+const TRUNCATION_MARKER = '\n… (truncated)';
+const MAX_DEFINITIONS = 10;
+
+// Symbols whose body is worth showing when referenced from the code being edited
+const DEFINITION_TYPES = new Set<CodeSymbol['type']>(['function', 'class', 'method', 'interface', 'type', 'enum', 'variable']);
+
+// Lines that start an import in the languages CodeParser understands
+const IMPORT_LINE = /^\s*(import\b|from\s+\S+\s+import\b|export\s.*\sfrom\s|(const|let|var)\s+.+=\s*require\(|#include\b|using\s+[\w.]+;)/;
+
+export class ContextPacker {
+  /**
+   * Take chunks by priority while they fit. Required chunks that do not fit are cut to
+   * the remaining room; others are dropped and listed in the report
+   */
+  static pack(candidates: ContextChunk[], budget: number): PackedContext {
+    const chunks: ContextChunk[] = [];
+    const dropped: ContextChunkSummary[] = [];
+    const truncated: ContextChunkSummary[] = [];
+    let used = 0;
+
+    for (const chunk of [...candidates].sort((a, b) => a.priority - b.priority)) {
+      const tokens = TokenBudget.estimate(chunk.content);
+      const summary = { kind: chunk.kind, label: chunk.label, tokens };
+      if (used + tokens <= budget) {
+        chunks.push(chunk);
+        used += tokens;
+        continue;
+      }
+      const room = budget - used - TokenBudget.estimate(TRUNCATION_MARKER);
+      if (chunk.required && room > 0) {
+        const content = `${TokenBudget.truncate(chunk.content, room)}${TRUNCATION_MARKER}`;
+        chunks.push({ ...chunk, content });
+        used += TokenBudget.estimate(content);
+        truncated.push(summary);
+        continue;
+      }
+      dropped.push(summary);
+    }
+
+    return { chunks, report: { budget, used, dropped, truncated } };
+  }
+
+  /**
+   * Candidate chunks for an edit: the selection, then either the whole file or (when it is
+   * too large) the code around the edit, then definitions the edited code refers to
+   */
+  static editChunks(focus: EditFocus, wholeFile: boolean): ContextChunk[] {
+    const { code, fileName, context, selectedText } = focus;
+    const lines = code.split('\n');
+    const [focusStart, focusEnd] = this.focusRange(focus);
+    const chunks: ContextChunk[] = [];
+
+    if (selectedText) {
+      chunks.push({
+        kind: 'selection',
+        label: `${fileName}:${focusStart}-${focusEnd}`,
+        content: selectedText,
+        priority: 0,
+        required: true,
+      });
+    }
+
+    const enclosing = this.enclosingSymbol(context.symbols, focusStart, focusEnd);
+    const start = Math.max(1, focusStart - SURROUNDING_LINES);
+    const end = Math.min(lines.length, focusEnd + SURROUNDING_LINES);
+    const focusText = selectedText || (enclosing
+      ? lines.slice(enclosing.startLine - 1, enclosing.endLine).join('\n')
+      : lines.slice(start - 1, end).join('\n'));
+
+    if (wholeFile) {
+      chunks.push({ kind: 'file', label: fileName, content: code, priority: 1, required: true });
+      return [...chunks, ...this.definitionChunks(focusText, focus, { sameFile: false })];
+    }
+
+    if (enclosing) {
+      chunks.push({
+        kind: 'enclosing-symbol',
+        label: `${enclosing.type} ${enclosing.scope ? `${enclosing.scope}.` : ''}${enclosing.name} (${fileName}:${enclosing.startLine}-${enclosing.endLine})`,
+        content: lines.slice(enclosing.startLine - 1, enclosing.endLine).join('\n'),
+        priority: 1,
+      });
+    }
+
+    const imports = this.importLines(lines);
+    if (imports) {
+      chunks.push({ kind: 'imports', label: `imports (${fileName})`, content: imports, priority: 2 });
+    }
+
+    if (!enclosing || start < enclosing.startLine || end > enclosing.endLine) {
+      chunks.push({
+        kind: 'surrounding',
+        label: `${fileName}:${start}-${end}`,
+        content: lines.slice(start - 1, end).join('\n'),
+        priority: 3,
+      });
+    }
+
+    chunks.push(...this.definitionChunks(focusText, focus, { sameFile: true, exclude: enclosing }));
+    return chunks;
+  }
+
+  // Definitions for identifiers used in the focus text: full bodies from the current file when
+  // it is not sent in full, indexed declarations (signatures) from other files
+  private static definitionChunks(
+    focusText: string,
+    focus: EditFocus,
+    { sameFile = false, exclude = null }: { sameFile?: boolean; exclude?: CodeSymbol | null } = {}
+  ): ContextChunk[] {
+    const identifiers = Array.from(new Set(focusText.match(/[A-Za-z_$][\w$]*/g) ?? []));
+    const lines = focus.code.split('\n');
+    const chunks: ContextChunk[] = [];
+    const seen = new Set<string>();
+
+    for (const name of identifiers) {
+      if (chunks.length >= MAX_DEFINITIONS) break;
+
+      const local = sameFile
+        ? focus.context.symbols.find((symbol) =>
+            symbol.name === name && symbol !== exclude && DEFINITION_TYPES.has(symbol.type)
+          )
+        : undefined;
+      const symbol = local
+        ? { ...local, filePath: focus.fileName, content: lines.slice(local.startLine - 1, local.endLine).join('\n') }
+        : focus.symbolIndex?.findDefinition(name).find((candidate) =>
+            candidate.filePath !== focus.fileName && DEFINITION_TYPES.has(candidate.type)
+          );
+      if (!symbol) continue;
+
+      const key = `${symbol.filePath}:${symbol.startLine}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      chunks.push({
+        kind: 'definition',
+        label: `${symbol.type} ${symbol.name} (${symbol.filePath}:${symbol.startLine}-${symbol.endLine})`,
+        content: symbol.content,
+        // Keep the order in which the code uses them
+        priority: 4 + chunks.length / 100,
+      });
+    }
+    return chunks;
+  }
+
+  /**
+   * One line per top-level symbol, for files that are too large to include
+   */
+  static outline(content: string, context?: CodeContext): string {
+    const lines = content.split('\n');
+    return (context?.symbols ?? [])
+      .filter((symbol) => !symbol.scope || symbol.type === 'method')
+      .map((symbol) => `${symbol.startLine}: ${lines[symbol.startLine - 1]?.trim() ?? symbol.name}`)
+      .join('\n');
+  }
+
+  // Lines covered by the selection (located near the cursor), or just the cursor line
+  private static focusRange({ code, cursorLine, selectedText }: EditFocus): [number, number] {
+    const line = cursorLine ?? 1;
+    if (!selectedText) return [line, line];
+
+    let best: number | null = null;
+    let startLine = 1;
+    let counted = 0;
+    for (let at = code.indexOf(selectedText); at !== -1; at = code.indexOf(selectedText, at + 1)) {
+      for (; counted < at; counted++) {
+        if (code.charCodeAt(counted) === 10) startLine++;
+      }
+      if (best === null || Math.abs(startLine - line) < Math.abs(best - line)) best = startLine;
+    }
+    const start = best ?? line;
+    return [start, start + selectedText.split('\n').length - 1];
+  }
+
+  // Innermost symbol containing the whole range
+  private static enclosingSymbol(symbols: CodeSymbol[], start: number, end: number): CodeSymbol | null {
+    return symbols
+      .filter((symbol) => symbol.startLine <= start && symbol.endLine >= end && symbol.endLine > symbol.startLine)
+      .sort((a, b) => (a.endLine - a.startLine) - (b.endLine - b.startLine))[0] ?? null;
+  }
+
+  private static importLines(lines: string[]): string {
+    const result: string[] = [];
+    let open = false; // Inside a multi-line `import { ... }`
+    for (const line of lines) {
+      if (!open && !IMPORT_LINE.test(line)) continue;
+      result.push(line);
+      open = open ? !line.includes('}') : /\{[^}]*$/.test(line);
+    }
+    return result.join('\n');
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Conversation History - Earlier chat turns sent along with a new request
+ * Keeps the most recent turns that fit a token budget and folds older ones into a short
+ * summary, so follow-up questions still see what they refer to
+ */
+
+import { LLMMessage } from '@/types/llm.types';
+import { TokenBudget } from './tokenBudget';
+
+export const DEFAULT_HISTORY_TOKEN_BUDGET = 6000;
+
+const SUMMARY_LINE_LENGTH = 120;
+const MAX_SUMMARY_LINES = 20;
+
+export interface FittedHistory {
+  messages: LLMMessage[];
+  dropped: number;          // Messages folded into the summary
+}
+
+export class ConversationHistory {
+  /**
+   * Most recent messages within the budget, whole turns only. Anything older is replaced
+   * by a system message listing what was asked and answered
+   */
+  static fit(history: LLMMessage[], budget: number = DEFAULT_HISTORY_TOKEN_BUDGET): FittedHistory {
+    const messages = history.filter((m) => m.role !== 'system' && m.content.trim() !== '');
+
+    let used = 0;
+    let start = messages.length;
+    while (start > 0) {
+      const cost = TokenBudget.estimate(messages[start - 1].content);
+      if (used + cost > budget) break;
+      used += cost;
+      start--;
+    }
+    // Do not open with an answer whose question was cut off
+    while (start < messages.length && messages[start].role === 'assistant') start++;
+
+    if (start === 0) return { messages, dropped: 0 };
+    return {
+      messages: [this.summarize(messages.slice(0, start)), ...messages.slice(start)],
+      dropped: start,
+    };
+  }
+
+  /**
+   * Merge consecutive messages from the same side and drop leading answers, for APIs that
+   * require user/assistant turns to alternate starting with the user (Gemini, Anthropic)
+   */
+  static alternate(conversation: LLMMessage[]): LLMMessage[] {
+    const turns: LLMMessage[] = [];
+    for (const message of conversation) {
+      if (message.content.trim() === '') continue;
+      if (turns.length === 0 && message.role !== 'user') continue;
+      const last = turns[turns.length - 1];
+      if (last && last.role === message.role) {
+        turns[turns.length - 1] = { ...last, content: `${last.content}\n\n${message.content}` };
+      } else {
+        turns.push(message);
+      }
+    }
+    return turns;
+  }
+
+  private static summarize(dropped: LLMMessage[]): LLMMessage {
+    const lines = dropped.slice(-MAX_SUMMARY_LINES).map((m) => {
+      const text = m.content.replace(/\s+/g, ' ').trim();
+      const short = text.length > SUMMARY_LINE_LENGTH ? `${text.slice(0, SUMMARY_LINE_LENGTH)}…` : text;
+      return `- ${m.role === 'user' ? 'User' : 'Assistant'}: ${short}`;
+    });
+    return {
+      role: 'system',
+      content: `Summary of the earlier conversation (older turns were shortened):\n${lines.join('\n')}`,
+    };
+  }
+}
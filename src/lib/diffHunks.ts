@@ -0,0 +1,179 @@
+/**
+ * Diff Hunks - Line diff split into unchanged runs and changed hunks
+ * Shared by the diff viewers so each hunk can be accepted into the review baseline
+ * or reverted in the buffer (like staging individual hunks in git), with intraline
+ * highlighting for paired removed/added lines
+ */
+
+import { diffChars, diffLines, diffWords, diffWordsWithSpace } from 'diff';
+
+// A run of consecutive removed and/or added lines
+export interface DiffHunk {
+  index: number;
+  oldStart: number;       // 1-indexed line in the original where the hunk starts
+  newStart: number;       // 1-indexed line in the modified text where the hunk starts
+  oldLines: string[];     // Removed lines
+  newLines: string[];     // Added lines
+  removed: string;        // Removed text, exactly as in the original (keeps line endings)
+  added: string;          // Added text, exactly as in the modified text
+}
+
+// With whitespace ignored, "unchanged" lines may still differ in whitespace, so both sides are kept
+export type DiffSegment =
+  | { type: 'unchanged'; oldStart: number; newStart: number; oldLines: string[]; newLines: string[] }
+  | { type: 'hunk'; hunk: DiffHunk };
+
+export interface DiffOptions {
+  ignoreWhitespace?: boolean;
+}
+
+// Part of a line in an intraline diff; `changed` parts are highlighted
+export interface InlinePart {
+  value: string;
+  changed: boolean;
+}
+
+// A word pair this similar is refined to single characters (e.g. `userName` -> `username`)
+const CHAR_REFINE_THRESHOLD = 0.5;
+
+export class DiffHunks {
+  /**
+   * Diff two texts into alternating unchanged runs and hunks
+   */
+  static segments(original: string, modified: string, options: DiffOptions = {}): DiffSegment[] {
+    const oldLines = this.splitKeepEnds(original);
+    const newLines = this.splitKeepEnds(modified);
+    const segments: DiffSegment[] = [];
+    let oldIndex = 0;
+    let newIndex = 0;
+    let hunkCount = 0;
+
+    for (const change of diffLines(original, modified, { ignoreWhitespace: options.ignoreWhitespace })) {
+      const count = change.count;
+
+      if (!change.added && !change.removed) {
+        // Take each side from its own text; the change value only holds one of them
+        segments.push({
+          type: 'unchanged',
+          oldStart: oldIndex + 1,
+          newStart: newIndex + 1,
+          oldLines: oldLines.slice(oldIndex, oldIndex + count).map(this.trimEnd),
+          newLines: newLines.slice(newIndex, newIndex + count).map(this.trimEnd),
+        });
+        oldIndex += count;
+        newIndex += count;
+        continue;
+      }
+
+      // Removals and additions with nothing unchanged in between form one hunk
+      let last = segments[segments.length - 1];
+      if (!last || last.type !== 'hunk') {
+        last = {
+          type: 'hunk',
+          hunk: { index: hunkCount++, oldStart: oldIndex + 1, newStart: newIndex + 1, oldLines: [], newLines: [], removed: '', added: '' },
+        };
+        segments.push(last);
+      }
+
+      if (change.removed) {
+        const lines = oldLines.slice(oldIndex, oldIndex + count);
+        last.hunk.oldLines.push(...lines.map(this.trimEnd));
+        last.hunk.removed += lines.join('');
+        oldIndex += count;
+      } else {
+        const lines = newLines.slice(newIndex, newIndex + count);
+        last.hunk.newLines.push(...lines.map(this.trimEnd));
+        last.hunk.added += lines.join('');
+        newIndex += count;
+      }
+    }
+
+    return segments;
+  }
+
+  /**
+   * Only the changed hunks
+   */
+  static hunks(original: string, modified: string, options: DiffOptions = {}): DiffHunk[] {
+    return this.segments(original, modified, options).flatMap((segment) => (segment.type === 'hunk' ? [segment.hunk] : []));
+  }
+
+  /**
+   * Modified text with one hunk put back to its original lines
+   */
+  static revert(modified: string, hunk: DiffHunk): string {
+    return this.splice(modified, hunk.newStart, hunk.newLines.length, hunk.removed);
+  }
+
+  /**
+   * Original text with one hunk applied, i.e. the review baseline once the hunk is accepted
+   */
+  static accept(original: string, hunk: DiffHunk): string {
+    return this.splice(original, hunk.oldStart, hunk.oldLines.length, hunk.added);
+  }
+
+  /**
+   * Word-level diff of a removed line against the added line that replaced it;
+   * replaced words that are mostly the same are narrowed down to characters
+   */
+  static intraline(oldLine: string, newLine: string, options: DiffOptions = {}): { old: InlinePart[]; new: InlinePart[] } {
+    const changes = options.ignoreWhitespace ? diffWords(oldLine, newLine) : diffWordsWithSpace(oldLine, newLine);
+    const result = { old: [] as InlinePart[], new: [] as InlinePart[] };
+
+    for (let i = 0; i < changes.length; i++) {
+      const change = changes[i];
+      const next = changes[i + 1];
+
+      if (change.removed && next?.added) {
+        const chars = diffChars(change.value, next.value);
+        const common = chars.filter((c) => !c.added && !c.removed).reduce((sum, c) => sum + c.value.length, 0);
+        if (common / Math.max(change.value.length, next.value.length) >= CHAR_REFINE_THRESHOLD) {
+          chars.forEach((c) => {
+            if (!c.added) result.old.push({ value: c.value, changed: Boolean(c.removed) });
+            if (!c.removed) result.new.push({ value: c.value, changed: Boolean(c.added) });
+          });
+          i++;
+          continue;
+        }
+      }
+
+      if (!change.added) result.old.push({ value: change.value, changed: Boolean(change.removed) });
+      if (!change.removed) result.new.push({ value: change.value, changed: Boolean(change.added) });
+    }
+
+    return result;
+  }
+
+  /**
+   * Lines of an unchanged run that stay visible next to the neighbouring hunks;
+   * null when the run is short enough to show in full
+   */
+  static collapsedRange(
+    lineCount: number,
+    hasHunkBefore: boolean,
+    hasHunkAfter: boolean,
+    context: number
+  ): { head: number; tail: number } | null {
+    const head = hasHunkBefore ? context : 0;
+    const tail = hasHunkAfter ? context : 0;
+    // Hiding a single line saves nothing over showing it
+    return lineCount - head - tail > 1 ? { head, tail } : null;
+  }
+
+  private static splice(text: string, start: number, count: number, replacement: string): string {
+    const lines = this.splitKeepEnds(text);
+    let before = lines.slice(0, start - 1).join('');
+    // Appending after a last line without a newline (possible when whitespace is ignored)
+    if (replacement && before && !before.endsWith('\n')) before += '\n';
+    return before + replacement + lines.slice(start - 1 + count).join('');
+  }
+
+  // Lines with their line endings, so joining them gives back the exact text
+  private static splitKeepEnds(text: string): string[] {
+    return text.match(/[^\n]*\n|[^\n]+$/g) || [];
+  }
+
+  private static trimEnd(line: string): string {
+    return line.replace(/\r?\n$/, '');
+  }
+}
@@ -0,0 +1,589 @@
+/**
+ * Edit Parser - One parser for every edit format models produce
+ * Supports SEARCH/REPLACE blocks, unified diffs, JSON edits and whole-file code blocks,
+ * and re-anchors each hunk against the current code when line numbers or whitespace drift
+ */
+
+import { EditFormat, HunkFailure, HunkFailureReason, TextEdit } from '@/types/editor.types';
+
+export type MatchStrategy = 'exact' | 'whitespace' | 'indentation' | 'similarity' | 'line-number';
+
+/**
+ * A hunk extracted from model output, before it is located in the code
+ */
+export interface ParsedHunk {
+  format: EditFormat;
+  oldText: string;
+  newText: string;
+  fileName?: string;
+  lineHint?: number;        // 1-indexed line the model claimed the hunk starts at
+  description?: string;
+}
+
+export interface ResolvedEdit extends TextEdit {
+  format: EditFormat;
+  match: MatchStrategy;
+  score: number;            // 1 for exact matches, similarity otherwise
+  fileName?: string;
+  description?: string;
+}
+
+export interface EditParseResult {
+  edits: ResolvedEdit[];
+  failures: HunkFailure[];
+}
+
+export interface EditParseOptions {
+  fileName?: string;               // Only keep hunks for this file (hunks without a file always match)
+  similarityThreshold?: number;    // Minimum score for similarity matching (0-1)
+  allowWholeFile?: boolean;        // Treat a lone fenced code block as a whole-file replacement
+  formats?: EditFormat[];          // Restrict extraction to these formats (default: all)
+}
+
+const DEFAULT_SIMILARITY_THRESHOLD = 0.8;
+
+const SEARCH_REPLACE_PATTERN =
+  /<{5,9} SEARCH[^\n]*\n([\s\S]*?)\n?={5,9}[^\n]*\n([\s\S]*?)\n?>{5,9} REPLACE/g;
+
+/**
+ * Parse model output in any supported format
+ */
+export class EditParser {
+  /**
+   * Extract hunks and locate each one in the original code
+   */
+  static parse(text: string, originalCode: string, options: EditParseOptions = {}): EditParseResult {
+    const { hunks, failures } = this.extractHunks(text, options);
+    const result = this.resolveHunks(hunks, originalCode, options);
+    return { edits: result.edits, failures: [...failures, ...result.failures] };
+  }
+
+  /**
+   * Locate already-extracted hunks in the original code
+   */
+  static resolveHunks(
+    hunks: ParsedHunk[],
+    originalCode: string,
+    options: EditParseOptions = {}
+  ): EditParseResult {
+    const failures: HunkFailure[] = [];
+    const lines = originalCode.split('\n');
+    const edits: ResolvedEdit[] = [];
+
+    hunks.forEach((hunk, index) => {
+      if (options.fileName && hunk.fileName && !this.sameFile(hunk.fileName, options.fileName)) {
+        return;
+      }
+
+      const resolved = this.resolveHunk(hunk, lines, options);
+      if ('reason' in resolved) {
+        failures.push({ ...resolved, index, format: hunk.format, oldText: hunk.oldText, fileName: hunk.fileName });
+        return;
+      }
+
+      const overlapping = edits.find(
+        (e) => resolved.startLine <= e.endLine && resolved.endLine >= e.startLine
+      );
+      if (overlapping) {
+        failures.push({
+          index,
+          format: hunk.format,
+          reason: 'overlap',
+          message: `Overlaps edit at lines ${overlapping.startLine}-${overlapping.endLine}`,
+          oldText: hunk.oldText,
+          fileName: hunk.fileName,
+        });
+        return;
+      }
+
+      edits.push(resolved);
+    });
+
+    return { edits, failures };
+  }
+
+  /**
+   * Extract raw hunks from model output without locating them
+   */
+  static extractHunks(
+    text: string,
+    options: EditParseOptions = {}
+  ): { hunks: ParsedHunk[]; failures: HunkFailure[] } {
+    const failures: HunkFailure[] = [];
+    const enabled = (format: EditFormat) => !options.formats || options.formats.includes(format);
+    const hunks: ParsedHunk[] = [
+      ...(enabled('search-replace') ? this.extractSearchReplace(text) : []),
+      ...(enabled('unified-diff') ? this.extractUnifiedDiff(text) : []),
+      ...(enabled('json') ? this.extractJSON(text, failures) : []),
+    ];
+
+    if (hunks.length === 0 && options.allowWholeFile && enabled('whole-file')) {
+      hunks.push(...this.extractWholeFile(text));
+    }
+
+    return { hunks, failures };
+  }
+
+  /**
+   * <<<<<<< SEARCH / ======= / >>>>>>> REPLACE blocks
+   */
+  static extractSearchReplace(text: string): ParsedHunk[] {
+    const hunks: ParsedHunk[] = [];
+    const pattern = new RegExp(SEARCH_REPLACE_PATTERN.source, 'g');
+
+    let match;
+    while ((match = pattern.exec(text)) !== null) {
+      hunks.push({
+        format: 'search-replace',
+        oldText: this.trimBlankLines(match[1]),
+        newText: this.trimBlankLines(match[2]),
+        fileName: this.fileNameBefore(text, match.index),
+      });
+    }
+
+    return hunks;
+  }
+
+  /**
+   * Unified diff hunks (@@ -a,b +c,d @@); context lines are kept to anchor the hunk
+   */
+  static extractUnifiedDiff(text: string): ParsedHunk[] {
+    const hunks: ParsedHunk[] = [];
+    const lines = text.split('\n');
+    let fileName: string | undefined;
+    // `remaining` counts the lines the hunk header announced that have not been seen yet
+    let current: { oldLines: string[]; newLines: string[]; lineHint: number; remaining: { old: number; new: number } } | null = null;
+
+    const flush = () => {
+      if (current && (current.oldLines.length > 0 || current.newLines.length > 0)) {
+        hunks.push({
+          format: 'unified-diff',
+          oldText: current.oldLines.join('\n'),
+          newText: current.newLines.join('\n'),
+          fileName,
+          lineHint: current.lineHint,
+        });
+      }
+      current = null;
+    };
+
+    for (const line of lines) {
+      const header = /^@@ -(\d+)(?:,(\d+))? \+\d+(?:,(\d+))? @@/.exec(line);
+      if (header) {
+        flush();
+        current = {
+          oldLines: [],
+          newLines: [],
+          lineHint: parseInt(header[1], 10),
+          remaining: { old: parseInt(header[2] ?? '1', 10), new: parseInt(header[3] ?? '1', 10) },
+        };
+        continue;
+      }
+
+      // Until the announced lines are seen, "+++ x" is an added "++ x" and "--- x" a removed "-- x"
+      const inHunk = current !== null && (current.remaining.old > 0 || current.remaining.new > 0);
+
+      const fileHeader = inHunk ? null : /^\+\+\+ (?:b\/)?(\S+)/.exec(line);
+      if (fileHeader) {
+        flush();
+        fileName = fileHeader[1] === '/dev/null' ? undefined : fileHeader[1];
+        continue;
+      }
+
+      if (!current) continue;
+
+      if (line.startsWith('```') || (!inHunk && line.startsWith('--- ')) || line.startsWith('diff ')) {
+        flush();
+      } else if (line.startsWith('-')) {
+        current.oldLines.push(line.substring(1));
+        current.remaining.old--;
+      } else if (line.startsWith('+')) {
+        current.newLines.push(line.substring(1));
+        current.remaining.new--;
+      } else if (line.startsWith(' ') || line === '') {
+        current.oldLines.push(line.substring(1));
+        current.newLines.push(line.substring(1));
+        current.remaining.old--;
+        current.remaining.new--;
+      } else if (!line.startsWith('\\')) {
+        flush();
+      }
+    }
+    flush();
+
+    // Drop trailing blank context picked up from the end of a fenced block
+    return hunks.map((hunk) => ({
+      ...hunk,
+      oldText: hunk.oldText.replace(/\n+$/, ''),
+      newText: hunk.newText.replace(/\n+$/, ''),
+    }));
+  }
+
+  /**
+   * JSON edits: AIPromptBuilder's `{ edits: [...] }` and MultiFileManager's `{ files: [...] }`
+   */
+  static extractJSON(text: string, failures: HunkFailure[] = []): ParsedHunk[] {
+    const candidates: string[] = [];
+    const fencePattern = /```(\w*)[^\n]*\n([\s\S]*?)```/g;
+
+    let match;
+    while ((match = fencePattern.exec(text)) !== null) {
+      const body = match[2].trim();
+      if ((match[1] === '' || match[1] === 'json') && body.startsWith('{')) candidates.push(body);
+    }
+    if (candidates.length === 0 && text.trim().startsWith('{')) {
+      candidates.push(text.trim());
+    }
+
+    const hunks: ParsedHunk[] = [];
+
+    candidates.forEach((candidate) => {
+      let parsed;
+      try {
+        parsed = JSON.parse(candidate);
+      } catch (error) {
+        // Only report blocks that look like edit payloads
+        if (/"(edits|files)"\s*:/.test(candidate)) {
+          failures.push({
+            index: hunks.length,
+            format: 'json',
+            reason: 'invalid-json',
+            message: `Invalid JSON: ${(error as Error).message}`,
+            oldText: '',
+          });
+        }
+        return;
+      }
+
+      if (Array.isArray(parsed.edits)) {
+        for (const edit of parsed.edits) {
+          hunks.push({
+            format: 'json',
+            oldText: edit.oldCode ?? '',
+            newText: edit.newCode ?? '',
+            fileName: edit.fileName,
+            lineHint: edit.oldStart ?? edit.startLine,
+            description: edit.description,
+          });
+        }
+      }
+
+      if (Array.isArray(parsed.files)) {
+        for (const file of parsed.files) {
+          for (const edit of file.edits || []) {
+            hunks.push({
+              format: 'json',
+              oldText: edit.oldCode ?? '',
+              newText: edit.newCode ?? '',
+              fileName: file.filePath,
+              lineHint: edit.startLine,
+              description: edit.description,
+            });
+          }
+        }
+      }
+    });
+
+    return hunks;
+  }
+
+  /**
+   * A single non-JSON, non-diff fenced block is taken as the complete new file
+   */
+  static extractWholeFile(text: string): ParsedHunk[] {
+    const blocks = [...text.matchAll(/```([^\n`]*)\n([\s\S]*?)```/g)].filter(
+      ([, info]) => !/^(json|diff|patch)\b/.test(info.trim())
+    );
+    if (blocks.length !== 1) return [];
+
+    const [, info, body] = blocks[0];
+    const fileName = info.trim().split(/\s+/)[1];
+
+    return [
+      {
+        format: 'whole-file',
+        oldText: '',
+        newText: body.replace(/\n$/, ''),
+        fileName,
+      },
+    ];
+  }
+
+  /**
+   * Locate a hunk in the code and build the resolved edit
+   */
+  private static resolveHunk(
+    hunk: ParsedHunk,
+    lines: string[],
+    options: EditParseOptions
+  ): ResolvedEdit | { reason: HunkFailureReason; message: string } {
+    const base = {
+      format: hunk.format,
+      fileName: hunk.fileName,
+      description: hunk.description,
+    };
+
+    if (hunk.format === 'whole-file') {
+      return {
+        ...base,
+        startLine: 1,
+        endLine: lines.length,
+        oldText: lines.join('\n'),
+        newText: hunk.newText,
+        match: 'exact',
+        score: 1,
+      };
+    }
+
+    if (hunk.oldText.trim() === '') {
+      // Pure insertion: only a line number can anchor it
+      if (hunk.lineHint === undefined) {
+        return { reason: 'empty-search', message: 'Hunk has no search text and no line number' };
+      }
+      // Line 0 (`@@ -0,0 +1,N @@`) inserts before the first line
+      if (hunk.lineHint <= 0) {
+        return {
+          ...base,
+          startLine: 1,
+          endLine: 1,
+          oldText: lines[0],
+          newText: lines.length === 1 && lines[0] === '' ? hunk.newText : `${hunk.newText}\n${lines[0]}`,
+          match: 'line-number',
+          score: 1,
+        };
+      }
+      const anchor = Math.min(hunk.lineHint, lines.length);
+      return {
+        ...base,
+        startLine: anchor,
+        endLine: anchor,
+        oldText: lines[anchor - 1],
+        newText: `${lines[anchor - 1]}\n${hunk.newText}`,
+        match: 'line-number',
+        score: 1,
+      };
+    }
+
+    const location = this.locate(
+      lines,
+      hunk.oldText,
+      hunk.lineHint,
+      options.similarityThreshold ?? DEFAULT_SIMILARITY_THRESHOLD
+    );
+
+    if (!location) {
+      return {
+        reason: 'not-found',
+        message: hunk.lineHint
+          ? `Search text not found near line ${hunk.lineHint}`
+          : 'Search text not found in the current code',
+      };
+    }
+
+    // Several equally good matches and nothing to choose between them
+    if (location.candidates > 1 && hunk.lineHint === undefined) {
+      return {
+        reason: 'ambiguous',
+        message: `Search text matches ${location.candidates} places; include more surrounding lines`,
+      };
+    }
+
+    const searchLines = hunk.oldText.split('\n');
+    const matchedLines = lines.slice(location.startLine - 1, location.endLine);
+    const newText =
+      location.strategy === 'indentation' || location.strategy === 'similarity'
+        ? this.reindent(hunk.newText, searchLines, matchedLines)
+        : hunk.newText;
+
+    return {
+      ...base,
+      startLine: location.startLine,
+      endLine: location.endLine,
+      oldText: matchedLines.join('\n'),
+      newText,
+      match: location.strategy,
+      score: location.score,
+    };
+  }
+
+  /**
+   * Find the best line range for `searchText`, trying progressively looser strategies.
+   * `candidates` counts the matches found by the strategy that succeeded; with several,
+   * the one nearest the line hint is returned
+   */
+  static locate(
+    lines: string[],
+    searchText: string,
+    lineHint?: number,
+    similarityThreshold: number = DEFAULT_SIMILARITY_THRESHOLD
+  ): { startLine: number; endLine: number; strategy: MatchStrategy; score: number; candidates: number } | null {
+    const searchLines = searchText.split('\n');
+    const n = searchLines.length;
+
+    const comparators: [MatchStrategy, (a: string, b: string) => boolean][] = [
+      ['exact', (a, b) => a === b],
+      ['whitespace', (a, b) => a.trimEnd() === b.trimEnd()],
+      ['indentation', (a, b) => a.trim() === b.trim()],
+    ];
+
+    for (const [strategy, equals] of comparators) {
+      const starts: number[] = [];
+      for (let i = 0; i + n <= lines.length; i++) {
+        let found = true;
+        for (let j = 0; j < n; j++) {
+          if (!equals(lines[i + j], searchLines[j])) {
+            found = false;
+            break;
+          }
+        }
+        if (found) starts.push(i);
+      }
+
+      if (starts.length > 0) {
+        const start = this.nearest(starts, lineHint);
+        return { startLine: start + 1, endLine: start + n, strategy, score: 1, candidates: starts.length };
+      }
+    }
+
+    // Similarity: slide a window of the same length (±1 line for dropped/added blank lines)
+    let best: { start: number; length: number; score: number } | null = null;
+    for (const length of [n, n - 1, n + 1]) {
+      if (length < 1) continue;
+      for (let i = 0; i + length <= lines.length; i++) {
+        const score = this.blockSimilarity(searchLines, lines.slice(i, i + length));
+        const better =
+          !best ||
+          score > best.score + 1e-9 ||
+          (Math.abs(score - best.score) < 1e-9 &&
+            lineHint !== undefined &&
+            Math.abs(i + 1 - lineHint) < Math.abs(best.start + 1 - lineHint));
+        if (better) best = { start: i, length, score };
+      }
+    }
+
+    if (best && best.score >= similarityThreshold) {
+      return {
+        startLine: best.start + 1,
+        endLine: best.start + best.length,
+        strategy: 'similarity',
+        score: best.score,
+        candidates: 1,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Pick the candidate closest to the line hint (or the first one)
+   */
+  private static nearest(starts: number[], lineHint?: number): number {
+    if (lineHint === undefined) return starts[0];
+    return starts.reduce((best, start) =>
+      Math.abs(start + 1 - lineHint) < Math.abs(best + 1 - lineHint) ? start : best
+    );
+  }
+
+  /**
+   * Average per-line similarity of two blocks, ignoring indentation
+   */
+  private static blockSimilarity(a: string[], b: string[]): number {
+    const length = Math.max(a.length, b.length);
+    let total = 0;
+    for (let i = 0; i < length; i++) {
+      total += this.lineSimilarity((a[i] ?? '').trim(), (b[i] ?? '').trim());
+    }
+    return total / length;
+  }
+
+  /**
+   * Dice coefficient over character bigrams
+   */
+  private static lineSimilarity(a: string, b: string): number {
+    if (a === b) return 1;
+    if (a.length < 2 || b.length < 2) return 0;
+
+    const bigrams = new Map<string, number>();
+    for (let i = 0; i < a.length - 1; i++) {
+      const gram = a.substring(i, i + 2);
+      bigrams.set(gram, (bigrams.get(gram) || 0) + 1);
+    }
+
+    let overlap = 0;
+    for (let i = 0; i < b.length - 1; i++) {
+      const gram = b.substring(i, i + 2);
+      const count = bigrams.get(gram) || 0;
+      if (count > 0) {
+        bigrams.set(gram, count - 1);
+        overlap++;
+      }
+    }
+
+    return (2 * overlap) / (a.length + b.length - 2);
+  }
+
+  /**
+   * Shift replacement indentation by the offset between the search text and the matched code
+   */
+  private static reindent(newText: string, searchLines: string[], matchedLines: string[]): string {
+    const indentOf = (line: string) => /^\s*/.exec(line)![0];
+    const searchFirst = searchLines.find((l) => l.trim() !== '');
+    const matchedFirst = matchedLines.find((l) => l.trim() !== '');
+    if (searchFirst === undefined || matchedFirst === undefined) return newText;
+
+    const from = indentOf(searchFirst);
+    const to = indentOf(matchedFirst);
+    if (from === to) return newText;
+
+    return newText
+      .split('\n')
+      .map((line) => {
+        if (line.trim() === '') return line;
+        return line.startsWith(from) ? to + line.slice(from.length) : to + line.trimStart();
+      })
+      .join('\n');
+  }
+
+  /**
+   * Look for a file path on the line just before a block (e.g. "src/app.ts" or "File: src/app.ts")
+   */
+  private static fileNameBefore(text: string, index: number): string | undefined {
+    const before = text.slice(0, index).replace(/```[^\n]*\n$/, '').trimEnd();
+    const lastLine = before.split('\n').pop() || '';
+    const match = /^(?:#+\s*)?(?:File:\s*)?`?([\w./-]+\.\w+)`?:?$/.exec(lastLine.trim());
+    return match?.[1];
+  }
+
+  private static trimBlankLines(text: string): string {
+    return text.replace(/^(\s*\n)+/, '').replace(/(\n\s*)+$/, '');
+  }
+
+  /**
+   * Apply resolved whole-line edits, bottom-up so earlier edits do not shift later ranges
+   */
+  static applyEdits(code: string, edits: TextEdit[]): string {
+    const lines = code.split('\n');
+    const sorted = [...edits].sort((a, b) => b.startLine - a.startLine);
+    for (const edit of sorted) {
+      lines.splice(edit.startLine - 1, edit.endLine - edit.startLine + 1, ...edit.newText.split('\n'));
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * Number of lines an edit adds (positive) or removes (negative)
+   */
+  static lineDelta(edit: TextEdit): number {
+    return edit.newText.split('\n').length - (edit.endLine - edit.startLine + 1);
+  }
+
+  /**
+   * Compare paths loosely (ignores ./, a/ and b/ prefixes and matches path suffixes)
+   */
+  static sameFile(a: string, b: string): boolean {
+    const normalize = (p: string) => p.replace(/^(\.\/|a\/|b\/)/, '');
+    const x = normalize(a);
+    const y = normalize(b);
+    return x === y || x.endsWith(`/${y}`) || y.endsWith(`/${x}`);
+  }
+}
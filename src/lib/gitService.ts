@@ -0,0 +1,305 @@
+/**
+ * Git Service - Read-only git queries for files inside the workspace
+ * Runs git via execFile with argument arrays (no shell), resolving the repository
+ * from the file's own directory so nested or sibling repos work too
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { NextResponse } from 'next/server';
+import { workspaceErrorResponse } from './workspaceSandbox';
+import { GitBlameLine, GitLogEntry, GitRef, GitStatus, GitStatusEntry } from '@/types/git.types';
+
+const execFileAsync = promisify(execFile);
+
+export type GitErrorCode = 'NOT_A_REPOSITORY' | 'PATH_NOT_FOUND' | 'INVALID_REF' | 'UNKNOWN_REVISION' | 'GIT_FAILED';
+
+const STATUS_BY_CODE: Record<GitErrorCode, number> = {
+  NOT_A_REPOSITORY: 404,
+  PATH_NOT_FOUND: 404,
+  INVALID_REF: 400,
+  UNKNOWN_REVISION: 404,
+  GIT_FAILED: 500,
+};
+
+export class GitError extends Error {
+  readonly status: number;
+
+  constructor(
+    readonly code: GitErrorCode,
+    message: string,
+    readonly details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'GitError';
+    this.status = STATUS_BY_CODE[code];
+  }
+}
+
+interface GitTarget {
+  root: string;         // Repository top level
+  relativePath: string; // Path relative to the root with forward slashes ('' for the root itself)
+}
+
+const GIT_TIMEOUT_MS = 15000;
+const GIT_MAX_BUFFER = 20 * 1024 * 1024;
+const DEFAULT_LOG_LIMIT = 30;
+const MAX_LOG_LIMIT = 200;
+const RECENT_COMMIT_REFS = 10;
+
+// Revision syntax we accept: names, hashes, HEAD~2, main^, @{u}. Ranges and `rev:path` are not refs.
+const REF_PATTERN = /^[A-Za-z0-9._/~^@{}+-]+$/;
+const FIELD_SEPARATOR = '\x1f';
+const RECORD_SEPARATOR = '\x1e';
+
+/**
+ * Git queries scoped to a file's repository
+ */
+export class GitService {
+  /**
+   * Porcelain status for a file or directory (the whole repo when given its root)
+   */
+  static async status(filePath: string): Promise<GitStatus> {
+    const target = await this.resolveTarget(filePath);
+    const output = await this.run(target.root, [
+      'status', '--porcelain=v1', '-z', '--branch', '--untracked-files=all',
+      '--', target.relativePath || '.',
+    ]);
+
+    const records = output.split('\0');
+    const entries: GitStatusEntry[] = [];
+    let branch: string | null = null;
+
+    for (let i = 0; i < records.length; i++) {
+      const record = records[i];
+      if (!record) continue;
+
+      if (record.startsWith('## ')) {
+        branch = this.parseBranchHeader(record.slice(3));
+        continue;
+      }
+
+      const entry: GitStatusEntry = { index: record[0], workTree: record[1], path: record.slice(3) };
+      // Renames and copies are followed by their source path as a separate record
+      if (entry.index === 'R' || entry.index === 'C') {
+        entry.originalPath = records[++i];
+      }
+      entries.push(entry);
+    }
+
+    return { root: target.root, branch, entries };
+  }
+
+  /**
+   * Unified diff of the working tree file against a revision
+   */
+  static async diff(filePath: string, ref: string = 'HEAD'): Promise<string> {
+    const target = await this.resolveTarget(filePath);
+    const revision = await this.verifyRef(target.root, ref);
+    return this.run(target.root, ['diff', '--no-color', '--no-ext-diff', revision, '--', target.relativePath || '.']);
+  }
+
+  /**
+   * Commits touching a file, newest first (follows renames for single files)
+   */
+  static async log(filePath: string, limit: number = DEFAULT_LOG_LIMIT): Promise<GitLogEntry[]> {
+    const target = await this.resolveTarget(filePath);
+    const count = Math.min(Math.max(1, Math.floor(limit) || DEFAULT_LOG_LIMIT), MAX_LOG_LIMIT);
+    const format = ['%H', '%h', '%an', '%aI', '%s'].join('%x1f') + '%x1e';
+    const args = ['log', `--max-count=${count}`, `--format=${format}`];
+    if (target.relativePath && this.isFile(filePath)) args.push('--follow');
+    args.push('--', target.relativePath || '.');
+
+    let output: string;
+    try {
+      output = await this.run(target.root, args);
+    } catch (error) {
+      // A repository without commits has no log rather than an error
+      if (error instanceof GitError && error.code === 'UNKNOWN_REVISION') return [];
+      throw error;
+    }
+
+    return output
+      .split(RECORD_SEPARATOR)
+      .map((record) => record.trim())
+      .filter(Boolean)
+      .map((record) => {
+        const [hash, shortHash, author, date, subject] = record.split(FIELD_SEPARATOR);
+        return { hash, shortHash, author, date, subject };
+      });
+  }
+
+  /**
+   * Line-by-line blame, of the working tree by default or of a revision
+   */
+  static async blame(filePath: string, ref?: string): Promise<GitBlameLine[]> {
+    const target = await this.resolveTarget(filePath);
+    const args = ['blame', '--porcelain'];
+    if (ref) args.push(await this.verifyRef(target.root, ref));
+    args.push('--', target.relativePath);
+
+    const output = await this.run(target.root, args);
+    const commits = new Map<string, { author: string; time: number; summary: string }>();
+    const lines: GitBlameLine[] = [];
+    let current: { hash: string; line: number } | null = null;
+
+    for (const raw of output.split('\n')) {
+      if (raw.startsWith('\t')) {
+        if (current) {
+          const info = commits.get(current.hash) ?? { author: '', time: 0, summary: '' };
+          lines.push({ line: current.line, hash: current.hash, ...info, content: raw.slice(1) });
+        }
+        current = null;
+        continue;
+      }
+
+      const header = /^([0-9a-f]{40,64}) \d+ (\d+)/.exec(raw);
+      if (header && !current) {
+        current = { hash: header[1], line: Number(header[2]) };
+        if (!commits.has(current.hash)) commits.set(current.hash, { author: '', time: 0, summary: '' });
+        continue;
+      }
+
+      if (!current) continue;
+      const info = commits.get(current.hash)!;
+      const space = raw.indexOf(' ');
+      const key = space === -1 ? raw : raw.slice(0, space);
+      const value = space === -1 ? '' : raw.slice(space + 1);
+      if (key === 'author') info.author = value;
+      else if (key === 'author-time') info.time = Number(value);
+      else if (key === 'summary') info.summary = value;
+    }
+
+    return lines;
+  }
+
+  /**
+   * File content at a revision
+   */
+  static async show(filePath: string, ref: string = 'HEAD'): Promise<string> {
+    const target = await this.resolveTarget(filePath);
+    const revision = await this.verifyRef(target.root, ref);
+    return this.run(target.root, ['cat-file', 'blob', `${revision}:${target.relativePath}`]);
+  }
+
+  /**
+   * Refs to compare against: HEAD, branches, tags and the file's recent commits
+   */
+  static async refs(filePath: string): Promise<GitRef[]> {
+    const target = await this.resolveTarget(filePath);
+    const output = await this.run(target.root, [
+      'for-each-ref', '--sort=-committerdate', '--format=%(refname)', 'refs/heads', 'refs/tags',
+    ]);
+
+    const refs: GitRef[] = [{ name: 'HEAD', type: 'head' }];
+    output.split('\n').filter(Boolean).forEach((fullName) => {
+      if (fullName.startsWith('refs/heads/')) {
+        refs.push({ name: fullName.slice('refs/heads/'.length), type: 'branch' });
+      } else if (fullName.startsWith('refs/tags/')) {
+        refs.push({ name: fullName.slice('refs/tags/'.length), type: 'tag' });
+      }
+    });
+
+    const commits = await this.log(filePath, RECENT_COMMIT_REFS);
+    commits.forEach((commit) => refs.push({ name: commit.shortHash, type: 'commit', label: commit.subject }));
+
+    return refs;
+  }
+
+  /**
+   * Reject anything that could be read as an option or is not a single revision,
+   * then resolve it to a commit so typos surface as UNKNOWN_REVISION
+   */
+  static async verifyRef(root: string, ref: string): Promise<string> {
+    if (!ref || ref.startsWith('-') || ref.includes('..') || !REF_PATTERN.test(ref)) {
+      throw new GitError('INVALID_REF', 'Invalid git ref', { ref });
+    }
+
+    try {
+      return (await this.run(root, ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`])).trim();
+    } catch (error) {
+      if (error instanceof GitError && error.code === 'GIT_FAILED') {
+        throw new GitError('UNKNOWN_REVISION', `Unknown revision: ${ref}`, { ref });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Find the repository containing a (sandboxed, real) path
+   */
+  static async resolveTarget(filePath: string): Promise<GitTarget> {
+    const cwd = this.isDirectory(filePath) ? filePath : path.dirname(filePath);
+    const topLevel = (await this.run(cwd, ['rev-parse', '--show-toplevel'])).trim();
+    const root = fs.realpathSync(topLevel);
+    const relativePath = path.relative(root, filePath).split(path.sep).join('/');
+
+    if (relativePath.startsWith('..')) {
+      throw new GitError('NOT_A_REPOSITORY', 'Path is not inside a git repository', { path: filePath });
+    }
+    return { root, relativePath };
+  }
+
+  private static async run(cwd: string, args: string[]): Promise<string> {
+    try {
+      // --literal-pathspecs: file names like `[id].tsx` must not be treated as globs
+      const { stdout } = await execFileAsync('git', ['--literal-pathspecs', ...args], {
+        cwd,
+        encoding: 'utf-8',
+        timeout: GIT_TIMEOUT_MS,
+        maxBuffer: GIT_MAX_BUFFER,
+        env: { ...process.env, GIT_TERMINAL_PROMPT: '0', GIT_OPTIONAL_LOCKS: '0' },
+      });
+      return stdout;
+    } catch (error) {
+      throw this.toGitError(error as NodeJS.ErrnoException & { stderr?: string }, args, cwd);
+    }
+  }
+
+  private static toGitError(error: NodeJS.ErrnoException & { stderr?: string }, args: string[], cwd: string): GitError {
+    const stderr = (error.stderr || '').trim();
+    // spawn reports a missing working directory the same way as a missing executable
+    if (error.code === 'ENOENT') {
+      return this.isDirectory(cwd)
+        ? new GitError('GIT_FAILED', 'git is not installed or not on PATH')
+        : new GitError('PATH_NOT_FOUND', 'Path does not exist', { path: cwd });
+    }
+    if (/not a git repository/i.test(stderr)) {
+      return new GitError('NOT_A_REPOSITORY', 'Path is not inside a git repository');
+    }
+    if (/does not exist in|exists on disk, but not in|no such path|bad revision|unknown revision|does not have any commits/i.test(stderr)) {
+      return new GitError('UNKNOWN_REVISION', stderr.split('\n')[0].replace(/^fatal: /, ''));
+    }
+    return new GitError('GIT_FAILED', `git ${args[0]} failed`, { stderr: stderr || error.message });
+  }
+
+  private static parseBranchHeader(header: string): string | null {
+    if (header.startsWith('HEAD (no branch)')) return null;
+    const unborn = /^No commits yet on (.+)$/.exec(header);
+    if (unborn) return unborn[1];
+    return header.split('...')[0].split(' ')[0];
+  }
+
+  private static isFile(filePath: string): boolean {
+    return fs.existsSync(filePath) && fs.statSync(filePath).isFile();
+  }
+
+  private static isDirectory(filePath: string): boolean {
+    return fs.existsSync(filePath) && fs.statSync(filePath).isDirectory();
+  }
+}
+
+/**
+ * Map git and sandbox errors to `{ error, code, details }` JSON responses
+ */
+export function gitErrorResponse(error: unknown, fallbackMessage: string) {
+  if (error instanceof GitError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code, details: error.details },
+      { status: error.status }
+    );
+  }
+  return workspaceErrorResponse(error, fallbackMessage);
+}
@@ -0,0 +1,115 @@
+/**
+ * Inline Completion - Ghost-text completions at the cursor through /api/gemini
+ * Requests are debounced and each new one cancels the previous; results are cached per
+ * prefix, so typing into a shown suggestion keeps the rest of it without a new request
+ */
+
+import { LLMSettings } from '@/types/llm.types';
+import { requestAIResponse } from './aiClient';
+import { AIPromptBuilder, CompletionRequest } from './aiPromptBuilder';
+
+const DEBOUNCE_MS = 350;
+const MAX_CACHE_ENTRIES = 50;
+
+interface CacheEntry {
+  fileName: string;
+  prefix: string;         // Text before the cursor when the completion was requested
+  completion: string;
+}
+
+export class InlineCompletionService {
+  private cache: CacheEntry[] = []; // Oldest first
+  private controller: AbortController | null = null;
+
+  constructor(private getSettings: () => LLMSettings | null) {}
+
+  /**
+   * Completion for the cursor position, or '' when there is none or the request was
+   * superseded, cancelled or failed
+   */
+  async complete(request: CompletionRequest, signal?: AbortSignal): Promise<string> {
+    this.cancel();
+    const settings = this.getSettings();
+    if (!settings) return '';
+
+    const prefix = InlineCompletionService.prefixOf(request);
+    const cached = this.fromCache(request.fileName, prefix);
+    if (cached !== null) return cached;
+
+    const controller = new AbortController();
+    this.controller = controller;
+    signal?.addEventListener('abort', () => controller.abort());
+
+    try {
+      await InlineCompletionService.delay(DEBOUNCE_MS, controller.signal);
+      const response = await requestAIResponse(
+        {
+          prompt: AIPromptBuilder.buildCompletionPrompt(request),
+          action: 'complete',
+          provider: settings.provider,
+          model: settings.model,
+        },
+        controller.signal
+      );
+      const completion = InlineCompletionService.clean(response.text, request);
+      this.remember(request.fileName, prefix, completion);
+      return completion;
+    } catch (error) {
+      if (!controller.signal.aborted) console.warn('Inline completion failed:', error);
+      return '';
+    } finally {
+      if (this.controller === controller) this.controller = null;
+    }
+  }
+
+  /**
+   * Abort the pending request, e.g. when the cursor moves away
+   */
+  cancel(): void {
+    this.controller?.abort();
+    this.controller = null;
+  }
+
+  // Exact prefix, or an earlier completion the user has been typing along with
+  private fromCache(fileName: string, prefix: string): string | null {
+    for (let i = this.cache.length - 1; i >= 0; i--) {
+      const entry = this.cache[i];
+      if (entry.fileName !== fileName || !prefix.startsWith(entry.prefix)) continue;
+      const full = entry.prefix + entry.completion;
+      if (full.startsWith(prefix) && (prefix.length < full.length || entry.prefix === prefix)) {
+        return full.slice(prefix.length);
+      }
+    }
+    return null;
+  }
+
+  private remember(fileName: string, prefix: string, completion: string): void {
+    this.cache = [
+      ...this.cache.filter((entry) => entry.fileName !== fileName || entry.prefix !== prefix),
+      { fileName, prefix, completion },
+    ].slice(-MAX_CACHE_ENTRIES);
+  }
+
+  private static prefixOf({ code, line, column }: CompletionRequest): string {
+    const lines = code.split('\n');
+    return [...lines.slice(0, line - 1), (lines[line - 1] ?? '').slice(0, column - 1)].join('\n');
+  }
+
+  // Models sometimes wrap the answer in fences or echo the rest of the current line
+  private static clean(text: string, { code, line, column }: CompletionRequest): string {
+    let completion = text.replace(/^```[\w-]*\n?/, '').replace(/\n?```\s*$/, '');
+    const rest = (code.split('\n')[line - 1] ?? '').slice(column - 1);
+    if (rest && completion.endsWith(rest)) completion = completion.slice(0, -rest.length);
+    return completion.trim() ? completion.replace(/\s+$/, '') : '';
+  }
+
+  private static delay(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(resolve, ms);
+      signal.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(new DOMException('Aborted', 'AbortError'));
+      });
+    });
+  }
+}
@@ -0,0 +1,482 @@
+/**
+ * LLM Providers - Pluggable model backends behind /api/gemini
+ * Every provider accepts the same LLMRequest and returns the same LLMResponse
+ */
+
+import { LLMMessage, LLMProviderId, LLMRequest, LLMResponse } from '@/types/llm.types';
+import { ConversationHistory } from './conversationHistory';
+
+export interface LLMProvider {
+  id: LLMProviderId;
+  defaultModel: string;
+  generate(request: LLMRequest, signal?: AbortSignal): Promise<LLMResponse>;
+  stream(request: LLMRequest, signal?: AbortSignal): AsyncGenerator<string>;
+}
+
+/**
+ * Error raised when an upstream model API rejects a request
+ */
+export class LLMProviderError extends Error {
+  constructor(
+    message: string,
+    public status: number = 500,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'LLMProviderError';
+  }
+}
+
+const DEFAULT_TEMPERATURE = 0.7;
+const DEFAULT_MAX_OUTPUT_TOKENS = 2048;
+
+/**
+ * Split system messages from the conversation (most APIs take them separately)
+ */
+function splitSystem(messages: LLMMessage[]): { system: string; conversation: LLMMessage[] } {
+  const system = messages
+    .filter((m) => m.role === 'system')
+    .map((m) => m.content)
+    .join('\n\n');
+  const conversation = messages.filter((m) => m.role !== 'system');
+  return { system, conversation };
+}
+
+/**
+ * POST JSON and throw LLMProviderError on non-2xx responses
+ */
+async function postJSON(
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  signal?: AbortSignal
+) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok) {
+    const details = await response.json().catch(() => response.statusText);
+    throw new LLMProviderError('Upstream model API error', response.status, details);
+  }
+
+  return response.json();
+}
+
+/**
+ * POST JSON and return the raw response for incremental reading
+ */
+async function postStream(
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  signal?: AbortSignal
+): Promise<Response> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const details = await response.json().catch(() => response.statusText);
+    throw new LLMProviderError('Upstream model API error', response.status, details);
+  }
+
+  return response;
+}
+
+/**
+ * Yield complete lines from a streamed response body
+ */
+async function* readLines(response: Response): AsyncGenerator<string> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let newlineIndex;
+      while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+        yield buffer.slice(0, newlineIndex).replace(/\r$/, '');
+        buffer = buffer.slice(newlineIndex + 1);
+      }
+    }
+    buffer += decoder.decode();
+    if (buffer.trim()) yield buffer.replace(/\r$/, '');
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Yield parsed JSON payloads of an SSE stream (`data: {...}` lines)
+ */
+async function* readSSE(response: Response) {
+  for await (const line of readLines(response)) {
+    if (!line.startsWith('data:')) continue;
+    const payload = line.slice(5).trim();
+    if (!payload || payload === '[DONE]') continue;
+    try {
+      yield JSON.parse(payload);
+    } catch {
+      // Ignore keep-alive or malformed events
+    }
+  }
+}
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new LLMProviderError(`${name} not configured`, 500);
+  }
+  return value;
+}
+
+/**
+ * Google Gemini (generateContent API)
+ */
+export class GeminiProvider implements LLMProvider {
+  id: LLMProviderId = 'gemini';
+  defaultModel = 'gemini-2.5-flash';
+
+  // The model name becomes part of the URL path, so only plain names are accepted
+  private endpoint(model: string, method: string) {
+    if (!/^[\w.-]+$/.test(model)) {
+      throw new LLMProviderError(`Invalid Gemini model name: ${model}`, 400);
+    }
+    return `https://generativelanguage.googleapis.com/v1beta/models/${model}:${method}`;
+  }
+
+  private buildBody(request: LLMRequest) {
+    const { system, conversation } = splitSystem(request.messages);
+    return {
+      ...(system && { systemInstruction: { parts: [{ text: system }] } }),
+      contents: ConversationHistory.alternate(conversation).map((m) => ({
+        role: m.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: m.content }],
+      })),
+      generationConfig: {
+        temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+        topK: 40,
+        topP: 0.95,
+        maxOutputTokens: request.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS,
+      },
+    };
+  }
+
+  async generate(request: LLMRequest, signal?: AbortSignal): Promise<LLMResponse> {
+    const apiKey = requireEnv('GEMINI_API_KEY');
+    const model = request.model || this.defaultModel;
+
+    const data = await postJSON(
+      this.endpoint(model, 'generateContent'),
+      { 'x-goog-api-key': apiKey },
+      this.buildBody(request),
+      signal
+    );
+
+    return {
+      text: data.candidates?.[0]?.content?.parts?.[0]?.text || '',
+      provider: this.id,
+      model,
+      usage: {
+        inputTokens: data.usageMetadata?.promptTokenCount,
+        outputTokens: data.usageMetadata?.candidatesTokenCount,
+      },
+    };
+  }
+
+  async *stream(request: LLMRequest, signal?: AbortSignal): AsyncGenerator<string> {
+    const apiKey = requireEnv('GEMINI_API_KEY');
+    const model = request.model || this.defaultModel;
+
+    const response = await postStream(
+      `${this.endpoint(model, 'streamGenerateContent')}?alt=sse`,
+      { 'x-goog-api-key': apiKey },
+      this.buildBody(request),
+      signal
+    );
+
+    for await (const event of readSSE(response)) {
+      const text = event.candidates?.[0]?.content?.parts?.[0]?.text;
+      if (text) yield text;
+    }
+  }
+}
+
+/**
+ * OpenAI-compatible chat completions (OpenAI, Azure proxies, vLLM, llama.cpp server...)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  id: LLMProviderId = 'openai';
+  defaultModel = process.env.OPENAI_MODEL || 'gpt-4o-mini';
+
+  private endpoint() {
+    const baseUrl = process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1';
+    const apiKey = process.env.OPENAI_API_KEY;
+    const headers: Record<string, string> = apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+    return {
+      url: `${baseUrl.replace(/\/$/, '')}/chat/completions`,
+      headers,
+    };
+  }
+
+  private buildBody(request: LLMRequest, model: string) {
+    return {
+      model,
+      messages: request.messages,
+      temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+      max_tokens: request.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS,
+    };
+  }
+
+  async generate(request: LLMRequest, signal?: AbortSignal): Promise<LLMResponse> {
+    const { url, headers } = this.endpoint();
+    const model = request.model || this.defaultModel;
+
+    const data = await postJSON(url, headers, this.buildBody(request, model), signal);
+
+    return {
+      text: data.choices?.[0]?.message?.content || '',
+      provider: this.id,
+      model: data.model || model,
+      usage: {
+        inputTokens: data.usage?.prompt_tokens,
+        outputTokens: data.usage?.completion_tokens,
+      },
+    };
+  }
+
+  async *stream(request: LLMRequest, signal?: AbortSignal): AsyncGenerator<string> {
+    const { url, headers } = this.endpoint();
+    const model = request.model || this.defaultModel;
+
+    const response = await postStream(
+      url,
+      headers,
+      { ...this.buildBody(request, model), stream: true },
+      signal
+    );
+
+    for await (const event of readSSE(response)) {
+      const text = event.choices?.[0]?.delta?.content;
+      if (text) yield text;
+    }
+  }
+}
+
+/**
+ * Anthropic-style Messages API
+ */
+export class AnthropicProvider implements LLMProvider {
+  id: LLMProviderId = 'anthropic';
+  defaultModel = process.env.ANTHROPIC_MODEL || 'claude-sonnet-4-5';
+
+  private endpoint() {
+    const apiKey = requireEnv('ANTHROPIC_API_KEY');
+    const baseUrl = process.env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com';
+    return {
+      url: `${baseUrl.replace(/\/$/, '')}/v1/messages`,
+      headers: {
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01',
+      },
+    };
+  }
+
+  private buildBody(request: LLMRequest, model: string) {
+    const { system, conversation } = splitSystem(request.messages);
+    return {
+      model,
+      ...(system && { system }),
+      messages: ConversationHistory.alternate(conversation),
+      temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+      max_tokens: request.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS,
+    };
+  }
+
+  async generate(request: LLMRequest, signal?: AbortSignal): Promise<LLMResponse> {
+    const { url, headers } = this.endpoint();
+    const model = request.model || this.defaultModel;
+
+    const data = await postJSON(url, headers, this.buildBody(request, model), signal);
+
+    const text = (data.content || [])
+      .filter((block: { type: string }) => block.type === 'text')
+      .map((block: { text: string }) => block.text)
+      .join('');
+
+    return {
+      text,
+      provider: this.id,
+      model: data.model || model,
+      usage: {
+        inputTokens: data.usage?.input_tokens,
+        outputTokens: data.usage?.output_tokens,
+      },
+    };
+  }
+
+  async *stream(request: LLMRequest, signal?: AbortSignal): AsyncGenerator<string> {
+    const { url, headers } = this.endpoint();
+    const model = request.model || this.defaultModel;
+
+    const response = await postStream(
+      url,
+      headers,
+      { ...this.buildBody(request, model), stream: true },
+      signal
+    );
+
+    for await (const event of readSSE(response)) {
+      if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+        yield event.delta.text;
+      }
+    }
+  }
+}
+
+/**
+ * Local Ollama-style HTTP endpoint (/api/chat)
+ */
+export class OllamaProvider implements LLMProvider {
+  id: LLMProviderId = 'ollama';
+  defaultModel = process.env.OLLAMA_MODEL || 'qwen2.5-coder';
+
+  private endpoint() {
+    const baseUrl = process.env.OLLAMA_BASE_URL || 'http://localhost:11434';
+    return `${baseUrl.replace(/\/$/, '')}/api/chat`;
+  }
+
+  private buildBody(request: LLMRequest, model: string, stream: boolean) {
+    return {
+      model,
+      messages: request.messages,
+      stream,
+      options: {
+        temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+        num_predict: request.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS,
+      },
+    };
+  }
+
+  async generate(request: LLMRequest, signal?: AbortSignal): Promise<LLMResponse> {
+    const model = request.model || this.defaultModel;
+
+    const data = await postJSON(this.endpoint(), {}, this.buildBody(request, model, false), signal);
+
+    return {
+      text: data.message?.content || '',
+      provider: this.id,
+      model: data.model || model,
+      usage: {
+        inputTokens: data.prompt_eval_count,
+        outputTokens: data.eval_count,
+      },
+    };
+  }
+
+  async *stream(request: LLMRequest, signal?: AbortSignal): AsyncGenerator<string> {
+    const model = request.model || this.defaultModel;
+    const response = await postStream(this.endpoint(), {}, this.buildBody(request, model, true), signal);
+
+    // Ollama streams newline-delimited JSON rather than SSE; readLines holds back partial lines
+    for await (const line of readLines(response)) {
+      if (!line.trim()) continue;
+      let event;
+      try {
+        event = JSON.parse(line);
+      } catch {
+        // Skip a malformed line instead of ending the whole reply
+        console.warn('Ignoring malformed Ollama stream line:', line.slice(0, 200));
+        continue;
+      }
+      // Failures after the response has started arrive as `{ "error": "..." }` lines
+      if (event.error) throw new LLMProviderError('Upstream model API error', 502, event.error);
+      if (event.message?.content) yield event.message.content;
+      if (event.done) break;
+    }
+  }
+}
+
+/**
+ * Deterministic offline provider for tests and local development.
+ * Scripted responses are picked by the number of assistant turns already in the request, so
+ * every conversation (or agent run) replays the script from the start; without a script it
+ * echoes the last user message.
+ */
+export class MockProvider implements LLMProvider {
+  id: LLMProviderId = 'mock';
+  defaultModel = 'mock-1';
+
+  constructor(private responses: string[] = []) {}
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const model = request.model || this.defaultModel;
+    let text: string;
+
+    if (this.responses.length > 0) {
+      const turn = request.messages.filter((m) => m.role === 'assistant').length;
+      text = this.responses[Math.min(turn, this.responses.length - 1)];
+    } else {
+      const lastUser = [...request.messages].reverse().find((m) => m.role === 'user');
+      text = `[mock] ${lastUser?.content ?? ''}`;
+    }
+
+    return { text, provider: this.id, model };
+  }
+
+  async *stream(request: LLMRequest): AsyncGenerator<string> {
+    const { text } = await this.generate(request);
+    // Emit word-sized chunks so streaming consumers are exercised offline
+    for (const chunk of text.match(/\S+\s*|\s+/g) || []) {
+      yield chunk;
+    }
+  }
+}
+
+/**
+ * Parse MOCK_LLM_RESPONSES (JSON array of strings) for scripted offline runs
+ */
+function loadMockResponses(): string[] {
+  try {
+    const parsed = JSON.parse(process.env.MOCK_LLM_RESPONSES || '[]');
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+export const LLM_PROVIDER_IDS: LLMProviderId[] = ['gemini', 'openai', 'anthropic', 'ollama', 'mock'];
+
+/**
+ * Resolve a provider by id, falling back to LLM_PROVIDER or Gemini. `scripted: false` keeps
+ * requests that are not part of a conversation (inline completions) off the mock script
+ */
+export function getProvider(id?: string, { scripted = true }: { scripted?: boolean } = {}): LLMProvider {
+  const providerId = id || process.env.LLM_PROVIDER || 'gemini';
+
+  switch (providerId) {
+    case 'gemini':
+      return new GeminiProvider();
+    case 'openai':
+      return new OpenAICompatibleProvider();
+    case 'anthropic':
+      return new AnthropicProvider();
+    case 'ollama':
+      return new OllamaProvider();
+    case 'mock':
+      return new MockProvider(scripted ? loadMockResponses() : []);
+    default:
+      throw new LLMProviderError(`Unknown LLM provider: ${providerId}`, 400);
+  }
+}
@@ -4,6 +4,13 @@
  */
 
 import { CodeContext } from './codeParser';
+import { ContextPacker } from './contextPacker';
+import { EditParser, ParsedHunk } from './editParser';
+import { ThreeWayMerge } from './threeWayMerge';
+import { DEFAULT_PROMPT_TOKENS, TokenBudget } from './tokenBudget';
+import type { SymbolIndex } from './symbolIndex';
+import { BuiltPrompt, ContextChunk } from '@/types/context.types';
+import { HunkFailure } from '@/types/editor.types';
 
 export interface FileEdit {
   filePath: string;
@@ -25,6 +32,13 @@ export interface MultiFileChange {
   dependencies: string[];
 }
 
+export interface MultiFileParseResult {
+  change: MultiFileChange;
+  failures: HunkFailure[];
+}
+
+const MAX_RELATED_FILES = 8;
+
 /**
  * Manages modifications across multiple files
  */
@@ -209,27 +223,54 @@ export class MultiFileManager {
   }
 
   /**
-   * Build AI prompt for multi-file editing
+   * Build AI prompt for multi-file editing. Files are packed in the given (relevance)
+   * order; those that do not fit the budget are sent as an outline of their symbols
    */
   static buildMultiFilePrompt(
     instruction: string,
     files: Map<string, string>,
-    fileContexts: Map<string, CodeContext>
-  ): string {
+    fileContexts: Map<string, CodeContext>,
+    budget: number = DEFAULT_PROMPT_TOKENS
+  ): BuiltPrompt {
     let prompt = `You are modifying multiple files in a codebase. Analyze dependencies and make coordinated changes.\n\n`;
 
     prompt += `## INSTRUCTION:\n${instruction}\n\n`;
 
+    const available = Math.max(0, budget - TokenBudget.estimate(instruction));
+    const fullFiles: ContextChunk[] = Array.from(files, ([path, content], index) => ({
+      kind: 'file',
+      label: path,
+      content,
+      priority: index,
+    }));
+    const packed = ContextPacker.pack(fullFiles, available);
+    const outlines = ContextPacker.pack(
+      packed.report.dropped.map(({ label }, index) => ({
+        kind: 'outline',
+        label,
+        content: ContextPacker.outline(files.get(label) ?? '', fileContexts.get(label)),
+        priority: index,
+        required: true, // A partial outline still names the symbols the other files use
+      })),
+      available - packed.report.used
+    );
+    const included = new Map(packed.chunks.map((chunk) => [chunk.label, chunk.content]));
+    const outlined = new Map(outlines.chunks.map((chunk) => [chunk.label, chunk.content]));
+
     // Add file contexts
     prompt += `## PROJECT FILES:\n\n`;
-    files.forEach((content, path) => {
+    files.forEach((_content, path) => {
+      const content = included.get(path);
+      const outline = outlined.get(path);
+      if (content === undefined && outline === undefined) return;
+
       const context = fileContexts.get(path);
-      prompt += `### File: ${path}\n`;
+      prompt += `### File: ${path}${content === undefined ? ' (outline only, too large to include: do not edit)' : ''}\n`;
       if (context) {
         prompt += `**Symbols:** ${context.symbols.map((s) => `${s.type} ${s.name}`).join(', ')}\n`;
         prompt += `**Imports:** ${context.imports.join(', ')}\n`;
       }
-      prompt += `\n\`\`\`\n${content}\n\`\`\`\n\n`;
+      prompt += `\n\`\`\`\n${content ?? outline}\n\`\`\`\n\n`;
     });
 
     // Add dependency info
@@ -263,6 +304,245 @@ export class MultiFileManager {
 
     prompt += `Make coordinated changes across files, maintaining consistency of imports, types, and function signatures.`;
 
-    return prompt;
+    return {
+      prompt,
+      context: {
+        budget: available,
+        used: packed.report.used + outlines.report.used,
+        // Files sent as an outline, or not at all
+        dropped: packed.report.dropped,
+        truncated: [],
+      },
+    };
+  }
+
+  /**
+   * Pick the files an instruction most likely touches: the current file, files
+   * named in the instruction, files defining identifiers it mentions, then the
+   * current file's local imports and importers
+   */
+  static selectRelatedFiles(
+    entryFile: string | null,
+    instruction: string,
+    index: SymbolIndex | null,
+    allPaths: string[],
+    limit: number = MAX_RELATED_FILES
+  ): string[] {
+    const selected = new Set<string>();
+    const add = (path: string | null | undefined) => {
+      if (path && selected.size < limit && allPaths.includes(path)) selected.add(path);
+    };
+
+    add(entryFile);
+
+    // Paths or file names written in the instruction
+    allPaths.forEach((path) => {
+      const baseName = path.split('/').pop() as string;
+      if (instruction.includes(path) || instruction.includes(baseName)) add(path);
+    });
+
+    if (!index) return Array.from(selected);
+
+    // Identifiers in the instruction that resolve to an exported definition
+    const identifiers = new Set(instruction.match(/[A-Za-z_$][\w$]{2,}/g) || []);
+    identifiers.forEach((identifier) => {
+      const definition = index.findDefinition(identifier).find((symbol) => symbol.exported || !symbol.scope);
+      add(definition?.filePath);
+    });
+
+    if (entryFile) {
+      // Local modules the current file imports
+      index.getFile(entryFile)?.context.dependencies
+        .filter((dep) => dep.startsWith('.') || dep.startsWith('@/'))
+        .forEach((dep) => add(index.resolveModule(dep, entryFile)));
+
+      // Files that import the current file
+      index.getFiles().forEach((file) => {
+        const importsEntry = file.context.dependencies.some(
+          (dep) => index.resolveModule(dep, file.path) === entryFile
+        );
+        if (importsEntry) add(file.path);
+      });
+    }
+
+    return Array.from(selected);
+  }
+
+  /**
+   * Parse the model's `{ summary, files: [...] }` response into a MultiFileChange,
+   * locating every hunk against the file contents that were sent
+   */
+  static parseResponse(text: string, files: Map<string, string>): MultiFileParseResult {
+    const { hunks, failures } = EditParser.extractHunks(text, { formats: ['json', 'search-replace', 'unified-diff'] });
+    return this.buildChange(hunks, files, this.extractSummary(text), failures);
+  }
+
+  /**
+   * Group hunks by file and resolve them against the given file contents
+   */
+  static buildChange(
+    hunks: ParsedHunk[],
+    files: Map<string, string>,
+    summary: string,
+    failures: HunkFailure[] = []
+  ): MultiFileParseResult {
+    const paths = Array.from(files.keys());
+    const byFile = new Map<string, ParsedHunk[]>();
+
+    hunks.forEach((hunk, index) => {
+      const path = hunk.fileName
+        ? paths.find((candidate) => EditParser.sameFile(candidate, hunk.fileName as string))
+        : paths.length === 1 ? paths[0] : undefined;
+
+      if (!path) {
+        failures.push({
+          index,
+          format: hunk.format,
+          reason: 'unknown-file',
+          message: hunk.fileName ? `File not in context: ${hunk.fileName}` : 'Hunk does not name a file',
+          oldText: hunk.oldText,
+          fileName: hunk.fileName,
+        });
+        return;
+      }
+
+      byFile.set(path, [...(byFile.get(path) || []), hunk]);
+    });
+
+    const fileEdits: FileEdit[] = [];
+    byFile.forEach((fileHunks, filePath) => {
+      const originalContent = files.get(filePath) as string;
+      const result = EditParser.resolveHunks(fileHunks, originalContent);
+      failures.push(...result.failures.map((failure) => ({ ...failure, fileName: filePath })));
+      if (result.edits.length === 0) return;
+
+      const edits = result.edits.map((edit, index) => ({
+        id: `${filePath}-${edit.startLine}-${index}`,
+        startLine: edit.startLine,
+        endLine: edit.endLine,
+        oldCode: edit.oldText,
+        newCode: edit.newText,
+        description: edit.description || '',
+      }));
+
+      fileEdits.push({
+        filePath,
+        originalContent,
+        modifiedContent: this.applyEdits(originalContent, edits),
+        edits,
+      });
+    });
+
+    return {
+      change: {
+        files: fileEdits,
+        summary,
+        dependencies: fileEdits.map((file) => file.filePath),
+      },
+      failures,
+    };
+  }
+
+  /**
+   * Re-target edits made against unsaved buffers at the saved (disk) content, so writing
+   * them does not also write the buffers' unsaved changes. `saved` maps paths of dirty
+   * buffers to their saved content; edits that overlap unsaved changes cannot be written
+   */
+  static rebaseOnSaved(change: MultiFileChange, saved: Map<string, string>): MultiFileChange {
+    const files = change.files.map((file) => {
+      const disk = saved.get(file.filePath);
+      if (disk === undefined || disk === file.originalContent) return file;
+
+      const result = ThreeWayMerge.merge(file.originalContent, file.modifiedContent, disk);
+      if (result.conflicts > 0) {
+        throw new Error(`修改与未保存的内容冲突，请先保存：${file.filePath}`);
+      }
+      return { ...file, originalContent: disk, modifiedContent: result.content };
+    });
+    return { ...change, files };
+  }
+
+  /**
+   * Write every file in the change or none of them. Each file is checked for
+   * permission and external modification first, all contents are staged in
+   * swap files, and already committed files are restored if a later commit fails.
+   */
+  static async writeFiles(
+    changes: MultiFileChange,
+    handles: Map<string, FileSystemFileHandle>
+  ): Promise<void> {
+    const targets = changes.files.map((file) => {
+      const handle = handles.get(file.filePath);
+      if (!handle) throw new Error(`找不到文件句柄：${file.filePath}`);
+      return { file, handle };
+    });
+
+    // Preconditions: writable and unchanged since the prompt was built
+    for (const { file, handle } of targets) {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const fsHandle = handle as any;
+      if ((await fsHandle.queryPermission({ mode: 'readwrite' })) !== 'granted' &&
+          (await fsHandle.requestPermission({ mode: 'readwrite' })) !== 'granted') {
+        throw new Error(`没有写入权限：${file.filePath}`);
+      }
+      const current = await (await handle.getFile()).text();
+      if (current !== file.originalContent) {
+        throw new Error(`文件已在磁盘上被修改：${file.filePath}`);
+      }
+    }
+
+    // Stage: writes go to swap files and only become visible on close()
+    const writables: FileSystemWritableFileStream[] = [];
+    try {
+      for (const { file, handle } of targets) {
+        const writable = await handle.createWritable();
+        writables.push(writable);
+        await writable.write(file.modifiedContent);
+      }
+    } catch (error) {
+      await Promise.all(writables.map((writable) => writable.abort().catch(() => undefined)));
+      throw error;
+    }
+
+    // Commit
+    const committed: typeof targets = [];
+    for (let i = 0; i < targets.length; i++) {
+      try {
+        await writables[i].close();
+        committed.push(targets[i]);
+      } catch (error) {
+        await Promise.all(writables.slice(i + 1).map((writable) => writable.abort().catch(() => undefined)));
+        await this.restoreFiles(committed);
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Best-effort rollback of files that were already committed
+   */
+  private static async restoreFiles(targets: { file: FileEdit; handle: FileSystemFileHandle }[]) {
+    for (const { file, handle } of targets) {
+      try {
+        const writable = await handle.createWritable();
+        await writable.write(file.originalContent);
+        await writable.close();
+      } catch (error) {
+        console.error(`Failed to restore ${file.filePath}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Pull the "summary" field out of a JSON response (falls back to a generic label)
+   */
+  private static extractSummary(text: string): string {
+    const match = /"summary"\s*:\s*("(?:[^"\\]|\\.)*")/.exec(text);
+    if (!match) return 'Multi-file changes';
+    try {
+      return JSON.parse(match[1]);
+    } catch {
+      return 'Multi-file changes';
+    }
   }
 }
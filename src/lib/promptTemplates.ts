@@ -0,0 +1,137 @@
+/**
+ * Prompt Templates - The wording of every built-in prompt, versioned and filled with variables
+ * Change a template's text together with its version; responses report the version they used
+ * A workspace may replace any template with its own wording (see WorkspaceConfig.loadTemplates)
+ */
+
+import { PromptTemplate, PromptTemplateId, PromptTemplateOverrides, PromptVariables } from '@/types/prompt.types';
+
+// Tag version of a template the workspace replaced; its wording is not tracked here
+const WORKSPACE_VERSION = 'workspace';
+
+export const PROMPT_TEMPLATES: Record<PromptTemplateId, PromptTemplate> = {
+  'action.explain': {
+    id: 'action.explain',
+    version: 1,
+    description: 'Explain code (panel opened with "explain")',
+    template: '请详细解释以下代码的功能和逻辑：\n\n{{code}}\n\n请用中文回答，包括：\n1. 代码的主要功能\n2. 关键逻辑说明\n3. 使用的技术和模式',
+  },
+  'action.optimize': {
+    id: 'action.optimize',
+    version: 1,
+    description: 'Suggest optimizations for code',
+    template: '请分析以下代码并提供优化建议：\n\n{{code}}\n\n请用中文回答，包括：\n1. 当前代码的问题\n2. 优化建议\n3. 优化后的代码示例',
+  },
+  'action.generate': {
+    id: 'action.generate',
+    version: 1,
+    description: 'Generate code from a description',
+    template: '请根据以下需求生成代码：\n\n{{prompt}}\n\n要求：\n1. 代码要完整可运行\n2. 包含必要的注释\n3. 遵循最佳实践',
+  },
+  'action.fix': {
+    id: 'action.fix',
+    version: 1,
+    description: 'Fix errors in code, optionally given the error message',
+    template: '请帮我修复以下代码中的错误：\n\n{{code}}\n\n{{#prompt}}错误信息：{{prompt}}{{/prompt}}\n\n请提供：\n1. 错误分析\n2. 修复后的代码\n3. 修复说明',
+  },
+  'action.edit': {
+    id: 'action.edit',
+    version: 1,
+    description: 'Edit code, answering with SEARCH/REPLACE blocks',
+    template: '我需要修改以下代码：\n\n{{code}}\n\n修改需求：{{prompt}}\n\n请提供：\n1. 只输出需要修改的部分代码（使用 SEARCH/REPLACE 格式）\n2. 格式如下：\n<<<<<<< SEARCH\n[要替换的原始代码]\n=======\n[替换后的新代码]\n>>>>>>> REPLACE\n\n注意：\n- 只包含需要修改的代码块\n- 保持代码的缩进和格式\n- 可以有多个 SEARCH/REPLACE 块\n- SEARCH 块必须精确匹配原代码',
+  },
+  'builder.explain': {
+    id: 'builder.explain',
+    version: 1,
+    description: 'Explain a file, with the symbols found in it',
+    template: `Explain the following {{language}} code in detail:
+
+**File**: {{fileName}}
+**Symbols**: {{symbols}}
+
+\`\`\`{{language}}
+{{code}}
+\`\`\`
+
+Provide:
+1. Overall purpose and functionality
+2. Key components and their roles
+3. Important algorithms or patterns used
+4. Potential issues or improvements
+`,
+  },
+  'builder.optimize': {
+    id: 'builder.optimize',
+    version: 1,
+    description: 'Optimize a file, answering with JSON edits',
+    template: `Optimize the following {{language}} code for performance, readability, and best practices:
+
+**File**: {{fileName}}
+
+\`\`\`{{language}}
+{{code}}
+\`\`\`
+
+Provide optimized code with:
+1. Performance improvements
+2. Better code structure
+3. Modern {{language}} patterns
+4. Comments explaining key changes
+
+Use the same JSON format as code editing with precise diffs.
+`,
+  },
+  'project-rules': {
+    id: 'project-rules',
+    version: 1,
+    description: 'System message carrying the workspace .webagent/rules.md',
+    template: 'This project has coding rules (from .webagent/rules.md). Follow them in any code you write or change, unless the user explicitly asks otherwise:\n\n{{rules}}',
+  },
+};
+
+export class PromptTemplates {
+  /**
+   * Fill a template, preferring the workspace's wording over the built-in one
+   */
+  static render(id: PromptTemplateId, variables: PromptVariables, overrides?: PromptTemplateOverrides): string {
+    return this.fill(overrides?.[id] ?? PROMPT_TEMPLATES[id].template, variables);
+  }
+
+  /**
+   * `id@version`, identifying the exact wording a response was generated from;
+   * `id@workspace` when the workspace replaced the template
+   */
+  static tag(id: PromptTemplateId, overrides?: PromptTemplateOverrides): string {
+    return `${id}@${overrides?.[id] !== undefined ? WORKSPACE_VERSION : PROMPT_TEMPLATES[id].version}`;
+  }
+
+  /**
+   * Keep the known template ids with non-empty text from an untrusted value (a request body)
+   */
+  static overrides(value: unknown): PromptTemplateOverrides {
+    if (!value || typeof value !== 'object') return {};
+    const overrides: PromptTemplateOverrides = {};
+    Object.entries(value as Record<string, unknown>).forEach(([id, text]) => {
+      if (id in PROMPT_TEMPLATES && typeof text === 'string' && text.trim()) {
+        overrides[id as PromptTemplateId] = text;
+      }
+    });
+    return overrides;
+  }
+
+  /**
+   * Replace {{name}} with its value ('' when missing) and drop {{#name}}...{{/name}}
+   * sections whose variable is empty
+   */
+  static fill(template: string, variables: PromptVariables): string {
+    const value = (name: string) => {
+      const v = variables[name];
+      return v === undefined ? '' : String(v);
+    };
+    return template
+      .replace(/\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g, (_section, name: string, body: string) =>
+        value(name).trim() ? body : ''
+      )
+      .replace(/\{\{(\w+)\}\}/g, (_placeholder, name: string) => value(name));
+  }
+}
@@ -0,0 +1,220 @@
+/**
+ * Slash Commands - /explain, /fix, /test... shortcuts in the chat input
+ * Each command is a prompt template filled with the active file or selection. Teams can add
+ * their own (or override the built-in ones) in .webagent/commands.json at the workspace root
+ */
+
+import { SlashCommand, SlashCommandContext, SlashCommandMode } from '@/types/command.types';
+import { WorkspaceConfig } from './workspaceConfig';
+
+export interface SlashInvocation {
+  name: string;
+  args: string;             // Everything after the command name, trimmed
+  argv: string[];           // args split on whitespace; "quoted text" stays one argument
+}
+
+export interface WorkspaceCommands {
+  commands: SlashCommand[];
+  errors: string[];         // Problems in the config file; valid entries are still used
+}
+
+export const COMMANDS_FILE = 'commands.json';
+
+const MAX_SUGGESTIONS = 8;
+const NAME_PATTERN = /^[a-z][\w-]*$/i;
+
+export const BUILTIN_COMMANDS: SlashCommand[] = [
+  {
+    name: 'explain',
+    description: '解释当前选中的代码或文件',
+    args: '[问题]',
+    mode: 'chat',
+    template: '请解释以下代码的功能、关键逻辑和潜在问题。{{args}}\n\n文件：{{fileName}}\n```{{language}}\n{{code}}\n```\n\n请用中文回答。',
+    source: 'builtin',
+  },
+  {
+    name: 'fix',
+    description: '根据错误信息修复代码',
+    args: '<错误信息>',
+    requiresArgs: true,
+    mode: 'edit',
+    template: '修复导致以下错误的代码，只改动必要的部分：\n{{args}}',
+    source: 'builtin',
+  },
+  {
+    name: 'test',
+    description: '为代码生成单元测试',
+    args: '[测试框架]',
+    mode: 'chat',
+    template: '为以下代码编写单元测试，覆盖正常路径和边界情况。{{args}}\n\n文件：{{fileName}}\n```{{language}}\n{{code}}\n```\n\n把完整的测试文件放在一个代码块中，并说明测试文件应放在哪里。',
+    source: 'builtin',
+  },
+  {
+    name: 'doc',
+    description: '为代码添加文档注释',
+    mode: 'edit',
+    template: '为代码中的函数、类和导出添加符合该语言惯例的文档注释，不要修改任何逻辑。{{args}}',
+    source: 'builtin',
+  },
+  {
+    name: 'refactor',
+    description: '重构代码并保持行为不变',
+    args: '[重构目标]',
+    mode: 'edit',
+    template: '重构这段代码以提高可读性和可维护性，保持外部行为不变。{{args}}',
+    source: 'builtin',
+  },
+  {
+    name: 'commit-msg',
+    description: '根据工作区改动生成提交信息',
+    args: '[风格要求]',
+    mode: 'chat',
+    template: '根据以下 git diff 写一条提交信息：第一行是不超过 72 个字符的摘要，空一行后用要点说明改动内容和原因。{{args}}\n\n```diff\n{{diff}}\n```\n\n只输出提交信息本身。',
+    source: 'builtin',
+  },
+  {
+    name: 'review',
+    description: '审查代码中的问题和改进点',
+    args: '[关注点]',
+    mode: 'chat',
+    template: '请审查以下代码，按严重程度列出 bug、安全问题、性能问题和可读性问题，并给出具体的修改建议。{{args}}\n\n文件：{{fileName}}\n```{{language}}\n{{code}}\n```\n\n请用中文回答。',
+    source: 'builtin',
+  },
+];
+
+export class SlashCommands {
+  /**
+   * Split `/name args...` into its parts; null when the input is not a command
+   */
+  static parse(input: string): SlashInvocation | null {
+    const match = input.trimStart().match(/^\/([\w-]+)(?:\s+([\s\S]*))?$/);
+    if (!match) return null;
+    const args = (match[2] ?? '').trim();
+    return { name: match[1].toLowerCase(), args, argv: this.splitArgs(args) };
+  }
+
+  /**
+   * The command name being typed: the input is `/` plus a partial name and the caret is in it
+   */
+  static activeQuery(text: string, caret: number): string | null {
+    const match = text.slice(0, caret).match(/^\/([\w-]*)$/);
+    return match ? match[1] : null;
+  }
+
+  /**
+   * Commands whose name starts with (or else contains) the query
+   */
+  static suggest(query: string, commands: SlashCommand[]): SlashCommand[] {
+    const needle = query.toLowerCase();
+    const prefix = commands.filter((command) => command.name.startsWith(needle));
+    const inner = commands.filter((command) => !command.name.startsWith(needle) && command.name.includes(needle));
+    return [...prefix, ...inner].slice(0, MAX_SUGGESTIONS);
+  }
+
+  static find(name: string, commands: SlashCommand[]): SlashCommand | undefined {
+    return commands.find((command) => command.name === name.toLowerCase());
+  }
+
+  /**
+   * Built-in commands followed by workspace ones; a workspace command with a built-in's
+   * name replaces it in place
+   */
+  static merge(builtin: SlashCommand[], workspace: SlashCommand[]): SlashCommand[] {
+    const overrides = new Map(workspace.map((command) => [command.name, command]));
+    return [
+      ...builtin.map((command) => overrides.get(command.name) ?? command),
+      ...workspace.filter((command) => !builtin.some((b) => b.name === command.name)),
+    ];
+  }
+
+  /**
+   * Whether the template uses a placeholder, so expensive values (the diff) are only
+   * fetched when needed
+   */
+  static uses(command: SlashCommand, variable: keyof SlashCommandContext | 'args'): boolean {
+    return command.template.includes(`{{${variable}}}`);
+  }
+
+  /**
+   * Fill the template. Unknown placeholders are left as typed; {{argN}} past the end is empty
+   */
+  static render(command: SlashCommand, invocation: SlashInvocation, context: SlashCommandContext): string {
+    const values: Record<string, string> = {
+      args: invocation.args,
+      code: context.code,
+      fileName: context.fileName,
+      language: context.language,
+      diff: context.diff ?? '',
+    };
+    return command.template
+      .replace(/\{\{(\w+)\}\}/g, (placeholder, key: string) => {
+        const arg = key.match(/^arg(\d+)$/);
+        if (arg) return invocation.argv[Number(arg[1]) - 1] ?? '';
+        return key in values ? values[key] : placeholder;
+      })
+      .trim();
+  }
+
+  /**
+   * Check the parsed contents of commands.json: `{ "commands": [{ name, template, ... }] }`
+   */
+  static validate(raw: unknown): WorkspaceCommands {
+    const list = (raw as { commands?: unknown } | null)?.commands;
+    if (!Array.isArray(list)) {
+      return { commands: [], errors: [`${COMMANDS_FILE} 需要包含 "commands" 数组`] };
+    }
+
+    const commands: SlashCommand[] = [];
+    const errors: string[] = [];
+    list.forEach((entry, index) => {
+      const item = (entry ?? {}) as Record<string, unknown>;
+      const label = typeof item.name === 'string' ? `/${item.name}` : `第 ${index + 1} 项`;
+
+      if (typeof item.name !== 'string' || !NAME_PATTERN.test(item.name)) {
+        errors.push(`${label}：name 只能包含字母、数字、- 和 _，且以字母开头`);
+        return;
+      }
+      if (typeof item.template !== 'string' || !item.template.trim()) {
+        errors.push(`${label}：缺少 template`);
+        return;
+      }
+      if (item.mode !== undefined && item.mode !== 'chat' && item.mode !== 'edit') {
+        errors.push(`${label}：mode 只能是 "chat" 或 "edit"`);
+        return;
+      }
+      if (commands.some((command) => command.name === (item.name as string).toLowerCase())) {
+        errors.push(`${label}：重复定义`);
+        return;
+      }
+
+      commands.push({
+        name: item.name.toLowerCase(),
+        description: typeof item.description === 'string' ? item.description : '',
+        args: typeof item.args === 'string' ? item.args : undefined,
+        requiresArgs: item.requiresArgs === true,
+        mode: (item.mode as SlashCommandMode | undefined) ?? 'chat',
+        template: item.template,
+        source: 'workspace',
+      });
+    });
+    return { commands, errors };
+  }
+
+  /**
+   * Read .webagent/commands.json from the workspace; a missing file means no custom commands
+   */
+  static async loadWorkspaceCommands(dirHandle: FileSystemDirectoryHandle): Promise<WorkspaceCommands> {
+    const text = await WorkspaceConfig.readFile(dirHandle, COMMANDS_FILE);
+    if (text === null) return { commands: [], errors: [] };
+
+    try {
+      return this.validate(JSON.parse(text));
+    } catch (error) {
+      return { commands: [], errors: [`${COMMANDS_FILE} 不是有效的 JSON：${(error as Error).message}`] };
+    }
+  }
+
+  private static splitArgs(args: string): string[] {
+    return Array.from(args.matchAll(/"([^"]*)"|'([^']*)'|(\S+)/g), (m) => m[1] ?? m[2] ?? m[3]);
+  }
+}
@@ -0,0 +1,282 @@
+/**
+ * Symbol Index - Workspace-wide symbol table over the opened directory
+ * Re-parses only files whose mtime/size changed and persists results in IndexedDB
+ */
+
+import { CodeParser, CodeSymbol } from './codeParser';
+import { AIPromptBuilder } from './aiPromptBuilder';
+import { IndexedFile, IndexedSymbol, SymbolIndexStats } from '@/types/symbol.types';
+import { loadIndexedFiles, updateIndexedFiles } from '@/utils/storage';
+
+// Languages with a real parser behind CodeParser; other files are not indexed
+const INDEXED_LANGUAGES = ['javascript', 'typescript', 'python', 'java'];
+const MODULE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.py', '.java'];
+const MAX_FILE_SIZE = 512 * 1024;
+// Bump when the parser output changes shape, so persisted records are parsed again
+export const INDEX_VERSION = 2;
+
+type StatsListener = (stats: SymbolIndexStats) => void;
+
+/**
+ * Incrementally maintained symbol index for one workspace
+ */
+export class SymbolIndex {
+  private files = new Map<string, IndexedFile>();
+  private loaded: Promise<void> | null = null;
+  private syncing: Promise<void> | null = null;
+  private pendingHandles: Map<string, FileSystemFileHandle> | null = null;
+  private listeners = new Set<StatsListener>();
+
+  constructor(readonly workspace: string) {}
+
+  /**
+   * Whether a file path is parsed into the index
+   */
+  static isIndexable(path: string): boolean {
+    return INDEXED_LANGUAGES.includes(AIPromptBuilder.getLanguage(path));
+  }
+
+  /**
+   * Restore the persisted index (only once per instance); records written by an older
+   * parser are dropped, so the next sync parses those files again
+   */
+  load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = loadIndexedFiles(this.workspace).then(async (files) => {
+        const outdated: string[] = [];
+        files.forEach((file) => {
+          if (file.version === INDEX_VERSION) this.files.set(file.path, file);
+          else outdated.push(file.path);
+        });
+        await updateIndexedFiles(this.workspace, [], outdated);
+        this.notify();
+      });
+    }
+    return this.loaded;
+  }
+
+  /**
+   * Bring the index in line with the current file handles.
+   * Calls made while a sync is running are coalesced into one follow-up pass.
+   */
+  sync(handles: Map<string, FileSystemFileHandle>): Promise<void> {
+    this.pendingHandles = handles;
+    if (this.syncing) return this.syncing;
+
+    this.syncing = (async () => {
+      while (this.pendingHandles) {
+        const next = this.pendingHandles;
+        this.pendingHandles = null;
+        await this.runSync(next);
+      }
+    })().finally(() => {
+      this.syncing = null;
+    });
+
+    return this.syncing;
+  }
+
+  /**
+   * Re-index a single file, e.g. right after it was saved; a file that can no longer
+   * be indexed (too large, unreadable) leaves the index
+   */
+  async updateFile(path: string, handle: FileSystemFileHandle): Promise<void> {
+    await Promise.all([this.load(), CodeParser.load()]);
+    const entry = await this.indexHandle(path, handle, true);
+    if (entry === 'unchanged') return;
+
+    if (entry) {
+      this.files.set(path, entry);
+      await updateIndexedFiles(this.workspace, [entry]);
+    } else {
+      if (!this.files.delete(path)) return;
+      await updateIndexedFiles(this.workspace, [], [path]);
+    }
+    this.notify();
+  }
+
+  /**
+   * Find where a symbol is declared. Accepts plain names ("parse") or
+   * scoped names ("CodeParser.parse"). Exported and top-level symbols come first.
+   */
+  findDefinition(name: string): IndexedSymbol[] {
+    const parts = name.split('.');
+    const symbolName = parts.pop() as string;
+    const scope = parts.join('.');
+    const results: IndexedSymbol[] = [];
+
+    this.files.forEach((file) => {
+      file.context.symbols.forEach((symbol) => {
+        if (symbol.name !== symbolName) return;
+        if (scope && symbol.scope !== scope && !symbol.scope?.endsWith(`.${scope}`)) return;
+        results.push({ ...symbol, filePath: file.path });
+      });
+    });
+
+    const rank = (symbol: IndexedSymbol) => (symbol.exported ? 0 : 2) + (symbol.scope ? 1 : 0);
+    return results.sort((a, b) => rank(a) - rank(b) || a.filePath.localeCompare(b.filePath));
+  }
+
+  /**
+   * List the exported symbols of a module. `modulePath` may be a workspace path
+   * or an import specifier, resolved relative to `fromFile` when given.
+   */
+  listExports(modulePath: string, fromFile?: string): IndexedSymbol[] {
+    const path = this.resolveModule(modulePath, fromFile);
+    const file = path ? this.files.get(path) : undefined;
+    if (!file) return [];
+
+    const { context } = file;
+
+    // Python/Java have no export syntax: public top-level declarations count
+    if (!CodeParser.isJavaScriptLike(context.language)) {
+      return context.symbols
+        .filter((symbol) => !symbol.scope && !symbol.name.startsWith('_'))
+        .map((symbol) => ({ ...symbol, filePath: file.path }));
+    }
+
+    const exported = context.symbols
+      .filter((symbol) => symbol.exported)
+      .map((symbol) => ({ ...symbol, filePath: file.path }));
+    const declared = new Set(exported.map((symbol) => symbol.name));
+
+    // Re-exports and `export { a as b }` have no declaration in this file
+    const reexported: IndexedSymbol[] = context.exports
+      .filter((name) => name !== 'default' && !declared.has(name))
+      .map((name) => ({
+        name,
+        type: 'export' as CodeSymbol['type'],
+        startLine: 1,
+        endLine: 1,
+        content: '',
+        filePath: file.path,
+      }));
+
+    return [...exported, ...reexported];
+  }
+
+  /**
+   * Parsed context for a single indexed file
+   */
+  getFile(path: string): IndexedFile | undefined {
+    return this.files.get(path);
+  }
+
+  getFiles(): IndexedFile[] {
+    return Array.from(this.files.values());
+  }
+
+  getStats(): SymbolIndexStats {
+    let symbols = 0;
+    this.files.forEach((file) => {
+      symbols += file.context.symbols.length;
+    });
+    return { files: this.files.size, symbols };
+  }
+
+  /**
+   * Subscribe to stats changes; returns an unsubscribe function
+   */
+  subscribe(listener: StatsListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async runSync(handles: Map<string, FileSystemFileHandle>) {
+    await Promise.all([this.load(), CodeParser.load()]);
+
+    const updated: IndexedFile[] = [];
+    const unindexable = new Set<string>();
+    for (const [path, handle] of handles) {
+      const entry = await this.indexHandle(path, handle, false);
+      if (entry === null) unindexable.add(path);
+      else if (entry !== 'unchanged') updated.push(entry);
+    }
+
+    // Deleted files, and files that grew too large or became unreadable since they were indexed
+    const removed = Array.from(this.files.keys()).filter((path) => !handles.has(path) || unindexable.has(path));
+    removed.forEach((path) => this.files.delete(path));
+    updated.forEach((entry) => this.files.set(entry.path, entry));
+
+    if (updated.length === 0 && removed.length === 0) return;
+
+    await updateIndexedFiles(this.workspace, updated, removed);
+    this.notify();
+  }
+
+  /**
+   * Parse a file if it changed since it was last indexed (or when forced).
+   * 'unchanged' keeps the current entry; null means the file cannot be indexed
+   * (other language, too large, unreadable) and must not keep an entry
+   */
+  private async indexHandle(
+    path: string,
+    handle: FileSystemFileHandle,
+    force: boolean
+  ): Promise<IndexedFile | 'unchanged' | null> {
+    if (!SymbolIndex.isIndexable(path)) return null;
+
+    try {
+      const file = await handle.getFile();
+      const existing = this.files.get(path);
+      if (!force && existing && existing.lastModified === file.lastModified && existing.size === file.size) {
+        return 'unchanged';
+      }
+      if (file.size > MAX_FILE_SIZE) return null;
+
+      const content = await file.text();
+      return {
+        workspace: this.workspace,
+        path,
+        version: INDEX_VERSION,
+        lastModified: file.lastModified,
+        size: file.size,
+        context: CodeParser.parse(content, AIPromptBuilder.getLanguage(path), path),
+      };
+    } catch (error) {
+      console.warn(`Failed to index ${path}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Resolve an import specifier or module path to an indexed file path
+   */
+  resolveModule(specifier: string, fromFile?: string): string | null {
+    let base = specifier.replace(/^\.\//, '');
+
+    if (specifier.startsWith('.') && fromFile) {
+      base = this.joinPath(fromFile.split('/').slice(0, -1).join('/'), specifier);
+    } else if (specifier.startsWith('@/')) {
+      // Common tsconfig alias for src/
+      base = `src/${specifier.slice(2)}`;
+    } else if (!specifier.includes('/') && specifier.includes('.') && !this.files.has(specifier)) {
+      // Python-style dotted module: package.module
+      base = specifier.split('.').join('/');
+    }
+
+    const candidates = [
+      base,
+      ...MODULE_EXTENSIONS.map((ext) => base + ext),
+      ...MODULE_EXTENSIONS.map((ext) => `${base}/index${ext}`),
+      `${base}/__init__.py`,
+    ];
+    return candidates.find((candidate) => this.files.has(candidate)) || null;
+  }
+
+  private joinPath(dir: string, relative: string): string {
+    const parts = dir ? dir.split('/') : [];
+    relative.split('/').forEach((part) => {
+      if (part === '..') parts.pop();
+      else if (part && part !== '.') parts.push(part);
+    });
+    return parts.join('/');
+  }
+
+  private notify() {
+    const stats = this.getStats();
+    this.listeners.forEach((listener) => listener(stats));
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Three-Way Merge - Line-based diff3 merge of two versions against their common base
+ * Used when an open file changed on disk while its buffer (or pending AI edits) changed too:
+ * changes on only one side are taken as is, overlapping changes become conflict blocks
+ */
+
+import { DiffHunk, DiffHunks } from './diffHunks';
+
+export interface MergeResult {
+  content: string;        // Merged text; conflicts are wrapped in conflict markers
+  conflicts: number;
+}
+
+// A change from the base to one side, in 0-indexed base lines [start, end)
+interface SideChange {
+  side: 'ours' | 'theirs';
+  start: number;
+  end: number;
+  hunk: DiffHunk;
+}
+
+export const CONFLICT_START = '<<<<<<< 当前内容';
+export const CONFLICT_SEPARATOR = '=======';
+export const CONFLICT_END = '>>>>>>> 磁盘';
+
+export class ThreeWayMerge {
+  /**
+   * Merge `ours` (buffer) and `theirs` (disk), both derived from `base`
+   */
+  static merge(base: string, ours: string, theirs: string): MergeResult {
+    if (ours === theirs || theirs === base) return { content: ours, conflicts: 0 };
+    if (ours === base) return { content: theirs, conflicts: 0 };
+
+    const baseLines = this.splitKeepEnds(base);
+    const changes = [
+      ...this.changes(base, ours, 'ours'),
+      ...this.changes(base, theirs, 'theirs'),
+    ].sort((a, b) => a.start - b.start || a.end - b.end);
+
+    let content = '';
+    let conflicts = 0;
+    let position = 0;
+    let i = 0;
+
+    while (i < changes.length) {
+      // Changes that overlap or touch form one region, as in git
+      const group = [changes[i]];
+      const start = changes[i].start;
+      let end = changes[i].end;
+      i++;
+      while (i < changes.length && changes[i].start <= end) {
+        group.push(changes[i]);
+        end = Math.max(end, changes[i].end);
+        i++;
+      }
+
+      content += baseLines.slice(position, start).join('');
+      position = end;
+
+      const oursText = this.applyWithin(baseLines, start, end, group.filter((change) => change.side === 'ours'));
+      const theirsText = this.applyWithin(baseLines, start, end, group.filter((change) => change.side === 'theirs'));
+      const touchedByOurs = group.some((change) => change.side === 'ours');
+      const touchedByTheirs = group.some((change) => change.side === 'theirs');
+
+      if (!touchedByTheirs || oursText === theirsText) {
+        content += oursText;
+      } else if (!touchedByOurs) {
+        content += theirsText;
+      } else {
+        conflicts++;
+        content += `${CONFLICT_START}\n`
+          + this.withNewline(oursText, CONFLICT_SEPARATOR)
+          + this.withNewline(theirsText, CONFLICT_END);
+      }
+    }
+
+    content += baseLines.slice(position).join('');
+    return { content, conflicts };
+  }
+
+  /**
+   * Conflict blocks still left in a (partly) resolved merge result
+   */
+  static countConflicts(text: string): number {
+    return text.split('\n').filter((line) => line.startsWith(CONFLICT_START)).length;
+  }
+
+  private static changes(base: string, side: string, name: SideChange['side']): SideChange[] {
+    return DiffHunks.hunks(base, side).map((hunk) => ({
+      side: name,
+      start: hunk.oldStart - 1,
+      end: hunk.oldStart - 1 + hunk.oldLines.length,
+      hunk,
+    }));
+  }
+
+  // One side's text for base lines [start, end), with that side's changes in the range applied
+  private static applyWithin(baseLines: string[], start: number, end: number, changes: SideChange[]): string {
+    let text = '';
+    let position = start;
+    for (const change of changes) {
+      text += baseLines.slice(position, change.start).join('') + change.hunk.added;
+      position = change.end;
+    }
+    return text + baseLines.slice(position, end).join('');
+  }
+
+  // Text followed by a marker line; the marker always starts on a line of its own
+  private static withNewline(text: string, marker: string): string {
+    const separator = text && !text.endsWith('\n') ? '\n' : '';
+    return `${text}${separator}${marker}\n`;
+  }
+
+  // Lines with their line endings, so joining them gives back the exact text
+  private static splitKeepEnds(text: string): string[] {
+    return text.match(/[^\n]*\n|[^\n]+$/g) || [];
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Token Budget - Token estimates and per-model limits for prompts and responses
+ * Estimates are heuristic (no tokenizer in the browser); limits leave headroom for that
+ */
+
+import { LLMProviderId } from '@/types/llm.types';
+
+export interface ModelLimits {
+  contextTokens: number;    // Context window of the model
+  outputTokens: number;     // Requested maxOutputTokens for code answers
+  promptTokens: number;     // Budget for packed code context in a single prompt
+}
+
+// Prompt budget when the caller does not know the model
+export const DEFAULT_PROMPT_TOKENS = 16000;
+
+// Earlier turns, project rules and the fixed prompt text around the packed context
+const RESERVED_TOKENS = 10000;
+// Bigger prompts are slow and costly even when the window allows them
+const MAX_PROMPT_TOKENS = 64000;
+// Long enough for multi-file JSON edits without waiting minutes for a runaway answer
+const MAX_OUTPUT_TOKENS = 16384;
+
+// First match wins; `model` is matched case-insensitively against the requested model name
+const MODEL_LIMITS: { model: RegExp; contextTokens: number; outputTokens: number }[] = [
+  { model: /^gemini-(2\.5|3)/, contextTokens: 1048576, outputTokens: 65536 },
+  { model: /^gemini/, contextTokens: 1048576, outputTokens: 8192 },
+  { model: /^gpt-4\.1/, contextTokens: 1047576, outputTokens: 32768 },
+  { model: /^gpt-4o/, contextTokens: 128000, outputTokens: 16384 },
+  { model: /^gpt-5/, contextTokens: 400000, outputTokens: 128000 },
+  { model: /^o\d/, contextTokens: 200000, outputTokens: 100000 },
+  { model: /^gpt-3\.5/, contextTokens: 16385, outputTokens: 4096 },
+  { model: /^claude-3-(opus|sonnet|haiku)/, contextTokens: 200000, outputTokens: 4096 },
+  { model: /^claude-3/, contextTokens: 200000, outputTokens: 8192 },
+  { model: /^claude/, contextTokens: 200000, outputTokens: 32000 },
+  { model: /^(qwen2\.5|qwen3|llama3\.[1-3]|deepseek)/, contextTokens: 32768, outputTokens: 4096 },
+];
+
+// Unknown models: Ollama serves small windows by default, hosted APIs are at least this big
+const PROVIDER_LIMITS: Record<LLMProviderId, { contextTokens: number; outputTokens: number }> = {
+  gemini: { contextTokens: 1048576, outputTokens: 8192 },
+  openai: { contextTokens: 128000, outputTokens: 4096 },
+  anthropic: { contextTokens: 200000, outputTokens: 8192 },
+  ollama: { contextTokens: 8192, outputTokens: 2048 },
+  mock: { contextTokens: 32768, outputTokens: 2048 },
+};
+
+export class TokenBudget {
+  /**
+   * Rough token count: CJK characters are about one token each, other text about four
+   * characters per token
+   */
+  static estimate(text: string): number {
+    const cjk = (text.match(/[\u3000-\u9fff\uac00-\ud7af\uff00-\uffef]/g) || []).length;
+    return cjk + Math.ceil((text.length - cjk) / 4);
+  }
+
+  /**
+   * Limits for a provider/model pair; the provider's defaults when the model is unknown
+   */
+  static forModel(provider: LLMProviderId, model?: string): ModelLimits {
+    const name = (model ?? '').toLowerCase();
+    const known = name ? MODEL_LIMITS.find((entry) => entry.model.test(name)) : undefined;
+    const { contextTokens, outputTokens } = known ?? PROVIDER_LIMITS[provider] ?? PROVIDER_LIMITS.gemini;
+    const output = Math.min(outputTokens, MAX_OUTPUT_TOKENS);
+    return {
+      contextTokens,
+      outputTokens: output,
+      promptTokens: Math.max(1000, Math.min(contextTokens - output - RESERVED_TOKENS, MAX_PROMPT_TOKENS)),
+    };
+  }
+
+  /**
+   * Cut text to about `tokens` tokens at a line boundary
+   */
+  static truncate(text: string, tokens: number): string {
+    const total = this.estimate(text);
+    if (total <= tokens) return text;
+    // Scale by the estimate's own chars-per-token ratio so CJK text is cut proportionally
+    const cut = text.slice(0, Math.floor(text.length * (tokens / total)));
+    const lineEnd = cut.lastIndexOf('\n');
+    return lineEnd > 0 ? cut.slice(0, lineEnd) : cut;
+  }
+}
@@ -0,0 +1,402 @@
+/**
+ * TS AST Parser - TypeScript compiler API backend for CodeParser
+ * Walks the real syntax tree so arrow functions, class members, destructured
+ * exports and braces inside strings/templates are handled correctly.
+ * The compiler is large, so it is loaded on demand in its own chunk
+ */
+
+import type TS from 'typescript';
+import type { CodeContext, CodeSymbol } from './codeParser';
+
+// Set once load() has fetched the compiler
+let ts: typeof TS;
+let loading: Promise<boolean> | null = null;
+let loaded = false;
+
+interface WalkState {
+  sourceFile: TS.SourceFile;
+  lines: string[];
+  symbols: CodeSymbol[];
+  imports: string[];
+  exports: string[];
+  dependencies: Set<string>;
+}
+
+/**
+ * Parse JavaScript/TypeScript into the shared CodeContext shape
+ */
+export class TSAstParser {
+  /**
+   * Fetch the compiler (only once); resolves false when it cannot be loaded
+   */
+  static load(): Promise<boolean> {
+    loading ??= import('typescript')
+      .then((module) => {
+        ts = (module.default ?? module) as typeof TS;
+        loaded = true;
+        return true;
+      })
+      .catch((error) => {
+        console.warn('Failed to load the TypeScript compiler:', error);
+        return false;
+      });
+    return loading;
+  }
+
+  /**
+   * Parse code; `fileName` (when known) picks the right script kind for JSX.
+   * Null until load() has finished
+   */
+  static parse(code: string, language: string, fileName?: string): CodeContext | null {
+    if (!loaded) return null;
+
+    const sourceFile = ts.createSourceFile(
+      fileName || 'source',
+      code,
+      ts.ScriptTarget.Latest,
+      true,
+      this.getScriptKind(language, fileName)
+    );
+
+    const state: WalkState = {
+      sourceFile,
+      lines: code.split('\n'),
+      symbols: [],
+      imports: [],
+      exports: [],
+      dependencies: new Set<string>(),
+    };
+
+    sourceFile.statements.forEach((statement) => this.visitStatement(statement, state, undefined, true));
+    this.collectDynamicImports(sourceFile, state);
+
+    return {
+      symbols: state.symbols,
+      imports: state.imports,
+      exports: state.exports,
+      dependencies: Array.from(state.dependencies),
+      language,
+    };
+  }
+
+  /**
+   * Choose the script kind from the file extension, falling back to the language id
+   */
+  private static getScriptKind(language: string, fileName?: string): TS.ScriptKind {
+    const ext = fileName?.split('.').pop()?.toLowerCase();
+    switch (ext) {
+      case 'tsx':
+        return ts.ScriptKind.TSX;
+      case 'jsx':
+        return ts.ScriptKind.JSX;
+      case 'js':
+      case 'mjs':
+      case 'cjs':
+        return ts.ScriptKind.JS;
+      case 'ts':
+      case 'mts':
+      case 'cts':
+        return ts.ScriptKind.TS;
+    }
+
+    switch (language.toLowerCase()) {
+      case 'tsx':
+        return ts.ScriptKind.TSX;
+      case 'jsx':
+        return ts.ScriptKind.JSX;
+      case 'javascript':
+        return ts.ScriptKind.JS;
+      default:
+        return ts.ScriptKind.TS;
+    }
+  }
+
+  /**
+   * Visit a statement; `topLevel` statements contribute imports/exports
+   */
+  private static visitStatement(
+    node: TS.Node,
+    state: WalkState,
+    scope: string | undefined,
+    topLevel: boolean
+  ) {
+    const exported = topLevel && this.hasModifier(node, ts.SyntaxKind.ExportKeyword);
+    const isDefault = topLevel && this.hasModifier(node, ts.SyntaxKind.DefaultKeyword);
+
+    if (ts.isImportDeclaration(node)) {
+      if (topLevel && ts.isStringLiteral(node.moduleSpecifier)) {
+        state.imports.push(node.moduleSpecifier.text);
+        state.dependencies.add(node.moduleSpecifier.text);
+      }
+      return;
+    }
+
+    if (ts.isImportEqualsDeclaration(node)) {
+      const reference = node.moduleReference;
+      if (ts.isExternalModuleReference(reference) && ts.isStringLiteral(reference.expression)) {
+        state.imports.push(reference.expression.text);
+        state.dependencies.add(reference.expression.text);
+      }
+      return;
+    }
+
+    if (ts.isExportDeclaration(node)) {
+      this.visitExportDeclaration(node, state);
+      return;
+    }
+
+    if (ts.isExportAssignment(node)) {
+      // export default <expression> / export = <expression>
+      state.exports.push(node.isExportEquals ? '=' : 'default');
+      const expression = node.expression;
+      if (ts.isArrowFunction(expression) || ts.isFunctionExpression(expression)) {
+        this.addSymbol(state, node, 'default', 'function', scope, true);
+        this.visitBody(expression.body, state, this.joinScope(scope, 'default'));
+      } else if (ts.isClassExpression(expression)) {
+        this.visitClass(expression, expression.name?.text || 'default', state, scope, true, node);
+      }
+      return;
+    }
+
+    if (ts.isFunctionDeclaration(node)) {
+      const name = node.name?.text || 'default';
+      this.addSymbol(state, node, name, 'function', scope, exported);
+      this.recordExport(state, name, exported, isDefault);
+      this.visitBody(node.body, state, this.joinScope(scope, name));
+      return;
+    }
+
+    if (ts.isClassDeclaration(node)) {
+      const name = node.name?.text || 'default';
+      this.visitClass(node, name, state, scope, exported);
+      this.recordExport(state, name, exported, isDefault);
+      return;
+    }
+
+    if (ts.isInterfaceDeclaration(node)) {
+      this.addSymbol(state, node, node.name.text, 'interface', scope, exported);
+      this.recordExport(state, node.name.text, exported, isDefault);
+      return;
+    }
+
+    if (ts.isTypeAliasDeclaration(node)) {
+      this.addSymbol(state, node, node.name.text, 'type', scope, exported);
+      this.recordExport(state, node.name.text, exported, false);
+      return;
+    }
+
+    if (ts.isEnumDeclaration(node)) {
+      this.addSymbol(state, node, node.name.text, 'enum', scope, exported);
+      this.recordExport(state, node.name.text, exported, false);
+      return;
+    }
+
+    if (ts.isModuleDeclaration(node)) {
+      const name = node.name.text;
+      this.addSymbol(state, node, name, 'namespace', scope, exported);
+      this.recordExport(state, name, exported, false);
+      let body = node.body;
+      // namespace A.B.C { } nests ModuleDeclarations
+      while (body && ts.isModuleDeclaration(body)) body = body.body;
+      if (body && ts.isModuleBlock(body)) {
+        body.statements.forEach((statement) =>
+          this.visitStatement(statement, state, this.joinScope(scope, name), false)
+        );
+      }
+      return;
+    }
+
+    if (ts.isVariableStatement(node)) {
+      node.declarationList.declarations.forEach((declaration) =>
+        this.visitVariable(declaration, state, scope, exported, !this.isFunctionScope(node))
+      );
+      return;
+    }
+
+    // Nested blocks (if/for/try...) may declare functions and classes
+    ts.forEachChild(node, (child) => {
+      if (ts.isStatement(child)) this.visitStatement(child, state, scope, false);
+    });
+  }
+
+  /**
+   * Record `export { a as b }`, `export * from`, `export * as ns from`
+   */
+  private static visitExportDeclaration(node: TS.ExportDeclaration, state: WalkState) {
+    const specifier = node.moduleSpecifier && ts.isStringLiteral(node.moduleSpecifier)
+      ? node.moduleSpecifier.text
+      : undefined;
+
+    if (specifier) state.dependencies.add(specifier);
+
+    const clause = node.exportClause;
+    if (!clause) {
+      state.exports.push(`* from '${specifier}'`);
+    } else if (ts.isNamespaceExport(clause)) {
+      state.exports.push(clause.name.text);
+    } else {
+      clause.elements.forEach((element) => state.exports.push(element.name.text));
+    }
+  }
+
+  /**
+   * Add a variable symbol; arrow/function initializers become functions,
+   * destructuring patterns contribute one symbol per bound name
+   */
+  private static visitVariable(
+    declaration: TS.VariableDeclaration,
+    state: WalkState,
+    scope: string | undefined,
+    exported: boolean,
+    includePlain: boolean
+  ) {
+    const initializer = declaration.initializer;
+
+    if (!ts.isIdentifier(declaration.name)) {
+      if (!includePlain) return;
+      this.bindingNames(declaration.name).forEach((element) => {
+        this.addSymbol(state, element, element.name.getText(state.sourceFile), 'variable', scope, exported, declaration);
+        this.recordExport(state, element.name.getText(state.sourceFile), exported, false);
+      });
+      return;
+    }
+
+    const name = declaration.name.text;
+    if (initializer && (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer))) {
+      this.addSymbol(state, declaration, name, 'function', scope, exported);
+      this.visitBody(initializer.body, state, this.joinScope(scope, name));
+    } else if (initializer && ts.isClassExpression(initializer)) {
+      this.visitClass(initializer, name, state, scope, exported, declaration);
+    } else if (includePlain) {
+      this.addSymbol(state, declaration, name, 'variable', scope, exported);
+    } else {
+      return;
+    }
+    this.recordExport(state, name, exported, false);
+  }
+
+  /**
+   * Add a class and its members (methods, accessors, properties)
+   */
+  private static visitClass(
+    node: TS.ClassLikeDeclaration,
+    name: string,
+    state: WalkState,
+    scope: string | undefined,
+    exported: boolean,
+    rangeNode: TS.Node = node
+  ) {
+    this.addSymbol(state, rangeNode, name, 'class', scope, exported);
+    const classScope = this.joinScope(scope, name);
+
+    node.members.forEach((member) => {
+      if (ts.isConstructorDeclaration(member)) {
+        this.addSymbol(state, member, 'constructor', 'method', classScope, false);
+        this.visitBody(member.body, state, this.joinScope(classScope, 'constructor'));
+      } else if (
+        ts.isMethodDeclaration(member) ||
+        ts.isGetAccessorDeclaration(member) ||
+        ts.isSetAccessorDeclaration(member)
+      ) {
+        const memberName = member.name.getText(state.sourceFile);
+        this.addSymbol(state, member, memberName, 'method', classScope, false);
+        this.visitBody(member.body, state, this.joinScope(classScope, memberName));
+      } else if (ts.isPropertyDeclaration(member)) {
+        const memberName = member.name.getText(state.sourceFile);
+        const initializer = member.initializer;
+        const isFunction = !!initializer && (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer));
+        this.addSymbol(state, member, memberName, isFunction ? 'method' : 'property', classScope, false);
+        if (isFunction) {
+          this.visitBody(initializer.body, state, this.joinScope(classScope, memberName));
+        }
+      }
+    });
+  }
+
+  /**
+   * Walk a function body for nested functions and classes (plain locals are skipped)
+   */
+  private static visitBody(body: TS.Node | undefined, state: WalkState, scope: string) {
+    if (!body || !ts.isBlock(body)) return;
+    body.statements.forEach((statement) => this.visitStatement(statement, state, scope, false));
+  }
+
+  /**
+   * Pick up `import('x')` and `require('x')` calls anywhere in the file
+   */
+  private static collectDynamicImports(sourceFile: TS.SourceFile, state: WalkState) {
+    const visit = (node: TS.Node) => {
+      if (ts.isCallExpression(node) && node.arguments.length === 1 && ts.isStringLiteral(node.arguments[0])) {
+        const isImport = node.expression.kind === ts.SyntaxKind.ImportKeyword;
+        const isRequire = ts.isIdentifier(node.expression) && node.expression.text === 'require';
+        if (isImport || isRequire) {
+          state.dependencies.add(node.arguments[0].text);
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+  }
+
+  /**
+   * Flatten a destructuring pattern into its bound identifiers
+   */
+  private static bindingNames(pattern: TS.BindingPattern): TS.BindingElement[] {
+    const result: TS.BindingElement[] = [];
+    pattern.elements.forEach((element) => {
+      if (ts.isOmittedExpression(element)) return;
+      if (ts.isIdentifier(element.name)) {
+        result.push(element);
+      } else {
+        result.push(...this.bindingNames(element.name));
+      }
+    });
+    return result;
+  }
+
+  private static addSymbol(
+    state: WalkState,
+    node: TS.Node,
+    name: string,
+    type: CodeSymbol['type'],
+    scope: string | undefined,
+    exported: boolean,
+    rangeNode: TS.Node = node
+  ) {
+    const { sourceFile, lines } = state;
+    // Variable declarations start at the statement so `export const` lines are included
+    const rangeStart = ts.isVariableDeclaration(rangeNode) ? rangeNode.parent.parent : rangeNode;
+    const startLine = sourceFile.getLineAndCharacterOfPosition(rangeStart.getStart(sourceFile)).line + 1;
+    const endLine = sourceFile.getLineAndCharacterOfPosition(rangeNode.getEnd()).line + 1;
+
+    state.symbols.push({
+      name,
+      type,
+      startLine,
+      endLine,
+      content: lines[startLine - 1] ?? '',
+      scope,
+      exported: exported || undefined,
+    });
+  }
+
+  private static recordExport(state: WalkState, name: string, exported: boolean, isDefault: boolean) {
+    if (!exported) return;
+    state.exports.push(isDefault ? 'default' : name);
+  }
+
+  private static hasModifier(node: TS.Node, kind: TS.SyntaxKind): boolean {
+    return ts.canHaveModifiers(node) && !!ts.getModifiers(node)?.some((modifier) => modifier.kind === kind);
+  }
+
+  /**
+   * Plain variables are only listed outside function bodies
+   */
+  private static isFunctionScope(node: TS.Node): boolean {
+    return !!ts.findAncestor(node.parent, ts.isFunctionLike);
+  }
+
+  private static joinScope(scope: string | undefined, name: string): string {
+    return scope ? `${scope}.${name}` : name;
+  }
+}
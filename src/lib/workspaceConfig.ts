@@ -0,0 +1,77 @@
+/**
+ * Workspace Config - Files under .webagent/ at the workspace root
+ * The file tree skips dot-directories, so these are read straight from the directory handle
+ */
+
+import { PROMPT_TEMPLATES } from './promptTemplates';
+import { PromptTemplateId, PromptTemplateOverrides } from '@/types/prompt.types';
+
+export const WORKSPACE_CONFIG_DIR = '.webagent';
+export const RULES_FILE = 'rules.md';
+export const TEMPLATES_DIR = 'templates';
+
+// Rules go into every request, so keep them to a few pages
+const MAX_RULES_CHARS = 12000;
+// A template replaces a built-in prompt, which is at most a page
+const MAX_TEMPLATE_CHARS = 8000;
+
+export interface ProjectRules {
+  rules: string;            // '' when the workspace has no rules file
+  truncated: boolean;
+}
+
+export interface WorkspaceTemplates {
+  overrides: PromptTemplateOverrides;
+  errors: string[];         // Templates that were skipped, in Chinese for the toast
+}
+
+export class WorkspaceConfig {
+  /**
+   * Text of .webagent/<name>, or null when the folder or file does not exist;
+   * `name` may go through subfolders ('templates/action.edit.md')
+   */
+  static async readFile(dirHandle: FileSystemDirectoryHandle, name: string): Promise<string | null> {
+    try {
+      const parts = name.split('/');
+      let dir = await dirHandle.getDirectoryHandle(WORKSPACE_CONFIG_DIR);
+      for (const part of parts.slice(0, -1)) {
+        dir = await dir.getDirectoryHandle(part);
+      }
+      const fileHandle = await dir.getFileHandle(parts[parts.length - 1]);
+      return await (await fileHandle.getFile()).text();
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Project conventions from .webagent/rules.md, sent along with every AI request
+   */
+  static async loadRules(dirHandle: FileSystemDirectoryHandle): Promise<ProjectRules> {
+    const text = (await this.readFile(dirHandle, RULES_FILE))?.trim() ?? '';
+    if (text.length <= MAX_RULES_CHARS) return { rules: text, truncated: false };
+    return { rules: `${text.slice(0, MAX_RULES_CHARS)}\n… (truncated)`, truncated: true };
+  }
+
+  /**
+   * Workspace wording for built-in prompts from .webagent/templates/<id>.md (e.g. action.edit.md);
+   * templates without a file, or with an empty or oversized one, keep the built-in text
+   */
+  static async loadTemplates(dirHandle: FileSystemDirectoryHandle): Promise<WorkspaceTemplates> {
+    const overrides: PromptTemplateOverrides = {};
+    const errors: string[] = [];
+    const ids = Object.keys(PROMPT_TEMPLATES) as PromptTemplateId[];
+    const texts = await Promise.all(ids.map((id) => this.readFile(dirHandle, `${TEMPLATES_DIR}/${id}.md`)));
+
+    ids.forEach((id, i) => {
+      const text = texts[i]?.trim();
+      if (!text) return;
+      if (text.length > MAX_TEMPLATE_CHARS) {
+        errors.push(`${TEMPLATES_DIR}/${id}.md 超过 ${MAX_TEMPLATE_CHARS} 个字符，已使用内置模板`);
+        return;
+      }
+      overrides[id] = text;
+    });
+    return { overrides, errors };
+  }
+}
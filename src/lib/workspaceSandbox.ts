@@ -0,0 +1,221 @@
+/**
+ * Workspace Sandbox - Confines the server file APIs to configured workspace roots
+ * Resolves symlinks before checking containment and provides file versions
+ * (mtime + content hash) for optimistic concurrency on writes
+ */
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { NextResponse } from 'next/server';
+
+export type WorkspaceErrorCode =
+  | 'INVALID_PATH'
+  | 'OUTSIDE_WORKSPACE'
+  | 'NOT_FOUND'
+  | 'NOT_A_FILE'
+  | 'NOT_A_DIRECTORY'
+  | 'UNSUPPORTED_FILE_TYPE'
+  | 'CONFLICT';
+
+const STATUS_BY_CODE: Record<WorkspaceErrorCode, number> = {
+  INVALID_PATH: 400,
+  OUTSIDE_WORKSPACE: 403,
+  NOT_FOUND: 404,
+  NOT_A_FILE: 400,
+  NOT_A_DIRECTORY: 400,
+  UNSUPPORTED_FILE_TYPE: 415,
+  CONFLICT: 409,
+};
+
+export class WorkspaceAccessError extends Error {
+  readonly status: number;
+
+  constructor(
+    readonly code: WorkspaceErrorCode,
+    message: string,
+    readonly details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'WorkspaceAccessError';
+    this.status = STATUS_BY_CODE[code];
+  }
+}
+
+export interface FileVersion {
+  mtime: number;    // mtimeMs of the file on disk
+  hash: string;     // sha256 of the content
+}
+
+export interface ResolvedWorkspacePath {
+  resolved: string; // Real path (symlinks resolved)
+  root: string;     // Workspace root containing it
+}
+
+/**
+ * Configured roots: WORKSPACE_ROOTS (separated by the platform path delimiter or commas),
+ * defaulting to the server's working directory. Roots are realpath'd once.
+ */
+export function getWorkspaceRoots(): string[] {
+  const configured = (process.env.WORKSPACE_ROOTS || '')
+    .split(new RegExp(`[,${path.delimiter}]`))
+    .map((root) => root.trim())
+    .filter(Boolean);
+
+  const roots = configured.length > 0 ? configured : [process.cwd()];
+  return roots.flatMap((root) => {
+    try {
+      return [fs.realpathSync(path.resolve(root))];
+    } catch {
+      console.warn(`Ignoring missing workspace root: ${root}`);
+      return [];
+    }
+  });
+}
+
+function isInside(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+/**
+ * Resolve a request path inside a workspace root.
+ * Relative paths are taken from the first root. With `mustExist: false` the parent
+ * directory must exist (used when creating files).
+ */
+export function resolveWorkspacePath(
+  input: string | null | undefined,
+  { mustExist = true }: { mustExist?: boolean } = {}
+): ResolvedWorkspacePath {
+  if (!input || input.includes('\0')) {
+    throw new WorkspaceAccessError('INVALID_PATH', 'A valid path parameter is required');
+  }
+
+  const roots = getWorkspaceRoots();
+  if (roots.length === 0) {
+    throw new WorkspaceAccessError('OUTSIDE_WORKSPACE', 'No workspace root is configured');
+  }
+
+  const absolute = path.isAbsolute(input) ? path.resolve(input) : path.resolve(roots[0], input);
+
+  // Reject lexical traversal before touching the filesystem
+  const lexicalRoot = roots.find((root) => isInside(root, absolute));
+  if (!lexicalRoot) {
+    throw new WorkspaceAccessError('OUTSIDE_WORKSPACE', 'Path is outside the workspace', { path: input });
+  }
+
+  let resolved: string;
+  try {
+    resolved = fs.realpathSync(absolute);
+  } catch {
+    if (mustExist) {
+      throw new WorkspaceAccessError('NOT_FOUND', 'File or directory not found', { path: input });
+    }
+    try {
+      resolved = path.join(fs.realpathSync(path.dirname(absolute)), path.basename(absolute));
+    } catch {
+      throw new WorkspaceAccessError('NOT_FOUND', 'Parent directory not found', { path: input });
+    }
+    // realpath fails on a dangling symlink too; writing through it would create its target,
+    // wherever that is
+    if (isSymbolicLink(resolved)) {
+      throw new WorkspaceAccessError('OUTSIDE_WORKSPACE', 'Path is a symlink to a missing target', { path: input });
+    }
+  }
+
+  // Symlinks may point anywhere, so check the real path again
+  const root = roots.find((candidate) => isInside(candidate, resolved));
+  if (!root) {
+    throw new WorkspaceAccessError('OUTSIDE_WORKSPACE', 'Path resolves outside the workspace', { path: input });
+  }
+
+  return { resolved, root };
+}
+
+function isSymbolicLink(target: string): boolean {
+  try {
+    return fs.lstatSync(target).isSymbolicLink();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Write a file without following a symlink at its path, in case one was created after
+ * the path was resolved
+ */
+export function writeWorkspaceFile(resolved: string, content: string): void {
+  const { O_WRONLY, O_CREAT, O_TRUNC, O_NOFOLLOW = 0 } = fs.constants;
+  let fd: number;
+  try {
+    fd = fs.openSync(resolved, O_WRONLY | O_CREAT | O_TRUNC | O_NOFOLLOW);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ELOOP') {
+      throw new WorkspaceAccessError('OUTSIDE_WORKSPACE', 'Path is a symlink', { path: resolved });
+    }
+    throw error;
+  }
+  try {
+    fs.writeFileSync(fd, content, 'utf-8');
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Whether a real path is inside any workspace root (for filtering directory walks)
+ */
+export function isInsideWorkspace(realPath: string): boolean {
+  return getWorkspaceRoots().some((root) => isInside(root, realPath));
+}
+
+export function getFileVersion(filePath: string, content?: string): FileVersion {
+  const stats = fs.statSync(filePath);
+  const data = content ?? fs.readFileSync(filePath, 'utf-8');
+  return {
+    mtime: stats.mtimeMs,
+    hash: crypto.createHash('sha256').update(data).digest('hex'),
+  };
+}
+
+/**
+ * Throw CONFLICT if the file no longer matches the version the client read
+ */
+export function assertFileVersion(
+  filePath: string,
+  expected: { expectedMtime?: number; expectedHash?: string }
+): void {
+  if (expected.expectedMtime === undefined && expected.expectedHash === undefined) return;
+  if (!fs.existsSync(filePath)) {
+    throw new WorkspaceAccessError('CONFLICT', 'File was deleted since it was read', { current: null });
+  }
+
+  const current = getFileVersion(filePath);
+  const hashMismatch = expected.expectedHash !== undefined && expected.expectedHash !== current.hash;
+  // Hash wins when both are sent: touching a file without changing it is not a conflict
+  const mtimeMismatch =
+    expected.expectedHash === undefined &&
+    expected.expectedMtime !== undefined &&
+    Math.abs(expected.expectedMtime - current.mtime) > 1;
+
+  if (hashMismatch || mtimeMismatch) {
+    throw new WorkspaceAccessError('CONFLICT', 'File changed on disk since it was read', { current });
+  }
+}
+
+/**
+ * Map sandbox errors to `{ error, code, details }` JSON responses
+ */
+export function workspaceErrorResponse(error: unknown, fallbackMessage: string) {
+  if (error instanceof WorkspaceAccessError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code, details: error.details },
+      { status: error.status }
+    );
+  }
+  console.error(fallbackMessage, error);
+  return NextResponse.json(
+    { error: fallbackMessage, details: error instanceof Error ? error.message : 'Unknown error' },
+    { status: 500 }
+  );
+}
@@ -0,0 +1,116 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PendingEdit } from '@/types/editor.types';
+import { createAppStore } from '../app-store';
+
+const pending = (id: string, startLine: number, oldText: string, newText: string): PendingEdit => ({
+  id,
+  startLine,
+  endLine: startLine + oldText.split('\n').length - 1,
+  oldText,
+  newText,
+  applied: false,
+  rejected: false,
+});
+
+test('tabs: opening keeps an existing buffer and closing activates the neighbour', () => {
+  const store = createAppStore();
+  const { openTab, updateContent, closeTab } = store.getState();
+
+  openTab('a.ts', 'a');
+  openTab('b.ts', 'b');
+  openTab('c.ts', 'c');
+  updateContent('a.ts', 'edited');
+  openTab('a.ts', 'a from disk');
+
+  assert.equal(store.getState().activePath, 'a.ts');
+  assert.equal(store.getState().tabs.find((tab) => tab.path === 'a.ts')?.content, 'edited');
+
+  store.getState().setActivePath('b.ts');
+  closeTab('b.ts');
+  assert.deepEqual(store.getState().tabs.map((tab) => tab.path), ['a.ts', 'c.ts']);
+  assert.equal(store.getState().activePath, 'c.ts');
+  assert.equal(store.getState().histories['b.ts'], undefined);
+});
+
+test('tabs: renaming a file keeps its buffer, pending edits and history', () => {
+  const store = createAppStore();
+  store.getState().openTab('src/a.ts', 'a');
+  store.getState().setPendingEdits('src/a.ts', [pending('e1', 1, 'a', 'A')]);
+
+  store.getState().renameTab('src/a.ts', 'lib/a.ts');
+
+  const state = store.getState();
+  assert.deepEqual(state.tabs.map((tab) => tab.path), ['lib/a.ts']);
+  assert.equal(state.activePath, 'lib/a.ts');
+  assert.equal(state.pendingEdits['lib/a.ts'].length, 1);
+  assert.ok(state.histories['lib/a.ts']);
+});
+
+test('pending edits: accepting one shifts the edits below it', () => {
+  const store = createAppStore();
+  store.getState().openTab('a.ts', 'one\ntwo\nthree');
+  store.getState().setPendingEdits('a.ts', [
+    pending('first', 1, 'one', 'one\none and a half'),
+    pending('second', 3, 'three', 'THREE'),
+  ]);
+
+  store.getState().acceptPendingEdit('a.ts', 'first');
+  assert.equal(store.getState().tabs[0].content, 'one\none and a half\ntwo\nthree');
+  assert.equal(store.getState().pendingEdits['a.ts'][0].startLine, 4);
+
+  store.getState().acceptAllPendingEdits('a.ts');
+  assert.equal(store.getState().tabs[0].content, 'one\none and a half\ntwo\nTHREE');
+  assert.deepEqual(store.getState().pendingEdits['a.ts'], []);
+});
+
+test('history: AI edits are undoable entries and a new change drops the redo branch', () => {
+  const store = createAppStore();
+  const { openTab, applyContentChange, undoHistory, redoHistory } = store.getState();
+  openTab('a.ts', 'v1');
+
+  applyContentChange('a.ts', 'v2', 'ai-edit', 'AI');
+  applyContentChange('a.ts', 'v3', 'ai-edit', 'AI');
+  undoHistory('a.ts');
+  assert.equal(store.getState().tabs[0].content, 'v2');
+  redoHistory('a.ts');
+  assert.equal(store.getState().tabs[0].content, 'v3');
+
+  undoHistory('a.ts');
+  applyContentChange('a.ts', 'v4', 'restore', 'restore');
+  const history = store.getState().histories['a.ts'];
+  assert.deepEqual(history.entries.map((entry) => entry.content), ['v1', 'v2', 'v4']);
+  assert.equal(history.index, 2);
+});
+
+test('disk sync: clean buffers reload, unsaved ones merge or wait for review', () => {
+  const store = createAppStore();
+  const { openTab, updateContent, syncFromDisk } = store.getState();
+  const base = 'a\nb\nc\nd\ne\n';
+
+  openTab('clean.ts', base);
+  assert.equal(syncFromDisk('clean.ts', 'A\nb\nc\nd\ne\n'), 'reloaded');
+  assert.equal(store.getState().tabs[0].content, 'A\nb\nc\nd\ne\n');
+
+  openTab('dirty.ts', base);
+  updateContent('dirty.ts', 'a\nb\nc\nd\nE\n');
+  assert.equal(syncFromDisk('dirty.ts', 'A\nb\nc\nd\ne\n'), 'merged');
+  const merged = store.getState().tabs.find((tab) => tab.path === 'dirty.ts')!;
+  assert.equal(merged.content, 'A\nb\nc\nd\nE\n');
+  assert.equal(merged.savedContent, 'A\nb\nc\nd\ne\n');
+
+  updateContent('dirty.ts', 'A\nb\nc\nd\nbuffer\n');
+  assert.equal(syncFromDisk('dirty.ts', 'A\nb\nc\nd\ndisk\n'), 'review');
+  assert.equal(store.getState().diskChanges['dirty.ts'].conflicts, 1);
+
+  store.getState().keepBufferOverDisk('dirty.ts');
+  assert.equal(store.getState().diskChanges['dirty.ts'], undefined);
+  assert.equal(store.getState().tabs.find((tab) => tab.path === 'dirty.ts')?.savedContent, 'A\nb\nc\nd\ndisk\n');
+});
+
+test('stores are independent', () => {
+  const first = createAppStore();
+  const second = createAppStore();
+  first.getState().openTab('a.ts', 'a');
+  assert.equal(second.getState().tabs.length, 0);
+});
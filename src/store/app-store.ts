@@ -0,0 +1,34 @@
+import { createStore, StoreApi } from "zustand/vanilla";
+import { useStore } from "zustand";
+import { createWorkspaceSlice, WorkspaceSlice } from "./slices/workspace-slice";
+import { createOpenFilesSlice, OpenFilesSlice } from "./slices/open-files-slice";
+import { createPendingEditsSlice, PendingEditsSlice } from "./slices/pending-edits-slice";
+import { createChatSessionSlice, ChatSessionSlice } from "./slices/chat-session-slice";
+import { createChatHistorySlice, ChatHistorySlice } from "./slices/chat-history-slice";
+import { createSettingsSlice, SettingsSlice } from "./slices/settings-slice";
+import { createHistorySlice, HistorySlice } from "./slices/history-slice";
+import { createSnapshotSlice, SnapshotSlice } from "./slices/snapshot-slice";
+import { createDiskSyncSlice, DiskSyncSlice } from "./slices/disk-sync-slice";
+
+export type AppState = WorkspaceSlice & OpenFilesSlice & PendingEditsSlice & ChatSessionSlice & ChatHistorySlice & SettingsSlice & HistorySlice & SnapshotSlice & DiskSyncSlice;
+
+// Vanilla store factory: usable (and testable) without React or a rendered page
+export const createAppStore = (): StoreApi<AppState> =>
+  createStore<AppState>()((...args) => ({
+    ...createWorkspaceSlice(...args),
+    ...createOpenFilesSlice(...args),
+    ...createPendingEditsSlice(...args),
+    ...createChatSessionSlice(...args),
+    ...createChatHistorySlice(...args),
+    ...createSettingsSlice(...args),
+    ...createHistorySlice(...args),
+    ...createSnapshotSlice(...args),
+    ...createDiskSyncSlice(...args),
+  }));
+
+export const appStore = createAppStore();
+
+// Subscribe a component to part of the app state, e.g. useAppStore(selectActiveTab)
+export function useAppStore<T>(selector: (state: AppState) => T): T {
+  return useStore(appStore, selector);
+}
@@ -0,0 +1,42 @@
+import { DiskChange, EditorTab, FileHistory, InlineEditTarget, PendingEdit } from "@/types/editor.types";
+import { ChatMessage, ChatSession } from "@/types/chat.types";
+import type { AppState } from "./app-store";
+
+// Selectors must return stable references; derived arrays are keyed into strings or
+// fall back to shared constants so components do not re-render on every store update
+const NO_EDITS: PendingEdit[] = [];
+const NO_MESSAGES: ChatMessage[] = [];
+
+export const selectActiveTab = (state: AppState): EditorTab | null =>
+  state.tabs.find((tab) => tab.path === state.activePath) ?? null;
+
+export const selectActivePendingEdits = (state: AppState): PendingEdit[] =>
+  (state.activePath && state.pendingEdits[state.activePath]) || NO_EDITS;
+
+export const selectPendingEditsFor = (path: string) => (state: AppState): PendingEdit[] =>
+  state.pendingEdits[path] || NO_EDITS;
+
+export const selectHistoryFor = (path: string) => (state: AppState): FileHistory | null =>
+  state.histories[path] ?? null;
+
+export const selectDiskChangeFor = (path: string) => (state: AppState): DiskChange | null =>
+  state.diskChanges[path] ?? null;
+
+export const selectInlineEditFor = (path: string) => (state: AppState): InlineEditTarget | null =>
+  state.inlineEdit?.path === path ? state.inlineEdit : null;
+
+export const selectIsDirty = (path: string) => (state: AppState): boolean =>
+  state.tabs.some((tab) => tab.path === path && tab.content !== tab.savedContent);
+
+export const selectHasUnsavedTabs = (state: AppState): boolean =>
+  state.tabs.some((tab) => tab.content !== tab.savedContent);
+
+// Newline-joined open paths: changes only when tabs are opened, closed or renamed
+export const selectOpenPathsKey = (state: AppState): string =>
+  state.tabs.map((tab) => tab.path).join('\n');
+
+export const selectActiveChatSession = (state: AppState): ChatSession | null =>
+  state.chatSessions.find((session) => session.id === state.activeChatId) ?? null;
+
+export const selectActiveChatMessages = (state: AppState): ChatMessage[] =>
+  selectActiveChatSession(state)?.messages ?? NO_MESSAGES;
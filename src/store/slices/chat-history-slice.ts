@@ -0,0 +1,85 @@
+import { StateCreator } from "zustand";
+import { ChatMessage, ChatSession } from "@/types/chat.types";
+import { ChatHistory } from "@/lib/chatHistory";
+import { deleteChatSession, loadChatSessions, saveChatSession } from "@/utils/storage";
+import type { AppState } from "../app-store";
+
+// Chat sessions of the current workspace. Messages are updated in memory while a reply
+// streams in; the session is written to IndexedDB once it settles
+export interface ChatHistorySlice {
+  chatSessions: ChatSession[];   // Most recently updated first
+  activeChatId: string | null;   // null: the next message starts a new session
+  loadChatSessions: (workspace: string) => Promise<void>;
+  newChatSession: () => void;
+  resumeChatSession: (id: string) => void;
+  deleteChatSession: (id: string) => Promise<void>;
+  startChatSession: (firstMessage: string) => string;
+  appendChatMessages: (id: string, messages: ChatMessage[]) => void;
+  updateLastChatMessage: (id: string, patch: Partial<ChatMessage>) => void;
+  persistChatSession: (id: string) => Promise<void>;
+}
+
+export const createChatHistorySlice: StateCreator<AppState, [], [], ChatHistorySlice> = (set, get) => {
+  const updateSession = (id: string, update: (session: ChatSession) => ChatSession) =>
+    set((state) => ({
+      chatSessions: state.chatSessions.map((session) => (session.id === id ? update(session) : session)),
+    }));
+
+  return {
+    chatSessions: [],
+    activeChatId: null,
+
+    // Resume the most recent conversation of the workspace
+    loadChatSessions: async (workspace) => {
+      const sessions = await loadChatSessions(workspace);
+      if (get().dirHandle?.name !== workspace) return;
+      set({ chatSessions: sessions, activeChatId: sessions[0]?.id ?? null });
+    },
+
+    newChatSession: () => set({ activeChatId: null }),
+
+    resumeChatSession: (activeChatId) => set({ activeChatId }),
+
+    deleteChatSession: async (id) => {
+      set((state) => ({
+        chatSessions: state.chatSessions.filter((session) => session.id !== id),
+        activeChatId: state.activeChatId === id ? null : state.activeChatId,
+      }));
+      await deleteChatSession(id);
+    },
+
+    startChatSession: (firstMessage) => {
+      const now = Date.now();
+      const session: ChatSession = {
+        id: `chat-${now}-${Math.random().toString(36).slice(2, 8)}`,
+        workspace: get().dirHandle?.name ?? '',
+        title: ChatHistory.title(firstMessage),
+        messages: [],
+        createdAt: now,
+        updatedAt: now,
+      };
+      set((state) => ({ chatSessions: [session, ...state.chatSessions], activeChatId: session.id }));
+      return session.id;
+    },
+
+    appendChatMessages: (id, messages) =>
+      updateSession(id, (session) => ({
+        ...session,
+        messages: [...session.messages, ...messages],
+        updatedAt: Date.now(),
+      })),
+
+    updateLastChatMessage: (id, patch) =>
+      updateSession(id, (session) => ({
+        ...session,
+        messages: [...session.messages.slice(0, -1), { ...session.messages[session.messages.length - 1], ...patch }],
+      })),
+
+    // Sessions started without an open workspace stay in memory only
+    persistChatSession: async (id) => {
+      const session = get().chatSessions.find((item) => item.id === id);
+      if (!session?.workspace) return;
+      await saveChatSession(session);
+    },
+  };
+};
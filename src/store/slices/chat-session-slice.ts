@@ -0,0 +1,37 @@
+import { StateCreator } from "zustand";
+import { AIAction } from "@/types/llm.types";
+import { InlineEditTarget } from "@/types/editor.types";
+import type { AppState } from "../app-store";
+
+// The AI panel: what it was opened for and the editor context sent along with requests
+export interface ChatSessionSlice {
+  showAIPanel: boolean;
+  aiAction: AIAction;
+  aiCode: string;
+  aiPrompt: string;
+  cursorPosition?: { line: number; column: number };
+  selectedText?: string;
+  inlineEdit: InlineEditTarget | null;  // Selection the inline edit prompt is open for
+  openAIPanel: (action: AIAction, code?: string, prompt?: string) => void;
+  closeAIPanel: () => void;
+  setCursorPosition: (position: { line: number; column: number }) => void;
+  setSelectedText: (text: string) => void;
+  openInlineEdit: (target: InlineEditTarget) => void;
+  closeInlineEdit: () => void;
+}
+
+export const createChatSessionSlice: StateCreator<AppState, [], [], ChatSessionSlice> = (set) => ({
+  showAIPanel: false,
+  aiAction: 'chat',
+  aiCode: '',
+  aiPrompt: '',
+  cursorPosition: undefined,
+  selectedText: undefined,
+  openAIPanel: (aiAction, aiCode = '', aiPrompt = '') => set({ showAIPanel: true, aiAction, aiCode, aiPrompt }),
+  closeAIPanel: () => set({ showAIPanel: false }),
+  setCursorPosition: (cursorPosition) => set({ cursorPosition }),
+  setSelectedText: (selectedText) => set({ selectedText }),
+  inlineEdit: null,
+  openInlineEdit: (inlineEdit) => set({ inlineEdit }),
+  closeInlineEdit: () => set({ inlineEdit: null }),
+});
@@ -0,0 +1,111 @@
+import { StateCreator } from "zustand";
+import { DiskChange } from "@/types/editor.types";
+import { EditParser } from "@/lib/editParser";
+import { ThreeWayMerge } from "@/lib/threeWayMerge";
+import type { AppState } from "../app-store";
+
+// What syncing an open file with its disk content did
+export type DiskSyncResult = 'in-sync' | 'reloaded' | 'merged' | 'review';
+
+// Open files changed on disk by other programs. Clean buffers follow the disk; otherwise the
+// change is merged three-way and left for review when it conflicts or carries pending AI edits
+export interface DiskSyncSlice {
+  diskChanges: Record<string, DiskChange>;
+  syncFromDisk: (path: string, disk: string) => DiskSyncResult;
+  resolveDiskChange: (path: string, content: string) => void;
+  keepBufferOverDisk: (path: string) => void;
+}
+
+function withoutKey<T>(record: Record<string, T>, key: string): Record<string, T> {
+  const next = { ...record };
+  delete next[key];
+  return next;
+}
+
+export const createDiskSyncSlice: StateCreator<AppState, [], [], DiskSyncSlice> = (set, get) => ({
+  diskChanges: {},
+
+  syncFromDisk: (path, disk) => {
+    const tab = get().tabs.find((t) => t.path === path);
+    if (!tab) return 'in-sync';
+    const existing = get().diskChanges[path];
+    const pending = get().pendingEdits[path] || [];
+
+    if (disk === tab.savedContent && !existing) return 'in-sync';
+    // Changed back, or (e.g. right after a save) the disk already holds the buffer
+    if (disk === tab.savedContent || (disk === tab.content && pending.length === 0)) {
+      set((state) => ({
+        tabs: state.tabs.map((t) => (t.path === path ? { ...t, savedContent: disk } : t)),
+        diskChanges: existing ? withoutKey(state.diskChanges, path) : state.diskChanges,
+      }));
+      return 'in-sync';
+    }
+    // Already waiting for review
+    if (existing?.disk === disk) return 'review';
+
+    if (tab.content === tab.savedContent && pending.length === 0) {
+      set((state) => ({
+        tabs: state.tabs.map((t) => (t.path === path ? { ...t, content: disk, savedContent: disk } : t)),
+      }));
+      get().recordHistory(path, disk, 'external', '磁盘上的修改');
+      return 'reloaded';
+    }
+
+    // Pending edits were computed against the buffer, so they are merged in rather than
+    // applied later by line numbers that no longer match
+    const ours = pending.length > 0 ? EditParser.applyEdits(tab.content, pending) : tab.content;
+    const result = ThreeWayMerge.merge(tab.savedContent, ours, disk);
+
+    // The disk only holds changes the buffer already has (e.g. a save of an earlier version)
+    if (result.content === tab.content && pending.length === 0) {
+      set((state) => ({
+        tabs: state.tabs.map((t) => (t.path === path ? { ...t, savedContent: disk } : t)),
+      }));
+      return 'in-sync';
+    }
+
+    if (result.conflicts === 0 && pending.length === 0) {
+      set((state) => ({
+        tabs: state.tabs.map((t) => (t.path === path ? { ...t, content: result.content, savedContent: disk } : t)),
+      }));
+      get().recordHistory(path, result.content, 'external', '合并磁盘上的修改');
+      return 'merged';
+    }
+
+    set((state) => ({
+      diskChanges: {
+        ...state.diskChanges,
+        [path]: { disk, merged: result.content, conflicts: result.conflicts, detectedAt: Date.now() },
+      },
+    }));
+    return 'review';
+  },
+
+  // Take the reviewed merge result (or the disk content) into the buffer; pending edits are
+  // part of it now, so the buffer is snapshotted first as for any accepted AI edit
+  resolveDiskChange: (path, content) => {
+    const change = get().diskChanges[path];
+    const tab = get().tabs.find((t) => t.path === path);
+    if (!change || !tab) return;
+
+    const pending = get().pendingEdits[path] || [];
+    if (pending.length > 0) get().captureSnapshot(path, tab.content, '合并磁盘修改前', pending[0].origin);
+    set((state) => ({
+      tabs: state.tabs.map((t) => (t.path === path ? { ...t, content, savedContent: change.disk } : t)),
+      pendingEdits: { ...state.pendingEdits, [path]: [] },
+      diskChanges: withoutKey(state.diskChanges, path),
+    }));
+    get().recordHistory(path, content, 'external', content === change.disk ? '使用磁盘上的版本' : '合并磁盘上的修改');
+  },
+
+  // Keep the buffer and its pending edits as they are; saving will overwrite the disk
+  keepBufferOverDisk: (path) =>
+    set((state) => {
+      const change = state.diskChanges[path];
+      if (!change) return {};
+      return {
+        tabs: state.tabs.map((t) => (t.path === path ? { ...t, savedContent: change.disk } : t)),
+        diskChanges: withoutKey(state.diskChanges, path),
+      };
+    }),
+});
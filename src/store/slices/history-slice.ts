@@ -0,0 +1,106 @@
+import { StateCreator } from "zustand";
+import { FileHistory, HistoryEntry, HistoryEntryKind } from "@/types/editor.types";
+import type { AppState } from "../app-store";
+
+// Keystrokes closer together than this extend the same typing checkpoint
+const TYPING_CHECKPOINT_MS = 2000;
+const MAX_HISTORY_ENTRIES = 100;
+
+let nextEntryId = 0;
+
+// Per-file undo/redo timeline of typing checkpoints, AI edits and saves. The editors keep
+// their own keystroke-level undo; this history spans AI edits and survives editor switches
+export interface HistorySlice {
+  histories: Record<string, FileHistory>;
+  recordHistory: (path: string, content: string, kind: HistoryEntryKind, label: string) => void;
+  applyContentChange: (path: string, content: string, kind: HistoryEntryKind, label: string) => void;
+  undoHistory: (path: string) => void;
+  redoHistory: (path: string) => void;
+  jumpToHistory: (path: string, entryId: string) => void;
+}
+
+function createEntry(kind: HistoryEntryKind, label: string, content: string): HistoryEntry {
+  nextEntryId += 1;
+  return { id: `history-${nextEntryId}`, kind, label, content, timestamp: Date.now() };
+}
+
+// A fresh history whose only entry is the content the file was opened with
+export function createHistory(content: string): FileHistory {
+  return { entries: [createEntry('open', '打开文件', content)], index: 0 };
+}
+
+function replaceCurrent(history: FileHistory, entry: HistoryEntry): FileHistory {
+  const entries = [...history.entries];
+  entries[history.index] = entry;
+  return { entries, index: history.index };
+}
+
+// Show a history entry in the tab without recording a new one
+function moveTo(state: AppState, path: string, history: FileHistory, index: number): Partial<AppState> {
+  const { content } = history.entries[index];
+  return {
+    histories: { ...state.histories, [path]: { entries: history.entries, index } },
+    tabs: state.tabs.map((tab) => (tab.path === path ? { ...tab, content } : tab)),
+  };
+}
+
+export const createHistorySlice: StateCreator<AppState, [], [], HistorySlice> = (set, get) => ({
+  histories: {},
+
+  recordHistory: (path, content, kind, label) =>
+    set((state) => {
+      const history = state.histories[path];
+      if (!history) return {};
+      const current = history.entries[history.index];
+      const now = Date.now();
+
+      if (current.content === content) {
+        // Editors echo programmatic changes back as typing, so unchanged content records
+        // nothing, except that a save relabels a typing checkpoint or marks a saved AI edit
+        if (kind !== 'save' || current.kind === 'save' || current.kind === 'open') return {};
+        if (current.kind === 'typing') {
+          return { histories: { ...state.histories, [path]: replaceCurrent(history, { ...current, kind, label, timestamp: now }) } };
+        }
+      }
+
+      const isLatest = history.index === history.entries.length - 1;
+      if (kind === 'typing' && current.kind === 'typing' && isLatest && now - current.timestamp < TYPING_CHECKPOINT_MS) {
+        return { histories: { ...state.histories, [path]: replaceCurrent(history, { ...current, content, timestamp: now }) } };
+      }
+
+      // A new entry after an undo drops the redo branch
+      const entries = [...history.entries.slice(0, history.index + 1), createEntry(kind, label, content)]
+        .slice(-MAX_HISTORY_ENTRIES);
+      return { histories: { ...state.histories, [path]: { entries, index: entries.length - 1 } } };
+    }),
+
+  // Replace a tab's buffer from outside the editor (AI edits) as one labelled history entry
+  applyContentChange: (path, content, kind, label) => {
+    set((state) => ({
+      tabs: state.tabs.map((tab) => (tab.path === path ? { ...tab, content } : tab)),
+    }));
+    get().recordHistory(path, content, kind, label);
+  },
+
+  undoHistory: (path) =>
+    set((state) => {
+      const history = state.histories[path];
+      if (!history || history.index === 0) return {};
+      return moveTo(state, path, history, history.index - 1);
+    }),
+
+  redoHistory: (path) =>
+    set((state) => {
+      const history = state.histories[path];
+      if (!history || history.index === history.entries.length - 1) return {};
+      return moveTo(state, path, history, history.index + 1);
+    }),
+
+  jumpToHistory: (path, entryId) =>
+    set((state) => {
+      const history = state.histories[path];
+      const index = history?.entries.findIndex((entry) => entry.id === entryId) ?? -1;
+      if (!history || index === -1) return {};
+      return moveTo(state, path, history, index);
+    }),
+});
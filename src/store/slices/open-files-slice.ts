@@ -0,0 +1,155 @@
+import { StateCreator } from "zustand";
+import { EditorTab, EditorViewState } from "@/types/editor.types";
+import type { AppState } from "../app-store";
+import { createHistory } from "./history-slice";
+
+// Editor tabs: one buffer per open file plus its cursor/scroll position
+export interface OpenFilesSlice {
+  tabs: EditorTab[];
+  activePath: string | null;
+  viewStates: Record<string, EditorViewState>;
+  openTab: (path: string, content: string) => void;
+  setActivePath: (path: string | null) => void;
+  closeTab: (path: string) => void;
+  closeTabsUnder: (path: string) => void;
+  renameTab: (oldPath: string, newPath: string) => void;
+  updateContent: (path: string, content: string) => void;
+  markSaved: (path: string, content: string) => void;
+  applyWrittenContent: (written: Map<string, string>) => void;
+  setViewState: (path: string, viewState: EditorViewState) => void;
+  resetTabs: (tabs?: EditorTab[], activePath?: string | null, viewStates?: Record<string, EditorViewState>) => void;
+}
+
+function withoutKeys<T>(record: Record<string, T>, keys: string[]): Record<string, T> {
+  const next = { ...record };
+  keys.forEach((key) => delete next[key]);
+  return next;
+}
+
+export const createOpenFilesSlice: StateCreator<AppState, [], [], OpenFilesSlice> = (set, get) => ({
+  tabs: [],
+  activePath: null,
+  viewStates: {},
+
+  // Add a tab (keeping an already open buffer and its history) and activate it
+  openTab: (path, content) =>
+    set((state) => {
+      if (state.tabs.some((tab) => tab.path === path)) return { activePath: path };
+      return {
+        tabs: [...state.tabs, { path, content, savedContent: content }],
+        activePath: path,
+        histories: { ...state.histories, [path]: createHistory(content) },
+      };
+    }),
+
+  setActivePath: (activePath) => set({ activePath }),
+
+  // Close without asking; callers confirm for unsaved tabs
+  closeTab: (path) => {
+    const { tabs, activePath } = get();
+    const index = tabs.findIndex((tab) => tab.path === path);
+    if (index === -1) return;
+
+    const remaining = tabs.filter((tab) => tab.path !== path);
+    set((state) => ({
+      tabs: remaining,
+      // Activate the neighbour that slides into the closed tab's place
+      activePath: activePath === path
+        ? remaining[Math.min(index, remaining.length - 1)]?.path ?? null
+        : activePath,
+      viewStates: withoutKeys(state.viewStates, [path]),
+      pendingEdits: withoutKeys(state.pendingEdits, [path]),
+      histories: withoutKeys(state.histories, [path]),
+      diskChanges: withoutKeys(state.diskChanges, [path]),
+    }));
+  },
+
+  // Close a deleted file's tab, or every tab inside a deleted folder
+  closeTabsUnder: (path) => {
+    const closed = get().tabs
+      .filter((tab) => tab.path === path || tab.path.startsWith(`${path}/`))
+      .map((tab) => tab.path);
+    if (closed.length === 0) return;
+
+    set((state) => {
+      const remaining = state.tabs.filter((tab) => !closed.includes(tab.path));
+      return {
+        tabs: remaining,
+        activePath: state.activePath && closed.includes(state.activePath)
+          ? remaining[0]?.path ?? null
+          : state.activePath,
+        viewStates: withoutKeys(state.viewStates, closed),
+        pendingEdits: withoutKeys(state.pendingEdits, closed),
+        histories: withoutKeys(state.histories, closed),
+        diskChanges: withoutKeys(state.diskChanges, closed),
+      };
+    });
+  },
+
+  // Keep the buffer (and unsaved edits) of a renamed file
+  renameTab: (oldPath, newPath) =>
+    set((state) => {
+      if (!state.tabs.some((tab) => tab.path === oldPath)) return {};
+      const moved = <T>(record: Record<string, T>) => {
+        const next = withoutKeys(record, [oldPath]);
+        if (record[oldPath] !== undefined) next[newPath] = record[oldPath];
+        return next;
+      };
+      return {
+        tabs: state.tabs.map((tab) => (tab.path === oldPath ? { ...tab, path: newPath } : tab)),
+        activePath: state.activePath === oldPath ? newPath : state.activePath,
+        viewStates: moved(state.viewStates),
+        pendingEdits: moved(state.pendingEdits),
+        histories: moved(state.histories),
+        diskChanges: moved(state.diskChanges),
+      };
+    }),
+
+  // Typing in the editor; pauses become history checkpoints
+  updateContent: (path, content) => {
+    set((state) => ({
+      tabs: state.tabs.map((tab) => (tab.path === path ? { ...tab, content } : tab)),
+    }));
+    get().recordHistory(path, content, 'typing', '输入');
+  },
+
+  markSaved: (path, content) => {
+    set((state) => ({
+      tabs: state.tabs.map((tab) => (tab.path === path ? { ...tab, content, savedContent: content } : tab)),
+    }));
+    get().recordHistory(path, content, 'save', '保存');
+  },
+
+  // Content written to disk by someone else (e.g. cross-file edits) becomes the saved state;
+  // clean buffers follow it (as an AI edit in their history), unsaved buffers take it in
+  // through the three-way disk sync and stay dirty
+  applyWrittenContent: (written) => {
+    const tabs = get().tabs.filter((tab) => written.has(tab.path));
+    const followed = tabs.filter((tab) => tab.content === tab.savedContent);
+    set((state) => ({
+      tabs: state.tabs.map((tab) => {
+        const content = written.get(tab.path);
+        if (content === undefined || tab.content !== tab.savedContent) return tab;
+        return { ...tab, content, savedContent: content };
+      }),
+    }));
+    followed.forEach((tab) => get().recordHistory(tab.path, written.get(tab.path)!, 'ai-edit', 'AI 跨文件修改'));
+    tabs
+      .filter((tab) => tab.content !== tab.savedContent)
+      .forEach((tab) => get().syncFromDisk(tab.path, written.get(tab.path)!));
+  },
+
+  setViewState: (path, viewState) =>
+    set((state) => ({ viewStates: { ...state.viewStates, [path]: viewState } })),
+
+  // Replace the whole tab set (restoring a session or switching workspace)
+  resetTabs: (tabs = [], activePath = null, viewStates = {}) =>
+    set({
+      tabs,
+      activePath,
+      viewStates,
+      pendingEdits: {},
+      histories: Object.fromEntries(tabs.map((tab) => [tab.path, createHistory(tab.content)])),
+      diskChanges: {},
+    }),
+});
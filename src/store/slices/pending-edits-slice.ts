@@ -0,0 +1,66 @@
+import { StateCreator } from "zustand";
+import { PendingEdit } from "@/types/editor.types";
+import { EditParser } from "@/lib/editParser";
+import type { AppState } from "../app-store";
+
+// AI edits waiting for review, keyed by the file they were generated for
+export interface PendingEditsSlice {
+  pendingEdits: Record<string, PendingEdit[]>;
+  setPendingEdits: (path: string, edits: PendingEdit[]) => void;
+  removePendingEdit: (path: string, editId: string) => void;
+  clearPendingEdits: (path: string) => void;
+  acceptPendingEdit: (path: string, editId: string) => void;
+  acceptAllPendingEdits: (path: string) => void;
+}
+
+function editLabel(edit: PendingEdit): string {
+  return edit.description
+    ? `AI 修改：${edit.description}`
+    : `AI 修改（第 ${edit.startLine}-${edit.endLine} 行）`;
+}
+
+export const createPendingEditsSlice: StateCreator<AppState, [], [], PendingEditsSlice> = (set, get) => ({
+  pendingEdits: {},
+
+  setPendingEdits: (path, edits) =>
+    set((state) => ({ pendingEdits: { ...state.pendingEdits, [path]: edits } })),
+
+  removePendingEdit: (path, editId) =>
+    set((state) => ({
+      pendingEdits: {
+        ...state.pendingEdits,
+        [path]: (state.pendingEdits[path] || []).filter((edit) => edit.id !== editId),
+      },
+    })),
+
+  clearPendingEdits: (path) =>
+    set((state) => ({ pendingEdits: { ...state.pendingEdits, [path]: [] } })),
+
+  // Snapshot the buffer, then apply one reviewed edit; edits below it move by the lines it added or removed
+  acceptPendingEdit: (path, editId) => {
+    const edits = get().pendingEdits[path] || [];
+    const edit = edits.find((e) => e.id === editId);
+    const tab = get().tabs.find((t) => t.path === path);
+    if (!edit || !tab) return;
+
+    const delta = EditParser.lineDelta(edit);
+    const remaining = edits
+      .filter((e) => e.id !== editId)
+      .map((e) => (e.startLine > edit.endLine ? { ...e, startLine: e.startLine + delta, endLine: e.endLine + delta } : e));
+    set((state) => ({ pendingEdits: { ...state.pendingEdits, [path]: remaining } }));
+    get().captureSnapshot(path, tab.content, editLabel(edit), edit.origin);
+    get().applyContentChange(path, EditParser.applyEdits(tab.content, [edit]), 'ai-edit', editLabel(edit));
+  },
+
+  // Snapshot the buffer, then apply every remaining edit as a single history entry
+  acceptAllPendingEdits: (path) => {
+    const edits = get().pendingEdits[path] || [];
+    const tab = get().tabs.find((t) => t.path === path);
+    if (edits.length === 0 || !tab) return;
+
+    set((state) => ({ pendingEdits: { ...state.pendingEdits, [path]: [] } }));
+    const label = edits.length === 1 ? editLabel(edits[0]) : `AI 修改（${edits.length} 处）`;
+    get().captureSnapshot(path, tab.content, label, edits[0].origin);
+    get().applyContentChange(path, EditParser.applyEdits(tab.content, edits), 'ai-edit', label);
+  },
+});
@@ -0,0 +1,37 @@
+import { StateCreator } from "zustand";
+import { EditorType } from "@/types/editor.types";
+import { LLMSettings } from "@/types/llm.types";
+import { loadLLMSettings, saveLLMSettings } from "@/utils/storage";
+import type { AppState } from "../app-store";
+
+// User preferences; the provider selection is persisted per workspace
+export interface SettingsSlice {
+  llmSettings: LLMSettings;
+  editorType: EditorType;
+  inlineCompletions: boolean;   // Ghost-text AI completions while typing
+  setLLMSettings: (settings: LLMSettings) => void;
+  loadWorkspaceSettings: (workspace: string) => void;
+  setEditorType: (editorType: EditorType) => void;
+  setInlineCompletions: (enabled: boolean) => void;
+}
+
+export const createSettingsSlice: StateCreator<AppState, [], [], SettingsSlice> = (set, get) => ({
+  llmSettings: { provider: 'gemini' },
+  editorType: 'monaco',
+  inlineCompletions: true,
+
+  setLLMSettings: (llmSettings) => {
+    set({ llmSettings });
+    const { dirHandle } = get();
+    if (dirHandle) saveLLMSettings(dirHandle.name, llmSettings);
+  },
+
+  loadWorkspaceSettings: (workspace) => {
+    const saved = loadLLMSettings(workspace);
+    if (saved) set({ llmSettings: saved });
+  },
+
+  setEditorType: (editorType) => set({ editorType }),
+
+  setInlineCompletions: (inlineCompletions) => set({ inlineCompletions }),
+});
@@ -0,0 +1,30 @@
+import { StateCreator } from "zustand";
+import { AIEditOrigin } from "@/types/llm.types";
+import { FileSnapshot } from "@/types/snapshot.types";
+import { saveFileSnapshot } from "@/utils/storage";
+import type { AppState } from "../app-store";
+
+// Content snapshots taken before AI edits are applied. The records live in IndexedDB;
+// the revision only tells open timelines to reload
+export interface SnapshotSlice {
+  snapshotRevision: number;
+  captureSnapshot: (path: string, content: string, label: string, origin?: AIEditOrigin | null) => Promise<void>;
+  restoreSnapshot: (snapshot: FileSnapshot) => void;
+}
+
+export const createSnapshotSlice: StateCreator<AppState, [], [], SnapshotSlice> = (set, get) => ({
+  snapshotRevision: 0,
+
+  captureSnapshot: async (path, content, label, origin = null) => {
+    const workspace = get().dirHandle?.name;
+    if (!workspace) return;
+    await saveFileSnapshot({ workspace, path, content, label, origin, timestamp: Date.now() });
+    set((state) => ({ snapshotRevision: state.snapshotRevision + 1 }));
+  },
+
+  // Put a snapshot back into the open buffer; saving it is left to the user
+  restoreSnapshot: (snapshot) => {
+    const time = new Date(snapshot.timestamp).toLocaleTimeString();
+    get().applyContentChange(snapshot.path, snapshot.content, 'restore', `恢复快照（${time}）`);
+  },
+});
@@ -0,0 +1,48 @@
+import { StateCreator } from "zustand";
+import { FileNode } from "@/types/file.types";
+import { SymbolIndexStats } from "@/types/symbol.types";
+import { SlashCommand } from "@/types/command.types";
+import { PromptTemplateOverrides } from "@/types/prompt.types";
+import type { SymbolIndex } from "@/lib/symbolIndex";
+import type { AppState } from "../app-store";
+
+// The opened directory, its file tree and the symbol index built for it
+export interface WorkspaceSlice {
+  dirHandle: FileSystemDirectoryHandle | null;
+  files: FileNode[];
+  fileHandles: Map<string, FileSystemFileHandle>; // Relative path -> handle, rebuilt on every scan
+  loading: boolean;
+  symbolIndex: SymbolIndex | null;
+  indexStats: SymbolIndexStats | null;
+  workspaceCommands: SlashCommand[];              // Custom slash commands from .webagent/commands.json
+  projectRules: string;                           // .webagent/rules.md, sent with every AI request
+  templateOverrides: PromptTemplateOverrides;     // .webagent/templates/*.md, replacing built-in prompts
+  setDirHandle: (dirHandle: FileSystemDirectoryHandle | null) => void;
+  setFileTree: (files: FileNode[], fileHandles: Map<string, FileSystemFileHandle>) => void;
+  setLoading: (loading: boolean) => void;
+  setSymbolIndex: (symbolIndex: SymbolIndex | null) => void;
+  setIndexStats: (indexStats: SymbolIndexStats | null) => void;
+  setWorkspaceCommands: (workspaceCommands: SlashCommand[]) => void;
+  setProjectRules: (projectRules: string) => void;
+  setTemplateOverrides: (templateOverrides: PromptTemplateOverrides) => void;
+}
+
+export const createWorkspaceSlice: StateCreator<AppState, [], [], WorkspaceSlice> = (set) => ({
+  dirHandle: null,
+  files: [],
+  fileHandles: new Map(),
+  loading: false,
+  symbolIndex: null,
+  indexStats: null,
+  workspaceCommands: [],
+  projectRules: '',
+  templateOverrides: {},
+  setDirHandle: (dirHandle) => set({ dirHandle }),
+  setFileTree: (files, fileHandles) => set({ files, fileHandles }),
+  setLoading: (loading) => set({ loading }),
+  setSymbolIndex: (symbolIndex) => set({ symbolIndex }),
+  setIndexStats: (indexStats) => set({ indexStats }),
+  setWorkspaceCommands: (workspaceCommands) => set({ workspaceCommands }),
+  setProjectRules: (projectRules) => set({ projectRules }),
+  setTemplateOverrides: (templateOverrides) => set({ templateOverrides }),
+});
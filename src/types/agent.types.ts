@@ -0,0 +1,34 @@
+// Agent mode: tool-calling loop driven through the LLM provider layer
+
+import { LLMMessage } from './llm.types';
+
+export type AgentToolName = 'list_dir' | 'read_file' | 'grep' | 'propose_edit' | 'finish';
+
+export interface AgentToolCall {
+  tool: AgentToolName;
+  args: Record<string, unknown>;
+}
+
+// One iteration of the loop as shown in the chat
+export interface AgentStep {
+  index: number;             // 1-based step number
+  thought?: string;          // Model text outside the tool call
+  call?: AgentToolCall;
+  observation?: string;      // Tool output fed back to the model
+  error?: boolean;           // Tool failed or the call was malformed
+}
+
+export type AgentStatus = 'finished' | 'budget-exhausted' | 'aborted';
+
+export interface AgentResult {
+  status: AgentStatus;
+  answer: string;
+  steps: AgentStep[];
+  messages: LLMMessage[];
+}
+
+// Files the tools can see; backed by File System Access handles in the UI
+export interface AgentWorkspace {
+  listFiles(): string[];
+  readFile(path: string): Promise<string>;
+}
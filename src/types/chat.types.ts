@@ -0,0 +1,63 @@
+// AI chat sessions (persisted in IndexedDB per workspace)
+
+import type { MultiFileChange } from '@/lib/multiFileManager';
+import type { AgentStep } from './agent.types';
+import type { ContextReport } from './context.types';
+import type { HunkFailure, TextEdit } from './editor.types';
+import type { AIEditOrigin } from './llm.types';
+
+export interface CodeChange {
+  search: string;
+  replace: string;
+}
+
+export type ChatMentionKind = 'file' | 'folder' | 'symbol';
+
+// Something referenced with @ in the chat input
+export interface ChatMention {
+  kind: ChatMentionKind;
+  label: string;            // Text after the @: a workspace path or a (scoped) symbol name
+  path: string;             // File or folder; for symbols the file that declares them
+  startLine?: number;       // Symbol range in that file
+  endLine?: number;
+}
+
+// A mention sent along with a message, with its estimated cost
+export interface ChatAttachment extends ChatMention {
+  tokens: number;
+  truncated: boolean;       // Content was cut to the per-attachment limit
+}
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: Date;
+  fileName?: string; // File the request was made for, so its edits can be previewed again later
+  attachments?: ChatAttachment[]; // @-mentioned context sent with a user message
+  codeChanges?: CodeChange[];
+  structuredEdits?: TextEdit[]; // New: structured edits from API
+  editFailures?: HunkFailure[]; // Hunks that could not be located in the code
+  multiFileChange?: MultiFileChange; // Cross-file edits awaiting review
+  agentSteps?: AgentStep[]; // Tool calls made in agent mode
+  contextReport?: ContextReport; // Code context left out of the prompt to fit the model's budget
+  origin?: AIEditOrigin; // Request behind this answer, snapshotted with the edits it produces
+}
+
+export interface ChatSession {
+  id: string;
+  workspace: string;
+  title: string;            // First question, shortened
+  messages: ChatMessage[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// A past message matching a search query
+export interface ChatSearchHit {
+  sessionId: string;
+  title: string;
+  messageIndex: number;
+  role: ChatMessage['role'];
+  snippet: string;          // Text around the first match
+  updatedAt: number;
+}
@@ -0,0 +1,23 @@
+// Slash commands for the AI chat input (built in, or from the workspace's .webagent/commands.json)
+
+// 'edit' answers are parsed into pending edits for the active file; 'chat' answers are just shown
+export type SlashCommandMode = 'chat' | 'edit';
+
+export interface SlashCommand {
+  name: string;             // Typed after the slash, e.g. 'fix'
+  description: string;
+  args?: string;            // Argument hint for autocomplete, e.g. '<错误信息>'
+  requiresArgs?: boolean;
+  mode: SlashCommandMode;
+  // Prompt with {{args}}, {{arg1}}..., {{code}}, {{fileName}}, {{language}} and {{diff}} placeholders
+  template: string;
+  source: 'builtin' | 'workspace';
+}
+
+// Values substituted into a command template
+export interface SlashCommandContext {
+  code: string;             // Selection, or the whole active file when nothing is selected
+  fileName: string;
+  language: string;
+  diff?: string;            // Working tree diff, only fetched for templates that use it
+}
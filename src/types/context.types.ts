@@ -0,0 +1,38 @@
+// Code context packed into a prompt under a token budget
+
+export type ContextChunkKind =
+  | 'selection'
+  | 'enclosing-symbol'
+  | 'imports'
+  | 'surrounding'
+  | 'definition'
+  | 'file'
+  | 'outline';
+
+export interface ContextChunk {
+  kind: ContextChunkKind;
+  label: string;            // e.g. "src/a.ts:10-42" or "function parse (src/parser.ts)"
+  content: string;
+  priority: number;         // Lower is packed first
+  required?: boolean;       // Cut to fit instead of being dropped
+}
+
+export interface ContextChunkSummary {
+  kind: ContextChunkKind;
+  label: string;
+  tokens: number;           // Estimated size of the full chunk
+}
+
+// What went into a prompt and what had to be left out
+export interface ContextReport {
+  budget: number;
+  used: number;
+  dropped: ContextChunkSummary[];
+  truncated: ContextChunkSummary[];
+}
+
+// A prompt together with what its code context had to leave out
+export interface BuiltPrompt {
+  prompt: string;
+  context: ContextReport;
+}
@@ -1,5 +1,7 @@
 // Editor types for Cursor-style incremental edits
 
+import type { AIEditOrigin } from './llm.types';
+
 export interface TextEdit {
   startLine: number;      // 1-indexed line number
   endLine: number;        // 1-indexed line number (inclusive)
@@ -8,6 +10,21 @@ export interface TextEdit {
   oldText: string;        // Original text for verification
   newText: string;        // New text to replace with
   context?: string;       // Surrounding context for fuzzy matching
+  description?: string;   // What the model said this edit does
+}
+
+export type EditFormat = 'search-replace' | 'unified-diff' | 'json' | 'whole-file';
+
+export type HunkFailureReason = 'not-found' | 'ambiguous' | 'empty-search' | 'invalid-json' | 'overlap' | 'unknown-file';
+
+// A hunk from model output that could not be turned into an edit
+export interface HunkFailure {
+  index: number;          // Position of the hunk in the model output
+  format: EditFormat;
+  reason: HunkFailureReason;
+  message: string;
+  oldText: string;
+  fileName?: string;
 }
 
 export interface AIEditResponse {
@@ -21,6 +38,7 @@ export interface PendingEdit extends TextEdit {
   id: string;             // Unique identifier for this edit
   applied: boolean;       // Whether user has applied this edit
   rejected: boolean;      // Whether user has rejected this edit
+  origin?: AIEditOrigin;  // Request that produced the edit
 }
 
 export interface EditorState {
@@ -28,3 +46,103 @@ export interface EditorState {
   currentFile: string | null;
   isPreviewMode: boolean;
 }
+
+export type EditorType = 'monaco' | 'codemirror' | 'ace';
+
+// Highlighted range in the editor (1-indexed lines and columns, end inclusive)
+export interface EditorDecoration {
+  startLine: number;
+  endLine: number;
+  startColumn?: number;   // Defaults to the start of the line
+  endColumn?: number;     // Defaults to the end of the line
+  className: string;
+  hoverMessage?: string;
+}
+
+// DOM node shown as a block between lines, e.g. the proposed text of a pending edit
+export interface EditorInlineWidget {
+  id: string;
+  afterLine: number;      // 1-indexed
+  heightInPx: number;
+  node: HTMLElement;
+}
+
+export interface EditorSelection {
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+  text: string;           // Empty for a plain cursor
+}
+
+// What the AI features need from an editor, implemented once per engine so the
+// preview flow does not depend on which editor is selected
+export interface EditorAdapter {
+  getValue: () => string;
+  getSelection: () => EditorSelection;
+  // Goes through the editor's own undo stack; onChange reports the new content
+  applyEdit: (edit: TextEdit) => void;
+  revealLine: (line: number) => void;
+  focus: () => void;
+  // Each call replaces the decorations set by the previous one
+  setDecorations: (decorations: EditorDecoration[]) => void;
+  // Replaces the widgets of one owner (e.g. the pending edit preview) and keeps the others
+  setInlineWidgets: (owner: string, widgets: EditorInlineWidget[]) => void;
+  setReadOnly: (readOnly: boolean) => void;
+  // Runs before the editor's own key handling; returning true consumes the key
+  onKeyDown: (handler: (event: KeyboardEvent) => boolean) => () => void;
+  dispose: () => void;
+}
+
+// Selection an inline (Cmd+K) edit prompt was opened for
+export interface InlineEditTarget {
+  path: string;
+  selection: EditorSelection;
+}
+
+// Cursor and scroll position of an editor, kept per tab
+export interface EditorViewState {
+  line: number;           // 1-indexed cursor line
+  column: number;         // 1-indexed cursor column
+  scrollTop: number;      // Pixels
+}
+
+// One open file in the tabbed editor
+export interface EditorTab {
+  path: string;
+  content: string;        // Current buffer
+  savedContent: string;   // Content last read from or written to disk
+}
+
+// An open file that changed on disk while its buffer or pending AI edits changed too.
+// The merge is of savedContent (base), the buffer plus pending edits (ours) and disk (theirs)
+export interface DiskChange {
+  disk: string;           // Content now on disk
+  merged: string;         // Three-way merge result, conflicts wrapped in markers
+  conflicts: number;
+  detectedAt: number;
+}
+
+// Open tab set persisted per workspace and restored on reload
+export interface OpenTabsState {
+  paths: string[];
+  activePath: string | null;
+  viewStates: Record<string, EditorViewState>;
+}
+
+export type HistoryEntryKind = 'open' | 'typing' | 'ai-edit' | 'save' | 'restore' | 'external';
+
+// One checkpoint in a file's edit history; content is the buffer after the change
+export interface HistoryEntry {
+  id: string;
+  kind: HistoryEntryKind;
+  label: string;
+  content: string;
+  timestamp: number;      // ms; for typing, the last keystroke folded into the checkpoint
+}
+
+// Linear undo/redo timeline of one open file
+export interface FileHistory {
+  entries: HistoryEntry[];
+  index: number;          // Entry matching the current buffer
+}
@@ -0,0 +1,37 @@
+export interface GitStatusEntry {
+  path: string;         // Relative to the repository root
+  index: string;        // Porcelain X column (staged state)
+  workTree: string;     // Porcelain Y column (unstaged state)
+  originalPath?: string; // Source path for renames/copies
+}
+
+export interface GitStatus {
+  root: string;
+  branch: string | null; // null when HEAD is detached
+  entries: GitStatusEntry[];
+}
+
+export interface GitLogEntry {
+  hash: string;
+  shortHash: string;
+  author: string;
+  date: string;         // ISO 8601
+  subject: string;
+}
+
+export interface GitBlameLine {
+  line: number;         // 1-indexed line in the blamed revision
+  hash: string;
+  author: string;
+  time: number;         // Unix seconds
+  summary: string;
+  content: string;
+}
+
+export type GitRefType = 'head' | 'branch' | 'tag' | 'commit';
+
+export interface GitRef {
+  name: string;         // Value to pass back as `ref`
+  type: GitRefType;
+  label?: string;       // Commit subject for `commit` refs
+}
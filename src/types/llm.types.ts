@@ -0,0 +1,60 @@
+// Shared request/response shapes for the pluggable LLM provider layer
+
+import { HunkFailure, TextEdit } from './editor.types';
+
+export type LLMProviderId = 'gemini' | 'openai' | 'anthropic' | 'ollama' | 'mock';
+
+export type LLMRole = 'system' | 'user' | 'assistant';
+
+export interface LLMMessage {
+  role: LLMRole;
+  content: string;
+}
+
+export interface LLMRequest {
+  messages: LLMMessage[];
+  model?: string;            // Falls back to the provider's default model
+  temperature?: number;
+  maxOutputTokens?: number;
+}
+
+export interface LLMResponse {
+  text: string;
+  provider: LLMProviderId;
+  model: string;
+  usage?: {
+    inputTokens?: number;
+    outputTokens?: number;
+  };
+}
+
+// What the AI panel was opened for; also the `action` sent to POST /api/gemini
+export type AIAction = 'chat' | 'explain' | 'optimize' | 'generate' | 'fix' | 'edit';
+
+// Per-request / per-workspace provider selection sent by the client
+export interface LLMSettings {
+  provider: LLMProviderId;
+  model?: string;
+}
+
+// The request behind an AI edit, kept with the snapshot taken before the edit is applied
+export interface AIEditOrigin {
+  prompt: string;
+  provider: LLMProviderId;
+  model?: string;
+}
+
+// Server-sent events emitted by POST /api/gemini when `stream: true`
+export type LLMStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'edit'; edit: TextEdit }      // A SEARCH/REPLACE block just completed
+  | {
+      type: 'done';
+      text: string;
+      edits?: TextEdit[];
+      failures?: HunkFailure[];   // Hunks that could not be located in the code
+      provider: LLMProviderId;
+      model: string;
+      template?: string;          // Built-in prompt template used, as `id@version`
+    }
+  | { type: 'error'; error: string };
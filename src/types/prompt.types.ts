@@ -0,0 +1,24 @@
+// Versioned prompt templates shared by the API route and the client-side prompt builder
+
+export type PromptTemplateId =
+  | 'action.explain'
+  | 'action.optimize'
+  | 'action.generate'
+  | 'action.fix'
+  | 'action.edit'
+  | 'builder.explain'
+  | 'builder.optimize'
+  | 'project-rules';
+
+export interface PromptTemplate {
+  id: PromptTemplateId;
+  version: number;          // Bump whenever the wording changes, so responses can be traced to it
+  description: string;
+  // {{name}} is replaced by a variable; {{#name}}...{{/name}} is kept only when it is non-empty
+  template: string;
+}
+
+export type PromptVariables = Record<string, string | number | undefined>;
+
+// Workspace wording that replaces built-in templates, from .webagent/templates/<id>.md
+export type PromptTemplateOverrides = Partial<Record<PromptTemplateId, string>>;
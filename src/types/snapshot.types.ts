@@ -0,0 +1,14 @@
+// Local file snapshots taken before AI edits (persisted in IndexedDB)
+
+import type { AIEditOrigin } from './llm.types';
+
+// File content as it was right before an AI edit was applied
+export interface FileSnapshot {
+  id?: number;                  // Assigned by IndexedDB
+  workspace: string;
+  path: string;
+  content: string;
+  label: string;                // Which edit replaced this content
+  origin: AIEditOrigin | null;  // Prompt and model, when the edit came from a chat request
+  timestamp: number;
+}
@@ -0,0 +1,23 @@
+// Workspace symbol index records (persisted in IndexedDB)
+
+import type { CodeContext, CodeSymbol } from '@/lib/codeParser';
+
+// One parsed file; lastModified/size decide whether it needs re-parsing
+export interface IndexedFile {
+  workspace: string;
+  path: string;
+  version: number;          // Shape of `context` when it was parsed; older records are re-parsed
+  lastModified: number;
+  size: number;
+  context: CodeContext;
+}
+
+// A symbol together with the file that declares it
+export interface IndexedSymbol extends CodeSymbol {
+  filePath: string;
+}
+
+export interface SymbolIndexStats {
+  files: number;
+  symbols: number;
+}
@@ -1,5 +1,6 @@
 import * as monaco from 'monaco-editor';
 import { TextEdit, PendingEdit } from '@/types/editor.types';
+import { EditParser } from '@/lib/editParser';
 
 /**
  * Apply a single text edit to Monaco Editor
@@ -122,81 +123,12 @@ export function clearHighlights(
  * Parse unified diff format to TextEdit array
  */
 export function parseUnifiedDiff(diffText: string, content: string): TextEdit[] {
-  const edits: TextEdit[] = [];
-  
-  // Match @@ -startLine,count +startLine,count @@ pattern
-  const hunkRegex = /@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/g;
-  const chunks = diffText.split(hunkRegex);
-  
-  for (let i = 1; i < chunks.length; i += 5) {
-    const oldStart = parseInt(chunks[i]);
-    const oldCount = parseInt(chunks[i + 1] || '1');
-    const diffContent = chunks[i + 4];
-    
-    const oldLines: string[] = [];
-    const newLines: string[] = [];
-    
-    diffContent.split('\n').forEach(line => {
-      if (line.startsWith('-')) {
-        oldLines.push(line.substring(1));
-      } else if (line.startsWith('+')) {
-        newLines.push(line.substring(1));
-      }
-    });
-    
-    if (oldLines.length > 0 || newLines.length > 0) {
-      edits.push({
-        startLine: oldStart,
-        endLine: oldStart + oldCount - 1,
-        oldText: oldLines.join('\n'),
-        newText: newLines.join('\n')
-      });
-    }
-  }
-  
-  return edits;
+  return EditParser.parse(diffText, content, { formats: ['unified-diff'] }).edits;
 }
 
 /**
  * Parse SEARCH/REPLACE blocks to TextEdit array
  */
 export function parseSearchReplace(text: string, content: string): TextEdit[] {
-  const edits: TextEdit[] = [];
-  const pattern = /<<<<<<< SEARCH\n([\s\S]*?)\n=======\n([\s\S]*?)\n>>>>>>> REPLACE/g;
-  const lines = content.split('\n');
-  
-  let match;
-  while ((match = pattern.exec(text)) !== null) {
-    const searchText = match[1].trim();
-    const replaceText = match[2].trim();
-    
-    // Find the search text in content
-    const searchLines = searchText.split('\n');
-    let startLine = -1;
-    
-    for (let i = 0; i < lines.length; i++) {
-      let found = true;
-      for (let j = 0; j < searchLines.length; j++) {
-        if (i + j >= lines.length || lines[i + j].trim() !== searchLines[j].trim()) {
-          found = false;
-          break;
-        }
-      }
-      if (found) {
-        startLine = i + 1; // 1-indexed
-        break;
-      }
-    }
-    
-    if (startLine > 0) {
-      edits.push({
-        startLine,
-        endLine: startLine + searchLines.length - 1,
-        oldText: searchText,
-        newText: replaceText
-      });
-    }
-  }
-  
-  return edits;
+  return EditParser.parse(text, content, { formats: ['search-replace'] }).edits;
 }
@@ -1,13 +1,24 @@
 // IndexedDB utilities for storing FileSystemDirectoryHandle
 
+import { LLMSettings } from '@/types/llm.types';
+import { OpenTabsState } from '@/types/editor.types';
+import { IndexedFile } from '@/types/symbol.types';
+import { FileSnapshot } from '@/types/snapshot.types';
+import { ChatSession } from '@/types/chat.types';
+
 const DB_NAME = 'code-editor-db';
+const DB_VERSION = 4;
 const STORE_NAME = 'directory-handles';
 const HANDLE_KEY = 'last-directory';
+const SYMBOL_STORE = 'symbol-index';
+const SNAPSHOT_STORE = 'file-snapshots';
+const MAX_SNAPSHOTS_PER_FILE = 50;
+const CHAT_STORE = 'chat-sessions';
 
 // Open IndexedDB
 const openDB = (): Promise<IDBDatabase> => {
   return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, 1);
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
     
     request.onerror = () => reject(request.error);
     request.onsuccess = () => resolve(request.result);
@@ -17,6 +28,18 @@ const openDB = (): Promise<IDBDatabase> => {
       if (!db.objectStoreNames.contains(STORE_NAME)) {
         db.createObjectStore(STORE_NAME);
       }
+      if (!db.objectStoreNames.contains(SYMBOL_STORE)) {
+        const symbolStore = db.createObjectStore(SYMBOL_STORE, { keyPath: ['workspace', 'path'] });
+        symbolStore.createIndex('workspace', 'workspace');
+      }
+      if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+        const snapshotStore = db.createObjectStore(SNAPSHOT_STORE, { keyPath: 'id', autoIncrement: true });
+        snapshotStore.createIndex('file', ['workspace', 'path']);
+      }
+      if (!db.objectStoreNames.contains(CHAT_STORE)) {
+        const chatStore = db.createObjectStore(CHAT_STORE, { keyPath: 'id' });
+        chatStore.createIndex('workspace', 'workspace');
+      }
     };
   });
 };
@@ -92,3 +115,189 @@ export const clearDirectoryHandle = async (): Promise<void> => {
     throw error;
   }
 };
+
+// Load every indexed file recorded for a workspace
+export const loadIndexedFiles = async (workspace: string): Promise<IndexedFile[]> => {
+  try {
+    const db = await openDB();
+    const transaction = db.transaction(SYMBOL_STORE, 'readonly');
+    const index = transaction.objectStore(SYMBOL_STORE).index('workspace');
+    
+    return new Promise((resolve, reject) => {
+      const request = index.getAll(workspace);
+      request.onsuccess = () => resolve(request.result || []);
+      request.onerror = () => reject(request.error);
+    });
+  } catch (error) {
+    console.error('Failed to load symbol index:', error);
+    return [];
+  }
+};
+
+// Write re-parsed files and drop deleted ones in a single transaction
+export const updateIndexedFiles = async (
+  workspace: string,
+  updated: IndexedFile[],
+  removedPaths: string[] = []
+): Promise<void> => {
+  if (updated.length === 0 && removedPaths.length === 0) return;
+
+  try {
+    const db = await openDB();
+    const transaction = db.transaction(SYMBOL_STORE, 'readwrite');
+    const store = transaction.objectStore(SYMBOL_STORE);
+    
+    updated.forEach((file) => store.put(file));
+    removedPaths.forEach((path) => store.delete([workspace, path]));
+    
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } catch (error) {
+    console.error('Failed to update symbol index:', error);
+  }
+};
+
+// Store a snapshot unless it repeats the file's latest one; the oldest beyond the limit are dropped
+export const saveFileSnapshot = async (snapshot: FileSnapshot): Promise<void> => {
+  try {
+    const db = await openDB();
+    const transaction = db.transaction(SNAPSHOT_STORE, 'readwrite');
+    const store = transaction.objectStore(SNAPSHOT_STORE);
+    const request = store.index('file').getAll([snapshot.workspace, snapshot.path]);
+
+    request.onsuccess = () => {
+      // Ids grow with insertion order, so the index returns oldest first
+      const existing: FileSnapshot[] = request.result || [];
+      if (existing[existing.length - 1]?.content === snapshot.content) return;
+
+      store.add(snapshot);
+      existing
+        .slice(0, Math.max(0, existing.length + 1 - MAX_SNAPSHOTS_PER_FILE))
+        .forEach((old) => store.delete(old.id!));
+    };
+
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } catch (error) {
+    console.error('Failed to save file snapshot:', error);
+  }
+};
+
+// Load a file's snapshots, newest first
+export const loadFileSnapshots = async (workspace: string, path: string): Promise<FileSnapshot[]> => {
+  try {
+    const db = await openDB();
+    const transaction = db.transaction(SNAPSHOT_STORE, 'readonly');
+    const index = transaction.objectStore(SNAPSHOT_STORE).index('file');
+    
+    return new Promise((resolve, reject) => {
+      const request = index.getAll([workspace, path]);
+      request.onsuccess = () => resolve((request.result || []).reverse());
+      request.onerror = () => reject(request.error);
+    });
+  } catch (error) {
+    console.error('Failed to load file snapshots:', error);
+    return [];
+  }
+};
+
+// Insert or replace a chat session
+export const saveChatSession = async (session: ChatSession): Promise<void> => {
+  try {
+    const db = await openDB();
+    const transaction = db.transaction(CHAT_STORE, 'readwrite');
+    transaction.objectStore(CHAT_STORE).put(session);
+
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } catch (error) {
+    console.error('Failed to save chat session:', error);
+  }
+};
+
+// Load a workspace's chat sessions, most recently updated first
+export const loadChatSessions = async (workspace: string): Promise<ChatSession[]> => {
+  try {
+    const db = await openDB();
+    const transaction = db.transaction(CHAT_STORE, 'readonly');
+    const index = transaction.objectStore(CHAT_STORE).index('workspace');
+
+    return new Promise((resolve, reject) => {
+      const request = index.getAll(workspace);
+      request.onsuccess = () =>
+        resolve(((request.result || []) as ChatSession[]).sort((a, b) => b.updatedAt - a.updatedAt));
+      request.onerror = () => reject(request.error);
+    });
+  } catch (error) {
+    console.error('Failed to load chat sessions:', error);
+    return [];
+  }
+};
+
+// Delete a chat session
+export const deleteChatSession = async (id: string): Promise<void> => {
+  try {
+    const db = await openDB();
+    const transaction = db.transaction(CHAT_STORE, 'readwrite');
+    transaction.objectStore(CHAT_STORE).delete(id);
+
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } catch (error) {
+    console.error('Failed to delete chat session:', error);
+  }
+};
+
+// LLM provider settings are small and synchronous to read, so they live in localStorage
+const LLM_SETTINGS_PREFIX = 'llm-settings:';
+
+// Save provider/model selection for a workspace
+export const saveLLMSettings = (workspace: string, settings: LLMSettings): void => {
+  try {
+    localStorage.setItem(LLM_SETTINGS_PREFIX + workspace, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Failed to save LLM settings:', error);
+  }
+};
+
+// Load provider/model selection for a workspace
+export const loadLLMSettings = (workspace: string): LLMSettings | null => {
+  try {
+    const raw = localStorage.getItem(LLM_SETTINGS_PREFIX + workspace);
+    return raw ? (JSON.parse(raw) as LLMSettings) : null;
+  } catch (error) {
+    console.error('Failed to load LLM settings:', error);
+    return null;
+  }
+};
+
+// Open tabs (paths, active tab, cursor/scroll) are also per workspace; unsaved content is not kept
+const OPEN_TABS_PREFIX = 'open-tabs:';
+
+// Save the open tab set for a workspace
+export const saveOpenTabs = (workspace: string, state: OpenTabsState): void => {
+  try {
+    localStorage.setItem(OPEN_TABS_PREFIX + workspace, JSON.stringify(state));
+  } catch (error) {
+    console.error('Failed to save open tabs:', error);
+  }
+};
+
+// Load the open tab set for a workspace
+export const loadOpenTabs = (workspace: string): OpenTabsState | null => {
+  try {
+    const raw = localStorage.getItem(OPEN_TABS_PREFIX + workspace);
+    return raw ? (JSON.parse(raw) as OpenTabsState) : null;
+  } catch (error) {
+    console.error('Failed to load open tabs:', error);
+    return null;
+  }
+};